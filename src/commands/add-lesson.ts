@@ -3,8 +3,9 @@
  */
 
 import chalk from "chalk";
-import { getCourse, addLesson, getLessons, getModules } from "../lib/database";
-import { detectBloomLevel } from "../types";
+import { getCourse, addLesson, getModules, nextLessonId } from "../lib/database";
+import { analyzeBloomVerb, BLOOM_LEVELS } from "../lib/bloom";
+import { loadBloomVocabulary } from "../lib/bloom-vocabularies";
 
 interface AddLessonOptions {
   objective?: string;
@@ -40,25 +41,25 @@ export async function addLessonCommand(
     process.exit(1);
   }
 
-  // Get existing lessons to determine next ID
-  const lessons = getLessons(courseId, moduleId);
-  const nextNum = lessons.length + 1;
-  const lessonId = `L${nextNum}`;
+  const lessonId = nextLessonId(courseId, moduleId);
 
   // Check Bloom's verb if objective provided
   if (options.objective) {
-    const bloomLevel = detectBloomLevel(options.objective);
-    if (!bloomLevel) {
+    const vocabulary = await loadBloomVocabulary(course);
+    const bloom = analyzeBloomVerb(options.objective, vocabulary);
+    if (bloom.vague) {
+      console.log(chalk.yellow(`"${bloom.verb}" is not measurable; say what learners will do instead.`));
+    }
+    if (!bloom.level) {
       console.log(chalk.yellow("Tip: Include a Bloom's Taxonomy verb in your objective:"));
-      console.log("  Remember: list, define, recall");
-      console.log("  Understand: explain, describe, summarize");
-      console.log("  Apply: use, demonstrate, implement");
-      console.log("  Analyze: compare, differentiate, examine");
-      console.log("  Evaluate: assess, critique, justify");
-      console.log("  Create: design, build, construct");
+      for (const level of BLOOM_LEVELS) {
+        const label = level.charAt(0).toUpperCase() + level.slice(1);
+        console.log(`  ${label}: ${vocabulary.verbs[level].slice(0, 3).join(", ")}`);
+      }
       console.log("");
     } else {
-      console.log(chalk.dim(`Bloom level detected: ${bloomLevel}`));
+      const alternatives = bloom.candidates.length > 1 ? ` (also ${bloom.candidates.slice(1).join(", ")})` : "";
+      console.log(chalk.dim(`Bloom level detected: ${bloom.level}${alternatives}`));
     }
   }
 
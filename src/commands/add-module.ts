@@ -3,7 +3,7 @@
  */
 
 import chalk from "chalk";
-import { getCourse, addModule, getModules } from "../lib/database";
+import { getCourse, addModule, nextModuleId } from "../lib/database";
 
 interface AddModuleOptions {
   objective?: string;
@@ -21,10 +21,7 @@ export async function addModuleCommand(
     process.exit(1);
   }
 
-  // Get existing modules to determine next ID
-  const modules = getModules(courseId);
-  const nextNum = modules.length + 1;
-  const moduleId = `M${nextNum}`;
+  const moduleId = nextModuleId(courseId);
 
   addModule(courseId, moduleId, name, options.objective);
 
@@ -0,0 +1,139 @@
+/**
+ * alignment command - Objective coverage matrix and alignment report
+ */
+
+import chalk from "chalk";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import {
+  buildAlignment,
+  type AlignmentModule,
+  type AlignmentReport,
+} from "../lib/alignment";
+import type { BloomVocabulary } from "../lib/bloom";
+import { loadBloomVocabulary } from "../lib/bloom-vocabularies";
+import {
+  getCourse,
+  getLessons,
+  getModules,
+  getObjectives,
+  getQuizQuestions,
+} from "../lib/database";
+import { parseDefine } from "../lib/define-parser";
+import type { LearningObjective } from "../types";
+
+interface AlignmentOptions {
+  json?: boolean;
+}
+
+export async function alignmentCommand(
+  courseId: string,
+  options: AlignmentOptions
+): Promise<void> {
+  const course = getCourse(courseId);
+
+  if (!course) {
+    console.log(chalk.red(`Course not found: ${courseId}`));
+    process.exit(1);
+  }
+
+  const vocabulary = await loadBloomVocabulary(course);
+  const objectives = loadObjectives(courseId, course.coursePath || "", vocabulary);
+  if (objectives.length === 0) {
+    console.log(chalk.yellow("No course objectives found."));
+    console.log(`Write them in define.md and run ${chalk.cyan(`coursekit define ${courseId} --import`)}`);
+    process.exit(1);
+  }
+
+  const modules: AlignmentModule[] = getModules(courseId).map((module) => ({
+    ...module,
+    lessons: getLessons(courseId, module.id),
+  }));
+  const questions = modules.flatMap((m) => getQuizQuestions(courseId, m.id));
+
+  const report = buildAlignment(courseId, objectives, modules, questions, vocabulary);
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  displayReport(course.name, report);
+}
+
+/**
+ * Stored objectives, or parsed straight from define.md if not imported yet.
+ */
+function loadObjectives(
+  courseId: string,
+  coursePath: string,
+  vocabulary: BloomVocabulary
+): LearningObjective[] {
+  const stored = getObjectives(courseId);
+  if (stored.length > 0) {
+    return stored;
+  }
+
+  const definePath = join(coursePath, "define.md");
+  if (!existsSync(definePath)) {
+    return [];
+  }
+  return parseDefine(readFileSync(definePath, "utf-8"), courseId, vocabulary).definition
+    .objectives;
+}
+
+function displayReport(courseName: string, report: AlignmentReport): void {
+  console.log("");
+  console.log(chalk.bold(`Alignment: ${courseName}`));
+  console.log("─".repeat(60));
+  console.log("");
+
+  console.log(
+    chalk.dim(`  ${"ID".padEnd(5)}${"Bloom".padEnd(12)}${"Lessons".padEnd(28)}Assessment`)
+  );
+
+  for (const objective of report.objectives) {
+    const lessons = objective.lessons.length > 0
+      ? objective.lessons.map((l) => `${l.path}${l.match === "inferred" ? "~" : ""}`).join(", ")
+      : chalk.red("none");
+    const assessment = objective.assessments.length > 0
+      ? objective.assessments.join("; ")
+      : chalk.red("none");
+
+    console.log(
+      `  ${chalk.cyan(objective.id.padEnd(5))}${(objective.bloomLevel ?? "-").padEnd(12)}${padVisible(lessons, 28)}${assessment}`
+    );
+    console.log(chalk.dim(`       ${objective.text}`));
+  }
+
+  if (report.objectives.some((o) => o.lessons.some((l) => l.match === "inferred"))) {
+    console.log("");
+    console.log(chalk.dim("  ~ inferred from shared terms; add the objective ID (e.g. \"(O2)\") to the lesson objective to make it explicit"));
+  }
+
+  console.log("");
+
+  if (report.aligned) {
+    console.log(chalk.green("Every objective is taught and assessed, and every lesson serves an objective."));
+    console.log("");
+    return;
+  }
+
+  console.log(chalk.bold("Gaps"));
+  if (report.uncoveredObjectives.length > 0) {
+    console.log(`  ${chalk.red("✗")} Objectives with no lessons: ${report.uncoveredObjectives.join(", ")}`);
+  }
+  if (report.unassessedObjectives.length > 0) {
+    console.log(`  ${chalk.red("✗")} Objectives with no assessment: ${report.unassessedObjectives.join(", ")}`);
+  }
+  if (report.orphanLessons.length > 0) {
+    console.log(`  ${chalk.yellow("!")} Lessons serving no objective: ${report.orphanLessons.join(", ")}`);
+  }
+  console.log("");
+}
+
+/** Pad to a visible width, ignoring ANSI color codes */
+function padVisible(text: string, width: number): string {
+  const visible = text.replace(/\x1b\[[0-9;]*m/g, "").length;
+  return text + " ".repeat(Math.max(1, width - visible));
+}
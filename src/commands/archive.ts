@@ -0,0 +1,46 @@
+/**
+ * archive command - Archive and restore courses
+ */
+
+import chalk from "chalk";
+import { archiveCourse, getCourse, unarchiveCourse } from "../lib/database";
+
+export async function archiveCommand(courseId: string): Promise<void> {
+  const course = getCourse(courseId);
+
+  if (!course) {
+    console.log(chalk.red(`Course not found: ${courseId}`));
+    process.exit(1);
+  }
+
+  if (course.status === "archived") {
+    console.log(chalk.yellow(`${courseId} is already archived.`));
+    return;
+  }
+
+  archiveCourse(courseId);
+
+  console.log(chalk.green(`Archived ${courseId}: ${course.name}`));
+  console.log(chalk.dim(`  Was ${course.status}; files and records are kept.`));
+  console.log("");
+  console.log(`Hidden from ${chalk.cyan("coursekit status")}; list with ${chalk.cyan("coursekit status --status archived")}`);
+  console.log(`Restore with: ${chalk.cyan(`coursekit unarchive ${courseId}`)}`);
+}
+
+export async function unarchiveCommand(courseId: string): Promise<void> {
+  const course = getCourse(courseId);
+
+  if (!course) {
+    console.log(chalk.red(`Course not found: ${courseId}`));
+    process.exit(1);
+  }
+
+  if (course.status !== "archived") {
+    console.log(chalk.yellow(`${courseId} is not archived (status: ${course.status}).`));
+    return;
+  }
+
+  const status = unarchiveCourse(courseId);
+  console.log(chalk.green(`Restored ${courseId}: ${course.name}`));
+  console.log(`  Status: ${status}`);
+}
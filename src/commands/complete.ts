@@ -3,10 +3,18 @@
  */
 
 import chalk from "chalk";
-import { existsSync } from "fs";
-import { join } from "path";
 import { getCourse, updateCoursePhase, updateCourseStatus } from "../lib/database";
-import type { CoursePhase } from "../types";
+import {
+  loadPhaseValidationInput,
+  validatePhase,
+  VALIDATED_PHASES,
+  type PhaseValidationInput,
+  type PhaseValidationResult,
+} from "../lib/phase-validation";
+import type { CoursePhase, CourseStatus } from "../types";
+
+/** Statuses a phase can reach, lowest first; completing a phase never moves a course back */
+const STATUS_ORDER: CourseStatus[] = ["draft", "in_progress", "ready", "launched"];
 
 interface CompleteOptions {
   phase?: string;
@@ -24,9 +32,17 @@ export async function completeCommand(
     process.exit(1);
   }
 
+  if (course.status === "archived") {
+    console.log(chalk.yellow(`${courseId} is archived.`));
+    console.log(`Restore it first: ${chalk.cyan(`coursekit unarchive ${courseId}`)}`);
+    return;
+  }
+
+  const input = await loadPhaseValidationInput(course);
+
   if (options.phase) {
     // Complete a specific phase
-    completePhase(courseId, options.phase as CoursePhase, course.coursePath, options.force);
+    completePhase(courseId, course.status, options.phase as CoursePhase, input, options.force);
   } else {
     // Complete entire course (must be in produce phase)
     if (course.phase !== "produce" && !options.force) {
@@ -36,18 +52,20 @@ export async function completeCommand(
     }
 
     // Validate all phases
-    const phases: CoursePhase[] = ["define", "design", "develop", "produce"];
     let allValid = true;
 
-    for (const phase of phases) {
-      const valid = validatePhase(phase, course.coursePath);
-      if (!valid && !options.force) {
-        console.log(chalk.red(`Phase ${phase} not complete.`));
-        allValid = false;
+    if (!options.force) {
+      for (const phase of VALIDATED_PHASES) {
+        const result = validatePhase(phase, input);
+        if (!result.valid) {
+          console.log(chalk.red(`Phase ${phase} not complete.`));
+          printIssues(result);
+          allValid = false;
+        }
       }
     }
 
-    if (!allValid && !options.force) {
+    if (!allValid) {
       console.log("");
       console.log(chalk.yellow("Complete all phases before launching."));
       return;
@@ -71,23 +89,26 @@ export async function completeCommand(
 
 function completePhase(
   courseId: string,
+  currentStatus: CourseStatus,
   phase: CoursePhase,
-  coursePath: string | null,
+  input: PhaseValidationInput,
   force?: boolean
 ): void {
-  const validPhases: CoursePhase[] = ["define", "design", "develop", "produce"];
-
-  if (!validPhases.includes(phase)) {
+  if (!VALIDATED_PHASES.includes(phase)) {
     console.log(chalk.red(`Invalid phase: ${phase}`));
-    console.log(`Valid phases: ${validPhases.join(", ")}`);
+    console.log(`Valid phases: ${VALIDATED_PHASES.join(", ")}`);
     process.exit(1);
   }
 
   // Validate phase
+  let validated = false;
   if (!force) {
-    const valid = validatePhase(phase, coursePath);
-    if (!valid) {
+    const result = validatePhase(phase, input);
+    validated = result.valid;
+    if (!result.valid) {
       console.log(chalk.red(`Phase ${phase} validation failed.`));
+      printIssues(result);
+      console.log("");
       console.log(`Use ${chalk.cyan("--force")} to bypass.`);
       return;
     }
@@ -98,10 +119,18 @@ function completePhase(
   const currentIndex = phaseOrder.indexOf(phase);
   const nextPhase = phaseOrder[currentIndex + 1] || "launch";
 
+  // A course whose production checks pass is ready to launch; a ready or
+  // launched course keeps its status when an earlier phase is revisited
+  const earned: CourseStatus = phase === "produce" && validated ? "ready" : "in_progress";
+  const status =
+    STATUS_ORDER.indexOf(currentStatus) > STATUS_ORDER.indexOf(earned) ? currentStatus : earned;
   updateCoursePhase(courseId, phase);
-  updateCourseStatus(courseId, "in_progress");
+  updateCourseStatus(courseId, status);
 
   console.log(chalk.green(`Completed phase: ${phase.toUpperCase()}`));
+  if (status !== "in_progress") {
+    console.log(`Course status: ${chalk.cyan(status)}`);
+  }
   console.log("");
 
   if (nextPhase !== "launch") {
@@ -111,19 +140,8 @@ function completePhase(
   }
 }
 
-function validatePhase(phase: CoursePhase, coursePath: string | null): boolean {
-  if (!coursePath) return false;
-
-  switch (phase) {
-    case "define":
-      return existsSync(join(coursePath, "define.md"));
-    case "design":
-      return existsSync(join(coursePath, "design.md"));
-    case "develop":
-      return existsSync(join(coursePath, "develop.md"));
-    case "produce":
-      return existsSync(join(coursePath, "produce.md"));
-    default:
-      return true;
+function printIssues(result: PhaseValidationResult): void {
+  for (const issue of result.issues) {
+    console.log(chalk.dim(`    ${issue}`));
   }
 }
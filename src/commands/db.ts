@@ -0,0 +1,126 @@
+/**
+ * db command - Database maintenance (schema migrations)
+ */
+
+import chalk from "chalk";
+import { findDatabase, getDatabase } from "../lib/database";
+import {
+  getMigrationStatus,
+  MigrationError,
+  runMigrations,
+  type MigrationStatus,
+} from "../lib/migrations";
+
+interface DbMigrateOptions {
+  status?: boolean;
+  json?: boolean;
+}
+
+export async function dbMigrateCommand(options: DbMigrateOptions): Promise<void> {
+  const dbPath = findDatabase();
+  if (!dbPath) {
+    console.log(chalk.yellow("No CourseKit project found."));
+    console.log(`Run ${chalk.cyan("coursekit init <name>")} to create one.`);
+    process.exit(1);
+  }
+
+  // Open without the automatic upgrade so pending migrations can be shown
+  const database = getDatabase(false, false);
+
+  if (options.status) {
+    const status = getMigrationStatus(database);
+    if (options.json) {
+      console.log(JSON.stringify({ database: dbPath, ...status }, null, 2));
+      return;
+    }
+    displayStatus(dbPath, status);
+    return;
+  }
+
+  let result: ReturnType<typeof runMigrations>;
+  try {
+    result = runMigrations(database, { dbPath });
+  } catch (error) {
+    if (error instanceof MigrationError) {
+      console.log(chalk.red(error.message));
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  const status = getMigrationStatus(database);
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        {
+          database: dbPath,
+          applied: result.applied.map(({ version, name }) => ({ version, name })),
+          backupPath: result.backupPath,
+          currentVersion: status.currentVersion,
+        },
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  console.log("");
+  if (result.applied.length === 0) {
+    console.log(chalk.green(`Database is up to date (schema version ${status.currentVersion}).`));
+  } else {
+    if (result.backupPath) {
+      console.log(chalk.dim(`Backup: ${result.backupPath}`));
+    }
+    for (const migration of result.applied) {
+      console.log(`  ${chalk.green("✓")} ${migration.version}: ${migration.name}`);
+    }
+    console.log("");
+    console.log(chalk.green(`Migrated to schema version ${status.currentVersion}.`));
+  }
+  warnIfNewer(status);
+  console.log("");
+}
+
+function displayStatus(dbPath: string, status: MigrationStatus): void {
+  console.log("");
+  console.log(chalk.bold("Schema Migrations"));
+  console.log("─".repeat(60));
+  console.log(chalk.dim(`  ${dbPath}`));
+  console.log("");
+
+  for (const migration of status.applied) {
+    console.log(
+      `  ${chalk.green("✓")} ${String(migration.version).padEnd(4)}${migration.name.padEnd(30)}${chalk.dim(migration.appliedAt)}`
+    );
+  }
+  for (const migration of status.pending) {
+    console.log(
+      `  ${chalk.yellow("○")} ${String(migration.version).padEnd(4)}${migration.name.padEnd(30)}${chalk.yellow("pending")}`
+    );
+  }
+  console.log("");
+
+  console.log(`  Current version: ${chalk.cyan(status.currentVersion)}`);
+  console.log(`  Latest version:  ${chalk.cyan(status.latestVersion)}`);
+  console.log("");
+
+  if (status.pending.length > 0) {
+    console.log(
+      `Run ${chalk.cyan("coursekit db migrate")} to apply ${status.pending.length} pending migration${status.pending.length === 1 ? "" : "s"} (any CourseKit command also applies them).`
+    );
+    console.log("");
+  }
+  warnIfNewer(status);
+}
+
+function warnIfNewer(status: MigrationStatus): void {
+  if (status.unknown.length > 0) {
+    console.log(
+      chalk.yellow(
+        `Database has migrations this CourseKit does not know (${status.unknown.join(", ")}); it was upgraded by a newer version.`
+      )
+    );
+  }
+}
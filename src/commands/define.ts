@@ -3,11 +3,27 @@
  */
 
 import chalk from "chalk";
-import { getCourse, updateCoursePhase } from "../lib/database";
-import { BLOOM_VERBS } from "../types";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import {
+  getCourse,
+  replaceObjectives,
+  updateCourseLanguage,
+  updateCoursePhase,
+} from "../lib/database";
+import { parseDefine } from "../lib/define-parser";
+import { formatParseError } from "../lib/markdown-sections";
+import { runDocument, type DocumentRunResult } from "../lib/llm-provider";
+import { TEMPLATE_MARKER } from "../lib/course-scaffold";
+import { BLOOM_LEVELS, type BloomVocabulary } from "../lib/bloom";
+import { LANGUAGE_CODE_PATTERN, loadBloomVocabulary } from "../lib/bloom-vocabularies";
 
 interface DefineOptions {
   dryRun?: boolean;
+  run?: boolean;
+  force?: boolean;
+  import?: boolean;
+  language?: string;
 }
 
 export async function defineCommand(
@@ -21,6 +37,24 @@ export async function defineCommand(
     process.exit(1);
   }
 
+  if (options.language) {
+    const language = options.language.toLowerCase();
+    if (!LANGUAGE_CODE_PATTERN.test(language)) {
+      console.log(chalk.red(`Invalid language: ${options.language}. Use a code like 'en' or 'de'.`));
+      process.exit(1);
+    }
+    updateCourseLanguage(courseId, language);
+    course.language = language;
+    console.log(chalk.green(`Course language set to ${language}`));
+  }
+
+  const vocabulary = await loadBloomVocabulary(course);
+
+  if (options.import) {
+    importDefinition(courseId, join(course.coursePath || "", "define.md"), vocabulary);
+    return;
+  }
+
   if (options.dryRun) {
     console.log(chalk.blue("Dry run - would execute DEFINE phase"));
     console.log("");
@@ -39,36 +73,134 @@ export async function defineCommand(
   console.log("─".repeat(60));
   console.log("");
 
+  // Run the prompt through the configured LLM provider
+  if (options.run) {
+    const target = join(course.coursePath || "", "define.md");
+
+    let result: DocumentRunResult;
+    try {
+      result = await runDocument(
+        {
+          task: "define",
+          prompt: generateDefinePrompt(course.id, course.name, course.context, vocabulary),
+        },
+        {
+          target,
+          force: options.force,
+          // init writes a template; anything else is the author's work
+          keepExisting: (content) => !content.includes(TEMPLATE_MARKER),
+          onStart: (provider) =>
+            console.log(chalk.blue(`Generating define.md with ${provider.name}...`)),
+        }
+      );
+    } catch (error) {
+      console.log(chalk.red(`LLM run failed: ${(error as Error).message}`));
+      process.exit(1);
+    }
+
+    if (result.status === "kept") {
+      console.log(chalk.yellow(`${target} already has content.`));
+      console.log(`Use ${chalk.cyan("--force")} to overwrite it.`);
+      return;
+    }
+
+    updateCoursePhase(courseId, "define");
+
+    console.log(chalk.green(`Wrote ${target}`));
+    console.log("");
+    console.log(chalk.yellow("Next steps:"));
+    console.log(`  1. Review ${chalk.cyan(target)}`);
+    console.log(`  2. Run ${chalk.cyan(`coursekit define ${courseId} --import`)} to store the objectives`);
+    console.log(`  3. Run ${chalk.cyan(`coursekit complete ${courseId} --phase define`)}`);
+    console.log("");
+    return;
+  }
+
   // Output the prompt for the AI interview
   console.log(chalk.blue("To complete the DEFINE phase, use this prompt with Claude:"));
   console.log("");
   console.log("─".repeat(60));
-  console.log(generateDefinePrompt(course.id, course.name, course.context));
+  console.log(generateDefinePrompt(course.id, course.name, course.context, vocabulary));
   console.log("─".repeat(60));
   console.log("");
 
   // Show Bloom's verbs reference
-  console.log(chalk.bold("Bloom's Taxonomy Verbs Reference:"));
+  console.log(chalk.bold(`Bloom's Taxonomy Verbs Reference (${vocabulary.language}):`));
   console.log("");
-  for (const [level, verbs] of Object.entries(BLOOM_VERBS)) {
+  for (const [level, verbs] of Object.entries(vocabulary.verbs)) {
     console.log(`  ${chalk.cyan(level.toUpperCase())}: ${verbs.slice(0, 5).join(", ")}`);
   }
   console.log("");
 
   console.log(chalk.yellow("After completing the interview:"));
   console.log(`  1. Update ${chalk.cyan(`${course.coursePath}/define.md`)}`);
-  console.log(`  2. Run ${chalk.cyan(`coursekit complete ${courseId} --phase define`)}`);
+  console.log(`  2. Run ${chalk.cyan(`coursekit define ${courseId} --import`)} to store the objectives`);
+  console.log(`  3. Run ${chalk.cyan(`coursekit complete ${courseId} --phase define`)}`);
   console.log("");
 
   // Update phase to indicate we've started
   updateCoursePhase(courseId, "define");
 }
 
+/**
+ * Parse define.md and store its objectives (O1, O2, ...) in the database.
+ */
+function importDefinition(
+  courseId: string,
+  definePath: string,
+  vocabulary: BloomVocabulary
+): void {
+  if (!existsSync(definePath)) {
+    console.log(chalk.red(`define.md not found: ${definePath}`));
+    process.exit(1);
+  }
+
+  const { definition, errors, warnings } = parseDefine(
+    readFileSync(definePath, "utf-8"),
+    courseId,
+    vocabulary
+  );
+
+  if (errors.length > 0) {
+    console.log(chalk.red(`define.md has ${errors.length} problem${errors.length === 1 ? "" : "s"}:`));
+    for (const error of errors) {
+      console.log(`  ${formatParseError(error, definePath)}`);
+    }
+    process.exit(1);
+  }
+
+  for (const warning of warnings) {
+    console.log(chalk.yellow(`  ${formatParseError(warning, definePath)}`));
+  }
+
+  replaceObjectives(courseId, definition.objectives);
+
+  console.log("");
+  console.log(chalk.bold(`Imported ${definition.objectives.length} objectives from define.md`));
+  console.log("─".repeat(60));
+  for (const objective of definition.objectives) {
+    console.log(
+      `  ${chalk.cyan(objective.id.padEnd(4))} ${chalk.dim((objective.bloomLevel ?? "").padEnd(11))} ${objective.text}`
+    );
+    if (objective.assessmentMethod) {
+      console.log(chalk.dim(`       Assessment: ${objective.assessmentMethod}`));
+    }
+  }
+  console.log("");
+}
+
 function generateDefinePrompt(
   courseId: string,
   name: string,
-  context: string
+  context: string,
+  vocabulary: BloomVocabulary
 ): string {
+  const verbHints = BLOOM_LEVELS.map(
+    (level) => `- ${level.charAt(0).toUpperCase()}${level.slice(1)}: ${vocabulary.verbs[level].slice(0, 4).join(", ")}`
+  ).join("\n");
+  const format =
+    vocabulary.verbPosition === "trailing" ? "[specific outcome] [VERB]" : "[VERB] [specific outcome]";
+
   return `
 # CourseKit DEFINE Phase Interview
 
@@ -82,15 +214,10 @@ Please interview me to define:
 - What constraints do they face (time, technical level)?
 
 ## 2. Learning Objectives
-Help me write 3-5 SMART learning objectives using Bloom's Taxonomy verbs:
-- Remember: list, define, recall, identify
-- Understand: explain, summarize, describe
-- Apply: use, demonstrate, implement
-- Analyze: compare, differentiate, examine
-- Evaluate: assess, critique, justify
-- Create: design, build, construct
-
-Format: "By the end of this course, learners will be able to [VERB] [specific outcome]"
+Help me write 3-5 SMART learning objectives using Bloom's Taxonomy verbs (${vocabulary.language}):
+${verbHints}
+
+Format: "By the end of this course, learners will be able to ${format}"
 
 ## 3. Assessment Strategy
 For each objective, what assessment method will verify learning?
@@ -5,10 +5,26 @@
 import chalk from "chalk";
 import { readFileSync, existsSync } from "fs";
 import { join } from "path";
-import { getCourse, updateCoursePhase } from "../lib/database";
+import {
+  getCourse,
+  getLessons,
+  getModules,
+  updateCoursePhase,
+  upsertLesson,
+  upsertModule,
+} from "../lib/database";
+import type { BloomVocabulary } from "../lib/bloom";
+import { loadBloomVocabulary } from "../lib/bloom-vocabularies";
+import { parseDesign } from "../lib/design-parser";
+import { formatParseError } from "../lib/markdown-sections";
+import { runDocument, type DocumentRunResult } from "../lib/llm-provider";
+import { TEMPLATE_MARKER } from "../lib/course-scaffold";
 
 interface DesignOptions {
   dryRun?: boolean;
+  run?: boolean;
+  force?: boolean;
+  import?: boolean;
 }
 
 export async function designCommand(
@@ -22,6 +38,15 @@ export async function designCommand(
     process.exit(1);
   }
 
+  if (options.import) {
+    importDesign(
+      courseId,
+      join(course.coursePath || "", "design.md"),
+      await loadBloomVocabulary(course)
+    );
+    return;
+  }
+
   // Check if DEFINE phase is complete
   if (course.phase === "none") {
     console.log(chalk.yellow("DEFINE phase not started."));
@@ -55,6 +80,49 @@ export async function designCommand(
     defineContent = readFileSync(definePath, "utf-8");
   }
 
+  // Run the prompt through the configured LLM provider
+  if (options.run) {
+    const target = join(course.coursePath || "", "design.md");
+
+    let result: DocumentRunResult;
+    try {
+      result = await runDocument(
+        {
+          task: "design",
+          prompt: generateDesignPrompt(course.id, course.name, course.context, defineContent),
+        },
+        {
+          target,
+          force: options.force,
+          // init writes a template; anything else is the author's work
+          keepExisting: (content) => !content.includes(TEMPLATE_MARKER),
+          onStart: (provider) =>
+            console.log(chalk.blue(`Generating design.md with ${provider.name}...`)),
+        }
+      );
+    } catch (error) {
+      console.log(chalk.red(`LLM run failed: ${(error as Error).message}`));
+      process.exit(1);
+    }
+
+    if (result.status === "kept") {
+      console.log(chalk.yellow(`${target} already has content.`));
+      console.log(`Use ${chalk.cyan("--force")} to overwrite it.`);
+      return;
+    }
+
+    updateCoursePhase(courseId, "design");
+
+    console.log(chalk.green(`Wrote ${target}`));
+    console.log("");
+    console.log(chalk.yellow("Next steps:"));
+    console.log(`  1. Review ${chalk.cyan(target)}`);
+    console.log(`  2. Run ${chalk.cyan(`coursekit design ${courseId} --import`)} to load modules and lessons`);
+    console.log(`  3. Run ${chalk.cyan(`coursekit complete ${courseId} --phase design`)}`);
+    console.log("");
+    return;
+  }
+
   // Output the prompt for the AI
   console.log(chalk.blue("To complete the DESIGN phase, use this prompt with Claude:"));
   console.log("");
@@ -65,13 +133,91 @@ export async function designCommand(
 
   console.log(chalk.yellow("After completing the design:"));
   console.log(`  1. Update ${chalk.cyan(`${course.coursePath}/design.md`)}`);
-  console.log(`  2. Run ${chalk.cyan(`coursekit complete ${courseId} --phase design`)}`);
+  console.log(`  2. Run ${chalk.cyan(`coursekit design ${courseId} --import`)} to load modules and lessons`);
+  console.log(`  3. Run ${chalk.cyan(`coursekit complete ${courseId} --phase design`)}`);
   console.log("");
 
   // Update phase
   updateCoursePhase(courseId, "design");
 }
 
+/**
+ * Parse design.md and upsert its modules and lessons into the database.
+ */
+function importDesign(
+  courseId: string,
+  designPath: string,
+  vocabulary: BloomVocabulary
+): void {
+  if (!existsSync(designPath)) {
+    console.log(chalk.red(`design.md not found: ${designPath}`));
+    process.exit(1);
+  }
+
+  const { design, errors, warnings } = parseDesign(
+    readFileSync(designPath, "utf-8"),
+    courseId,
+    vocabulary
+  );
+
+  if (errors.length > 0) {
+    console.log(chalk.red(`design.md has ${errors.length} problem${errors.length === 1 ? "" : "s"}:`));
+    for (const error of errors) {
+      console.log(`  ${formatParseError(error, designPath)}`);
+    }
+    process.exit(1);
+  }
+
+  for (const warning of warnings) {
+    console.log(chalk.yellow(`  ${formatParseError(warning, designPath)}`));
+  }
+
+  const counts = { modulesCreated: 0, modulesUpdated: 0, lessonsCreated: 0, lessonsUpdated: 0 };
+
+  design.modules.forEach((module, moduleIndex) => {
+    if (upsertModule(courseId, module, moduleIndex + 1)) {
+      counts.modulesCreated++;
+    } else {
+      counts.modulesUpdated++;
+    }
+
+    module.lessons.forEach((lesson, lessonIndex) => {
+      if (upsertLesson(courseId, module.id, lesson, lessonIndex + 1)) {
+        counts.lessonsCreated++;
+      } else {
+        counts.lessonsUpdated++;
+      }
+    });
+  });
+
+  console.log("");
+  console.log(chalk.bold("Imported design.md"));
+  console.log("─".repeat(60));
+  console.log(`  Modules: ${counts.modulesCreated} created, ${counts.modulesUpdated} updated`);
+  console.log(`  Lessons: ${counts.lessonsCreated} created, ${counts.lessonsUpdated} updated`);
+
+  // Rows the import does not touch
+  const stale: string[] = [];
+  for (const module of getModules(courseId)) {
+    const designed = design.modules.find((m) => m.id === module.id);
+    if (!designed) {
+      stale.push(module.id);
+      continue;
+    }
+    for (const lesson of getLessons(courseId, module.id)) {
+      if (!designed.lessons.some((l) => l.id === lesson.id)) {
+        stale.push(`${module.id}/${lesson.id}`);
+      }
+    }
+  }
+
+  if (stale.length > 0) {
+    console.log("");
+    console.log(chalk.yellow(`Not in design.md (left unchanged): ${stale.join(", ")}`));
+  }
+  console.log("");
+}
+
 function generateDesignPrompt(
   courseId: string,
   name: string,
@@ -5,7 +5,21 @@
 import chalk from "chalk";
 import { readFileSync, existsSync, writeFileSync } from "fs";
 import { join } from "path";
-import { getCourse, updateCoursePhase, getModules, getLessons } from "../lib/database";
+import {
+  getCourse,
+  updateCoursePhase,
+  getModules,
+  getLessons,
+  addTasks,
+  getTasks,
+} from "../lib/database";
+import type { BloomVocabulary } from "../lib/bloom";
+import { loadBloomVocabulary } from "../lib/bloom-vocabularies";
+import { parseDesign } from "../lib/design-parser";
+import { planTasks, renderTaskCheckboxes } from "../lib/develop-tasks";
+import { formatParseError } from "../lib/markdown-sections";
+import type { DevelopmentTask } from "../types";
+import { syncTaskChecklist } from "./task";
 
 interface DevelopOptions {
   dryRun?: boolean;
@@ -33,7 +47,7 @@ export async function developCommand(
     console.log(chalk.blue("Dry run - would execute DEVELOP phase"));
     console.log("");
     console.log("This phase will:");
-    console.log("  1. Create development tasks for each lesson");
+    console.log("  1. Create development tasks for each lesson (kept in the database)");
     console.log("  2. Track: script, slides, exercises, assessment");
     console.log("  3. Enable AI-assisted content drafting");
     console.log("");
@@ -53,15 +67,39 @@ export async function developCommand(
     designContent = readFileSync(designPath, "utf-8");
   }
 
+  const modules = loadModules(courseId, designContent, await loadBloomVocabulary(course));
+  if (modules.length === 0) {
+    console.log(chalk.red("No modules found in design.md or the database."));
+    console.log(`Fill in design.md and run ${chalk.cyan(`coursekit design ${courseId} --import`)}`);
+    process.exit(1);
+  }
+
+  // Keep boxes ticked in an existing develop.md before rewriting it
+  const synced = syncTaskChecklist(course);
+  if (synced.length > 0) {
+    console.log(chalk.dim(`Applied ${synced.length} checkbox change${synced.length === 1 ? "" : "s"} from develop.md`));
+  }
+
+  const lessons = modules.flatMap((module) =>
+    module.lessons.map((lesson) => ({ path: `${module.id}/${lesson.id}`, title: lesson.title }))
+  );
+  const existing = getTasks(courseId);
+  const created = planTasks(lessons, existing);
+  addTasks(courseId, created);
+  const tasks = [...existing, ...created];
+
   // Generate develop.md with task tracking
-  const developContent = generateDevelopContent(courseId, designContent);
+  const developContent = generateDevelopContent(courseId, modules, tasks);
   const developPath = join(course.coursePath || "", "develop.md");
   writeFileSync(developPath, developContent);
 
   console.log(chalk.green(`Created: ${developPath}`));
   console.log("");
 
-  console.log(chalk.bold("Development Tasks Created:"));
+  console.log(chalk.bold("Development Tasks:"));
+  console.log("");
+  console.log(`  Created:  ${created.length}`);
+  console.log(`  Existing: ${existing.length}`);
   console.log("");
   console.log("For each lesson, track:");
   console.log("  [ ] Script/outline");
@@ -72,10 +110,14 @@ export async function developCommand(
   console.log("");
 
   console.log(chalk.blue("AI-Assisted Content:"));
-  console.log(`  Use ${chalk.cyan(`coursekit lesson ${courseId}/M1/L1 --draft`)} to draft content`);
+  console.log(`  Use ${chalk.cyan(`coursekit draft ${courseId}/M1/L1`)} to draft content`);
   console.log("");
 
-  console.log(chalk.yellow("Update develop.md as you complete tasks."));
+  console.log(chalk.yellow("Tick boxes in develop.md or update tasks directly:"));
+  console.log(`  ${chalk.cyan(`coursekit task list ${courseId}`)}`);
+  console.log(`  ${chalk.cyan(`coursekit task complete ${courseId}/T1`)}`);
+  console.log(`  ${chalk.cyan(`coursekit task sync ${courseId}`)}  (after editing develop.md)`);
+  console.log("");
   console.log(`When ready: ${chalk.cyan(`coursekit complete ${courseId} --phase develop`)}`);
   console.log("");
 
@@ -83,10 +125,11 @@ export async function developCommand(
   updateCoursePhase(courseId, "develop");
 }
 
-function generateDevelopContent(courseId: string, designContent: string): string {
-  // Parse modules and lessons from design.md (simplified)
-  const modules = extractModulesFromDesign(designContent);
-
+function generateDevelopContent(
+  courseId: string,
+  modules: DevelopModule[],
+  tasks: DevelopmentTask[]
+): string {
   let content = `# Development Tasks: ${courseId}
 
 > Track content creation progress for each lesson.
@@ -111,11 +154,8 @@ function generateDevelopContent(courseId: string, designContent: string): string
       content += `### ${module.id}/${lesson.id}: ${lesson.title}\n\n`;
       content += `**Objective**: ${lesson.objective || "[From design.md]"}\n`;
       content += `**Duration**: ${lesson.duration || "10"} min\n\n`;
-      content += `- [ ] Script\n`;
-      content += `- [ ] Slides\n`;
-      content += `- [ ] Exercise\n`;
-      content += `- [ ] Assessment\n`;
-      content += `- [ ] Support materials\n\n`;
+      content += renderTaskCheckboxes(`${module.id}/${lesson.id}`, tasks);
+      content += "\n";
     }
   }
 
@@ -129,64 +169,35 @@ function generateDevelopContent(courseId: string, designContent: string): string
   return content;
 }
 
-interface ParsedModule {
+interface DevelopModule {
   id: string;
   name: string;
-  lessons: { id: string; title: string; objective?: string; duration?: string }[];
+  lessons: { id: string; title: string; objective: string | null; duration: number }[];
 }
 
-function extractModulesFromDesign(designContent: string): ParsedModule[] {
-  // Simple regex-based extraction (can be enhanced)
-  const modules: ParsedModule[] = [];
-  const moduleRegex = /###\s+(M\d+):\s+(.+)/g;
-  const lessonRegex = /\|\s*(L\d+)\s*\|\s*([^|]+)\s*\|\s*(\d+)\s*min\s*\|\s*([^|]+)\s*\|/g;
-
-  let moduleMatch;
-  let currentModule: ParsedModule | null = null;
-
-  // Find all module headers
-  const lines = designContent.split("\n");
-  for (const line of lines) {
-    const moduleHeaderMatch = line.match(/###\s+(M\d+):\s+(.+)/);
-    if (moduleHeaderMatch) {
-      if (currentModule) {
-        modules.push(currentModule);
-      }
-      currentModule = {
-        id: moduleHeaderMatch[1],
-        name: moduleHeaderMatch[2].trim(),
-        lessons: [],
-      };
+/**
+ * Modules from design.md when it parses cleanly, otherwise from the database.
+ */
+function loadModules(
+  courseId: string,
+  designContent: string,
+  vocabulary: BloomVocabulary
+): DevelopModule[] {
+  if (designContent) {
+    const { design, errors } = parseDesign(designContent, courseId, vocabulary);
+    if (errors.length === 0) {
+      return design.modules;
     }
 
-    if (currentModule) {
-      const lessonMatch = line.match(/\|\s*(L\d+)\s*\|\s*([^|]+)\s*\|\s*(\d+)\s*(?:min)?\s*\|\s*([^|]*)\s*\|/);
-      if (lessonMatch) {
-        currentModule.lessons.push({
-          id: lessonMatch[1],
-          title: lessonMatch[2].trim(),
-          duration: lessonMatch[3],
-          objective: lessonMatch[4]?.trim(),
-        });
-      }
+    console.log(chalk.yellow("design.md could not be parsed, using modules from the database:"));
+    for (const error of errors) {
+      console.log(chalk.dim(`  ${formatParseError(error, "design.md")}`));
     }
+    console.log("");
   }
 
-  if (currentModule) {
-    modules.push(currentModule);
-  }
-
-  // If no modules found, create placeholder
-  if (modules.length === 0) {
-    modules.push({
-      id: "M1",
-      name: "Module 1",
-      lessons: [
-        { id: "L1", title: "Lesson 1", duration: "10" },
-        { id: "L2", title: "Lesson 2", duration: "10" },
-      ],
-    });
-  }
-
-  return modules;
+  return getModules(courseId).map((module) => ({
+    ...module,
+    lessons: getLessons(courseId, module.id),
+  }));
 }
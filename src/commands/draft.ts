@@ -0,0 +1,171 @@
+/**
+ * draft command - Draft lesson content into materials/M1/L2/script.md
+ */
+
+import chalk from "chalk";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import {
+  getCourse,
+  getLessons,
+  getModules,
+  updateLessonStatus,
+} from "../lib/database";
+import {
+  buildDraftPrompt,
+  buildScriptScaffold,
+  countTodoMarkers,
+  isScriptDrafted,
+  scriptPath,
+  type DraftContext,
+} from "../lib/draft";
+import { runDocument, type DocumentRunResult } from "../lib/llm-provider";
+import { detectBloomLevel } from "../lib/bloom";
+import { loadBloomVocabulary } from "../lib/bloom-vocabularies";
+
+interface DraftOptions {
+  force?: boolean;
+  prompt?: boolean;
+  run?: boolean;
+}
+
+export async function draftCommand(
+  path: string,
+  options: DraftOptions = {}
+): Promise<void> {
+  // Parse path: C-001/M1/L2
+  const parts = path.split("/");
+  if (parts.length !== 3) {
+    console.log(chalk.red("Invalid path format. Use: C-001/M1/L2"));
+    process.exit(1);
+  }
+
+  const [courseId, moduleId, lessonId] = parts;
+
+  const course = getCourse(courseId);
+  if (!course) {
+    console.log(chalk.red(`Course not found: ${courseId}`));
+    process.exit(1);
+  }
+
+  const module = getModules(courseId).find((m) => m.id === moduleId);
+  if (!module) {
+    console.log(chalk.red(`Module not found: ${moduleId}`));
+    process.exit(1);
+  }
+
+  const lessons = getLessons(courseId, moduleId);
+  const lesson = lessons.find((l) => l.id === lessonId);
+  if (!lesson) {
+    console.log(chalk.red(`Lesson not found: ${lessonId}`));
+    console.log(`Available lessons: ${lessons.map((l) => l.id).join(", ") || "none"}`);
+    process.exit(1);
+  }
+
+  const coursePath = course.coursePath || "";
+  const vocabulary = await loadBloomVocabulary(course);
+  const ctx: DraftContext = {
+    course: { id: course.id, name: course.name, context: course.context },
+    module,
+    lesson: {
+      ...lesson,
+      bloomLevel:
+        lesson.bloomLevel ??
+        (lesson.objective ? detectBloomLevel(lesson.objective, vocabulary) : null),
+    },
+    defineContent: readIfExists(join(coursePath, "define.md")),
+    designContent: readIfExists(join(coursePath, "design.md")),
+  };
+
+  const target = scriptPath(coursePath, moduleId, lessonId);
+
+  // Prompt only
+  if (options.prompt) {
+    console.log(buildDraftPrompt(ctx));
+    return;
+  }
+
+  // Run the prompt through the configured LLM provider
+  if (options.run) {
+    let result: DocumentRunResult;
+    try {
+      result = await runDocument(
+        { task: "draft", key: `${moduleId}-${lessonId}`, prompt: buildDraftPrompt(ctx) },
+        {
+          target,
+          force: options.force,
+          keepExisting: isScriptDrafted,
+          onStart: (provider) => console.log(chalk.blue(`Drafting ${path} with ${provider.name}...`)),
+        }
+      );
+    } catch (error) {
+      console.log(chalk.red(`LLM run failed: ${(error as Error).message}`));
+      process.exit(1);
+    }
+
+    if (result.status === "kept") {
+      console.log(chalk.yellow(`Script already drafted: ${target}`));
+      console.log(`Use ${chalk.cyan("--force")} to regenerate it.`);
+      return;
+    }
+
+    console.log(chalk.green(`Wrote ${target}`));
+
+    if (isScriptDrafted(result.document) && lesson.status === "planned") {
+      updateLessonStatus(courseId, moduleId, lessonId, "drafted", { note: "Script complete" });
+      console.log(chalk.green(`Updated ${path} status to: drafted`));
+    }
+    return;
+  }
+
+  // Existing script: check whether it has been filled in
+  if (existsSync(target) && !options.force) {
+    const content = readFileSync(target, "utf-8");
+
+    if (isScriptDrafted(content)) {
+      if (lesson.status === "planned") {
+        updateLessonStatus(courseId, moduleId, lessonId, "drafted", { note: "Script complete" });
+        console.log(chalk.green(`Script complete. Updated ${path} status to: drafted`));
+      } else {
+        console.log(chalk.green(`Script complete (status: ${lesson.status})`));
+      }
+      console.log(chalk.dim(`  ${target}`));
+      return;
+    }
+
+    const remaining = countTodoMarkers(content);
+    console.log(chalk.yellow(`Script not finished: ${target}`));
+    if (remaining > 0) {
+      console.log(`  ${remaining} [TODO] section${remaining === 1 ? "" : "s"} left to fill in`);
+    }
+    console.log("");
+    console.log(`Show the drafting prompt: ${chalk.cyan(`coursekit draft ${path} --prompt`)}`);
+    console.log(`Start over:               ${chalk.cyan(`coursekit draft ${path} --force`)}`);
+    return;
+  }
+
+  // Write scaffold
+  mkdirSync(dirname(target), { recursive: true });
+  writeFileSync(target, buildScriptScaffold(ctx));
+
+  console.log("");
+  console.log(chalk.bold(`Draft Content: ${path}`));
+  console.log("─".repeat(60));
+  console.log("");
+  console.log(chalk.green(`Created: ${target}`));
+  console.log("");
+  console.log(chalk.blue("Use this prompt with Claude to draft content:"));
+  console.log("");
+  console.log("─".repeat(60));
+  console.log(buildDraftPrompt(ctx));
+  console.log("─".repeat(60));
+  console.log("");
+  console.log(chalk.yellow("After drafting:"));
+  console.log(`  1. Replace the [TODO] sections in ${chalk.cyan(target)}`);
+  console.log(`  2. Run ${chalk.cyan(`coursekit draft ${path}`)} again to mark it drafted`);
+  console.log("");
+}
+
+function readIfExists(filePath: string): string {
+  return existsSync(filePath) ? readFileSync(filePath, "utf-8") : "";
+}
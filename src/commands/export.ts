@@ -0,0 +1,57 @@
+/**
+ * export command - Package a course into a .ckpkg bundle
+ */
+
+import { writeFileSync } from "fs";
+import { resolve } from "path";
+import chalk from "chalk";
+import { getCourse, getDatabase } from "../lib/database";
+import { BUNDLE_EXTENSION, createBundle, encodeBundle } from "../lib/course-bundle";
+import { slugify } from "../lib/course-scaffold";
+
+interface ExportOptions {
+  out?: string;
+}
+
+export async function exportCommand(
+  courseId: string,
+  options: ExportOptions
+): Promise<void> {
+  const course = getCourse(courseId);
+  if (!course) {
+    console.log(chalk.red(`Course not found: ${courseId}`));
+    process.exit(1);
+  }
+
+  const outPath = resolve(
+    options.out ?? `${course.id.toLowerCase()}-${slugify(course.name)}${BUNDLE_EXTENSION}`
+  );
+
+  const bundle = createBundle(getDatabase(), course.id, course.coursePath);
+  const data = encodeBundle(bundle);
+  writeFileSync(outPath, data);
+
+  const counts = bundle.manifest.rowCounts;
+  console.log("");
+  console.log(chalk.bold(`Exported ${course.id}: ${course.name}`));
+  console.log("─".repeat(60));
+  console.log(`  Modules:     ${counts.modules}`);
+  console.log(`  Lessons:     ${counts.lessons}`);
+  console.log(`  Objectives:  ${counts.objectives}`);
+  console.log(`  Questions:   ${counts.quiz_questions}`);
+  console.log(`  Files:       ${bundle.manifest.fileCount}`);
+  if (!course.coursePath) {
+    console.log(chalk.yellow("  Course has no directory; only database rows were exported."));
+  }
+  console.log("");
+  console.log(`  ${chalk.cyan(outPath)} (${formatSize(data.length)})`);
+  console.log("");
+  console.log(`Import it into another project with ${chalk.cyan(`coursekit import ${options.out ?? outPath}`)}`);
+  console.log("");
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,76 @@
+/**
+ * import command - Add a course from a .ckpkg bundle to this project
+ */
+
+import { existsSync, readFileSync } from "fs";
+import chalk from "chalk";
+import {
+  findDatabase,
+  generateCourseId,
+  getCourse,
+  getDatabase,
+  initDatabase,
+} from "../lib/database";
+import { BundleError, decodeBundle, importBundle } from "../lib/course-bundle";
+import { courseDirectory } from "../lib/course-scaffold";
+
+export async function importCommand(file: string): Promise<void> {
+  if (!existsSync(file)) {
+    console.log(chalk.red(`Bundle not found: ${file}`));
+    process.exit(1);
+  }
+
+  let bundle: ReturnType<typeof decodeBundle>;
+  try {
+    bundle = decodeBundle(readFileSync(file));
+  } catch (error) {
+    if (error instanceof BundleError) {
+      console.log(chalk.red(`${file}: ${error.message}`));
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  // Importing into a directory without a project starts one
+  if (!findDatabase()) {
+    console.log(chalk.blue("Initializing CourseKit..."));
+    initDatabase();
+  }
+
+  const { id: sourceId, name } = bundle.manifest.course;
+  const courseId = getCourse(sourceId) ? generateCourseId() : sourceId;
+  const courseDir = courseDirectory(process.cwd(), courseId, name);
+
+  if (existsSync(courseDir)) {
+    console.log(chalk.red(`Course directory already exists: ${courseDir}`));
+    process.exit(1);
+  }
+
+  let result: ReturnType<typeof importBundle>;
+  try {
+    result = importBundle(getDatabase(), bundle, { courseId, courseDir });
+  } catch (error) {
+    if (error instanceof BundleError) {
+      console.log(chalk.red(`${file}: ${error.message}`));
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  const counts = result.rowCounts;
+  console.log("");
+  console.log(chalk.green(`Imported ${name} as ${chalk.cyan(courseId)}`));
+  if (result.remapped) {
+    console.log(chalk.yellow(`  ${sourceId} is taken in this project; references were renamed to ${courseId}.`));
+  }
+  console.log("");
+  console.log(`  Modules:     ${counts.modules}`);
+  console.log(`  Lessons:     ${counts.lessons}`);
+  console.log(`  Objectives:  ${counts.objectives}`);
+  console.log(`  Questions:   ${counts.quiz_questions}`);
+  console.log(`  Files:       ${result.fileCount}`);
+  console.log(`  Directory:   ${courseDir}`);
+  console.log("");
+  console.log(`Run ${chalk.cyan(`coursekit show ${courseId}`)} to review it.`);
+  console.log("");
+}
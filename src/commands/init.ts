@@ -2,21 +2,35 @@
  * init command - Initialize a new course project
  */
 
-import { existsSync, mkdirSync, writeFileSync } from "fs";
-import { join } from "path";
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
 import chalk from "chalk";
 import {
   initDatabase,
   createCourse,
   updateCoursePath,
   findDatabase,
+  replaceObjectives,
+  upsertLesson,
+  upsertModule,
 } from "../lib/database";
+import { LANGUAGE_CODE_PATTERN, loadBloomVocabulary } from "../lib/bloom-vocabularies";
+import { courseDirectory, scaffoldCourse } from "../lib/course-scaffold";
+import { formatParseError } from "../lib/markdown-sections";
+import {
+  detectPlanFormat,
+  parsePlan,
+  renderDefineFromPlan,
+  renderDesignFromPlan,
+  type CoursePlan,
+} from "../lib/plan-import";
 import type { CourseContext } from "../types";
 
 interface InitOptions {
   context: string;
   description?: string;
   fromPlan?: string;
+  language?: string;
   force?: boolean;
 }
 
@@ -30,6 +44,7 @@ export async function initCommand(
     console.log(
       chalk.yellow("CourseKit database already exists in this project.")
     );
+    console.log(`Run ${chalk.cyan(`coursekit new-course "${name}"`)} to add another course.`);
     console.log(`Use ${chalk.cyan("--force")} to reinitialize.`);
     return;
   }
@@ -43,24 +58,46 @@ export async function initCommand(
     process.exit(1);
   }
 
+  const language = (options.language || "en").toLowerCase();
+  if (!LANGUAGE_CODE_PATTERN.test(language)) {
+    console.log(
+      chalk.red(`Invalid language: ${options.language}. Use a code like 'en' or 'de'.`)
+    );
+    process.exit(1);
+  }
+
+  // Read the plan before touching the database so a bad plan changes nothing
+  const plan = options.fromPlan ? await readPlan(options.fromPlan, language) : null;
+
   // Initialize database
   console.log(chalk.blue("Initializing CourseKit..."));
   initDatabase();
 
   // Create course
-  const description = options.description || `A ${context} course`;
-  const course = createCourse(name, description, context);
-
-  // Create course directory
-  const courseDirName = `${course.id.toLowerCase()}-${slugify(name)}`;
-  const courseDir = join(process.cwd(), "courses", courseDirName);
-  mkdirSync(join(courseDir, "materials"), { recursive: true });
+  const description =
+    options.description || plan?.description || `A ${context} course`;
+  const course = createCourse(name, description, context, language);
+  const scaffold = { id: course.id, name, context };
+
+  // Create course directory with initial files
+  const courseDir = courseDirectory(process.cwd(), course.id, name);
+  scaffoldCourse(
+    courseDir,
+    scaffold,
+    plan
+      ? {
+          define: renderDefineFromPlan(plan, scaffold),
+          design: renderDesignFromPlan(plan, scaffold),
+        }
+      : {}
+  );
 
   // Update course with path
   updateCoursePath(course.id, courseDir);
 
-  // Create initial files
-  createInitialFiles(courseDir, course.id, name, context);
+  if (plan) {
+    importPlan(course.id, plan);
+  }
 
   // Output success
   console.log("");
@@ -69,124 +106,98 @@ export async function initCommand(
   console.log(`  Course ID:   ${chalk.cyan(course.id)}`);
   console.log(`  Name:        ${name}`);
   console.log(`  Context:     ${context}`);
+  console.log(`  Language:    ${language}`);
   console.log(`  Directory:   ${courseDir}`);
+
+  if (plan) {
+    const lessons = plan.modules.reduce((sum, m) => sum + m.lessons.length, 0);
+    const minutes = plan.modules.reduce(
+      (sum, m) => sum + m.lessons.reduce((total, l) => total + l.duration, 0),
+      0
+    );
+    console.log("");
+    console.log(`  Imported from ${chalk.cyan(options.fromPlan!)}:`);
+    console.log(`    Modules:     ${plan.modules.length}`);
+    console.log(`    Lessons:     ${lessons} (${minutes} min)`);
+    console.log(`    Objectives:  ${plan.objectives.length}`);
+
+    const unclassifiedObjectives = plan.objectives.filter((o) => !o.bloomLevel).map((o) => o.id);
+    const unclassifiedLessons = plan.modules.flatMap((m) =>
+      m.lessons.filter((l) => !l.bloomLevel).map((l) => `${m.id}/${l.id}`)
+    );
+    if (unclassifiedObjectives.length > 0 || unclassifiedLessons.length > 0) {
+      console.log("");
+    }
+    if (unclassifiedObjectives.length > 0) {
+      const count = unclassifiedObjectives.length;
+      console.log(
+        chalk.yellow(`  ${count} objective${count === 1 ? "" : "s"} without a recognizable Bloom verb: ${unclassifiedObjectives.join(", ")}`)
+      );
+    }
+    if (unclassifiedLessons.length > 0) {
+      const count = unclassifiedLessons.length;
+      console.log(
+        chalk.yellow(`  ${count} lesson${count === 1 ? "" : "s"} without a recognizable Bloom verb: ${unclassifiedLessons.join(", ")}`)
+      );
+    }
+  }
+
   console.log("");
   console.log(chalk.blue("Next steps:"));
-  console.log(`  1. Run ${chalk.cyan(`coursekit define ${course.id}`)} to define learning objectives`);
-  console.log(`  2. Run ${chalk.cyan(`coursekit design ${course.id}`)} to structure modules`);
+  if (plan) {
+    console.log(`  1. Fill in the rest of define.md (audience, context, scope)`);
+    console.log(`  2. Run ${chalk.cyan(`coursekit validate ${course.id}`)} to check define.md and design.md`);
+  } else {
+    console.log(`  1. Run ${chalk.cyan(`coursekit define ${course.id}`)} to define learning objectives`);
+    console.log(`  2. Run ${chalk.cyan(`coursekit design ${course.id}`)} to structure modules`);
+  }
   console.log(`  3. Run ${chalk.cyan(`coursekit status`)} to view progress`);
   console.log("");
 }
 
-function slugify(text: string): string {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/(^-|-$)/g, "");
-}
-
-function createInitialFiles(
-  courseDir: string,
-  courseId: string,
-  name: string,
-  context: CourseContext
-): void {
-  // Create define.md template
-  const defineContent = `# Course Definition: ${name}
-
-> This file is created during the DEFINE phase.
-> Run \`coursekit define ${courseId}\` to complete it through an interview.
-
-## Audience
-
-### Who are they?
-[To be defined]
-
-### Prior knowledge required
-- [Prerequisite 1]
-- [Prerequisite 2]
-
-### Constraints
-- Time available: [X hours/week]
-- Technical level: [Beginner/Intermediate/Advanced]
-
-## Learning Objectives
-
-By the end of this course, learners will be able to:
-
-1. **[Bloom Verb]** [specific, measurable outcome]
-2. **[Bloom Verb]** [specific, measurable outcome]
-3. **[Bloom Verb]** [specific, measurable outcome]
-
-## Assessment Strategy
-
-| Objective | Assessment Method | When |
-|-----------|-------------------|------|
-| 1 | [Quiz/Project/Demo] | [Module X] |
-| 2 | [Quiz/Project/Demo] | [Module Y] |
-
-## Context
-
-- **Format**: ${context === "online" ? "Online (self-paced)" : "University (semester)"}
-- **Duration**: [X weeks / Self-paced]
-- **Session length**: ${context === "online" ? "[5-15 minutes per video]" : "[90 minutes per lecture]"}
-
-## Scope
-
-### In Scope
-- [Topic 1]
-- [Topic 2]
-
-### Out of Scope
-- [Explicitly excluded topic]
-`;
-
-  // Create design.md template
-  const designContent = `# Course Design: ${name}
-
-> This file is created during the DESIGN phase.
-> Run \`coursekit design ${courseId}\` to complete it.
-
-## Module Structure
-
-### M1: [Module Name]${context === "university" ? " (Week 1-2)" : ""}
-**Objective**: [What learners achieve]
-
-| Lesson | Title | Duration | Objective |
-|--------|-------|----------|-----------|
-| L1 | [Title] | 10 min | [Bloom verb + outcome] |
-| L2 | [Title] | 8 min | [Bloom verb + outcome] |
-
-**Assessment**: [Quiz/Project for this module]
-
-### M2: [Module Name]${context === "university" ? " (Week 3-4)" : ""}
-...
-
-## Learning Path
-
-\`\`\`
-M1 (Foundation)
-  └─→ M2 (Core Skills)
-        └─→ M3 (Application)
-              └─→ M4 (Advanced) [Optional]
-\`\`\`
+/**
+ * Read and parse a plan file, exiting with its problems listed if it
+ * cannot be imported.
+ */
+async function readPlan(path: string, language: string): Promise<CoursePlan> {
+  const planPath = resolve(path);
+  if (!existsSync(planPath)) {
+    console.log(chalk.red(`Plan not found: ${path}`));
+    process.exit(1);
+  }
 
-## Engagement Strategy
+  const format = detectPlanFormat(planPath);
+  if (!format) {
+    console.log(
+      chalk.red(`Unsupported plan format: ${path}. Use .md, .yaml, .yml, .json or .csv.`)
+    );
+    process.exit(1);
+  }
 
-- **Practice**: [Exercises per module]
-- **Community**: [Discord/Forum activities]
-- **Projects**: [Hands-on projects]
+  const vocabulary = await loadBloomVocabulary({ language, coursePath: null });
+  const { plan, errors } = parsePlan(readFileSync(planPath, "utf-8"), format, vocabulary);
 
-## Time Budget
+  if (errors.length > 0) {
+    console.log(chalk.red(`${path} has ${errors.length} problem${errors.length === 1 ? "" : "s"}:`));
+    for (const error of errors) {
+      console.log(`  ${formatParseError(error, path)}`);
+    }
+    process.exit(1);
+  }
 
-| Component | Hours |
-|-----------|-------|
-| Videos/Lectures | X |
-| Exercises | X |
-| Projects | X |
-| **Total** | X |
-`;
+  return plan;
+}
 
-  writeFileSync(join(courseDir, "define.md"), defineContent);
-  writeFileSync(join(courseDir, "design.md"), designContent);
+/**
+ * Store the plan's objectives, modules and lessons for a new course.
+ */
+function importPlan(courseId: string, plan: CoursePlan): void {
+  replaceObjectives(courseId, plan.objectives);
+
+  plan.modules.forEach((module, moduleIndex) => {
+    upsertModule(courseId, module, moduleIndex + 1);
+    module.lessons.forEach((lesson, lessonIndex) => {
+      upsertLesson(courseId, module.id, lesson, lessonIndex + 1);
+    });
+  });
 }
@@ -2,12 +2,54 @@
  * lesson command - Work on a specific lesson
  */
 
+import { existsSync, mkdirSync, renameSync } from "fs";
+import { dirname, join } from "path";
 import chalk from "chalk";
-import { getCourse, getLessons, getModules, updateLessonStatus } from "../lib/database";
+import {
+  deleteLesson,
+  getCourse,
+  getLessons,
+  getLessonStatusHistory,
+  getModules,
+  moveLesson,
+  updateLesson,
+  updateLessonStatus,
+} from "../lib/database";
+import { analyzeBloomVerb } from "../lib/bloom";
+import { loadBloomVocabulary } from "../lib/bloom-vocabularies";
+import {
+  checkTransition,
+  formatDuration,
+  isLessonStatus,
+  LESSON_STATUSES,
+  LESSON_TRANSITIONS,
+  summarizeCycleTime,
+} from "../lib/lesson-status";
+import type { Course, LessonStatus } from "../types";
+import { draftCommand } from "./draft";
 
 interface LessonOptions {
   draft?: boolean;
+  run?: boolean;
   status?: string;
+  note?: string;
+  force?: boolean;
+  history?: boolean;
+}
+
+interface LessonEditOptions {
+  title?: string;
+  objective?: string;
+  duration?: string;
+}
+
+interface LessonMoveOptions {
+  to?: string;
+  position?: string;
+}
+
+interface LessonRemoveOptions {
+  force?: boolean;
 }
 
 export async function lessonCommand(
@@ -46,33 +88,44 @@ export async function lessonCommand(
     process.exit(1);
   }
 
+  const status = lesson.status as LessonStatus;
+
   // Update status if provided
   if (options.status) {
-    const validStatuses = ["planned", "drafted", "recorded", "edited", "published"];
-    if (!validStatuses.includes(options.status)) {
-      console.log(chalk.red(`Invalid status. Use: ${validStatuses.join(", ")}`));
+    if (!isLessonStatus(options.status)) {
+      console.log(chalk.red(`Invalid status. Use: ${LESSON_STATUSES.join(", ")}`));
       process.exit(1);
     }
-    updateLessonStatus(courseId, moduleId, lessonId, options.status);
-    console.log(chalk.green(`Updated ${path} status to: ${options.status}`));
+
+    const transition = checkTransition(status, options.status);
+    if (transition.kind === "unchanged") {
+      console.log(chalk.yellow(`${path} is already ${status}`));
+      return;
+    }
+    if (!transition.allowed && !options.force) {
+      console.log(chalk.red(`Cannot move ${path} from ${status} to ${options.status}.`));
+      console.log(`Allowed from ${status}: ${LESSON_TRANSITIONS[status].join(", ")}`);
+      console.log(`Use ${chalk.cyan("--force")} to jump anyway.`);
+      process.exit(1);
+    }
+
+    updateLessonStatus(courseId, moduleId, lessonId, options.status, {
+      note: options.note?.trim() || null,
+      forced: !transition.allowed,
+    });
+    const label = transition.kind === "rollback" ? "Rolled back" : transition.allowed ? "Updated" : "Forced";
+    console.log(chalk.green(`${label} ${path} status: ${status} → ${options.status}`));
+    return;
+  }
+
+  if (options.history) {
+    showHistory(course.id, `${moduleId}/${lessonId}`, status);
     return;
   }
 
   // Draft content if requested
   if (options.draft) {
-    console.log("");
-    console.log(chalk.bold(`Draft Content: ${path}`));
-    console.log("─".repeat(60));
-    console.log("");
-    console.log(chalk.blue("Use this prompt with Claude to draft content:"));
-    console.log("");
-    console.log("─".repeat(60));
-    console.log(generateDraftPrompt(courseId, module.name, lesson));
-    console.log("─".repeat(60));
-    console.log("");
-    console.log(chalk.yellow("After drafting:"));
-    console.log(`  Save to: ${chalk.cyan(`${course.coursePath}/materials/${moduleId}/${lessonId}/script.md`)}`);
-    console.log(`  Update status: ${chalk.cyan(`coursekit lesson ${path} --status drafted`)}`);
+    await draftCommand(path, { run: options.run });
     return;
   }
 
@@ -87,65 +140,232 @@ export async function lessonCommand(
   console.log(`  Status:    ${lesson.status}`);
   console.log("");
   console.log(chalk.bold("Actions:"));
-  console.log(`  Draft content:  ${chalk.cyan(`coursekit lesson ${path} --draft`)}`);
+  console.log(`  Draft content:  ${chalk.cyan(`coursekit draft ${path}`)}`);
   console.log(`  Update status:  ${chalk.cyan(`coursekit lesson ${path} --status <status>`)}`);
+  console.log(`  Show history:   ${chalk.cyan(`coursekit lesson ${path} --history`)}`);
   console.log("");
   console.log(`  Statuses: planned → drafted → recorded → edited → published`);
+  console.log(`  Next from ${status}: ${LESSON_TRANSITIONS[status].join(", ")}`);
   console.log("");
 }
 
-interface LessonInfo {
-  id: string;
-  title: string;
-  objective: string | null;
-  duration: number;
-  status: string;
+function showHistory(courseId: string, lessonPath: string, status: LessonStatus): void {
+  const history = getLessonStatusHistory(courseId, lessonPath);
+
+  console.log("");
+  console.log(chalk.bold(`Status History: ${courseId}/${lessonPath}`));
+  console.log("─".repeat(60));
+  console.log("");
+
+  if (history.length === 0) {
+    console.log(`  ${status} (no changes recorded)`);
+    console.log("");
+    return;
+  }
+
+  const cycle = summarizeCycleTime(history);
+  history.forEach((change, index) => {
+    const period = cycle.periods[index];
+    const forced = change.forced ? chalk.yellow(" (forced)") : "";
+    const note = change.note ? chalk.dim(` - ${change.note}`) : "";
+    console.log(
+      `  ${change.changedAt.toLocaleString()}  ${change.fromStatus} → ${chalk.cyan(change.toStatus)}` +
+        `${forced}${note}`
+    );
+    console.log(chalk.dim(`    ${period.leftAt ? "for" : "since"} ${formatDuration(period.durationMs)}`));
+  });
+  console.log("");
+
+  if (cycle.durationMs !== null) {
+    const label = cycle.publishedAt ? "Cycle time" : "In progress";
+    console.log(`  ${label}: ${formatDuration(cycle.durationMs)} since leaving planned`);
+    console.log("");
+  }
 }
 
-function generateDraftPrompt(
-  courseId: string,
-  moduleName: string,
-  lesson: LessonInfo
-): string {
-  return `
-# CourseKit: Draft Lesson Content
+export async function lessonEditCommand(
+  path: string,
+  options: LessonEditOptions
+): Promise<void> {
+  const { course, moduleId, lessonId } = resolveLesson(path);
+
+  let duration: number | undefined;
+  if (options.duration !== undefined) {
+    duration = parseInt(options.duration, 10);
+    if (isNaN(duration) || duration < 1) {
+      console.log(chalk.red(`Invalid duration: ${options.duration}. Use minutes, e.g. 10.`));
+      process.exit(1);
+    }
+  }
 
-Course: ${courseId}
-Module: ${moduleName}
-Lesson: ${lesson.id} - ${lesson.title}
+  const objective = options.objective === undefined ? undefined : options.objective.trim() || null;
+  const title = options.title?.trim() || undefined;
+  if (title === undefined && objective === undefined && duration === undefined) {
+    console.log(chalk.red("Nothing to change. Use --title, --objective or --duration."));
+    process.exit(1);
+  }
+
+  // A new objective gets a new Bloom level
+  let bloomLevel: ReturnType<typeof analyzeBloomVerb>["level"] | undefined;
+  if (objective !== undefined) {
+    bloomLevel = null;
+    if (objective) {
+      const bloom = analyzeBloomVerb(objective, await loadBloomVocabulary(course));
+      bloomLevel = bloom.level;
+      if (bloom.vague) {
+        console.log(chalk.yellow(`"${bloom.verb}" is not measurable; say what learners will do instead.`));
+      } else if (!bloom.level) {
+        console.log(chalk.yellow("No Bloom verb recognized in the objective."));
+      } else {
+        console.log(chalk.dim(`Bloom level detected: ${bloom.level}`));
+      }
+    }
+  }
 
-## Learning Objective
-${lesson.objective || "[Please specify the learning objective]"}
+  updateLesson(course.id, moduleId, lessonId, { title, objective, bloomLevel, duration });
 
-## Duration Target
-${lesson.duration} minutes
+  const lesson = getLessons(course.id, moduleId).find((l) => l.id === lessonId)!;
+  console.log(chalk.green(`Updated lesson: ${moduleId}/${lessonId} - ${lesson.title}`));
+  console.log(`  Objective: ${lesson.objective || "(not set)"}`);
+  console.log(`  Duration:  ${lesson.duration} min`);
+  printDesignHint(course.id);
+}
 
----
+export async function lessonMoveCommand(
+  path: string,
+  options: LessonMoveOptions
+): Promise<void> {
+  const { course, moduleId, lessonId } = resolveLesson(path);
 
-Please help me draft content for this lesson:
+  if (!options.to && !options.position) {
+    console.log(chalk.red("Nothing to do. Use --to <module> and/or --position <n>."));
+    process.exit(1);
+  }
 
-## 1. Script/Outline
-Create a structured outline that:
-- Opens with a hook or problem statement
-- Covers the core content (matching the objective)
-- Includes examples or demonstrations
-- Ends with a summary and call-to-action
+  const targetModule = options.to ?? moduleId;
+  const modules = getModules(course.id);
+  if (!modules.some((m) => m.id === targetModule)) {
+    console.log(chalk.red(`Module not found: ${targetModule}`));
+    console.log(`Available modules: ${modules.map((m) => m.id).join(", ") || "none"}`);
+    process.exit(1);
+  }
 
-## 2. Visual Aids
-Suggest:
-- Key slides or diagrams
-- Screenshots or demos needed
-- Any animations or transitions
+  let position: number | undefined;
+  if (options.position !== undefined) {
+    position = parseInt(options.position, 10);
+    if (isNaN(position) || position < 1) {
+      console.log(chalk.red(`Invalid position: ${options.position}. Use 1 for first.`));
+      process.exit(1);
+    }
+  }
 
-## 3. Practice Activity
-Design a hands-on exercise that:
-- Reinforces the learning objective
-- Can be completed in ~5-10 minutes
-- Has a clear success criteria
+  const newId = moveLesson(course.id, moduleId, lessonId, { moduleId: targetModule, position });
+  const newPath = `${course.id}/${targetModule}/${newId}`;
 
-## 4. Assessment Question
-Create 1-2 quiz questions or reflection prompts that verify learning.
+  console.log(chalk.green(`Moved ${path} → ${newPath}`));
+  if (targetModule !== moduleId && newId !== lessonId) {
+    console.log(chalk.yellow(`  ${targetModule} uses or used ${lessonId} before; the lesson is now ${newId}.`));
+  }
 
-Please format the output as a complete lesson script.md file.
-`;
+  const order = getLessons(course.id, targetModule).map((l) => (l.id === newId ? chalk.cyan(l.id) : l.id));
+  console.log(`  ${targetModule}: ${order.join(" → ")}`);
+
+  if (targetModule !== moduleId) {
+    if (course.coursePath) {
+      moveMaterials(course.coursePath, `${moduleId}/${lessonId}`, `${targetModule}/${newId}`);
+    }
+    console.log(
+      chalk.dim(`  Quiz questions for the lesson were dropped; regenerate with coursekit quiz ${course.id}/${targetModule}`)
+    );
+  }
+  printDesignHint(course.id);
+}
+
+export async function lessonRemoveCommand(
+  path: string,
+  options: LessonRemoveOptions
+): Promise<void> {
+  const { course, moduleId, lessonId } = resolveLesson(path);
+  const lesson = getLessons(course.id, moduleId).find((l) => l.id === lessonId)!;
+
+  if (lesson.status !== "planned" && !options.force) {
+    console.log(chalk.yellow(`${path} is ${lesson.status}, not planned.`));
+    console.log(
+      `Use ${chalk.cyan("--force")} to remove it with its tasks, production record and quiz questions.`
+    );
+    process.exit(1);
+  }
+
+  deleteLesson(course.id, moduleId, lessonId);
+
+  console.log(chalk.green(`Removed lesson ${moduleId}/${lessonId} - ${lesson.title}`));
+  if (course.coursePath && existsSync(join(course.coursePath, "materials", moduleId, lessonId))) {
+    console.log(chalk.dim(`  Files in materials/${moduleId}/${lessonId}/ were left in place.`));
+  }
+  printDesignHint(course.id);
+}
+
+/**
+ * Parse "C-001/M1/L2" and check that the course, module and lesson exist.
+ */
+function resolveLesson(path: string): { course: Course; moduleId: string; lessonId: string } {
+  const parts = path.split("/");
+  if (parts.length !== 3) {
+    console.log(chalk.red("Invalid path format. Use: C-001/M1/L2"));
+    process.exit(1);
+  }
+
+  const [courseId, moduleId, lessonId] = parts;
+
+  const course = getCourse(courseId);
+  if (!course) {
+    console.log(chalk.red(`Course not found: ${courseId}`));
+    process.exit(1);
+  }
+
+  const modules = getModules(courseId);
+  if (!modules.some((m) => m.id === moduleId)) {
+    console.log(chalk.red(`Module not found: ${moduleId}`));
+    process.exit(1);
+  }
+
+  const lessons = getLessons(courseId, moduleId);
+  if (!lessons.some((l) => l.id === lessonId)) {
+    console.log(chalk.red(`Lesson not found: ${lessonId}`));
+    console.log(`Available lessons: ${lessons.map((l) => l.id).join(", ") || "none"}`);
+    process.exit(1);
+  }
+
+  return { course, moduleId, lessonId };
+}
+
+/**
+ * Move materials/M1/L2 to the lesson's new location, unless something
+ * is already there.
+ */
+function moveMaterials(coursePath: string, from: string, to: string): void {
+  const source = join(coursePath, "materials", ...from.split("/"));
+  const target = join(coursePath, "materials", ...to.split("/"));
+  if (!existsSync(source)) return;
+
+  if (existsSync(target)) {
+    console.log(chalk.yellow(`  materials/${to}/ already exists; materials/${from}/ was left in place.`));
+    return;
+  }
+
+  try {
+    mkdirSync(dirname(target), { recursive: true });
+    renameSync(source, target);
+  } catch (error) {
+    console.log(
+      chalk.yellow(`  Could not move materials/${from}/ to materials/${to}/: ${(error as Error).message}`)
+    );
+    return;
+  }
+  console.log(`  Moved materials/${from}/ → materials/${to}/`);
+}
+
+function printDesignHint(courseId: string): void {
+  console.log("");
+  console.log(`Update design.md with: ${chalk.cyan(`coursekit reconcile ${courseId} --to design`)}`);
 }
@@ -0,0 +1,140 @@
+/**
+ * module command - Edit, reorder and remove modules
+ */
+
+import { existsSync } from "fs";
+import { join } from "path";
+import chalk from "chalk";
+import {
+  deleteModule,
+  getCourse,
+  getLessons,
+  getModules,
+  moveModule,
+  updateModule,
+} from "../lib/database";
+import { formatWeekRange } from "../lib/design-writer";
+import type { Course } from "../types";
+
+interface ModuleEditOptions {
+  name?: string;
+  objective?: string;
+  assessment?: string;
+  weeks?: string;
+}
+
+interface ModuleMoveOptions {
+  position: string;
+}
+
+interface ModuleRemoveOptions {
+  force?: boolean;
+}
+
+export async function moduleEditCommand(
+  path: string,
+  options: ModuleEditOptions
+): Promise<void> {
+  const { course, moduleId } = resolveModule(path);
+
+  const fields = {
+    name: options.name?.trim() || undefined,
+    objective: options.objective === undefined ? undefined : options.objective.trim() || null,
+    assessmentType: options.assessment === undefined ? undefined : options.assessment.trim() || null,
+    weekRange: options.weeks === undefined ? undefined : formatWeekRange(options.weeks),
+  };
+  if (Object.values(fields).every((value) => value === undefined)) {
+    console.log(chalk.red("Nothing to change. Use --name, --objective, --assessment or --weeks."));
+    process.exit(1);
+  }
+
+  updateModule(course.id, moduleId, fields);
+
+  const module = getModules(course.id).find((m) => m.id === moduleId)!;
+  console.log(chalk.green(`Updated module: ${moduleId} - ${module.name}`));
+  if (module.objective) console.log(`  Objective:  ${module.objective}`);
+  if (module.assessmentType) console.log(`  Assessment: ${module.assessmentType}`);
+  if (module.weekRange) console.log(`  Weeks:      ${module.weekRange}`);
+  printDesignHint(course.id);
+}
+
+export async function moduleMoveCommand(
+  path: string,
+  options: ModuleMoveOptions
+): Promise<void> {
+  const { course, moduleId } = resolveModule(path);
+
+  const position = parseInt(options.position, 10);
+  if (isNaN(position) || position < 1) {
+    console.log(chalk.red(`Invalid position: ${options.position}. Use 1 for first.`));
+    process.exit(1);
+  }
+
+  moveModule(course.id, moduleId, position);
+
+  const order = getModules(course.id).map((m) => (m.id === moduleId ? chalk.cyan(m.id) : m.id));
+  console.log(chalk.green(`Moved module ${moduleId}`));
+  console.log(`  Order: ${order.join(" → ")}`);
+  printDesignHint(course.id);
+}
+
+export async function moduleRemoveCommand(
+  path: string,
+  options: ModuleRemoveOptions
+): Promise<void> {
+  const { course, moduleId } = resolveModule(path);
+  const lessons = getLessons(course.id, moduleId);
+
+  if (lessons.length > 0 && !options.force) {
+    console.log(chalk.yellow(`${moduleId} has ${lessons.length} lesson${lessons.length === 1 ? "" : "s"}:`));
+    for (const lesson of lessons) {
+      console.log(`  ${lesson.id}: ${lesson.title} ${chalk.dim(`(${lesson.status})`)}`);
+    }
+    console.log("");
+    console.log(
+      `Use ${chalk.cyan("--force")} to remove the module with its lessons, tasks, production records and quiz questions.`
+    );
+    process.exit(1);
+  }
+
+  deleteModule(course.id, moduleId);
+
+  console.log(chalk.green(`Removed module ${moduleId}${lessons.length > 0 ? ` and ${lessons.length} lesson${lessons.length === 1 ? "" : "s"}` : ""}`));
+  if (course.coursePath && existsSync(join(course.coursePath, "materials", moduleId))) {
+    console.log(chalk.dim(`  Files in materials/${moduleId}/ were left in place.`));
+  }
+  printDesignHint(course.id);
+}
+
+/**
+ * Parse "C-001/M1" and check that the course and module exist.
+ */
+function resolveModule(path: string): { course: Course; moduleId: string } {
+  const parts = path.split("/");
+  if (parts.length !== 2) {
+    console.log(chalk.red("Invalid path format. Use: C-001/M1"));
+    process.exit(1);
+  }
+
+  const [courseId, moduleId] = parts;
+
+  const course = getCourse(courseId);
+  if (!course) {
+    console.log(chalk.red(`Course not found: ${courseId}`));
+    process.exit(1);
+  }
+
+  const modules = getModules(courseId);
+  if (!modules.some((m) => m.id === moduleId)) {
+    console.log(chalk.red(`Module not found: ${moduleId}`));
+    console.log(`Available modules: ${modules.map((m) => m.id).join(", ") || "none"}`);
+    process.exit(1);
+  }
+
+  return { course, moduleId };
+}
+
+function printDesignHint(courseId: string): void {
+  console.log("");
+  console.log(`Update design.md with: ${chalk.cyan(`coursekit reconcile ${courseId} --to design`)}`);
+}
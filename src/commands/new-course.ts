@@ -0,0 +1,126 @@
+/**
+ * new-course command - Add another course to an existing project
+ */
+
+import chalk from "chalk";
+import {
+  cloneCourseStructure,
+  createCourse,
+  findDatabase,
+  getCourse,
+  getDatabase,
+  updateCoursePath,
+} from "../lib/database";
+import { LANGUAGE_CODE_PATTERN } from "../lib/bloom-vocabularies";
+import {
+  courseDirectory,
+  scaffoldCourse,
+  scaffoldCourseFrom,
+} from "../lib/course-scaffold";
+import type { CourseContext } from "../types";
+
+interface NewCourseOptions {
+  context?: string;
+  description?: string;
+  language?: string;
+  from?: string;
+}
+
+export async function newCourseCommand(
+  name: string,
+  options: NewCourseOptions
+): Promise<void> {
+  if (!findDatabase()) {
+    console.log(chalk.yellow("No CourseKit project found."));
+    console.log(`Run ${chalk.cyan(`coursekit init "${name}"`)} to create one.`);
+    process.exit(1);
+  }
+
+  const source = options.from ? getCourse(options.from) : null;
+  if (options.from && !source) {
+    console.log(chalk.red(`Course not found: ${options.from}`));
+    process.exit(1);
+  }
+  if (source && !source.coursePath) {
+    console.log(chalk.red(`Course ${source.id} has no directory to copy from.`));
+    process.exit(1);
+  }
+
+  // Context and language follow the source course unless given
+  const context = (options.context || source?.context || "online") as CourseContext;
+  if (context !== "online" && context !== "university") {
+    console.log(
+      chalk.red(`Invalid context: ${context}. Use 'online' or 'university'.`)
+    );
+    process.exit(1);
+  }
+
+  const language = (options.language || source?.language || "en").toLowerCase();
+  if (!LANGUAGE_CODE_PATTERN.test(language)) {
+    console.log(
+      chalk.red(`Invalid language: ${language}. Use a code like 'en' or 'de'.`)
+    );
+    process.exit(1);
+  }
+
+  const description =
+    options.description || source?.description || `A ${context} course`;
+
+  // The course row only stays if its directory was written: a filesystem
+  // error rolls the whole creation back
+  const { course, courseDir, copiedFiles, cloned } = getDatabase().transaction(() => {
+    const course = createCourse(name, description, context, language);
+    const courseDir = courseDirectory(process.cwd(), course.id, name);
+    const target = { id: course.id, name, context };
+    let copiedFiles: string[] = [];
+    let cloned: ReturnType<typeof cloneCourseStructure> | null = null;
+
+    if (source) {
+      copiedFiles = scaffoldCourseFrom(
+        source.coursePath!,
+        courseDir,
+        { id: source.id, name: source.name, context: source.context },
+        target
+      );
+      cloned = cloneCourseStructure(source.id, course.id);
+    } else {
+      scaffoldCourse(courseDir, target);
+    }
+
+    updateCoursePath(course.id, courseDir);
+    return { course, courseDir, copiedFiles, cloned };
+  })();
+
+  // Output success
+  console.log("");
+  console.log(chalk.green("Course created successfully!"));
+  console.log("");
+  console.log(`  Course ID:   ${chalk.cyan(course.id)}`);
+  console.log(`  Name:        ${name}`);
+  console.log(`  Context:     ${context}`);
+  console.log(`  Language:    ${language}`);
+  console.log(`  Directory:   ${courseDir}`);
+
+  if (source && cloned) {
+    console.log("");
+    console.log(`  Copied from ${chalk.cyan(source.id)} (${source.name}):`);
+    if (copiedFiles.length > 0) {
+      console.log(`    Files:       ${copiedFiles.join(", ")}`);
+    }
+    console.log(`    Modules:     ${cloned.modules}`);
+    console.log(`    Lessons:     ${cloned.lessons} ${chalk.dim("(reset to planned)")}`);
+    console.log(`    Objectives:  ${cloned.objectives}`);
+  }
+
+  console.log("");
+  console.log(chalk.blue("Next steps:"));
+  if (source) {
+    console.log(`  1. Edit define.md and design.md for the new course`);
+    console.log(`  2. Run ${chalk.cyan(`coursekit reconcile ${course.id}`)} to check the structure against design.md`);
+  } else {
+    console.log(`  1. Run ${chalk.cyan(`coursekit define ${course.id}`)} to define learning objectives`);
+    console.log(`  2. Run ${chalk.cyan(`coursekit design ${course.id}`)} to structure modules`);
+  }
+  console.log(`  3. Run ${chalk.cyan(`coursekit status`)} to view progress`);
+  console.log("");
+}
@@ -5,12 +5,36 @@
 import chalk from "chalk";
 import { readFileSync, existsSync, writeFileSync } from "fs";
 import { join } from "path";
-import { getCourse, updateCoursePhase } from "../lib/database";
+import {
+  getCourse,
+  getLessonProduction,
+  getLessons,
+  getModules,
+  getProduction,
+  saveProduction,
+  updateCoursePhase,
+  updateLessonStatus,
+} from "../lib/database";
+import {
+  emptyProduction,
+  lessonStatusAfterStep,
+  markProductionStep,
+  PRODUCTION_STEP_LABELS,
+  PRODUCTION_STEPS,
+  type ProductionStep,
+} from "../lib/production";
+import { checkTransition, LESSON_TRANSITIONS } from "../lib/lesson-status";
+import type { Course, LessonStatus, ProductionStatus } from "../types";
 
 interface ProduceOptions {
   dryRun?: boolean;
 }
 
+interface ProduceStepOptions {
+  undo?: boolean;
+  force?: boolean;
+}
+
 export async function produceCommand(
   courseId: string,
   options: ProduceOptions
@@ -47,15 +71,23 @@ export async function produceCommand(
   console.log("─".repeat(60));
   console.log("");
 
-  // Read develop.md to get lesson structure
-  const developPath = join(course.coursePath || "", "develop.md");
-  let developContent = "";
-  if (existsSync(developPath)) {
-    developContent = readFileSync(developPath, "utf-8");
+  // Lessons from the database, or from develop.md when none are stored
+  let lessons: ParsedLesson[] = getModules(courseId).flatMap((module) =>
+    getLessons(courseId, module.id).map((lesson) => ({
+      path: `${module.id}/${lesson.id}`,
+      title: lesson.title,
+    }))
+  );
+  if (lessons.length === 0) {
+    const developPath = join(course.coursePath || "", "develop.md");
+    if (existsSync(developPath)) {
+      lessons = extractLessonsFromDevelop(readFileSync(developPath, "utf-8"));
+    }
   }
 
   // Generate produce.md with production tracking
-  const produceContent = generateProduceContent(courseId, developContent);
+  const production = getProduction(courseId);
+  const produceContent = generateProduceContent(courseId, lessons, production);
   const producePath = join(course.coursePath || "", "produce.md");
   writeFileSync(producePath, produceContent);
 
@@ -77,7 +109,11 @@ export async function produceCommand(
   console.log("  - Minimal editing: cut dead air, add bumpers");
   console.log("");
 
-  console.log(chalk.yellow("Update produce.md as you complete recordings."));
+  console.log(chalk.yellow("Track recordings from the CLI:"));
+  console.log(`  ${chalk.cyan(`coursekit produce record ${courseId}/M1/L1`)}`);
+  console.log(`  ${chalk.cyan(`coursekit produce note ${courseId}/M1/L1 "Re-record the intro"`)}`);
+  console.log(`  ${chalk.cyan(`coursekit status ${courseId}`)}  (production board)`);
+  console.log("");
   console.log(`When ready: ${chalk.cyan(`coursekit complete ${courseId}`)}`);
   console.log("");
 
@@ -85,9 +121,17 @@ export async function produceCommand(
   updateCoursePhase(courseId, "produce");
 }
 
-function generateProduceContent(courseId: string, developContent: string): string {
-  // Extract lesson paths from develop.md
-  const lessons = extractLessonsFromDevelop(developContent);
+function generateProduceContent(
+  courseId: string,
+  lessons: ParsedLesson[],
+  production: ProductionStatus[]
+): string {
+  if (lessons.length === 0) {
+    lessons = [
+      { path: "M1/L1", title: "Lesson 1" },
+      { path: "M1/L2", title: "Lesson 2" },
+    ];
+  }
 
   let content = `# Production Status: ${courseId}
 
@@ -109,11 +153,11 @@ function generateProduceContent(courseId: string, developContent: string): strin
 
   for (const lesson of lessons) {
     content += `### ${lesson.path}: ${lesson.title}\n\n`;
-    content += `- [ ] Recorded\n`;
-    content += `- [ ] Edited\n`;
-    content += `- [ ] Uploaded\n`;
-    content += `- [ ] Access tested\n\n`;
-    content += `**Notes**: \n\n`;
+    const status = production.find((p) => p.lessonPath === lesson.path) ?? emptyProduction(lesson.path);
+    for (const step of PRODUCTION_STEPS) {
+      content += `- [${status[step] ? "x" : " "}] ${PRODUCTION_STEP_LABELS[step]}\n`;
+    }
+    content += `\n**Notes**: ${status.notes ?? ""}\n\n`;
   }
 
   content += `---
@@ -160,13 +204,115 @@ function extractLessonsFromDevelop(developContent: string): ParsedLesson[] {
     });
   }
 
-  // If no lessons found, create placeholder
-  if (lessons.length === 0) {
-    lessons.push(
-      { path: "M1/L1", title: "Lesson 1" },
-      { path: "M1/L2", title: "Lesson 2" }
+  return lessons;
+}
+
+// =============================================================================
+// Production Steps
+// =============================================================================
+
+export async function produceRecordCommand(path: string, options: ProduceStepOptions): Promise<void> {
+  markStep(path, "recorded", options);
+}
+
+export async function produceEditCommand(path: string, options: ProduceStepOptions): Promise<void> {
+  markStep(path, "edited", options);
+}
+
+export async function produceUploadCommand(path: string, options: ProduceStepOptions): Promise<void> {
+  markStep(path, "uploaded", options);
+}
+
+export async function produceTestCommand(path: string, options: ProduceStepOptions): Promise<void> {
+  markStep(path, "accessTested", options);
+}
+
+export async function produceNoteCommand(path: string, text: string): Promise<void> {
+  const { course, lessonPath } = resolveLesson(path);
+  const production = getLessonProduction(course.id, lessonPath) ?? emptyProduction(lessonPath);
+
+  const notes = text.trim() || null;
+  saveProduction(course.id, { ...production, notes });
+
+  console.log(chalk.green(notes ? `Saved notes for ${lessonPath}` : `Cleared notes for ${lessonPath}`));
+  if (notes) {
+    console.log(`  ${notes}`);
+  }
+}
+
+function markStep(path: string, step: ProductionStep, options: ProduceStepOptions): void {
+  const done = !options.undo;
+  const { course, moduleId, lessonId, lessonPath, status } = resolveLesson(path);
+  const before = getLessonProduction(course.id, lessonPath) ?? emptyProduction(lessonPath);
+  const after = markProductionStep(before, step, done);
+
+  saveProduction(course.id, after);
+
+  const changed = PRODUCTION_STEPS.filter((s) => before[s] !== after[s]);
+  const labels = changed.map((s) => PRODUCTION_STEP_LABELS[s]).join(", ");
+  if (changed.length === 0) {
+    console.log(
+      chalk.yellow(`${lessonPath} is already ${done ? "" : "not "}${PRODUCTION_STEP_LABELS[step].toLowerCase()}`)
     );
+  } else {
+    console.log(chalk.green(`${lessonPath}: ${done ? "marked" : "unmarked"} ${labels}`));
   }
 
-  return lessons;
+  const nextStatus = lessonStatusAfterStep(status, after, done);
+  if (nextStatus === status) return;
+
+  // Status follows production only along allowed transitions
+  const transition = checkTransition(status, nextStatus);
+  if (!transition.allowed && !options.force) {
+    console.log(chalk.yellow(`  Lesson status stays ${status}: ${status} → ${nextStatus} skips a step.`));
+    console.log(`  Allowed from ${status}: ${LESSON_TRANSITIONS[status].join(", ")}`);
+    console.log(`  Use ${chalk.cyan("--force")} to move it anyway.`);
+    return;
+  }
+
+  updateLessonStatus(course.id, moduleId, lessonId, nextStatus, {
+    note: `Production: ${done ? "marked" : "unmarked"} ${labels || PRODUCTION_STEP_LABELS[step]}`,
+    forced: !transition.allowed,
+  });
+  const label = transition.allowed ? "Lesson status" : "Lesson status (forced)";
+  console.log(`  ${label}: ${status} → ${nextStatus}`);
+}
+
+/**
+ * Parse "C-001/M1/L2" and check that the course and lesson exist.
+ */
+function resolveLesson(path: string): {
+  course: Course;
+  moduleId: string;
+  lessonId: string;
+  lessonPath: string;
+  status: LessonStatus;
+} {
+  const parts = path.split("/");
+  if (parts.length !== 3) {
+    console.log(chalk.red("Invalid path format. Use: C-001/M1/L2"));
+    process.exit(1);
+  }
+
+  const [courseId, moduleId, lessonId] = parts;
+
+  const course = getCourse(courseId);
+  if (!course) {
+    console.log(chalk.red(`Course not found: ${courseId}`));
+    process.exit(1);
+  }
+
+  const lesson = getLessons(courseId, moduleId).find((l) => l.id === lessonId);
+  if (!lesson) {
+    console.log(chalk.red(`Lesson not found: ${moduleId}/${lessonId}`));
+    process.exit(1);
+  }
+
+  return {
+    course,
+    moduleId,
+    lessonId,
+    lessonPath: `${moduleId}/${lessonId}`,
+    status: lesson.status as LessonStatus,
+  };
 }
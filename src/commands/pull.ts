@@ -0,0 +1,84 @@
+/**
+ * Pull Command
+ *
+ * Brings lesson and guide edits made on the platform back into source files,
+ * the reverse of push.
+ */
+
+import chalk from "chalk";
+import { loadConfig } from "../config";
+import { executePull } from "../lib/pull-sync";
+import { displaySyncResult, displaySyncPreview } from "../lib/sync-display";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PullCommandOptions {
+  dryRun?: boolean;
+  force?: boolean;
+  course?: string;
+}
+
+// =============================================================================
+// Main Command
+// =============================================================================
+
+/**
+ * Pull platform edits into source.
+ *
+ * @param options - Command options
+ */
+export async function pullCommand(options: PullCommandOptions = {}): Promise<void> {
+  try {
+    // Load configuration
+    const config = await loadConfig();
+
+    // Display header
+    console.log("");
+    console.log(chalk.bold("CourseKit Pull"));
+    console.log("─".repeat(50));
+    console.log(`  Platform: ${chalk.dim(config.platform.path)}`);
+    if (options.dryRun) {
+      console.log(`  Mode:     ${chalk.yellow("DRY RUN")}`);
+    }
+    if (options.force) {
+      console.log(`  Mode:     ${chalk.red("FORCE (overwrite source edits)")}`);
+    }
+    if (options.course) {
+      console.log(`  Filter:   ${chalk.cyan(options.course)}`);
+    }
+    console.log("");
+
+    console.log(chalk.dim("Pulling lessons and guides..."));
+    const result = await executePull(config, {
+      dryRun: options.dryRun,
+      force: options.force,
+      courseId: options.course,
+    });
+
+    if (result.dryRun) {
+      displaySyncPreview(result);
+    } else {
+      displaySyncResult(result);
+    }
+
+    // Set exit code based on result
+    if (!result.success) {
+      // 2 = source edited too, 1 = errors
+      process.exitCode = result.skipped.length > 0 ? 2 : 1;
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes("coursekit.json")) {
+        console.log(chalk.red("No coursekit.json found."));
+        console.log("");
+        console.log("Create a coursekit.json configuration file in the current directory.");
+        process.exitCode = 1;
+        return;
+      }
+      console.log(chalk.red(`Pull failed: ${error.message}`));
+    }
+    process.exitCode = 1;
+  }
+}
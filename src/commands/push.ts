@@ -5,13 +5,38 @@
  * Uses internal sync modules (F-9, F-10, F-11).
  */
 
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createInterface, type Interface } from "node:readline";
 import chalk from "chalk";
 import { loadConfig } from "../config";
 import { executeLessonSync } from "../lib/lesson-sync";
 import { executeGuideSync } from "../lib/guide-sync";
 import { executeAssetSync } from "../lib/asset-sync";
-import { displaySyncResult, displaySyncPreview } from "../lib/sync-display";
-import type { SyncOptions, SyncResult, SyncSummary } from "../types";
+import { executePrune } from "../lib/sync-prune";
+import { applyConflictResolutions, collectConflictReviews } from "../lib/conflict-resolution";
+import {
+  displayConflictReview,
+  displayResolutionResult,
+  RESOLUTION_LABELS,
+} from "../lib/conflict-display";
+import { hasConflictMarkers } from "../lib/text-diff";
+import {
+  displaySyncResult,
+  displaySyncPreview,
+  displaySyncSummaryByType,
+  displayPruneResult,
+} from "../lib/sync-display";
+import type {
+  ConflictDecision,
+  ConflictResolution,
+  ConflictReview,
+  PruneResult,
+  SyncOptions,
+  SyncResult,
+  SyncSummary,
+} from "../types";
 
 // =============================================================================
 // Types
@@ -21,6 +46,9 @@ export interface PushCommandOptions {
   dryRun?: boolean;
   force?: boolean;
   course?: string;
+  prune?: boolean;
+  trash?: boolean;
+  interactive?: boolean;
 }
 
 // =============================================================================
@@ -35,6 +63,8 @@ function aggregateResults(results: SyncResult[]): SyncResult {
   const updated: string[] = [];
   const unchanged: string[] = [];
   const skipped: string[] = [];
+  const merged: string[] = [];
+  const conflicted: string[] = [];
   const errors: { key: string; error: Error; message: string }[] = [];
 
   for (const result of results) {
@@ -42,6 +72,8 @@ function aggregateResults(results: SyncResult[]): SyncResult {
     updated.push(...result.updated);
     unchanged.push(...result.unchanged);
     skipped.push(...result.skipped);
+    merged.push(...(result.merged ?? []));
+    conflicted.push(...(result.conflicted ?? []));
     errors.push(...result.errors);
   }
 
@@ -63,12 +95,131 @@ function aggregateResults(results: SyncResult[]): SyncResult {
     updated,
     unchanged,
     skipped,
+    merged,
+    conflicted,
     errors,
     summary,
     dryRun,
   };
 }
 
+// =============================================================================
+// Interactive Conflict Resolution
+// =============================================================================
+
+/**
+ * Line-based prompt that buffers answers, so piped input works as well as a terminal.
+ */
+function createPrompter(): { ask: (query: string) => Promise<string | null>; rl: Interface } {
+  const rl = createInterface({ input: process.stdin, output: process.stdout, terminal: false });
+  const buffered: string[] = [];
+  let waiting: ((line: string | null) => void) | null = null;
+  let closed = false;
+
+  rl.on("line", (line) => {
+    if (waiting) {
+      const resolve = waiting;
+      waiting = null;
+      resolve(line);
+    } else {
+      buffered.push(line);
+    }
+  });
+  rl.on("close", () => {
+    closed = true;
+    waiting?.(null);
+    waiting = null;
+  });
+
+  const ask = (query: string): Promise<string | null> => {
+    process.stdout.write(query);
+    const next = buffered.shift();
+    if (next !== undefined) return Promise.resolve(next.trim().toLowerCase());
+    if (closed) return Promise.resolve(null);
+    return new Promise<string | null>((resolve) => {
+      waiting = resolve;
+    }).then((line) => (line === null ? null : line.trim().toLowerCase()));
+  };
+
+  return { ask, rl };
+}
+
+/**
+ * Open the merge draft in $VISUAL/$EDITOR and return the saved content.
+ */
+function editMergeDraft(review: ConflictReview): string | null {
+  const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+  const draftPath = path.join(os.tmpdir(), `coursekit-merge-${process.pid}-${path.basename(review.targetPath)}`);
+
+  fs.writeFileSync(draftPath, review.mergeDraft ?? "");
+  try {
+    const result = Bun.spawnSync([...editor.split(/\s+/), draftPath], {
+      stdin: "inherit",
+      stdout: "inherit",
+      stderr: "inherit",
+    });
+    if (result.exitCode !== 0) {
+      console.log(chalk.red(`Editor exited with code ${result.exitCode}.`));
+      return null;
+    }
+    return fs.readFileSync(draftPath, "utf-8");
+  } finally {
+    fs.rmSync(draftPath, { force: true });
+  }
+}
+
+/**
+ * Walk each conflict and collect a resolution. Answering q keeps the rest.
+ */
+async function resolveConflictsInteractively(reviews: ConflictReview[]): Promise<ConflictDecision[]> {
+  const { ask, rl } = createPrompter();
+  const decisions: ConflictDecision[] = [];
+
+  try {
+    for (let i = 0; i < reviews.length; i++) {
+      const review = reviews[i];
+      displayConflictReview(review, i + 1, reviews.length);
+
+      const letters = new Map<string, ConflictResolution>(
+        review.choices.map((choice) => [RESOLUTION_LABELS[choice].charAt(1), choice])
+      );
+      const prompt = `${review.choices.map((c) => RESOLUTION_LABELS[c]).join(", ")}, [q]uit? `;
+
+      while (true) {
+        const answer = await ask(prompt);
+        if (answer === null || answer === "q") {
+          return decisions;
+        }
+
+        const resolution = letters.get(answer.charAt(0));
+        if (!resolution) {
+          console.log(chalk.yellow(`Choose one of: ${[...letters.keys(), "q"].join(", ")}`));
+          continue;
+        }
+
+        if (resolution === "edit") {
+          rl.pause();
+          const content = editMergeDraft(review);
+          rl.resume();
+          if (content === null) continue;
+          if (hasConflictMarkers(content)) {
+            console.log(chalk.yellow("The edited file still has conflict markers. Choose again."));
+            continue;
+          }
+          decisions.push({ review, resolution, content });
+        } else {
+          decisions.push({ review, resolution });
+        }
+        break;
+      }
+    }
+  } finally {
+    rl.close();
+  }
+
+  return decisions;
+}
+
 // =============================================================================
 // Push Command
 // =============================================================================
@@ -76,9 +227,15 @@ function aggregateResults(results: SyncResult[]): SyncResult {
 /**
  * Execute the push command.
  *
- * @param options - Command options (dryRun, force, course)
+ * @param options - Command options (dryRun, force, course, prune, trash, interactive)
  */
 export async function pushCommand(options: PushCommandOptions = {}): Promise<void> {
+  if (options.interactive && options.force) {
+    console.log(chalk.red("Use either --interactive or --force, not both."));
+    process.exitCode = 1;
+    return;
+  }
+
   try {
     // Load configuration
     const config = await loadConfig();
@@ -101,11 +258,30 @@ export async function pushCommand(options: PushCommandOptions = {}): Promise<voi
     if (options.force) {
       console.log(`  Mode:     ${chalk.red("FORCE (overwrite conflicts)")}`);
     }
+    if (options.interactive) {
+      console.log(`  Mode:     ${chalk.cyan("INTERACTIVE (review conflicts)")}`);
+    }
+    if (options.prune) {
+      console.log(`  Prune:    ${chalk.yellow(options.trash ? "move removed sources to trash" : "delete removed sources")}`);
+    }
     if (options.course) {
       console.log(`  Filter:   ${chalk.cyan(options.course)}`);
     }
     console.log("");
 
+    // Settle conflicts first so the sync below picks up the choices
+    if (options.interactive) {
+      const reviews = await collectConflictReviews(config, { courseId: options.course });
+      if (reviews.length === 0) {
+        console.log(chalk.dim("No conflicts to review."));
+      } else {
+        const decisions = await resolveConflictsInteractively(reviews);
+        const resolution = await applyConflictResolutions(config, decisions, { dryRun: options.dryRun });
+        displayResolutionResult(resolution);
+      }
+      console.log("");
+    }
+
     // Execute syncs
     console.log(chalk.dim("Syncing lessons..."));
     const lessonResult = await executeLessonSync(config, syncOptions);
@@ -125,10 +301,23 @@ export async function pushCommand(options: PushCommandOptions = {}): Promise<voi
     } else {
       displaySyncResult(combinedResult);
     }
+    displaySyncSummaryByType({ lesson: lessonResult, guide: guideResult, asset: assetResult });
+
+    // Remove platform files whose source was deleted
+    let pruneResult: PruneResult | null = null;
+    if (options.prune) {
+      pruneResult = await executePrune(config, {
+        dryRun: options.dryRun,
+        force: options.force,
+        courseId: options.course,
+        trash: options.trash,
+      });
+      displayPruneResult(pruneResult);
+    }
 
     // Set exit code based on result
-    if (!combinedResult.success) {
-      if (combinedResult.skipped.length > 0) {
+    if (!combinedResult.success || (pruneResult && !pruneResult.success)) {
+      if (combinedResult.skipped.length > 0 || (pruneResult && pruneResult.skipped.length > 0)) {
         // Conflicts detected
         process.exitCode = 2;
       } else {
@@ -0,0 +1,137 @@
+/**
+ * quiz command - Generate, store and export a module question bank
+ */
+
+import chalk from "chalk";
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  getCourse,
+  getModules,
+  getLessons,
+  replaceQuizQuestions,
+} from "../lib/database";
+import { loadBloomVocabulary } from "../lib/bloom-vocabularies";
+import {
+  generateQuizQuestions,
+  quizFilename,
+  renderQuizMarkdown,
+  splitObjective,
+  type QuizSourceLesson,
+} from "../lib/quiz";
+
+interface QuizOptions {
+  count?: string;
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+export async function quizCommand(
+  path: string,
+  options: QuizOptions
+): Promise<void> {
+  // Parse path: C-001/M1
+  const parts = path.split("/");
+  if (parts.length !== 2) {
+    console.log(chalk.red("Invalid path format. Use: C-001/M1"));
+    process.exit(1);
+  }
+
+  const [courseId, moduleId] = parts;
+
+  const course = getCourse(courseId);
+  if (!course) {
+    console.log(chalk.red(`Course not found: ${courseId}`));
+    process.exit(1);
+  }
+
+  const modules = getModules(courseId);
+  const module = modules.find((m) => m.id === moduleId);
+  if (!module) {
+    console.log(chalk.red(`Module not found: ${moduleId}`));
+    console.log(`Available modules: ${modules.map((m) => m.id).join(", ") || "none"}`);
+    process.exit(1);
+  }
+
+  const count = options.count ? parseInt(options.count, 10) : 5;
+  if (isNaN(count) || count < 1) {
+    console.log(chalk.red(`Invalid count: ${options.count}`));
+    process.exit(1);
+  }
+
+  const vocabulary = await loadBloomVocabulary(course);
+
+  // Collect module lessons and outcomes from the rest of the course as distractors
+  const moduleLessons: QuizSourceLesson[] = [];
+  const distractorPool: string[] = [];
+
+  for (const m of modules) {
+    for (const lesson of getLessons(courseId, m.id)) {
+      if (m.id === moduleId) {
+        moduleLessons.push({ moduleId: m.id, ...lesson });
+      } else if (lesson.objective) {
+        distractorPool.push(splitObjective(lesson.objective, vocabulary).outcome);
+      }
+    }
+  }
+
+  const questions = generateQuizQuestions(moduleLessons, count, distractorPool, vocabulary);
+
+  if (questions.length === 0) {
+    console.log(chalk.yellow(`No lesson objectives found in ${moduleId}.`));
+    console.log(`Add objectives with: ${chalk.cyan(`coursekit add-lesson ${courseId}/${moduleId} "Title" --objective "..."`)}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ courseId, moduleId, questions }, null, 2));
+  }
+
+  const markdown = renderQuizMarkdown(
+    {
+      courseId,
+      courseName: course.name,
+      moduleId,
+      moduleName: module.name,
+    },
+    questions
+  );
+  const quizDir = join(course.coursePath || "", "materials", moduleId);
+  const quizPath = join(quizDir, quizFilename(courseId, moduleId));
+
+  if (options.dryRun) {
+    if (!options.json) {
+      console.log(chalk.blue(`Dry run - would store ${questions.length} questions and write:`));
+      console.log(`  ${quizPath}`);
+      console.log("");
+      console.log(markdown);
+    }
+    return;
+  }
+
+  replaceQuizQuestions(courseId, moduleId, questions);
+  mkdirSync(quizDir, { recursive: true });
+  writeFileSync(quizPath, markdown);
+
+  if (options.json) {
+    return;
+  }
+
+  console.log("");
+  console.log(chalk.bold(`Quiz: ${courseId}/${moduleId} - ${module.name}`));
+  console.log("─".repeat(60));
+  console.log("");
+  for (const q of questions) {
+    const type = q.choices.length > 0 ? "multiple choice" : "open response";
+    console.log(`  ${chalk.cyan(q.id)} ${chalk.dim(`[${q.objectiveId} · ${q.bloomLevel} · ${type}]`)}`);
+    console.log(`     ${q.stem}`);
+  }
+  console.log("");
+  console.log(chalk.green(`Stored ${questions.length} questions`));
+  console.log(chalk.green(`Created: ${quizPath}`));
+  console.log("");
+  console.log(chalk.yellow("Review the generated questions before publishing."));
+  console.log(`Publish with: ${chalk.cyan("coursekit push")}`);
+  console.log("");
+}
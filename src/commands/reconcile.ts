@@ -0,0 +1,188 @@
+/**
+ * reconcile command - Compare and sync the database structure with design.md
+ */
+
+import chalk from "chalk";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  deleteLesson,
+  deleteModule,
+  getCourse,
+  getLessons,
+  getModules,
+  upsertLesson,
+  upsertModule,
+} from "../lib/database";
+import { loadBloomVocabulary } from "../lib/bloom-vocabularies";
+import { parseDesign } from "../lib/design-parser";
+import { replaceModuleStructure, type DesignModuleBlock } from "../lib/design-writer";
+import { formatParseError } from "../lib/markdown-sections";
+import {
+  describeChange,
+  diffStructure,
+  type StructureChange,
+} from "../lib/reconcile";
+
+interface ReconcileOptions {
+  check?: boolean;
+  to?: string;
+  force?: boolean;
+  json?: boolean;
+}
+
+export async function reconcileCommand(
+  courseId: string,
+  options: ReconcileOptions
+): Promise<void> {
+  const course = getCourse(courseId);
+
+  if (!course) {
+    console.log(chalk.red(`Course not found: ${courseId}`));
+    process.exit(1);
+  }
+
+  if (options.to && options.to !== "db" && options.to !== "design") {
+    console.log(chalk.red(`Invalid target: ${options.to}. Use 'db' or 'design'.`));
+    process.exit(1);
+  }
+
+  const designPath = join(course.coursePath || "", "design.md");
+  const designContent = existsSync(designPath) ? readFileSync(designPath, "utf-8") : "";
+  const { design, errors } = parseDesign(
+    designContent,
+    courseId,
+    await loadBloomVocabulary(course)
+  );
+
+  const dbModules: DesignModuleBlock[] = getModules(courseId).map((module) => ({
+    ...module,
+    lessons: getLessons(courseId, module.id),
+  }));
+
+  const changes = diffStructure(dbModules, design.modules);
+
+  if (options.json) {
+    console.log(
+      JSON.stringify({ courseId, inSync: changes.length === 0, changes }, null, 2)
+    );
+    if (options.check && changes.length > 0) process.exit(1);
+    return;
+  }
+
+  console.log("");
+  console.log(chalk.bold(`Reconcile: ${course.name}`));
+  console.log("─".repeat(60));
+  console.log(chalk.dim(`  Database  ↔  ${designPath}`));
+  console.log("");
+
+  if (changes.length === 0) {
+    console.log(chalk.green("Database and design.md agree."));
+    console.log("");
+    return;
+  }
+
+  displayChanges(changes);
+
+  if (options.check) {
+    console.log(chalk.red(`${changes.length} difference${changes.length === 1 ? "" : "s"} between database and design.md`));
+    process.exit(1);
+  }
+
+  if (options.to === "db") {
+    if (errors.length > 0) {
+      console.log(chalk.red("design.md has problems; fix them before applying it to the database:"));
+      for (const error of errors) {
+        console.log(`  ${formatParseError(error, "design.md")}`);
+      }
+      process.exit(1);
+    }
+    applyToDatabase(courseId, dbModules, design.modules, changes, options.force);
+    return;
+  }
+
+  if (options.to === "design") {
+    const header = designContent || `# Course Design: ${course.name}\n\n`;
+    writeFileSync(designPath, replaceModuleStructure(header, dbModules));
+    console.log(chalk.green(`Updated ${designPath} from the database`));
+    console.log("");
+    return;
+  }
+
+  console.log("Apply changes:");
+  console.log(`  design.md → database: ${chalk.cyan(`coursekit reconcile ${courseId} --to db`)}`);
+  console.log(`  database → design.md: ${chalk.cyan(`coursekit reconcile ${courseId} --to design`)}`);
+  console.log("");
+}
+
+function displayChanges(changes: StructureChange[]): void {
+  const icons: Record<StructureChange["kind"], string> = {
+    added: chalk.green("+"),
+    removed: chalk.red("-"),
+    renamed: chalk.yellow("~"),
+    reordered: chalk.cyan("↕"),
+    changed: chalk.yellow("~"),
+  };
+
+  for (const level of ["module", "lesson"] as const) {
+    const items = changes.filter((c) => c.level === level);
+    if (items.length === 0) continue;
+
+    console.log(chalk.bold(level === "module" ? "Modules" : "Lessons"));
+    for (const change of items) {
+      console.log(`  ${icons[change.kind]} ${describeChange(change)}`);
+    }
+    console.log("");
+  }
+}
+
+/**
+ * Make the database match design.md: upsert everything in design order and
+ * delete rows that design.md no longer has.
+ */
+function applyToDatabase(
+  courseId: string,
+  dbModules: DesignModuleBlock[],
+  designModules: ReturnType<typeof parseDesign>["design"]["modules"],
+  changes: StructureChange[],
+  force?: boolean
+): void {
+  const removed = changes.filter((c) => c.kind === "removed");
+
+  // Lessons past "planned" carry work; only delete them with --force
+  const inProgress = removed.flatMap((change) => {
+    const [moduleId, lessonId] = change.path.split("/");
+    const lessons = getLessons(courseId, moduleId);
+    return lessons
+      .filter((l) => (!lessonId || l.id === lessonId) && l.status !== "planned")
+      .map((l) => `${moduleId}/${l.id} (${l.status})`);
+  });
+
+  if (inProgress.length > 0 && !force) {
+    console.log(chalk.yellow("These lessons would be deleted but are already in progress:"));
+    for (const item of inProgress) {
+      console.log(`  ${item}`);
+    }
+    console.log(`Use ${chalk.cyan("--force")} to delete them anyway.`);
+    process.exit(1);
+  }
+
+  designModules.forEach((module, moduleIndex) => {
+    upsertModule(courseId, module, moduleIndex + 1);
+    module.lessons.forEach((lesson, lessonIndex) => {
+      upsertLesson(courseId, module.id, lesson, lessonIndex + 1);
+    });
+  });
+
+  for (const change of removed) {
+    const [moduleId, lessonId] = change.path.split("/");
+    if (lessonId) {
+      deleteLesson(courseId, moduleId, lessonId);
+    } else if (dbModules.some((m) => m.id === moduleId)) {
+      deleteModule(courseId, moduleId);
+    }
+  }
+
+  console.log(chalk.green(`Applied ${changes.length} change${changes.length === 1 ? "" : "s"} from design.md to the database`));
+  console.log("");
+}
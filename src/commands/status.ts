@@ -7,23 +7,35 @@ import {
   getAllCourses,
   getCourse,
   getCourseStats,
+  getSingleCourseStats,
   getModules,
   getLessons,
+  getProduction,
 } from "../lib/database";
-import type { Course, CoursePhase } from "../types";
+import { loadBloomVocabulary } from "../lib/bloom-vocabularies";
+import {
+  analyzeBloomProgression,
+  type BloomProgressionReport,
+} from "../lib/bloom-progression";
+import type { BloomLevel, Course, CoursePhase, CourseStatus, ProductionStatus } from "../types";
+import { BLOOM_LEVELS } from "../lib/bloom";
+import { emptyProduction, PRODUCTION_STEPS, type ProductionStep } from "../lib/production";
 
 interface StatusOptions {
   verbose?: boolean;
   json?: boolean;
+  status?: string;
 }
 
+const COURSE_STATUSES: CourseStatus[] = ["draft", "in_progress", "ready", "launched", "archived"];
+
 export async function statusCommand(
   courseId?: string,
   options: StatusOptions = {}
 ): Promise<void> {
   try {
     if (courseId) {
-      showCourseStatus(courseId, options);
+      await showCourseStatus(courseId, options);
     } else {
       showOverallStatus(options);
     }
@@ -38,7 +50,15 @@ export async function statusCommand(
 }
 
 function showOverallStatus(options: StatusOptions): void {
-  const courses = getAllCourses();
+  const filter = options.status as CourseStatus | undefined;
+  if (filter && !COURSE_STATUSES.includes(filter)) {
+    console.log(chalk.red(`Invalid status: ${filter}`));
+    console.log(`Valid statuses: ${COURSE_STATUSES.join(", ")}`);
+    process.exit(1);
+  }
+
+  // Archived courses are only listed when asked for
+  const courses = getAllCourses(filter).filter((c) => filter || c.status !== "archived");
   const stats = getCourseStats();
 
   if (options.json) {
@@ -47,7 +67,15 @@ function showOverallStatus(options: StatusOptions): void {
   }
 
   if (courses.length === 0) {
+    if (filter) {
+      console.log(chalk.yellow(`No ${filter} courses.`));
+      return;
+    }
     console.log(chalk.yellow("No courses found."));
+    if (stats.byStatus.archived > 0) {
+      console.log(`List archived courses with ${chalk.cyan("coursekit status --status archived")}`);
+      return;
+    }
     console.log(`Run ${chalk.cyan("coursekit init <name>")} to create one.`);
     return;
   }
@@ -84,13 +112,23 @@ function showOverallStatus(options: StatusOptions): void {
       `  ${statusIcon} ${chalk.cyan(course.id)} ${course.name}`
     );
     console.log(
-      `    Phase: ${phaseLabel(course.phase)} | Context: ${course.context}`
+      `    Phase: ${phaseLabel(course.phase)} | Status: ${course.status} | Context: ${course.context}`
+    );
+    if (course.launchedAt) {
+      console.log(`    Launched: ${course.launchedAt.toLocaleDateString()}`);
+    }
+    console.log("");
+  }
+
+  if (!filter && stats.byStatus.archived > 0) {
+    console.log(
+      chalk.dim(`  ${stats.byStatus.archived} archived (coursekit status --status archived)`)
     );
     console.log("");
   }
 }
 
-function showCourseStatus(courseId: string, options: StatusOptions): void {
+async function showCourseStatus(courseId: string, options: StatusOptions): Promise<void> {
   const course = getCourse(courseId);
 
   if (!course) {
@@ -104,7 +142,19 @@ function showCourseStatus(courseId: string, options: StatusOptions): void {
       ...m,
       lessons: getLessons(courseId, m.id),
     }));
-    console.log(JSON.stringify({ course, modules: modulesWithLessons }, null, 2));
+    const bloomProgression = analyzeBloomProgression(
+      modulesWithLessons,
+      await loadBloomVocabulary(course)
+    );
+    const stats = getSingleCourseStats(courseId);
+    const production = getProduction(courseId);
+    console.log(
+      JSON.stringify(
+        { course, modules: modulesWithLessons, stats, production, bloomProgression },
+        null,
+        2
+      )
+    );
     return;
   }
 
@@ -124,6 +174,9 @@ function showCourseStatus(courseId: string, options: StatusOptions): void {
   if (course.launchedAt) {
     console.log(`  Launched:    ${course.launchedAt.toLocaleDateString()}`);
   }
+  if (course.archivedAt) {
+    console.log(`  Archived:    ${course.archivedAt.toLocaleDateString()}`);
+  }
   console.log("");
 
   // Show phase progress
@@ -152,16 +205,37 @@ function showCourseStatus(courseId: string, options: StatusOptions): void {
   }
   console.log("");
 
+  const stats = getSingleCourseStats(courseId);
+  if (stats.totalModules > 0) {
+    console.log(chalk.bold("Content:"));
+    console.log("");
+    console.log(`  Modules:     ${stats.totalModules}`);
+    console.log(`  Lessons:     ${stats.totalLessons}`);
+    if (stats.tasksTotal > 0) {
+      console.log(
+        `  Tasks:       ${stats.tasksCompleted}/${stats.tasksTotal} completed (${stats.percentComplete}%)`
+      );
+    }
+    console.log("");
+  }
+
+  const production = getProduction(courseId);
+  if (course.phase === "produce" || course.phase === "launch" || production.length > 0) {
+    showProductionBoard(courseId, production);
+  }
+
   // Show modules if verbose
   if (options.verbose) {
-    const modules = getModules(courseId);
+    const modules = getModules(courseId).map((m) => ({
+      ...m,
+      lessons: getLessons(courseId, m.id),
+    }));
     if (modules.length > 0) {
       console.log(chalk.bold("Modules:"));
       console.log("");
       for (const module of modules) {
         console.log(`  ${chalk.cyan(module.id)}: ${module.name}`);
-        const lessons = getLessons(courseId, module.id);
-        for (const lesson of lessons) {
+        for (const lesson of module.lessons) {
           const statusIcon = lessonStatusIcon(lesson.status);
           console.log(
             `    ${statusIcon} ${lesson.id}: ${lesson.title} (${lesson.duration} min)`
@@ -169,6 +243,10 @@ function showCourseStatus(courseId: string, options: StatusOptions): void {
         }
         console.log("");
       }
+
+      showBloomProgression(
+        analyzeBloomProgression(modules, await loadBloomVocabulary(course))
+      );
     }
   }
 
@@ -176,16 +254,91 @@ function showCourseStatus(courseId: string, options: StatusOptions): void {
   console.log(chalk.bold("Next Steps:"));
   console.log("");
   const nextPhase = getNextPhase(course.phase);
-  if (nextPhase) {
+  if (course.status === "archived") {
+    console.log(`  Archived. Restore with ${chalk.cyan(`coursekit unarchive ${courseId}`)}`);
+  } else if (nextPhase) {
     console.log(
       `  Run ${chalk.cyan(`coursekit ${nextPhase} ${courseId}`)} to proceed`
     );
   } else {
-    console.log(chalk.green("  Course is ready for launch!"));
+    console.log(chalk.green("  Course is launched!"));
   }
   console.log("");
 }
 
+function showProductionBoard(courseId: string, records: ProductionStatus[]): void {
+  const production = new Map(records.map((p) => [p.lessonPath, p]));
+  const lessons = getModules(courseId).flatMap((m) =>
+    getLessons(courseId, m.id).map((l) => ({ path: `${m.id}/${l.id}`, title: l.title }))
+  );
+  if (lessons.length === 0) return;
+
+  const headers: Record<ProductionStep, string> = {
+    recorded: "Rec",
+    edited: "Edit",
+    uploaded: "Upl",
+    accessTested: "Test",
+  };
+  const totals: Record<ProductionStep, number> = { recorded: 0, edited: 0, uploaded: 0, accessTested: 0 };
+  const pathWidth = Math.max(6, ...lessons.map((l) => l.path.length)) + 2;
+
+  console.log(chalk.bold("Production Board:"));
+  console.log("");
+  console.log(
+    chalk.dim(`  ${"".padEnd(pathWidth)}${PRODUCTION_STEPS.map((s) => headers[s].padEnd(6)).join("")}Notes`)
+  );
+
+  for (const lesson of lessons) {
+    const status = production.get(lesson.path) ?? emptyProduction(lesson.path);
+    const cells = PRODUCTION_STEPS.map((step) => {
+      if (status[step]) totals[step]++;
+      return status[step] ? chalk.green("✓".padEnd(6)) : chalk.dim("·".padEnd(6));
+    }).join("");
+    const notes = status.notes ? chalk.dim(status.notes) : "";
+    console.log(`  ${chalk.cyan(lesson.path.padEnd(pathWidth))}${cells}${notes}`);
+  }
+
+  console.log("");
+  console.log(
+    `  ${PRODUCTION_STEPS.map((s) => `${headers[s]} ${totals[s]}/${lessons.length}`).join("  ")}`
+  );
+  console.log("");
+}
+
+function showBloomProgression(report: BloomProgressionReport): void {
+  const abbreviations: Record<BloomLevel, string> = {
+    remember: "Rem",
+    understand: "Und",
+    apply: "App",
+    analyze: "Ana",
+    evaluate: "Eva",
+    create: "Cre",
+  };
+
+  console.log(chalk.bold("Bloom Progression:"));
+  console.log("");
+  console.log(
+    chalk.dim(`  ${"".padEnd(6)}${BLOOM_LEVELS.map((l) => abbreviations[l].padStart(5)).join("")}    ?`)
+  );
+
+  for (const module of report.modules) {
+    const counts = BLOOM_LEVELS.map((level) => {
+      const count = module.histogram[level];
+      return count > 0 ? String(count).padStart(5) : chalk.dim("·".padStart(5));
+    }).join("");
+    const unclassified = module.unclassified > 0 ? chalk.yellow(String(module.unclassified).padStart(5)) : "";
+    console.log(`  ${chalk.cyan(module.id.padEnd(6))}${counts}${unclassified}`);
+  }
+  console.log("");
+
+  for (const warning of report.warnings) {
+    console.log(`  ${chalk.yellow("!")} ${warning.message}`);
+  }
+  if (report.warnings.length > 0) {
+    console.log("");
+  }
+}
+
 function phaseLabel(phase: CoursePhase): string {
   const labels: Record<CoursePhase, string> = {
     none: "Not Started",
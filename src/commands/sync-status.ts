@@ -9,12 +9,52 @@ import { loadConfig } from "../config";
 import { calculateLessonDiff } from "../lib/diff";
 import { detectConflicts } from "../lib/conflict-detection";
 import { displayConflictStatus } from "../lib/conflict-display";
+import { executeGuideSync } from "../lib/guide-sync";
+import { executeAssetSync } from "../lib/asset-sync";
+import { CONTENT_TYPE_LABELS } from "../lib/sync-display";
+import type { SyncResult } from "../types";
 
 export interface SyncStatusOptions {
   course?: string;
   json?: boolean;
 }
 
+/**
+ * Print the counts for one content type.
+ */
+function printTypeSummary(
+  label: string,
+  counts: { synced: number; added: number; modified: number; removed?: number; conflicts: number }
+): void {
+  console.log(chalk.bold(`${label}:`));
+  console.log(`  ${chalk.green(counts.synced.toString())} synced`);
+  if (counts.added > 0) {
+    console.log(`  ${chalk.blue(counts.added.toString())} to add`);
+  }
+  if (counts.modified > 0) {
+    console.log(`  ${chalk.yellow(counts.modified.toString())} modified`);
+  }
+  if (counts.removed) {
+    console.log(`  ${chalk.red(counts.removed.toString())} removed from source`);
+  }
+  if (counts.conflicts > 0) {
+    console.log(`  ${chalk.red(counts.conflicts.toString())} in conflict`);
+  }
+  console.log("");
+}
+
+/**
+ * Summarize a dry-run sync of guides or assets.
+ */
+function summarizeDryRun(result: SyncResult, conflicts: number) {
+  return {
+    synced: result.unchanged.length,
+    added: result.created.length,
+    modified: result.updated.length,
+    conflicts,
+  };
+}
+
 /**
  * Display sync status for all configured courses.
  */
@@ -32,6 +72,11 @@ export async function syncStatusCommand(options: SyncStatusOptions = {}): Promis
       includeUnchanged: true,
     });
 
+    // Guides and assets: a dry-run push shows what would change.
+    // Guides are not tied to a course, so a course filter leaves them out.
+    const guides = options.course ? null : await executeGuideSync(config, { dryRun: true });
+    const assets = await executeAssetSync(config, { dryRun: true, courseId: options.course });
+
     // Detect conflicts
     const conflicts = await detectConflicts(config, {
       courseId: options.course,
@@ -39,7 +84,13 @@ export async function syncStatusCommand(options: SyncStatusOptions = {}): Promis
 
     // JSON output
     if (options.json) {
-      console.log(JSON.stringify({ diff: diff.summary, conflicts }, null, 2));
+      console.log(
+        JSON.stringify(
+          { diff: diff.summary, guides: guides?.summary ?? null, assets: assets.summary, conflicts },
+          null,
+          2
+        )
+      );
       return;
     }
 
@@ -50,19 +101,18 @@ export async function syncStatusCommand(options: SyncStatusOptions = {}): Promis
     }
     console.log("");
 
-    // Lessons summary
-    console.log(chalk.bold("Lessons:"));
-    console.log(`  ${chalk.green(diff.summary.unchanged.toString())} synced`);
-    if (diff.summary.added > 0) {
-      console.log(`  ${chalk.blue(diff.summary.added.toString())} to add`);
-    }
-    if (diff.summary.modified > 0) {
-      console.log(`  ${chalk.yellow(diff.summary.modified.toString())} modified`);
-    }
-    if (diff.summary.removed > 0) {
-      console.log(`  ${chalk.red(diff.summary.removed.toString())} removed from source`);
+    // Per-type summaries
+    printTypeSummary(CONTENT_TYPE_LABELS.lesson, {
+      synced: diff.summary.unchanged,
+      added: diff.summary.added,
+      modified: diff.summary.modified,
+      removed: diff.summary.removed,
+      conflicts: conflicts.byType.lesson.conflicts,
+    });
+    if (guides) {
+      printTypeSummary(CONTENT_TYPE_LABELS.guide, summarizeDryRun(guides, conflicts.byType.guide.conflicts));
     }
-    console.log("");
+    printTypeSummary(CONTENT_TYPE_LABELS.asset, summarizeDryRun(assets, conflicts.byType.asset.conflicts));
 
     // Show conflicts if any
     if (conflicts.hasConflicts) {
@@ -73,10 +123,14 @@ export async function syncStatusCommand(options: SyncStatusOptions = {}): Promis
 
     // Show individual changes if any
     const changes = diff.items.filter(item => item.status !== "unchanged");
-    if (changes.length > 0) {
+    const otherChanges = [guides, assets].flatMap((result) => [
+      ...(result?.created ?? []).map((key) => ({ key, status: "added" })),
+      ...(result?.updated ?? []).map((key) => ({ key, status: "modified" })),
+    ]);
+    if (changes.length > 0 || otherChanges.length > 0) {
       console.log("");
       console.log(chalk.bold("Pending changes:"));
-      for (const item of changes) {
+      for (const item of [...changes, ...otherChanges]) {
         const icon = item.status === "added" ? "+" :
                      item.status === "modified" ? "~" :
                      item.status === "removed" ? "-" : "?";
@@ -88,7 +142,7 @@ export async function syncStatusCommand(options: SyncStatusOptions = {}): Promis
     }
 
     console.log("");
-    if (changes.length > 0 || conflicts.hasConflicts) {
+    if (changes.length > 0 || otherChanges.length > 0 || conflicts.hasConflicts) {
       console.log(chalk.dim("Run 'coursekit push' to sync changes."));
     } else {
       console.log(chalk.green("Everything is up to date."));
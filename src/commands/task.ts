@@ -0,0 +1,227 @@
+/**
+ * task command - List and update development tasks
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import chalk from "chalk";
+import { getCourse, getTask, getTasks, updateTaskStatus } from "../lib/database";
+import {
+  applyTaskStatuses,
+  diffTaskChecklist,
+  parseTaskChecklist,
+  TASK_LABELS,
+  TASK_STATUSES,
+  TASK_TYPES,
+  type ChecklistChange,
+} from "../lib/develop-tasks";
+import type { Course, DevelopmentTask, TaskStatus, TaskType } from "../types";
+
+interface TaskListOptions {
+  lesson?: string;
+  status?: string;
+  json?: boolean;
+}
+
+interface TaskBlockOptions {
+  reason: string;
+}
+
+export async function taskListCommand(
+  courseId: string,
+  options: TaskListOptions
+): Promise<void> {
+  const course = getCourse(courseId);
+  if (!course) {
+    console.log(chalk.red(`Course not found: ${courseId}`));
+    process.exit(1);
+  }
+
+  if (options.status && !TASK_STATUSES.includes(options.status as TaskStatus)) {
+    console.log(chalk.red(`Invalid status: ${options.status}`));
+    console.log(`Valid statuses: ${TASK_STATUSES.join(", ")}`);
+    process.exit(1);
+  }
+
+  const tasks = getTasks(courseId, {
+    lessonPath: options.lesson,
+    status: options.status as TaskStatus | undefined,
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify(tasks, null, 2));
+    return;
+  }
+
+  if (tasks.length === 0) {
+    console.log(chalk.yellow("No tasks found."));
+    if (!options.lesson && !options.status) {
+      console.log(`Run ${chalk.cyan(`coursekit develop ${courseId}`)} to create them.`);
+    }
+    return;
+  }
+
+  console.log("");
+  console.log(chalk.bold(`Tasks: ${course.name}`));
+  console.log("─".repeat(60));
+
+  let lessonPath: string | null = null;
+  for (const task of tasks) {
+    if (task.lessonPath !== lessonPath) {
+      lessonPath = task.lessonPath;
+      console.log("");
+      console.log(`  ${chalk.cyan(lessonPath)}`);
+    }
+    const reason = task.blockedReason ? chalk.dim(` (${task.blockedReason})`) : "";
+    console.log(
+      `    ${taskStatusIcon(task.status)} ${task.id.padEnd(5)} ${TASK_LABELS[task.type]}${reason}`
+    );
+  }
+
+  const completed = tasks.filter((t) => t.status === "completed").length;
+  console.log("");
+  console.log(`  ${completed}/${tasks.length} completed`);
+  console.log("");
+}
+
+export async function taskStartCommand(ref: string): Promise<void> {
+  setStatus(ref, "in_progress");
+}
+
+export async function taskCompleteCommand(ref: string): Promise<void> {
+  setStatus(ref, "completed");
+}
+
+export async function taskBlockCommand(ref: string, options: TaskBlockOptions): Promise<void> {
+  const reason = options.reason.trim();
+  if (!reason) {
+    console.log(chalk.red("A reason is required: --reason \"Waiting for screenshots\""));
+    process.exit(1);
+  }
+  setStatus(ref, "blocked", reason);
+}
+
+export async function taskSyncCommand(courseId: string): Promise<void> {
+  const course = getCourse(courseId);
+  if (!course) {
+    console.log(chalk.red(`Course not found: ${courseId}`));
+    process.exit(1);
+  }
+
+  const developPath = join(course.coursePath || "", "develop.md");
+  if (!existsSync(developPath)) {
+    console.log(chalk.red(`develop.md not found. Run ${chalk.cyan(`coursekit develop ${courseId}`)} first.`));
+    process.exit(1);
+  }
+
+  const changes = syncTaskChecklist(course);
+  if (changes.length === 0) {
+    console.log(chalk.green("Tasks already match develop.md"));
+    return;
+  }
+
+  for (const change of changes) {
+    console.log(
+      `  ${taskStatusIcon(change.status)} ${change.task.id} ${change.task.lessonPath} ${TASK_LABELS[change.task.type]}: ` +
+        `${change.task.status} → ${change.status}`
+    );
+  }
+  console.log("");
+  console.log(chalk.green(`Updated ${changes.length} task${changes.length === 1 ? "" : "s"} from develop.md`));
+}
+
+/**
+ * Apply ticked and unticked boxes in develop.md to the course's tasks.
+ *
+ * @returns The changes made (none when develop.md is missing)
+ */
+export function syncTaskChecklist(course: Course): ChecklistChange[] {
+  const developPath = join(course.coursePath || "", "develop.md");
+  if (!existsSync(developPath)) return [];
+
+  const items = parseTaskChecklist(readFileSync(developPath, "utf-8"));
+  const changes = diffTaskChecklist(items, getTasks(course.id));
+  for (const change of changes) {
+    updateTaskStatus(course.id, change.task.id, change.status);
+  }
+  return changes;
+}
+
+function setStatus(ref: string, status: TaskStatus, reason: string | null = null): void {
+  const { course, task } = resolveTask(ref);
+
+  if (task.status === status && task.blockedReason === reason) {
+    console.log(chalk.yellow(`${task.id} is already ${status.replace("_", " ")}`));
+    return;
+  }
+
+  updateTaskStatus(course.id, task.id, status, reason);
+  console.log(
+    chalk.green(`${task.id} ${task.lessonPath} ${TASK_LABELS[task.type]}: ${task.status} → ${status}`)
+  );
+  if (reason) {
+    console.log(`  Reason: ${reason}`);
+  }
+
+  // Keep the checkboxes in develop.md in step so the next sync agrees
+  const developPath = join(course.coursePath || "", "develop.md");
+  if (existsSync(developPath)) {
+    const content = readFileSync(developPath, "utf-8");
+    const updated = applyTaskStatuses(content, getTasks(course.id, { lessonPath: task.lessonPath }));
+    if (updated !== content) {
+      writeFileSync(developPath, updated);
+    }
+  }
+}
+
+/**
+ * Find a task by "C-001/T3" or "C-001/M1/L2/script".
+ */
+function resolveTask(ref: string): { course: Course; task: DevelopmentTask } {
+  const parts = ref.split("/");
+  if (parts.length !== 2 && parts.length !== 4) {
+    console.log(chalk.red("Invalid task reference. Use: C-001/T3 or C-001/M1/L2/script"));
+    process.exit(1);
+  }
+
+  const course = getCourse(parts[0]);
+  if (!course) {
+    console.log(chalk.red(`Course not found: ${parts[0]}`));
+    process.exit(1);
+  }
+
+  let task: DevelopmentTask | null | undefined;
+  if (parts.length === 2) {
+    task = getTask(course.id, parts[1]);
+  } else {
+    const type = parts[3] as TaskType;
+    if (!TASK_TYPES.includes(type)) {
+      console.log(chalk.red(`Invalid task type: ${parts[3]}`));
+      console.log(`Valid types: ${TASK_TYPES.join(", ")}`);
+      process.exit(1);
+    }
+    const lessonPath = `${parts[1]}/${parts[2]}`;
+    task = getTasks(course.id, { lessonPath }).find((t) => t.type === type);
+  }
+
+  if (!task) {
+    console.log(chalk.red(`Task not found: ${ref}`));
+    console.log(`List tasks with: ${chalk.cyan(`coursekit task list ${course.id}`)}`);
+    process.exit(1);
+  }
+
+  return { course, task };
+}
+
+function taskStatusIcon(status: TaskStatus): string {
+  switch (status) {
+    case "completed":
+      return chalk.green("✓");
+    case "in_progress":
+      return chalk.yellow("◐");
+    case "blocked":
+      return chalk.red("✗");
+    default:
+      return chalk.dim("○");
+  }
+}
@@ -8,6 +8,8 @@ import { join } from "path";
 import { tmpdir } from "os";
 import {
   loadConfig,
+  loadLLMConfig,
+  loadBloomVerbConfig,
   ConfigNotFoundError,
   ConfigParseError,
   ConfigValidationError,
@@ -197,3 +199,121 @@ describe("loadConfig", () => {
     );
   });
 });
+
+describe("loadLLMConfig", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "coursekit-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeConfig(config: unknown) {
+    writeFileSync(
+      join(tempDir, "coursekit.json"),
+      JSON.stringify(config, null, 2)
+    );
+  }
+
+  test("loads the llm section without requiring a platform", async () => {
+    writeConfig({
+      llm: { provider: "anthropic", model: "claude-test", maxTokens: 2000 },
+    });
+
+    const llm = await loadLLMConfig(tempDir);
+
+    expect(llm.provider).toBe("anthropic");
+    expect(llm.model).toBe("claude-test");
+    expect(llm.maxTokens).toBe(2000);
+  });
+
+  test("resolves relative fixtureDir against config dir", async () => {
+    writeConfig({ llm: { provider: "fixture", fixtureDir: "./fixtures" } });
+
+    const llm = await loadLLMConfig(tempDir);
+
+    expect(llm.fixtureDir).toBe(join(tempDir, "fixtures"));
+  });
+
+  test("throws ConfigValidationError when llm section is missing", async () => {
+    writeConfig({ platform: { path: "./platform" }, courses: {} });
+
+    try {
+      await loadLLMConfig(tempDir);
+      throw new Error("Should have thrown");
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigValidationError);
+      expect((err as ConfigValidationError).message).toContain("No LLM provider configured");
+    }
+  });
+
+  test("rejects unknown providers with llm-prefixed paths", async () => {
+    writeConfig({ llm: { provider: "carrier-pigeon" } });
+
+    try {
+      await loadLLMConfig(tempDir);
+      throw new Error("Should have thrown");
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigValidationError);
+      expect((err as ConfigValidationError).message).toContain("llm.provider");
+    }
+  });
+
+  test("loadConfig accepts an llm section", async () => {
+    mkdirSync(join(tempDir, "platform"));
+    writeConfig({
+      platform: { path: "./platform" },
+      courses: {},
+      llm: { provider: "fixture", fixtureDir: "fixtures" },
+    });
+
+    const config = await loadConfig(tempDir);
+
+    expect(config.llm?.fixtureDir).toBe(join(tempDir, "fixtures"));
+  });
+});
+
+describe("loadBloomVerbConfig", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "coursekit-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("returns an empty map without coursekit.json", async () => {
+    expect(await loadBloomVerbConfig(tempDir)).toEqual({});
+  });
+
+  test("loads verb extensions keyed by language", async () => {
+    writeFileSync(
+      join(tempDir, "coursekit.json"),
+      JSON.stringify({ bloomVerbs: { de: { apply: ["programmieren"], vague: ["kennen"] } } })
+    );
+
+    expect(await loadBloomVerbConfig(tempDir)).toEqual({
+      de: { apply: ["programmieren"], vague: ["kennen"] },
+    });
+  });
+
+  test("rejects unknown levels with bloomVerbs-prefixed paths", async () => {
+    writeFileSync(
+      join(tempDir, "coursekit.json"),
+      JSON.stringify({ bloomVerbs: { de: { memorize: ["merken"] } } })
+    );
+
+    try {
+      await loadBloomVerbConfig(tempDir);
+      throw new Error("Should have thrown");
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigValidationError);
+      expect((err as ConfigValidationError).message).toContain("bloomVerbs.de");
+    }
+  });
+});
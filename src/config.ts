@@ -7,7 +7,7 @@
 import { z } from "zod";
 import { existsSync, readFileSync } from "fs";
 import { join, resolve } from "path";
-import type { CourseKitConfig } from "./types";
+import type { BloomVerbExtension, CourseKitConfig, LLMConfig } from "./types";
 
 // =============================================================================
 // Zod Schemas
@@ -23,9 +23,41 @@ const PlatformConfigSchema = z.object({
   remote: z.string().optional(),
 });
 
+export const LLMConfigSchema = z.object({
+  provider: z.enum(["openai", "anthropic", "fixture"]),
+  model: z.string().min(1, "llm.model must not be empty").optional(),
+  baseUrl: z.string().min(1, "llm.baseUrl must not be empty").optional(),
+  apiKeyEnv: z.string().min(1, "llm.apiKeyEnv must not be empty").optional(),
+  maxTokens: z.number().int().positive().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  fixtureDir: z.string().min(1, "llm.fixtureDir must not be empty").optional(),
+});
+
+const VerbListSchema = z.array(z.string().min(1, "verbs must not be empty"));
+
+export const BloomVerbExtensionSchema = z
+  .object({
+    remember: VerbListSchema,
+    understand: VerbListSchema,
+    apply: VerbListSchema,
+    analyze: VerbListSchema,
+    evaluate: VerbListSchema,
+    create: VerbListSchema,
+    vague: VerbListSchema,
+  })
+  .partial()
+  .strict();
+
+export const BloomVerbsConfigSchema = z.record(
+  z.string().regex(/^[a-z]{2}(?:-[a-z]{2})?$/i, "language must be a code like \"de\" or \"pt-br\""),
+  BloomVerbExtensionSchema
+);
+
 export const CourseKitConfigSchema = z.object({
   platform: PlatformConfigSchema,
   courses: z.record(z.string(), CourseMappingSchema),
+  llm: LLMConfigSchema.optional(),
+  bloomVerbs: BloomVerbsConfigSchema.optional(),
 });
 
 // =============================================================================
@@ -84,19 +116,8 @@ export async function loadConfig(cwd?: string): Promise<CourseKitConfig> {
   const dir = cwd ?? process.cwd();
   const configPath = join(dir, CONFIG_FILENAME);
 
-  // 1. Check file exists
-  if (!existsSync(configPath)) {
-    throw new ConfigNotFoundError(configPath);
-  }
-
-  // 2. Read and parse JSON
-  let raw: unknown;
-  try {
-    const content = readFileSync(configPath, "utf-8");
-    raw = JSON.parse(content);
-  } catch (err) {
-    throw new ConfigParseError(configPath, err as Error);
-  }
+  // 1-2. Check file exists, read and parse JSON
+  const raw = readConfigFile(configPath);
 
   // 3. Validate schema
   const result = CourseKitConfigSchema.safeParse(raw);
@@ -108,6 +129,9 @@ export async function loadConfig(cwd?: string): Promise<CourseKitConfig> {
 
   // 4. Resolve relative platform path
   config.platform.path = resolve(dir, config.platform.path);
+  if (config.llm?.fixtureDir) {
+    config.llm.fixtureDir = resolve(dir, config.llm.fixtureDir);
+  }
 
   // 5. Verify platform directory exists
   if (!existsSync(config.platform.path)) {
@@ -122,3 +146,84 @@ export async function loadConfig(cwd?: string): Promise<CourseKitConfig> {
 
   return config;
 }
+
+/**
+ * Load only the "llm" section of coursekit.json.
+ * Course authoring commands (define, design, draft) don't need a platform
+ * checkout, so the rest of the file is not validated here.
+ * Resolves relative llm.fixtureDir against the config file's directory.
+ */
+export async function loadLLMConfig(cwd?: string): Promise<LLMConfig> {
+  const dir = cwd ?? process.cwd();
+  const configPath = join(dir, CONFIG_FILENAME);
+  const raw = readConfigFile(configPath);
+
+  const llm = (raw as { llm?: unknown } | null)?.llm;
+  if (llm === undefined) {
+    throw new ConfigValidationError(configPath, [
+      {
+        code: "custom",
+        path: ["llm"],
+        message: "No LLM provider configured (add an \"llm\" section)",
+      },
+    ]);
+  }
+
+  const result = LLMConfigSchema.safeParse(llm);
+  if (!result.success) {
+    throw new ConfigValidationError(
+      configPath,
+      result.error.issues.map((issue) => ({ ...issue, path: ["llm", ...issue.path] }))
+    );
+  }
+
+  const config = result.data as LLMConfig;
+  if (config.fixtureDir) {
+    config.fixtureDir = resolve(dir, config.fixtureDir);
+  }
+
+  return config;
+}
+
+/**
+ * Load the "bloomVerbs" section of coursekit.json, keyed by language.
+ * Bloom verbs work without any configuration, so a missing file or section
+ * yields an empty map instead of an error.
+ */
+export async function loadBloomVerbConfig(
+  cwd?: string
+): Promise<Record<string, BloomVerbExtension>> {
+  const dir = cwd ?? process.cwd();
+  const configPath = join(dir, CONFIG_FILENAME);
+  if (!existsSync(configPath)) {
+    return {};
+  }
+
+  const bloomVerbs = (readConfigFile(configPath) as { bloomVerbs?: unknown } | null)?.bloomVerbs;
+  if (bloomVerbs === undefined) {
+    return {};
+  }
+
+  const result = BloomVerbsConfigSchema.safeParse(bloomVerbs);
+  if (!result.success) {
+    throw new ConfigValidationError(
+      configPath,
+      result.error.issues.map((issue) => ({ ...issue, path: ["bloomVerbs", ...issue.path] }))
+    );
+  }
+
+  return result.data;
+}
+
+function readConfigFile(configPath: string): unknown {
+  if (!existsSync(configPath)) {
+    throw new ConfigNotFoundError(configPath);
+  }
+
+  try {
+    const content = readFileSync(configPath, "utf-8");
+    return JSON.parse(content);
+  } catch (err) {
+    throw new ConfigParseError(configPath, err as Error);
+  }
+}
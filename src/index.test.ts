@@ -0,0 +1,49 @@
+/**
+ * CLI Tests
+ * Run the coursekit binary in a scratch project to check option routing.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+
+const CLI = join(import.meta.dir, "index.ts");
+
+function coursekit(cwd: string, ...args: string[]): { exitCode: number; output: string } {
+  const result = Bun.spawnSync(["bun", CLI, ...args], {
+    cwd,
+    env: { ...process.env, FORCE_COLOR: "0" },
+  });
+  return { exitCode: result.exitCode, output: result.stdout.toString() + result.stderr.toString() };
+}
+
+describe("lesson subcommands", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "coursekit-cli-"));
+    coursekit(dir, "init", "demo");
+    coursekit(dir, "add-module", "C-001", "Basics");
+    coursekit(dir, "add-lesson", "C-001/M1", "Intro");
+    coursekit(dir, "lesson", "C-001/M1/L1", "--status", "drafted");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("passes --force to lesson remove, not the lesson command", () => {
+    const result = coursekit(dir, "lesson", "remove", "C-001/M1/L1", "--force");
+
+    expect(result.output).toContain("Removed lesson M1/L1");
+    expect(result.exitCode).toBe(0);
+  });
+
+  it("keeps --force on the lesson command for status changes", () => {
+    const result = coursekit(dir, "lesson", "C-001/M1/L1", "--status", "published", "--force");
+
+    expect(result.output).toContain("drafted → published");
+    expect(result.exitCode).toBe(0);
+  });
+});
@@ -5,19 +5,56 @@
  */
 
 import { Command } from "commander";
+import chalk from "chalk";
+import { ConfigParseError, ConfigValidationError } from "./config";
+import { MigrationError } from "./lib/migrations";
 import { initCommand } from "./commands/init";
+import { newCourseCommand } from "./commands/new-course";
 import { statusCommand } from "./commands/status";
 import { showCommand } from "./commands/show";
 import { defineCommand } from "./commands/define";
 import { designCommand } from "./commands/design";
 import { developCommand } from "./commands/develop";
-import { produceCommand } from "./commands/produce";
+import {
+  taskListCommand,
+  taskStartCommand,
+  taskCompleteCommand,
+  taskBlockCommand,
+  taskSyncCommand,
+} from "./commands/task";
+import {
+  produceCommand,
+  produceRecordCommand,
+  produceEditCommand,
+  produceUploadCommand,
+  produceTestCommand,
+  produceNoteCommand,
+} from "./commands/produce";
 import { addModuleCommand } from "./commands/add-module";
 import { addLessonCommand } from "./commands/add-lesson";
-import { lessonCommand } from "./commands/lesson";
+import {
+  lessonCommand,
+  lessonEditCommand,
+  lessonMoveCommand,
+  lessonRemoveCommand,
+} from "./commands/lesson";
+import {
+  moduleEditCommand,
+  moduleMoveCommand,
+  moduleRemoveCommand,
+} from "./commands/module";
 import { completeCommand } from "./commands/complete";
+import { archiveCommand, unarchiveCommand } from "./commands/archive";
 import { validateCommand } from "./commands/validate";
+import { quizCommand } from "./commands/quiz";
+import { draftCommand } from "./commands/draft";
+import { reconcileCommand } from "./commands/reconcile";
+import { alignmentCommand } from "./commands/alignment";
+import { exportCommand } from "./commands/export";
+import { importCommand } from "./commands/import";
+import { dbMigrateCommand } from "./commands/db";
 import { syncCommand } from "./commands/sync";
+import { pullCommand } from "./commands/pull";
 import { pushCommand } from "./commands/push";
 import { syncStatusCommand } from "./commands/sync-status";
 import { syncValidateCommand } from "./commands/sync-validate";
@@ -35,7 +72,10 @@ const version = "0.1.0";
 const program = new Command()
   .name("coursekit")
   .description("Backward Design course development workflow")
-  .version(version);
+  .version(version)
+  // Options belong to the command they follow, so "lesson remove --force"
+  // is not taken by the lesson command's own --force
+  .enablePositionalOptions();
 
 // =============================================================================
 // Commands
@@ -47,16 +87,28 @@ program
   .argument("<name>", "Course name")
   .option("--context <type>", "Course context: online or university", "online")
   .option("--description <desc>", "Course description")
-  .option("--from-plan <file>", "Import from existing course plan")
+  .option("--from-plan <file>", "Import modules, lessons and objectives from a plan (.md, .yaml, .json, .csv)")
+  .option("--language <code>", "Course language for Bloom verb detection (en, de, fr, es)", "en")
   .option("--force", "Overwrite existing database")
   .action(initCommand);
 
+program
+  .command("new-course")
+  .description("Add another course to the project")
+  .argument("<name>", "Course name")
+  .option("--context <type>", "Course context: online or university (default: online)")
+  .option("--description <desc>", "Course description")
+  .option("--language <code>", "Course language for Bloom verb detection (default: en)")
+  .option("--from <course-id>", "Copy define.md, design.md and structure from an existing course")
+  .action(newCourseCommand);
+
 program
   .command("status")
   .description("Show course development status")
   .argument("[course-id]", "Show status for specific course")
   .option("--verbose", "Show detailed status")
   .option("--json", "Output as JSON")
+  .option("--status <status>", "Only list courses with this status (draft, in_progress, ready, launched, archived)")
   .action(statusCommand);
 
 program
@@ -71,6 +123,10 @@ program
   .description("Run DEFINE phase (interview + objectives)")
   .argument("<course-id>", "Course ID (e.g., C-001)")
   .option("--dry-run", "Show what would happen without executing")
+  .option("--run", "Generate define.md with the LLM provider from coursekit.json")
+  .option("--force", "Overwrite an edited define.md when using --run")
+  .option("--import", "Parse define.md and store its objectives")
+  .option("--language <code>", "Set the course language for Bloom verb detection")
   .action(defineCommand);
 
 program
@@ -78,6 +134,9 @@ program
   .description("Run DESIGN phase (structure + modules)")
   .argument("<course-id>", "Course ID (e.g., C-001)")
   .option("--dry-run", "Show what would happen without executing")
+  .option("--run", "Generate design.md with the LLM provider from coursekit.json")
+  .option("--force", "Overwrite an edited design.md when using --run")
+  .option("--import", "Parse design.md and upsert its modules and lessons")
   .action(designCommand);
 
 program
@@ -87,13 +146,88 @@ program
   .option("--dry-run", "Show what would happen without executing")
   .action(developCommand);
 
-program
+const task = program.command("task").description("List and update development tasks");
+
+task
+  .command("list")
+  .description("List a course's development tasks")
+  .argument("<course-id>", "Course ID (e.g., C-001)")
+  .option("--lesson <path>", "Only tasks for a lesson (e.g., M1/L2)")
+  .option("--status <status>", "Only tasks with this status (pending, in_progress, completed, blocked)")
+  .option("--json", "Output as JSON")
+  .action(taskListCommand);
+
+task
+  .command("start")
+  .description("Mark a task in progress")
+  .argument("<task>", "Task: C-001/T3 or C-001/M1/L2/script")
+  .action(taskStartCommand);
+
+task
+  .command("complete")
+  .description("Mark a task completed")
+  .argument("<task>", "Task: C-001/T3 or C-001/M1/L2/script")
+  .action(taskCompleteCommand);
+
+task
+  .command("block")
+  .description("Mark a task blocked")
+  .argument("<task>", "Task: C-001/T3 or C-001/M1/L2/script")
+  .requiredOption("--reason <text>", "What the task is waiting for")
+  .action(taskBlockCommand);
+
+task
+  .command("sync")
+  .description("Apply ticked and unticked boxes in develop.md to the tasks")
+  .argument("<course-id>", "Course ID (e.g., C-001)")
+  .action(taskSyncCommand);
+
+const produce = program
   .command("produce")
   .description("Run PRODUCE phase (recording + editing)")
   .argument("<course-id>", "Course ID (e.g., C-001)")
   .option("--dry-run", "Show what would happen without executing")
   .action(produceCommand);
 
+produce
+  .command("record")
+  .description("Mark a lesson recorded")
+  .argument("<path>", "Lesson path: C-001/M1/L2")
+  .option("--undo", "Unmark recorded (and the steps after it)")
+  .option("-f, --force", "Change the lesson status even if it skips a step")
+  .action(produceRecordCommand);
+
+produce
+  .command("edit")
+  .description("Mark a lesson edited (and recorded)")
+  .argument("<path>", "Lesson path: C-001/M1/L2")
+  .option("--undo", "Unmark edited (and the steps after it)")
+  .option("-f, --force", "Change the lesson status even if it skips a step")
+  .action(produceEditCommand);
+
+produce
+  .command("upload")
+  .description("Mark a lesson uploaded to the platform (and the steps before it)")
+  .argument("<path>", "Lesson path: C-001/M1/L2")
+  .option("--undo", "Unmark uploaded (and access tested)")
+  .option("-f, --force", "Change the lesson status even if it skips a step")
+  .action(produceUploadCommand);
+
+produce
+  .command("test")
+  .description("Mark a lesson's platform access tested (and the steps before it)")
+  .argument("<path>", "Lesson path: C-001/M1/L2")
+  .option("--undo", "Unmark access tested")
+  .option("-f, --force", "Change the lesson status even if it skips a step")
+  .action(produceTestCommand);
+
+produce
+  .command("note")
+  .description("Set a lesson's production notes (empty text clears them)")
+  .argument("<path>", "Lesson path: C-001/M1/L2")
+  .argument("<text>", "Notes")
+  .action(produceNoteCommand);
+
 program
   .command("add-module")
   .description("Add a new module to a course")
@@ -111,14 +245,70 @@ program
   .option("--duration <min>", "Duration in minutes", "10")
   .action(addLessonCommand);
 
-program
+const lesson = program
   .command("lesson")
   .description("Work on a specific lesson")
   .argument("<path>", "Lesson path: C-001/M1/L2")
   .option("--draft", "AI-draft content for this lesson")
-  .option("--status <status>", "Update lesson status")
+  .option("--run", "With --draft: write script.md with the configured LLM provider")
+  .option("--status <status>", "Update lesson status (one step forward or back)")
+  .option("--note <text>", "With --status: why the status changed")
+  .option("--force", "With --status: allow any change, such as planned → published")
+  .option("--history", "Show status changes and cycle time")
   .action(lessonCommand);
 
+lesson
+  .command("edit")
+  .description("Change a lesson's title, objective or duration")
+  .argument("<path>", "Lesson path: C-001/M1/L2")
+  .option("--title <title>", "New title")
+  .option("--objective <text>", "New learning objective (empty to clear)")
+  .option("--duration <min>", "New duration in minutes")
+  .action(lessonEditCommand);
+
+lesson
+  .command("move")
+  .description("Reorder a lesson or move it to another module")
+  .argument("<path>", "Lesson path: C-001/M1/L2")
+  .option("--to <module>", "Target module (e.g., M3)")
+  .option("--position <n>", "Position in the module, 1 for first (default: last when moving)")
+  .action(lessonMoveCommand);
+
+lesson
+  .command("remove")
+  .description("Delete a lesson with its tasks, production record and quiz questions")
+  .argument("<path>", "Lesson path: C-001/M1/L2")
+  .option("--force", "Remove even if work has started on the lesson")
+  .action(lessonRemoveCommand);
+
+const module = program
+  .command("module")
+  .description("Edit, reorder and remove modules");
+
+module
+  .command("edit")
+  .description("Change a module's name, objective, assessment or weeks")
+  .argument("<path>", "Module path: C-001/M1")
+  .option("--name <name>", "New name")
+  .option("--objective <text>", "New module objective (empty to clear)")
+  .option("--assessment <text>", "New assessment (empty to clear)")
+  .option("--weeks <range>", "Week range, e.g. 1-2 (empty to clear)")
+  .action(moduleEditCommand);
+
+module
+  .command("move")
+  .description("Move a module to another position")
+  .argument("<path>", "Module path: C-001/M1")
+  .requiredOption("--position <n>", "New position, 1 for first")
+  .action(moduleMoveCommand);
+
+module
+  .command("remove")
+  .description("Delete a module with its lessons, tasks, production records and quiz questions")
+  .argument("<path>", "Module path: C-001/M1")
+  .option("--force", "Remove even if the module has lessons")
+  .action(moduleRemoveCommand);
+
 program
   .command("complete")
   .description("Mark a phase or course complete")
@@ -127,6 +317,18 @@ program
   .option("--force", "Bypass validation")
   .action(completeCommand);
 
+program
+  .command("archive")
+  .description("Archive a course (hidden from status, records kept)")
+  .argument("<course-id>", "Course ID (e.g., C-001)")
+  .action(archiveCommand);
+
+program
+  .command("unarchive")
+  .description("Restore an archived course to its previous status")
+  .argument("<course-id>", "Course ID (e.g., C-001)")
+  .action(unarchiveCommand);
+
 program
   .command("validate")
   .description("Validate phase completion")
@@ -135,26 +337,61 @@ program
   .option("--json", "Output as JSON")
   .action(validateCommand);
 
-// =============================================================================
-// Future Commands (placeholder for expansion)
-// =============================================================================
-
 program
   .command("draft")
-  .description("AI-draft lesson content")
+  .description("Draft lesson content into materials/<module>/<lesson>/script.md")
   .argument("<path>", "Lesson path: C-001/M1/L2")
-  .action(() => {
-    console.log("Draft command coming soon - use 'lesson --draft' for now");
-  });
+  .option("--prompt", "Only print the drafting prompt")
+  .option("--run", "Write script.md with the LLM provider from coursekit.json")
+  .option("--force", "Overwrite an existing script.md")
+  .action(draftCommand);
 
 program
   .command("quiz")
-  .description("AI-generate quiz questions")
+  .description("Generate a module quiz from lesson objectives")
   .argument("<path>", "Module path: C-001/M1")
   .option("--count <n>", "Number of questions", "5")
-  .action(() => {
-    console.log("Quiz generation coming soon");
-  });
+  .option("--dry-run", "Preview questions without storing or writing files")
+  .option("--json", "Output as JSON")
+  .action(quizCommand);
+
+program
+  .command("reconcile")
+  .description("Compare the database module structure with design.md")
+  .argument("<course-id>", "Course ID (e.g., C-001)")
+  .option("--check", "Exit non-zero if database and design.md disagree")
+  .option("--to <target>", "Apply changes: 'db' (from design.md) or 'design' (from database)")
+  .option("--force", "Delete lessons that are already in progress when applying to db")
+  .option("--json", "Output as JSON")
+  .action(reconcileCommand);
+
+program
+  .command("alignment")
+  .description("Map course objectives to the lessons and assessments that cover them")
+  .argument("<course-id>", "Course ID (e.g., C-001)")
+  .option("--json", "Output as JSON")
+  .action(alignmentCommand);
+
+program
+  .command("export")
+  .description("Package a course (database rows, documents, materials) into a .ckpkg bundle")
+  .argument("<course-id>", "Course ID (e.g., C-001)")
+  .option("--out <file>", "Bundle file (default: <id>-<name>.ckpkg)")
+  .action(exportCommand);
+
+program
+  .command("import")
+  .description("Add a course from a .ckpkg bundle, renumbering it if its ID is taken")
+  .argument("<file>", "Bundle file")
+  .action(importCommand);
+
+const db = program.command("db").description("Database maintenance");
+
+db.command("migrate")
+  .description("Apply pending schema migrations (backs up the database first)")
+  .option("--status", "Show applied and pending migrations without changing anything")
+  .option("--json", "Output as JSON")
+  .action(dbMigrateCommand);
 
 program
   .command("sync")
@@ -170,8 +407,19 @@ program
   .option("-d, --dry-run", "Preview changes without writing files")
   .option("-f, --force", "Overwrite conflicting files")
   .option("-c, --course <id>", "Filter to specific course ID")
+  .option("--prune", "Remove synced platform files whose source was deleted")
+  .option("--trash", "With --prune, move files to .coursekit-trash/ instead of deleting")
+  .option("-i, --interactive", "Review each conflict and choose how to resolve it")
   .action(pushCommand);
 
+program
+  .command("pull")
+  .description("Pull platform edits to lessons and guides back into source")
+  .option("-d, --dry-run", "Preview changes without writing files")
+  .option("-f, --force", "Overwrite source files that were also edited")
+  .option("-c, --course <id>", "Filter to specific course ID")
+  .action(pullCommand);
+
 program
   .command("sync-status")
   .description("Show sync state between source and platform")
@@ -190,4 +438,15 @@ program
 // Parse and Execute
 // =============================================================================
 
-program.parse();
+program.parseAsync().catch((error) => {
+  // Invalid config files or a failed schema upgrade: report without a stack trace
+  if (
+    error instanceof ConfigParseError ||
+    error instanceof ConfigValidationError ||
+    error instanceof MigrationError
+  ) {
+    console.log(chalk.red(error.message));
+    process.exit(1);
+  }
+  throw error;
+});
@@ -0,0 +1,136 @@
+/**
+ * Objective Alignment Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { buildAlignment, keyTerms, objectiveRefs, type AlignmentModule } from "./alignment";
+import { BUILTIN_VOCABULARIES } from "./bloom-vocabularies";
+import type { LearningObjective, QuizQuestion } from "../types";
+
+function objective(id: string, text: string, extra: Partial<LearningObjective> = {}): LearningObjective {
+  return {
+    id,
+    text,
+    bloomLevel: null,
+    verb: "",
+    assessmentMethod: null,
+    coveredBy: null,
+    ...extra,
+  };
+}
+
+const OBJECTIVES = [
+  objective("O1", "List the three types of authentication", { assessmentMethod: "Quiz" }),
+  objective("O2", "Implement JWT authentication in an API"),
+  objective("O3", "Evaluate which auth method fits a given scenario"),
+];
+
+const MODULES: AlignmentModule[] = [
+  {
+    id: "M1",
+    name: "Foundations",
+    objective: "Cover the basics (O1)",
+    assessmentType: null,
+    lessons: [
+      { id: "L1", title: "Auth Basics", objective: "List authentication types" },
+      { id: "L2", title: "History", objective: "Describe the history of passwords" },
+    ],
+  },
+  {
+    id: "M2",
+    name: "Tokens",
+    objective: null,
+    assessmentType: "Project",
+    lessons: [
+      { id: "L1", title: "JWT in Practice", objective: "Implement JWT signing and verification" },
+      { id: "L2", title: "Office Hours", objective: "Discuss questions" },
+    ],
+  },
+];
+
+describe("buildAlignment", () => {
+  it("links lessons through module-level objective references", () => {
+    const report = buildAlignment("C-001", OBJECTIVES, MODULES);
+    const o1 = report.objectives[0];
+
+    expect(o1.modules).toEqual(["M1"]);
+    expect(o1.lessons.map((l) => [l.path, l.match])).toEqual([
+      ["M1/L1", "explicit"],
+      ["M1/L2", "explicit"],
+    ]);
+  });
+
+  it("infers links from shared key terms", () => {
+    const report = buildAlignment("C-001", OBJECTIVES, MODULES);
+    expect(report.objectives[1].lessons).toEqual([
+      { path: "M2/L1", title: "JWT in Practice", match: "inferred" },
+    ]);
+  });
+
+  it("uses coveredBy entries", () => {
+    const objectives = [
+      ...OBJECTIVES.slice(0, 2),
+      objective("O3", "Evaluate auth choices", { coveredBy: "M2/L2" }),
+    ];
+    const report = buildAlignment("C-001", objectives, MODULES);
+
+    expect(report.objectives[2].lessons).toEqual([
+      { path: "M2/L2", title: "Office Hours", match: "covered-by" },
+    ]);
+  });
+
+  it("collects assessment sources", () => {
+    const questions: QuizQuestion[] = [
+      {
+        id: "Q1",
+        moduleId: "M1",
+        objectiveId: "M1/L1",
+        bloomLevel: "remember",
+        stem: "?",
+        choices: [],
+        answer: "",
+        rationale: "",
+      },
+    ];
+    const report = buildAlignment("C-001", OBJECTIVES, MODULES, questions);
+
+    expect(report.objectives[0].assessments).toEqual(["Quiz (define.md)", "M1 quiz: 1 question"]);
+    expect(report.objectives[1].assessments).toEqual(["M2 assessment: Project"]);
+  });
+
+  it("flags gaps", () => {
+    const report = buildAlignment("C-001", OBJECTIVES, MODULES);
+
+    expect(report.uncoveredObjectives).toEqual(["O3"]);
+    expect(report.unassessedObjectives).toEqual(["O3"]);
+    expect(report.orphanLessons).toEqual(["M2/L2"]);
+    expect(report.aligned).toBe(false);
+  });
+
+  it("is aligned when everything is covered and assessed", () => {
+    const report = buildAlignment(
+      "C-001",
+      [objective("O1", "Implement JWT", { assessmentMethod: "Project" })],
+      [{ ...MODULES[1], lessons: [MODULES[1].lessons[0]], objective: "O1" }]
+    );
+    expect(report.aligned).toBe(true);
+  });
+});
+
+describe("objectiveRefs", () => {
+  it("finds known IDs only", () => {
+    expect(objectiveRefs("Build it (O2, O9) and O2 again", new Set(["O1", "O2"]))).toEqual(["O2"]);
+  });
+});
+
+describe("keyTerms", () => {
+  it("drops stop words, Bloom verbs and plurals", () => {
+    expect([...keyTerms("Learners will list the types of tokens")]).toEqual(["type", "token"]);
+  });
+
+  it("keeps accented words and drops the course language's verbs", () => {
+    const german = BUILTIN_VOCABULARIES.de;
+    expect([...keyTerms("Sitzungsschlüssel sicher erklären", german)]).toEqual(["sitzungsschlüssel", "sicher"]);
+    expect([...keyTerms("Sitzungsschlüssel sicher erklären")]).toContain("erklären");
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Objective Alignment
+ *
+ * Map course-level objectives (O1, O2, ...) to the modules, lessons and
+ * assessments that cover them, and flag the gaps backward design is meant
+ * to prevent: objectives nobody teaches, lessons that serve no objective,
+ * and objectives nothing assesses.
+ */
+
+import type { BloomLevel, LearningObjective, QuizQuestion } from "../types";
+import { ENGLISH_VOCABULARY, type BloomVocabulary } from "./bloom";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Course structure needed for alignment */
+export interface AlignmentModule {
+  id: string;
+  name: string;
+  objective: string | null;
+  assessmentType: string | null;
+  lessons: { id: string; title: string; objective: string | null }[];
+}
+
+/**
+ * How a lesson was linked to an objective:
+ * - explicit: the lesson or its module mentions the ID ("... (O2)")
+ * - covered-by: the objective's coveredBy lists the lesson or module
+ * - inferred: lesson and objective share key terms
+ */
+export type AlignmentMatch = "explicit" | "covered-by" | "inferred";
+
+export interface AlignedLesson {
+  /** Lesson path, e.g. "M1/L2" */
+  path: string;
+  title: string;
+  match: AlignmentMatch;
+}
+
+/**
+ * Coverage of a single course objective.
+ */
+export interface ObjectiveAlignment {
+  id: string;
+  text: string;
+  bloomLevel: BloomLevel | null;
+  modules: string[];
+  lessons: AlignedLesson[];
+  /** Human-readable assessment sources, e.g. "Quiz (define.md)" */
+  assessments: string[];
+}
+
+/**
+ * Full alignment report for a course.
+ */
+export interface AlignmentReport {
+  courseId: string;
+  objectives: ObjectiveAlignment[];
+  /** Objective IDs with no covering lesson */
+  uncoveredObjectives: string[];
+  /** Objective IDs with no assessment */
+  unassessedObjectives: string[];
+  /** Lesson paths that serve no course objective */
+  orphanLessons: string[];
+  /** True when there are no gaps */
+  aligned: boolean;
+}
+
+// =============================================================================
+// Alignment
+// =============================================================================
+
+/**
+ * Build the objective → module/lesson/assessment matrix.
+ *
+ * Explicit references and coveredBy entries win; lessons without any
+ * explicit reference are matched by shared key terms.
+ *
+ * @param courseId - Course ID
+ * @param objectives - Course objectives (from define.md)
+ * @param modules - Modules with lessons (from the database)
+ * @param quizQuestions - Stored quiz questions for the course
+ * @param vocabulary - Course language's Bloom verbs, left out of key terms
+ * @returns Alignment report
+ */
+export function buildAlignment(
+  courseId: string,
+  objectives: LearningObjective[],
+  modules: AlignmentModule[],
+  quizQuestions: QuizQuestion[] = [],
+  vocabulary: BloomVocabulary = ENGLISH_VOCABULARY
+): AlignmentReport {
+  const ids = new Set(objectives.map((o) => o.id));
+  const links = new Map<string, AlignedLesson[]>(objectives.map((o) => [o.id, []]));
+
+  const objectiveTerms = new Map(objectives.map((o) => [o.id, keyTerms(o.text, vocabulary)]));
+  const termCounts = new Map<string, number>();
+  for (const terms of objectiveTerms.values()) {
+    for (const term of terms) termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+  }
+
+  const link = (objectiveId: string, lesson: AlignedLesson) => {
+    const list = links.get(objectiveId);
+    if (list && !list.some((l) => l.path === lesson.path)) {
+      list.push(lesson);
+    }
+  };
+
+  for (const module of modules) {
+    const moduleRefs = objectiveRefs(module.objective ?? "", ids);
+
+    for (const lesson of module.lessons) {
+      const path = `${module.id}/${lesson.id}`;
+      const refs = new Set([
+        ...moduleRefs,
+        ...objectiveRefs(`${lesson.title} ${lesson.objective ?? ""}`, ids),
+      ]);
+
+      for (const id of refs) {
+        link(id, { path, title: lesson.title, match: "explicit" });
+      }
+
+      for (const objective of objectives) {
+        if (coveredByIncludes(objective.coveredBy, module.id, path)) {
+          link(objective.id, { path, title: lesson.title, match: "covered-by" });
+        }
+      }
+
+      if (refs.size === 0) {
+        const lessonTerms = keyTerms(`${lesson.title} ${lesson.objective ?? ""}`, vocabulary);
+        for (const objective of objectives) {
+          if (sharesKeyTerms(objectiveTerms.get(objective.id)!, lessonTerms, termCounts)) {
+            link(objective.id, { path, title: lesson.title, match: "inferred" });
+          }
+        }
+      }
+    }
+  }
+
+  const alignments: ObjectiveAlignment[] = objectives.map((objective) => {
+    const lessons = links.get(objective.id) ?? [];
+    const moduleIds = [...new Set(lessons.map((l) => l.path.split("/")[0]))];
+
+    return {
+      id: objective.id,
+      text: objective.text,
+      bloomLevel: objective.bloomLevel,
+      modules: moduleIds,
+      lessons,
+      assessments: assessmentSources(objective, moduleIds, lessons, modules, quizQuestions),
+    };
+  });
+
+  const covered = new Set(alignments.flatMap((a) => a.lessons.map((l) => l.path)));
+  const orphanLessons = modules.flatMap((m) =>
+    m.lessons.map((l) => `${m.id}/${l.id}`).filter((path) => !covered.has(path))
+  );
+  const uncoveredObjectives = alignments.filter((a) => a.lessons.length === 0).map((a) => a.id);
+  const unassessedObjectives = alignments.filter((a) => a.assessments.length === 0).map((a) => a.id);
+
+  return {
+    courseId,
+    objectives: alignments,
+    uncoveredObjectives,
+    unassessedObjectives,
+    orphanLessons,
+    aligned:
+      uncoveredObjectives.length === 0 &&
+      unassessedObjectives.length === 0 &&
+      orphanLessons.length === 0,
+  };
+}
+
+// =============================================================================
+// Assessments
+// =============================================================================
+
+function assessmentSources(
+  objective: LearningObjective,
+  moduleIds: string[],
+  lessons: AlignedLesson[],
+  modules: AlignmentModule[],
+  quizQuestions: QuizQuestion[]
+): string[] {
+  const sources: string[] = [];
+
+  if (objective.assessmentMethod) {
+    sources.push(`${objective.assessmentMethod} (define.md)`);
+  }
+
+  for (const moduleId of moduleIds) {
+    const module = modules.find((m) => m.id === moduleId);
+    if (module?.assessmentType) {
+      sources.push(`${moduleId} assessment: ${module.assessmentType}`);
+    }
+  }
+
+  const paths = new Set(lessons.map((l) => l.path));
+  const questions = quizQuestions.filter((q) => paths.has(q.objectiveId));
+  for (const moduleId of [...new Set(questions.map((q) => q.moduleId))]) {
+    const count = questions.filter((q) => q.moduleId === moduleId).length;
+    sources.push(`${moduleId} quiz: ${count} question${count === 1 ? "" : "s"}`);
+  }
+
+  return sources;
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Find objective IDs (O1, O12) mentioned in a text.
+ */
+export function objectiveRefs(text: string, known: Set<string>): string[] {
+  return [...new Set(text.match(/\bO\d+\b/g) ?? [])].filter((id) => known.has(id));
+}
+
+function coveredByIncludes(
+  coveredBy: string | null,
+  moduleId: string,
+  lessonPath: string
+): boolean {
+  if (!coveredBy) return false;
+  return coveredBy
+    .split(/[,;\s]+/)
+    .map((entry) => entry.trim())
+    .some((entry) => entry === moduleId || entry === lessonPath);
+}
+
+const STOP_WORDS = new Set([
+  "able", "about", "after", "all", "also", "and", "any", "are", "been", "between",
+  "both", "but", "can", "course", "each", "for", "from", "get", "given", "have",
+  "how", "into", "its", "learner", "learners", "lesson", "more", "most", "new",
+  "not", "other", "our", "own", "should", "some", "such", "than", "that", "the",
+  "their", "them", "then", "there", "these", "they", "this", "those", "through",
+  "using", "via", "way", "what", "when", "where", "which", "while", "who", "why",
+  "will", "with", "within", "without", "you", "your",
+]);
+
+/**
+ * Significant words of a text: 3+ letters in any script (so JWT, API and
+ * "Sitzungsschlüssel" count), not stop words or Bloom verbs of the given
+ * vocabulary, with a trailing plural "s" removed.
+ */
+export function keyTerms(
+  text: string,
+  vocabulary: BloomVocabulary = ENGLISH_VOCABULARY
+): Set<string> {
+  const verbs = new Set(Object.values(vocabulary.verbs).flat());
+  const words = text.toLowerCase().match(/\p{L}[\p{L}-]{2,}/gu) ?? [];
+  return new Set(
+    words
+      .filter((word) => !STOP_WORDS.has(word) && !verbs.has(word))
+      .map((word) => word.replace(/(?<=[^s])s$/, ""))
+  );
+}
+
+/**
+ * A lesson matches an objective when it shares half of the objective's key
+ * terms, or any term that no other objective uses ("JWT" picks out the JWT
+ * objective; "authentication" alone does not when several objectives say it).
+ */
+function sharesKeyTerms(
+  objectiveTerms: Set<string>,
+  lessonTerms: Set<string>,
+  termCounts: Map<string, number>
+): boolean {
+  const shared = [...objectiveTerms].filter((term) => lessonTerms.has(term));
+  return (
+    shared.length > 0 &&
+    (shared.length >= Math.ceil(objectiveTerms.size / 2) ||
+      shared.some((term) => termCounts.get(term) === 1))
+  );
+}
@@ -6,7 +6,6 @@
 
 import * as fs from "node:fs";
 import * as path from "node:path";
-import * as crypto from "node:crypto";
 import type {
   CourseKitConfig,
   SyncOptions,
@@ -21,6 +20,10 @@ import {
   updateSyncRecord,
   getSyncRecord,
 } from "./sync-state";
+import { detectConflicts } from "./conflict-detection";
+import { calculateBinaryHash } from "./platform-utils";
+
+export { calculateBinaryHash } from "./platform-utils";
 
 // =============================================================================
 // Path Utilities
@@ -42,23 +45,6 @@ export function buildAssetTargetPath(
   return path.join(platformRoot, "public/courses", courseSlug, relativePath);
 }
 
-// =============================================================================
-// Hash Utilities
-// =============================================================================
-
-/**
- * Calculate SHA-256 hash of a binary file.
- *
- * @param filePath - Path to file
- * @returns SHA-256 hash as hex string
- */
-export async function calculateBinaryHash(filePath: string): Promise<string> {
-  const content = await Bun.file(filePath).arrayBuffer();
-  const hash = crypto.createHash("sha256");
-  hash.update(Buffer.from(content));
-  return hash.digest("hex");
-}
-
 // =============================================================================
 // File Writing
 // =============================================================================
@@ -127,6 +113,31 @@ function extractAssetRelativePath(relativePath: string): string {
   return path.basename(relativePath);
 }
 
+/**
+ * Resolve the course slug assets are published under.
+ * Uses the course filter if given, otherwise the first configured course.
+ *
+ * @param config - CourseKit configuration
+ * @param courseId - Optional course filter
+ * @returns Course slug for asset keys and target paths
+ */
+export function resolveAssetCourseSlug(config: CourseKitConfig, courseId?: string): string {
+  const courseIds = Object.keys(config.courses);
+  const defaultCourseSlug = courseIds.length > 0 ? config.courses[courseIds[0]].slug : "default";
+  return courseId ?? defaultCourseSlug;
+}
+
+/**
+ * Build the canonical sync key for an asset.
+ *
+ * @param courseSlug - Course slug
+ * @param relativePath - Path relative to materials root
+ * @returns Key like "assets/astro-course/images/hero.png"
+ */
+export function buildAssetKey(courseSlug: string, relativePath: string): string {
+  return `assets/${courseSlug}/${extractAssetRelativePath(relativePath)}`;
+}
+
 // =============================================================================
 // Core Sync Execution
 // =============================================================================
@@ -180,20 +191,23 @@ export async function executeAssetSync(
   // Load sync state
   const syncState = await loadSyncState(platformRoot);
 
-  // Get default course slug (use first course in config)
-  const courseIds = Object.keys(config.courses);
-  const defaultCourseSlug = courseIds.length > 0 ? config.courses[courseIds[0]].slug : "default";
+  // Check for conflicts
+  const detection = await detectConflicts(config, {
+    courseId: options.courseId,
+    contentTypes: ["asset"],
+  });
+  const conflictKeys = new Set(detection.conflicts.map((c) => c.key));
+
+  // Determine course slug (could be derived from asset path in future)
+  const courseSlug = resolveAssetCourseSlug(config, options.courseId);
 
   // Process each asset
   for (const asset of manifest.assets) {
-    // Determine course slug (could be derived from asset path in future)
-    const courseSlug = options.courseId ?? defaultCourseSlug;
-
     // Extract relative path within assets
     const assetRelativePath = extractAssetRelativePath(asset.relativePath);
 
     // Build canonical key and target path
-    const key = `assets/${courseSlug}/${assetRelativePath}`;
+    const key = buildAssetKey(courseSlug, asset.relativePath);
     const targetPath = buildAssetTargetPath(platformRoot, courseSlug, assetRelativePath);
 
     // Calculate source hash
@@ -208,34 +222,22 @@ export async function executeAssetSync(
     // Determine action
     let action: "create" | "update" | "unchanged" | "skip";
 
-    if (!targetExists) {
-      // New file - create
-      action = "create";
-    } else if (!syncRecord) {
-      // File exists but no sync record - treat as conflict
+    if (conflictKeys.has(key)) {
+      // Edited, deleted or never synced on the platform
       if (force) {
-        action = "update";
+        action = targetExists ? "update" : "create";
       } else {
         action = "skip";
       }
+    } else if (!targetExists) {
+      // New file - create
+      action = "create";
+    } else if (sourceHash === syncRecord?.contentHash) {
+      // Source unchanged since last sync
+      action = "unchanged";
     } else {
-      // Check if platform was modified
-      const currentPlatformHash = await calculateBinaryHash(targetPath);
-
-      if (currentPlatformHash !== syncRecord.contentHash) {
-        // Platform was modified - conflict
-        if (force) {
-          action = "update";
-        } else {
-          action = "skip";
-        }
-      } else if (sourceHash === syncRecord.contentHash) {
-        // Source unchanged since last sync
-        action = "unchanged";
-      } else {
-        // Source changed, platform unchanged - safe to update
-        action = "update";
-      }
+      // Source changed, platform unchanged - safe to update
+      action = "update";
     }
 
     // Execute action
@@ -0,0 +1,89 @@
+/**
+ * Bloom Progression Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { analyzeBloomProgression, emptyHistogram, type ProgressionModule } from "./bloom-progression";
+import type { BloomLevel } from "../types";
+
+function module(id: string, levels: (BloomLevel | null)[]): ProgressionModule {
+  return {
+    id,
+    name: `Module ${id}`,
+    lessons: levels.map((bloomLevel, index) => ({
+      id: `L${index + 1}`,
+      title: `Lesson ${index + 1}`,
+      objective: "",
+      bloomLevel,
+    })),
+  };
+}
+
+describe("analyzeBloomProgression", () => {
+  it("builds per-module and course histograms", () => {
+    const report = analyzeBloomProgression([
+      module("M1", ["remember", "understand", null]),
+      module("M2", ["apply", "analyze"]),
+    ]);
+
+    expect(report.modules[0].histogram).toEqual({ ...emptyHistogram(), remember: 1, understand: 1 });
+    expect(report.modules[0].unclassified).toBe(1);
+    expect(report.modules[0].peak).toBe("understand");
+    expect(report.total.analyze).toBe(1);
+    expect(report.warnings).toEqual([]);
+  });
+
+  it("falls back to the objective text", () => {
+    const report = analyzeBloomProgression([
+      {
+        id: "M1",
+        name: "Basics",
+        lessons: [{ id: "L1", title: "Intro", objective: "Design a schema", bloomLevel: null }],
+      },
+    ]);
+    expect(report.modules[0].histogram.create).toBe(1);
+  });
+
+  it("warns when a later module falls well below an earlier peak", () => {
+    const report = analyzeBloomProgression([
+      module("M1", ["understand", "create"]),
+      module("M2", ["evaluate"]),
+      module("M3", ["apply"]),
+      module("M4", ["remember", "remember", "evaluate"]),
+    ]);
+
+    const regressions = report.warnings.filter((w) => w.kind === "regression");
+    expect(regressions.map((w) => w.lessons)).toEqual([["M3/L1"], ["M4/L1", "M4/L2"]]);
+    expect(regressions[1].message).toContain('drops to "remember" after M1 reached "create"');
+  });
+
+  it("allows a one-level dip", () => {
+    const report = analyzeBloomProgression([module("M1", ["analyze"]), module("M2", ["apply"])]);
+    expect(report.warnings.filter((w) => w.kind === "regression")).toEqual([]);
+  });
+
+  it("warns about modules stuck at a single level", () => {
+    const report = analyzeBloomProgression([
+      module("M1", ["apply", "apply", null]),
+      module("M2", ["analyze"]),
+    ]);
+
+    expect(report.warnings).toEqual([
+      {
+        kind: "flat-module",
+        moduleId: "M1",
+        lessons: ["M1/L1", "M1/L2"],
+        message: 'M1 stays at "apply" for all 2 classified lessons',
+      },
+    ]);
+  });
+
+  it("warns when no lesson reaches a higher-order level", () => {
+    const report = analyzeBloomProgression([module("M1", ["remember", "apply"])]);
+    expect(report.warnings.map((w) => w.kind)).toEqual(["no-higher-order"]);
+  });
+
+  it("stays quiet for an empty course", () => {
+    expect(analyzeBloomProgression([]).warnings).toEqual([]);
+  });
+});
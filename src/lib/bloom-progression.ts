@@ -0,0 +1,191 @@
+/**
+ * Bloom Progression
+ *
+ * Walk a course's lessons in order and check how cognitive demand moves
+ * through it. A course should climb from remembering and understanding
+ * toward analysis and creation; this flags lessons that fall back well
+ * below what earlier modules already reached, modules that never leave a
+ * single level, and courses with no higher-order objectives at all.
+ */
+
+import type { BloomLevel } from "../types";
+import {
+  BLOOM_LEVELS,
+  detectBloomLevel,
+  ENGLISH_VOCABULARY,
+  type BloomVocabulary,
+} from "./bloom";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Course structure needed for the analysis (modules and lessons in sort order) */
+export interface ProgressionModule {
+  id: string;
+  name: string;
+  lessons: { id: string; title: string; objective: string; bloomLevel: BloomLevel | null }[];
+}
+
+/** Lesson count per Bloom level */
+export type BloomHistogram = Record<BloomLevel, number>;
+
+/**
+ * Bloom levels of a single module.
+ */
+export interface ModuleProgression {
+  id: string;
+  name: string;
+  histogram: BloomHistogram;
+  /** Lessons whose objective has no recognizable Bloom verb */
+  unclassified: number;
+  /** Highest level in the module (null if no lesson is classified) */
+  peak: BloomLevel | null;
+}
+
+export type BloomWarningKind = "regression" | "flat-module" | "no-higher-order";
+
+/**
+ * A progression problem.
+ */
+export interface BloomWarning {
+  kind: BloomWarningKind;
+  /** Module ID (absent for course-wide warnings) */
+  moduleId?: string;
+  /** Lesson paths involved, e.g. ["M4/L1", "M4/L2"] */
+  lessons: string[];
+  message: string;
+}
+
+/**
+ * Full progression report for a course.
+ */
+export interface BloomProgressionReport {
+  modules: ModuleProgression[];
+  /** Histogram over the whole course */
+  total: BloomHistogram;
+  warnings: BloomWarning[];
+}
+
+// =============================================================================
+// Analysis
+// =============================================================================
+
+/** Levels that count as higher-order thinking */
+export const HIGHER_ORDER_LEVELS: BloomLevel[] = ["analyze", "evaluate", "create"];
+
+/**
+ * How many levels a lesson may drop below the peak of earlier modules
+ * before it counts as a regression. A one-step dip (analyze → apply) is
+ * normal when a module introduces a new topic.
+ */
+const REGRESSION_GAP = 2;
+
+/**
+ * Analyze Bloom level progression across a course.
+ *
+ * Lessons use their stored Bloom level, falling back to detecting it from
+ * the objective text.
+ *
+ * @param modules - Modules with lessons, both in sort order
+ * @param vocabulary - Bloom verbs for the course language (defaults to English)
+ * @returns Per-module histograms and warnings
+ */
+export function analyzeBloomProgression(
+  modules: ProgressionModule[],
+  vocabulary: BloomVocabulary = ENGLISH_VOCABULARY
+): BloomProgressionReport {
+  const warnings: BloomWarning[] = [];
+  const total = emptyHistogram();
+  const progressions: ModuleProgression[] = [];
+
+  // Highest level reached by any earlier module, and where
+  let previousPeak: { level: BloomLevel; moduleId: string } | null = null;
+
+  for (const module of modules) {
+    const histogram = emptyHistogram();
+    let unclassified = 0;
+    const regressed: string[] = [];
+    const levels: { path: string; level: BloomLevel }[] = [];
+
+    for (const lesson of module.lessons) {
+      const path = `${module.id}/${lesson.id}`;
+      const level = lesson.bloomLevel ?? detectBloomLevel(lesson.objective, vocabulary);
+      if (!level) {
+        unclassified++;
+        continue;
+      }
+
+      histogram[level]++;
+      total[level]++;
+      levels.push({ path, level });
+
+      if (previousPeak && rank(previousPeak.level) - rank(level) >= REGRESSION_GAP) {
+        regressed.push(path);
+      }
+    }
+
+    const peak = highest(levels.map((l) => l.level));
+
+    if (regressed.length > 0 && previousPeak) {
+      const lowest = lowestOf(levels.filter((l) => regressed.includes(l.path)).map((l) => l.level));
+      warnings.push({
+        kind: "regression",
+        moduleId: module.id,
+        lessons: regressed,
+        message: `${module.id} drops to "${lowest}" after ${previousPeak.moduleId} reached "${previousPeak.level}" (${regressed.join(", ")})`,
+      });
+    }
+
+    const distinct = new Set(levels.map((l) => l.level));
+    if (levels.length >= 2 && distinct.size === 1) {
+      warnings.push({
+        kind: "flat-module",
+        moduleId: module.id,
+        lessons: levels.map((l) => l.path),
+        message: `${module.id} stays at "${levels[0].level}" for all ${levels.length} classified lessons`,
+      });
+    }
+
+    if (peak && (!previousPeak || rank(peak) > rank(previousPeak.level))) {
+      previousPeak = { level: peak, moduleId: module.id };
+    }
+
+    progressions.push({ id: module.id, name: module.name, histogram, unclassified, peak });
+  }
+
+  const classified = BLOOM_LEVELS.reduce((sum, level) => sum + total[level], 0);
+  if (classified > 0 && HIGHER_ORDER_LEVELS.every((level) => total[level] === 0)) {
+    warnings.push({
+      kind: "no-higher-order",
+      lessons: [],
+      message: `No lesson reaches ${HIGHER_ORDER_LEVELS.join("/")}; the course never asks learners to go beyond "${highest(BLOOM_LEVELS.filter((l) => total[l] > 0))}"`,
+    });
+  }
+
+  return { modules: progressions, total, warnings };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Zeroed histogram with every level present (in taxonomy order).
+ */
+export function emptyHistogram(): BloomHistogram {
+  return Object.fromEntries(BLOOM_LEVELS.map((level) => [level, 0])) as BloomHistogram;
+}
+
+function rank(level: BloomLevel): number {
+  return BLOOM_LEVELS.indexOf(level);
+}
+
+function highest(levels: BloomLevel[]): BloomLevel | null {
+  if (levels.length === 0) return null;
+  return levels.reduce((a, b) => (rank(b) > rank(a) ? b : a));
+}
+
+function lowestOf(levels: BloomLevel[]): BloomLevel {
+  return levels.reduce((a, b) => (rank(b) < rank(a) ? b : a));
+}
@@ -0,0 +1,100 @@
+/**
+ * Bloom Vocabulary Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { analyzeBloomVerb } from "./bloom";
+import { buildVocabulary, loadBloomVocabulary } from "./bloom-vocabularies";
+import { ConfigValidationError } from "../config";
+
+describe("built-in packs", () => {
+  it("finds the trailing infinitive in German objectives", () => {
+    const de = buildVocabulary("de");
+    const analysis = analyzeBloomVerb("Die Lernenden können JWT-Authentifizierung in einer API implementieren.", de);
+
+    expect(analysis.verb).toBe("implementieren");
+    expect(analysis.level).toBe("apply");
+    expect(analysis.position).toBe("trailing");
+    expect(analyzeBloomVerb("Erklären, wie Sitzungen funktionieren", de).level).toBe("understand");
+    expect(analyzeBloomVerb("Grundlagen der Authentifizierung verstehen", de).vague).toBe(true);
+  });
+
+  it("strips French lead-ins and elisions", () => {
+    const fr = buildVocabulary("fr");
+    const analysis = analyzeBloomVerb("Les apprenants seront capables d'évaluer une architecture", fr);
+
+    expect(analysis.verb).toBe("évaluer");
+    expect(analysis.level).toBe("evaluate");
+    expect(analyzeBloomVerb("Comprendre les jetons", fr).vague).toBe(true);
+  });
+
+  it("detects Spanish verbs", () => {
+    const es = buildVocabulary("es");
+    expect(analyzeBloomVerb("Los estudiantes podrán diseñar un sistema", es).level).toBe("create");
+    expect(analyzeBloomVerb("Comparar sesiones y tokens", es).candidates).toEqual(["understand", "analyze"]);
+  });
+});
+
+describe("buildVocabulary", () => {
+  it("adds extension verbs to the built-in pack", () => {
+    const de = buildVocabulary("de", { apply: ["Programmieren"], vague: ["kennenlernen"] });
+
+    expect(de.verbs.apply).toContain("programmieren");
+    expect(de.verbs.apply).toContain("anwenden");
+    expect(de.vague).toContain("kennenlernen");
+  });
+
+  it("falls back to the base language of a regional code", () => {
+    expect(buildVocabulary("de-at").verbs.apply).toContain("anwenden");
+  });
+
+  it("starts empty for languages without a pack", () => {
+    const italian = buildVocabulary("it", { apply: ["applicare"] });
+
+    expect(italian.verbs.apply).toEqual(["applicare"]);
+    expect(italian.verbs.remember).toEqual([]);
+    expect(analyzeBloomVerb("Applicare i token", italian).level).toBe("apply");
+  });
+});
+
+describe("loadBloomVocabulary", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "coursekit-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("uses the built-in pack without any configuration", async () => {
+    const vocabulary = await loadBloomVocabulary({ language: "fr", coursePath: null }, tempDir);
+    expect(vocabulary.verbs.create).toContain("concevoir");
+  });
+
+  it("merges coursekit.json and the course's bloom-verbs.json", async () => {
+    writeFileSync(
+      join(tempDir, "coursekit.json"),
+      JSON.stringify({ bloomVerbs: { de: { apply: ["programmieren"] }, fr: { apply: ["coder"] } } })
+    );
+    writeFileSync(join(tempDir, "bloom-verbs.json"), JSON.stringify({ create: ["modellieren"] }));
+
+    const vocabulary = await loadBloomVocabulary({ language: "de", coursePath: tempDir }, tempDir);
+
+    expect(vocabulary.verbs.apply).toContain("programmieren");
+    expect(vocabulary.verbs.apply).not.toContain("coder");
+    expect(vocabulary.verbs.create).toContain("modellieren");
+  });
+
+  it("rejects unknown keys in bloom-verbs.json", async () => {
+    writeFileSync(join(tempDir, "bloom-verbs.json"), JSON.stringify({ applying: ["x"] }));
+
+    await expect(
+      loadBloomVocabulary({ language: "en", coursePath: tempDir }, tempDir)
+    ).rejects.toBeInstanceOf(ConfigValidationError);
+  });
+});
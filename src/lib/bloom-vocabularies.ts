@@ -0,0 +1,195 @@
+/**
+ * Bloom Vocabularies
+ *
+ * Built-in verb packs for languages other than English, and loading of a
+ * course's vocabulary: the built-in pack for its language plus extensions
+ * from coursekit.json ("bloomVerbs") and the course's bloom-verbs.json.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import {
+  BloomVerbExtensionSchema,
+  ConfigParseError,
+  ConfigValidationError,
+  loadBloomVerbConfig,
+} from "../config";
+import type { BloomLevel, BloomVerbExtension } from "../types";
+import { BLOOM_LEVELS, ENGLISH_VOCABULARY, type BloomVocabulary } from "./bloom";
+
+// =============================================================================
+// Built-in Packs
+// =============================================================================
+
+const GERMAN_VOCABULARY: BloomVocabulary = {
+  language: "de",
+  verbs: {
+    remember: ["auflisten", "aufzählen", "nennen", "benennen", "definieren", "wiedergeben", "identifizieren", "beschreiben"],
+    understand: ["erklären", "erläutern", "zusammenfassen", "klassifizieren", "vergleichen", "interpretieren", "veranschaulichen"],
+    apply: ["anwenden", "verwenden", "nutzen", "implementieren", "durchführen", "lösen", "demonstrieren", "umsetzen", "einsetzen"],
+    analyze: ["analysieren", "unterscheiden", "gliedern", "vergleichen", "untersuchen", "differenzieren", "gegenüberstellen"],
+    evaluate: ["bewerten", "beurteilen", "begründen", "rechtfertigen", "evaluieren", "kritisieren", "argumentieren"],
+    create: ["entwerfen", "entwickeln", "konstruieren", "erstellen", "gestalten", "planen", "formulieren", "bauen"],
+  },
+  vague: ["verstehen", "kennen", "wissen", "lernen", "begreifen", "nachvollziehen"],
+  // "Am Ende des Kurses können die Teilnehmenden ..." / "Die Lernenden können ..."
+  leadIn:
+    /^(?:am ende [^,]*,?\s*)?(?:(?:können|sollen|werden)\s+)?(?:die\s+)?(?:lernenden|teilnehmenden|teilnehmer(?:innen)?|studierenden|sie)\s+(?:können|sollen|werden)?\s*/,
+  // German objectives put the infinitive last: "... eine API implementieren"
+  verbPosition: "trailing",
+};
+
+const FRENCH_VOCABULARY: BloomVocabulary = {
+  language: "fr",
+  verbs: {
+    remember: ["énumérer", "lister", "définir", "nommer", "identifier", "citer", "décrire", "reconnaître"],
+    understand: ["expliquer", "résumer", "classer", "classifier", "comparer", "interpréter", "illustrer", "paraphraser"],
+    apply: ["appliquer", "utiliser", "employer", "implémenter", "exécuter", "résoudre", "démontrer"],
+    analyze: ["analyser", "différencier", "distinguer", "comparer", "examiner", "organiser", "décomposer"],
+    evaluate: ["évaluer", "juger", "justifier", "critiquer", "argumenter", "défendre"],
+    create: ["concevoir", "construire", "créer", "développer", "formuler", "produire", "élaborer", "composer"],
+  },
+  vague: ["comprendre", "connaître", "savoir", "apprendre", "saisir", "appréhender"],
+  // "À la fin du cours, les apprenants seront capables de ..."
+  leadIn:
+    /^(?:à la fin d[eu] [^,]*,\s*)?(?:(?:les\s+)?(?:apprenant|apprenante|étudiant|étudiante|participant|participante)s?\s+(?:seront|sera|pourront|pourra|doivent|devront)\s+(?:capables?\s+d[e']\s*|en mesure d[e']\s*)?|(?:être\s+)?(?:capables?|en mesure)\s+d[e']\s*)/,
+  verbPosition: "leading",
+  skip: /ment$/,
+};
+
+const SPANISH_VOCABULARY: BloomVocabulary = {
+  language: "es",
+  verbs: {
+    remember: ["enumerar", "listar", "definir", "nombrar", "identificar", "recordar", "describir", "citar"],
+    understand: ["explicar", "resumir", "clasificar", "comparar", "interpretar", "parafrasear", "ilustrar"],
+    apply: ["aplicar", "usar", "utilizar", "implementar", "ejecutar", "resolver", "demostrar", "emplear"],
+    analyze: ["analizar", "diferenciar", "distinguir", "comparar", "examinar", "organizar", "contrastar"],
+    evaluate: ["evaluar", "juzgar", "justificar", "criticar", "argumentar", "defender", "valorar"],
+    create: ["diseñar", "construir", "crear", "desarrollar", "formular", "producir", "elaborar", "componer"],
+  },
+  vague: ["entender", "comprender", "conocer", "saber", "aprender"],
+  // "Al final del curso, los estudiantes serán capaces de ..."
+  leadIn:
+    /^(?:al final de[l]? [^,]*,\s*)?(?:(?:los\s+|las\s+)?(?:estudiantes|alumnos|alumnas|participantes|aprendices)\s+(?:serán|será|podrán|deberán)\s+(?:capaces\s+de\s+)?|(?:ser\s+)?capaz(?:es)?\s+de\s+)/,
+  verbPosition: "leading",
+  skip: /mente$/,
+};
+
+/**
+ * Built-in vocabularies by language code
+ */
+export const BUILTIN_VOCABULARIES: Record<string, BloomVocabulary> = {
+  en: ENGLISH_VOCABULARY,
+  de: GERMAN_VOCABULARY,
+  fr: FRENCH_VOCABULARY,
+  es: SPANISH_VOCABULARY,
+};
+
+// =============================================================================
+// Building
+// =============================================================================
+
+/** Accepted course language codes: "en", "de", "pt-br" */
+export const LANGUAGE_CODE_PATTERN = /^[a-z]{2}(?:-[a-z]{2})?$/;
+
+/** Per-course extension file, next to define.md */
+export const COURSE_VERBS_FILENAME = "bloom-verbs.json";
+
+/**
+ * Build the vocabulary for a language: the built-in pack (if any) with
+ * extensions added on top. Languages without a pack start empty and use
+ * only the extension verbs.
+ *
+ * @param language - Language code, e.g. "de" or "pt-br"
+ * @param extensions - Extra verbs, applied in order
+ * @returns Merged vocabulary
+ */
+export function buildVocabulary(
+  language: string,
+  ...extensions: BloomVerbExtension[]
+): BloomVocabulary {
+  const code = language.toLowerCase();
+  const base = BUILTIN_VOCABULARIES[code] ?? BUILTIN_VOCABULARIES[code.split("-")[0]];
+
+  const verbs = Object.fromEntries(
+    BLOOM_LEVELS.map((level) => [level, [...(base?.verbs[level] ?? [])]])
+  ) as Record<BloomLevel, string[]>;
+  const vague = [...(base?.vague ?? [])];
+
+  for (const extension of extensions) {
+    for (const level of BLOOM_LEVELS) {
+      addVerbs(verbs[level], extension[level]);
+    }
+    addVerbs(vague, extension.vague);
+  }
+
+  return {
+    language: code,
+    verbs,
+    vague,
+    leadIn: base?.leadIn,
+    verbPosition: base?.verbPosition ?? "leading",
+    skip: base?.skip,
+  };
+}
+
+function addVerbs(target: string[], extra: string[] | undefined): void {
+  for (const verb of extra ?? []) {
+    const normalized = verb.trim().toLowerCase();
+    if (normalized && !target.includes(normalized)) {
+      target.push(normalized);
+    }
+  }
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Load the vocabulary for a course: its language's built-in pack, then the
+ * matching coursekit.json "bloomVerbs" entry, then the course's
+ * bloom-verbs.json.
+ *
+ * @param course - Course language and directory
+ * @param cwd - Directory containing coursekit.json (defaults to cwd)
+ * @returns Vocabulary for the course
+ * @throws ConfigParseError or ConfigValidationError for invalid files
+ */
+export async function loadBloomVocabulary(
+  course: { language: string; coursePath: string | null },
+  cwd?: string
+): Promise<BloomVocabulary> {
+  const language = (course.language || "en").toLowerCase();
+  const config = await loadBloomVerbConfig(cwd);
+  const extensions: BloomVerbExtension[] = [];
+
+  const configured = config[language] ?? config[language.split("-")[0]];
+  if (configured) {
+    extensions.push(configured);
+  }
+
+  if (course.coursePath) {
+    const coursePath = join(course.coursePath, COURSE_VERBS_FILENAME);
+    if (existsSync(coursePath)) {
+      extensions.push(readCourseVerbs(coursePath));
+    }
+  }
+
+  return buildVocabulary(language, ...extensions);
+}
+
+function readCourseVerbs(path: string): BloomVerbExtension {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new ConfigParseError(path, err as Error);
+  }
+
+  const result = BloomVerbExtensionSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ConfigValidationError(path, result.error.issues);
+  }
+  return result.data;
+}
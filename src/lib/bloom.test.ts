@@ -0,0 +1,83 @@
+/**
+ * Bloom's Taxonomy Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { analyzeBloomVerb, detectBloomLevel, levelsFor } from "./bloom";
+
+describe("analyzeBloomVerb", () => {
+  it("finds the leading verb with full confidence", () => {
+    expect(analyzeBloomVerb("Implement JWT authentication")).toEqual({
+      verb: "implement",
+      level: "apply",
+      candidates: ["apply"],
+      confidence: 1,
+      position: "leading",
+      vague: false,
+    });
+  });
+
+  it("skips a learners-will-be-able-to lead-in", () => {
+    const analysis = analyzeBloomVerb("By the end of this lesson, learners will be able to **design** a schema");
+    expect(analysis.verb).toBe("design");
+    expect(analysis.level).toBe("create");
+    expect(analyzeBloomVerb("Students should explain caching").verb).toBe("explain");
+  });
+
+  it("matches whole words only", () => {
+    expect(analyzeBloomVerb("Summarize how tokens are explained").verb).toBe("summarize");
+    expect(detectBloomLevel("Explained concepts")).toBeNull();
+  });
+
+  it("reports every candidate level for ambiguous verbs", () => {
+    const analysis = analyzeBloomVerb("Compare sessions and tokens");
+    expect(analysis.candidates).toEqual(["understand", "analyze"]);
+    expect(analysis.level).toBe("understand");
+    expect(analysis.confidence).toBe(0.5);
+  });
+
+  it("prefers the leading verb over later ones", () => {
+    expect(analyzeBloomVerb("Evaluate how teams use tokens").level).toBe("evaluate");
+  });
+
+  it("falls back to an embedded verb with lower confidence", () => {
+    const analysis = analyzeBloomVerb("Walk through and implement a login flow");
+    expect(analysis.position).toBe("embedded");
+    expect(analysis.verb).toBe("implement");
+    expect(analysis.confidence).toBe(0.5);
+  });
+
+  it("skips leading adverbs but keeps 'apply'", () => {
+    expect(analyzeBloomVerb("Confidently explain OAuth").verb).toBe("explain");
+    expect(analyzeBloomVerb("Apply rate limits").level).toBe("apply");
+  });
+
+  it("flags vague verbs as non-measurable", () => {
+    const analysis = analyzeBloomVerb("Learners will understand JWT and describe claims");
+    expect(analysis.vague).toBe(true);
+    expect(analysis.verb).toBe("understand");
+    expect(analysis.level).toBeNull();
+  });
+
+  it("recognizes the level names analyze and create as verbs", () => {
+    expect(detectBloomLevel("Analyze an authentication flow for weaknesses")).toBe("analyze");
+    expect(detectBloomLevel("Analyse an authentication flow")).toBe("analyze");
+    expect(detectBloomLevel("Create a threat model for a web app")).toBe("create");
+  });
+
+  it("returns nothing for text without a verb", () => {
+    expect(analyzeBloomVerb("Get comfortable with JWT")).toMatchObject({
+      verb: null,
+      level: null,
+      position: null,
+      vague: false,
+    });
+  });
+});
+
+describe("levelsFor", () => {
+  it("lists levels lowest first", () => {
+    expect(levelsFor("compare")).toEqual(["understand", "analyze"]);
+    expect(levelsFor("ponder")).toEqual([]);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Bloom's Taxonomy
+ *
+ * Verb lists and the detector that classifies a learning objective. The
+ * detector tokenizes the objective, skips a "Learners will be able to"
+ * lead-in, and looks for the main action verb at the start of the phrase.
+ * Verbs listed under several levels ("compare") report every candidate,
+ * and vague verbs ("understand", "know") are flagged as non-measurable.
+ *
+ * Verb lists come from a BloomVocabulary. English is built in here; other
+ * languages and team extensions live in bloom-vocabularies.ts.
+ */
+
+import type { BloomLevel } from "../types";
+
+// =============================================================================
+// Verbs
+// =============================================================================
+
+/**
+ * Bloom's taxonomy levels from lowest to highest cognitive demand
+ */
+export const BLOOM_LEVELS: BloomLevel[] = [
+  "remember",
+  "understand",
+  "apply",
+  "analyze",
+  "evaluate",
+  "create",
+];
+
+/**
+ * Bloom's taxonomy action verbs by level (English)
+ */
+export const BLOOM_VERBS: Record<BloomLevel, string[]> = {
+  remember: ["list", "define", "recall", "identify", "name", "state", "describe"],
+  understand: ["explain", "summarize", "paraphrase", "classify", "compare", "interpret"],
+  apply: ["use", "demonstrate", "implement", "execute", "solve", "apply", "show"],
+  analyze: ["analyze", "analyse", "differentiate", "organize", "attribute", "compare", "contrast", "examine"],
+  evaluate: ["assess", "critique", "judge", "justify", "evaluate", "argue", "defend"],
+  create: ["create", "design", "construct", "produce", "develop", "formulate", "build", "compose"],
+};
+
+/**
+ * Verbs that describe an internal state rather than an observable,
+ * measurable behavior (English).
+ */
+export const VAGUE_VERBS = [
+  "understand",
+  "know",
+  "learn",
+  "appreciate",
+  "grasp",
+  "realize",
+  "comprehend",
+  "see",
+  "become",
+  "be",
+];
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Where the detected verb was found:
+ * - leading: the first word of the objective (after any lead-in)
+ * - trailing: the last word, where languages like German put the infinitive
+ * - embedded: somewhere else in the sentence, a weaker signal
+ */
+export type BloomVerbPosition = "leading" | "trailing" | "embedded";
+
+/**
+ * Verb lists and phrasing rules for one language.
+ */
+export interface BloomVocabulary {
+  /** Language code, e.g. "en", "de" */
+  language: string;
+  verbs: Record<BloomLevel, string[]>;
+  /** Non-measurable verbs ("understand", "verstehen") */
+  vague: string[];
+  /** Lead-in to strip before looking for the verb ("learners will be able to") */
+  leadIn?: RegExp;
+  /** Where the main verb usually sits; "trailing" checks the last word first */
+  verbPosition: "leading" | "trailing";
+  /** Words to skip before the leading verb, e.g. English adverbs ending in "ly" */
+  skip?: RegExp;
+}
+
+/**
+ * Result of analyzing an objective.
+ */
+export interface BloomAnalysis {
+  /** Main action verb (lowercase), or null if none was found */
+  verb: string | null;
+  /** Chosen level: the lowest candidate, or null */
+  level: BloomLevel | null;
+  /** Every level the verb is listed under, lowest first */
+  candidates: BloomLevel[];
+  /** 0..1, lower for embedded or ambiguous verbs */
+  confidence: number;
+  /** Where the verb was found (null if no verb) */
+  position: BloomVerbPosition | null;
+  /** The objective leads with a non-measurable verb ("understand", "know") */
+  vague: boolean;
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Built-in English vocabulary, used when no other vocabulary is given
+ */
+export const ENGLISH_VOCABULARY: BloomVocabulary = {
+  language: "en",
+  verbs: BLOOM_VERBS,
+  vague: VAGUE_VERBS,
+  // "By the end of this lesson, learners will be able to" and similar
+  leadIn:
+    /^(?:by the end of [^,]*,\s*)?(?:(?:the\s+)?(?:learners?|students?|participants?|you|they)\s+(?:will|should|can|must)\s+(?:be\s+able\s+to\s+)?|(?:be\s+)?able\s+to\s+)/,
+  verbPosition: "leading",
+  skip: /ly$/,
+};
+
+/**
+ * Analyze the action verb of a learning objective.
+ *
+ * @param objective - Objective text (markdown emphasis is ignored)
+ * @param vocabulary - Verb lists to use (defaults to English)
+ * @returns Verb, level, every candidate level and a confidence score
+ */
+export function analyzeBloomVerb(
+  objective: string,
+  vocabulary: BloomVocabulary = ENGLISH_VOCABULARY
+): BloomAnalysis {
+  let phrase = objective.toLowerCase().replace(/[*_`]/g, "").trim();
+  if (vocabulary.leadIn) {
+    phrase = phrase.replace(vocabulary.leadIn, "");
+  }
+  const words = tokenize(phrase);
+  const isVerb = (word: string) => levelsFor(word, vocabulary).length > 0;
+
+  // Skip a leading adverb ("confidently explain"), but not "apply"
+  const first = words.find((word) => !vocabulary.skip?.test(word) || isVerb(word));
+  const last = words[words.length - 1];
+  const ends: [string | undefined, BloomVerbPosition][] =
+    vocabulary.verbPosition === "trailing"
+      ? [[last, "trailing"], [first, "leading"]]
+      : [[first, "leading"]];
+
+  for (const [word, position] of ends) {
+    if (word && vocabulary.vague.includes(word)) {
+      return { verb: word, level: null, candidates: [], confidence: 0, position, vague: true };
+    }
+    if (word && isVerb(word)) {
+      return result(word, position, vocabulary);
+    }
+  }
+
+  const embedded = words.find(isVerb);
+  if (embedded) {
+    return result(embedded, "embedded", vocabulary);
+  }
+
+  return { verb: null, level: null, candidates: [], confidence: 0, position: null, vague: false };
+}
+
+/**
+ * Detect Bloom level from an objective text
+ */
+export function detectBloomLevel(
+  objective: string,
+  vocabulary: BloomVocabulary = ENGLISH_VOCABULARY
+): BloomLevel | null {
+  return analyzeBloomVerb(objective, vocabulary).level;
+}
+
+/**
+ * Every level a verb is listed under, lowest first.
+ */
+export function levelsFor(
+  verb: string,
+  vocabulary: BloomVocabulary = ENGLISH_VOCABULARY
+): BloomLevel[] {
+  return BLOOM_LEVELS.filter((level) => vocabulary.verbs[level].includes(verb));
+}
+
+function result(
+  verb: string,
+  position: BloomVerbPosition,
+  vocabulary: BloomVocabulary
+): BloomAnalysis {
+  const candidates = levelsFor(verb, vocabulary);
+  const base = position === "embedded" ? 0.5 : 1;
+  return {
+    verb,
+    level: candidates[0],
+    candidates,
+    confidence: Math.round((base / candidates.length) * 100) / 100,
+    position,
+    vague: false,
+  };
+}
+
+function tokenize(text: string): string[] {
+  // Apostrophes split words so French elisions ("d'expliquer") expose the verb
+  return text.match(/\p{L}+/gu) ?? [];
+}
@@ -11,7 +11,7 @@ import {
   classifyConflict,
 } from "./conflict-detection";
 import { saveSyncState, SYNC_STATE_VERSION } from "./sync-state";
-import { hashContent } from "./platform-utils";
+import { calculateBinaryHash, hashContent } from "./platform-utils";
 import type { CourseKitConfig, SyncState, SyncRecord, PlatformLesson } from "../types";
 
 const FIXTURES_ROOT = path.join(import.meta.dir, "../../test-fixtures/conflict-detection");
@@ -361,4 +361,74 @@ describe("detectConflicts", () => {
       expect(result.totalChecked).toBe(0);
     });
   });
+
+  describe("Scenario: Guides and assets", () => {
+    const scenarioDir = path.join(FIXTURES_ROOT, "guides-assets");
+    const platformRoot = path.join(scenarioDir, "platform");
+
+    beforeEach(async () => {
+      // Guide edited on the platform, plus a record for a guide deleted there
+      const guidesDir = path.join(platformRoot, "src/content/guides");
+      fs.mkdirSync(guidesDir, { recursive: true });
+      fs.writeFileSync(path.join(guidesDir, "setup.md"), "---\ntitle: Setup\n---\n\n# Edited\n");
+
+      // One synced asset and one that only exists on the platform
+      const assetDir = path.join(platformRoot, "public/courses/astro-course/images");
+      fs.mkdirSync(assetDir, { recursive: true });
+      fs.writeFileSync(path.join(assetDir, "hero.png"), Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+      fs.writeFileSync(path.join(assetDir, "logo.png"), Buffer.from([0x89, 0x50]));
+
+      const syncState: SyncState = {
+        version: SYNC_STATE_VERSION,
+        records: {
+          "guides/setup": createSyncRecord("src/content/guides/setup.md", "oldhash"),
+          "guides/old": createSyncRecord("src/content/guides/old.md", "oldhash"),
+          "assets/astro-course/images/hero.png": createSyncRecord(
+            "public/courses/astro-course/images/hero.png",
+            await calculateBinaryHash(path.join(assetDir, "hero.png"))
+          ),
+        },
+        lastSync: "2026-01-28T10:00:00Z",
+      };
+      await saveSyncState(platformRoot, syncState);
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(scenarioDir)) {
+        fs.rmSync(scenarioDir, { recursive: true });
+      }
+    });
+
+    it("detects guide and asset conflicts with per-type counts", async () => {
+      const config = createConfig(scenarioDir);
+      const result = await detectConflicts(config);
+
+      expect(result.conflicts.map((c) => [c.key, c.contentType, c.conflictType])).toEqual([
+        ["assets/astro-course/images/logo.png", "asset", "new_on_platform"],
+        ["guides/old", "guide", "deleted"],
+        ["guides/setup", "guide", "modified"],
+      ]);
+      expect(result.totalChecked).toBe(4);
+      expect(result.byType).toEqual({
+        lesson: { checked: 0, conflicts: 0 },
+        guide: { checked: 2, conflicts: 2 },
+        asset: { checked: 2, conflicts: 1 },
+      });
+    });
+
+    it("leaves guides out when filtering by course", async () => {
+      const config = createConfig(scenarioDir);
+      const result = await detectConflicts(config, { courseId: "astro-course" });
+
+      expect(result.conflicts.map((c) => c.key)).toEqual(["assets/astro-course/images/logo.png"]);
+    });
+
+    it("checks only the requested content types", async () => {
+      const config = createConfig(scenarioDir);
+      const result = await detectConflicts(config, { contentTypes: ["guide"] });
+
+      expect(result.conflicts.map((c) => c.key)).toEqual(["guides/old", "guides/setup"]);
+      expect(result.byType.asset.checked).toBe(0);
+    });
+  });
 });
@@ -3,21 +3,27 @@
  *
  * Detect conflicts between platform state and sync state baseline.
  * Conflicts occur when platform files have been modified since the last sync.
+ * Lessons, guides and assets are checked the same way; only the hash differs
+ * (normalized body for markdown, raw bytes for assets).
  */
 
+import * as path from "node:path";
 import type {
   ConflictDetectionOptions,
   ConflictDetectionResult,
   ConflictItem,
-  ConflictType,
+  ConflictTypeSummary,
   CourseKitConfig,
-  PlatformLesson,
-  PlatformGuide,
+  PlatformFileHash,
+  SyncContentType,
   SyncRecord,
-  SyncState,
 } from "../types";
-import { loadSyncState, getSyncRecord } from "./sync-state";
+import { loadSyncState, getSyncContentType } from "./sync-state";
 import { readPlatformState } from "./platform-state";
+import { hashPlatformFile, scanPlatformAssets, scanPlatformGuides } from "./platform-utils";
+
+/** Content types checked when no filter is given */
+const ALL_CONTENT_TYPES: SyncContentType[] = ["lesson", "guide", "asset"];
 
 // =============================================================================
 // Conflict Classification (T-2.2)
@@ -26,7 +32,7 @@ import { readPlatformState } from "./platform-state";
 /**
  * Classify a single file as a conflict or not.
  *
- * @param key - Canonical key (courseId/slug)
+ * @param key - Canonical key (courseId/slug, guides/slug or assets/course/path)
  * @param syncRecord - Sync record from state (null if not previously synced)
  * @param platformFile - Platform file (null if deleted from platform)
  * @returns ConflictItem if conflict detected, null otherwise
@@ -34,8 +40,10 @@ import { readPlatformState } from "./platform-state";
 export function classifyConflict(
   key: string,
   syncRecord: SyncRecord | null,
-  platformFile: PlatformLesson | PlatformGuide | null
+  platformFile: PlatformFileHash | null
 ): ConflictItem | null {
+  const contentType = getSyncContentType(key);
+
   // Both null: nothing to compare
   if (!syncRecord && !platformFile) {
     return null;
@@ -45,6 +53,7 @@ export function classifyConflict(
   if (!syncRecord && platformFile) {
     return {
       key,
+      contentType,
       platformPath: platformFile.path,
       currentHash: platformFile.contentHash,
       conflictType: "new_on_platform",
@@ -56,6 +65,7 @@ export function classifyConflict(
   if (syncRecord && !platformFile) {
     return {
       key,
+      contentType,
       expectedHash: syncRecord.contentHash,
       lastSyncedAt: syncRecord.syncedAt,
       conflictType: "deleted",
@@ -73,6 +83,7 @@ export function classifyConflict(
     // Hashes differ: modified
     return {
       key,
+      contentType,
       platformPath: platformFile.path,
       expectedHash: syncRecord.contentHash,
       currentHash: platformFile.contentHash,
@@ -85,6 +96,90 @@ export function classifyConflict(
   return null;
 }
 
+// =============================================================================
+// Platform Files
+// =============================================================================
+
+/**
+ * Course slugs to scan for published assets: the filtered course, or every
+ * configured course plus any course that still has asset records.
+ */
+function collectAssetCourseSlugs(
+  config: CourseKitConfig,
+  recordKeys: string[],
+  courseId?: string
+): string[] {
+  if (courseId) {
+    // Asset keys use the course ID when filtered (see resolveAssetCourseSlug)
+    return [courseId];
+  }
+  const slugs = new Set(Object.values(config.courses).map((course) => course.slug));
+  for (const key of recordKeys) {
+    if (getSyncContentType(key) === "asset") {
+      slugs.add(key.split("/")[1]);
+    }
+  }
+  return [...slugs];
+}
+
+/**
+ * Read the platform files of the given content types, keyed by canonical key.
+ * Guides are not tied to a course, so a course filter leaves them out.
+ */
+async function readPlatformFiles(
+  config: CourseKitConfig,
+  contentTypes: SyncContentType[],
+  recordKeys: string[],
+  courseId?: string
+): Promise<Map<string, PlatformFileHash>> {
+  const platformRoot = config.platform.path;
+  const files = new Map<string, PlatformFileHash>();
+
+  if (contentTypes.includes("lesson")) {
+    const platformState = await readPlatformState(config, { courseId, lessonsOnly: true });
+    for (const lesson of platformState.lessons) {
+      files.set(`${lesson.courseId}/${lesson.slug}`, lesson);
+    }
+  }
+
+  if (contentTypes.includes("guide") && !courseId) {
+    const guidesDir = path.join(platformRoot, "src", "content", "guides");
+    for (const filePath of await scanPlatformGuides(platformRoot)) {
+      const slug = path.relative(guidesDir, filePath).replace(/\.md$/, "");
+      files.set(`guides/${slug}`, {
+        path: filePath,
+        contentHash: await hashPlatformFile("guide", filePath),
+      });
+    }
+  }
+
+  if (contentTypes.includes("asset")) {
+    for (const courseSlug of collectAssetCourseSlugs(config, recordKeys, courseId)) {
+      const assetDir = path.join(platformRoot, "public", "courses", courseSlug);
+      for (const filePath of await scanPlatformAssets(platformRoot, courseSlug)) {
+        files.set(`assets/${courseSlug}/${path.relative(assetDir, filePath)}`, {
+          path: filePath,
+          contentHash: await hashPlatformFile("asset", filePath),
+        });
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Check whether a canonical key falls within the detection filters.
+ */
+function isInScope(key: string, contentTypes: SyncContentType[], courseId?: string): boolean {
+  const contentType = getSyncContentType(key);
+  if (!contentTypes.includes(contentType)) return false;
+  if (!courseId) return true;
+  if (contentType === "lesson") return key.startsWith(`${courseId}/`);
+  if (contentType === "asset") return key.startsWith(`assets/${courseId}/`);
+  return false;
+}
+
 // =============================================================================
 // Main Detection Function (T-2.1)
 // =============================================================================
@@ -98,75 +193,53 @@ export function classifyConflict(
  * - new_on_platform: Platform file exists but not in sync state
  *
  * @param config - CourseKit configuration
- * @param options - Detection options (courseId filter)
+ * @param options - Detection options (courseId and content type filters)
  * @returns Conflict detection result
  */
 export async function detectConflicts(
   config: CourseKitConfig,
   options: ConflictDetectionOptions = {}
 ): Promise<ConflictDetectionResult> {
+  const contentTypes = options.contentTypes ?? ALL_CONTENT_TYPES;
   const conflicts: ConflictItem[] = [];
 
   // Load sync state from platform directory
   const syncState = await loadSyncState(config.platform.path);
+  const recordKeys = Object.keys(syncState.records);
 
-  // Read current platform state
-  const platformState = await readPlatformState(config, {
-    courseId: options.courseId,
-    lessonsOnly: true, // For now, only lessons
-  });
-
-  // Build a map of platform files by canonical key
-  const platformFilesByKey = new Map<string, PlatformLesson>();
-  for (const lesson of platformState.lessons) {
-    const key = `${lesson.courseId}/${lesson.slug}`;
-    platformFilesByKey.set(key, lesson);
-  }
-
-  // Track which keys we've checked
-  const checkedKeys = new Set<string>();
-
-  // Check all sync records against platform state
-  for (const [key, syncRecord] of Object.entries(syncState.records)) {
-    // Apply courseId filter if specified
-    if (options.courseId && !key.startsWith(`${options.courseId}/`)) {
-      continue;
-    }
+  // Read current platform files by canonical key
+  const platformFilesByKey = await readPlatformFiles(config, contentTypes, recordKeys, options.courseId);
 
-    checkedKeys.add(key);
-    const platformFile = platformFilesByKey.get(key) ?? null;
-    const conflict = classifyConflict(key, syncRecord, platformFile);
+  // Every key known to either side, sorted for consistent output
+  const keys = [...new Set([...recordKeys, ...platformFilesByKey.keys()])]
+    .filter((key) => isInScope(key, contentTypes, options.courseId))
+    .sort((a, b) => a.localeCompare(b));
 
-    if (conflict) {
-      conflicts.push(conflict);
-    }
-  }
-
-  // Check for platform files not in sync state (new_on_platform)
-  for (const [key, platformFile] of platformFilesByKey) {
-    if (checkedKeys.has(key)) {
-      continue;
-    }
-
-    // Apply courseId filter if specified
-    if (options.courseId && !key.startsWith(`${options.courseId}/`)) {
-      continue;
-    }
+  const byType: Record<SyncContentType, ConflictTypeSummary> = {
+    lesson: { checked: 0, conflicts: 0 },
+    guide: { checked: 0, conflicts: 0 },
+    asset: { checked: 0, conflicts: 0 },
+  };
 
-    checkedKeys.add(key);
-    const conflict = classifyConflict(key, null, platformFile);
+  for (const key of keys) {
+    const summary = byType[getSyncContentType(key)];
+    summary.checked++;
 
+    const conflict = classifyConflict(
+      key,
+      syncState.records[key] ?? null,
+      platformFilesByKey.get(key) ?? null
+    );
     if (conflict) {
       conflicts.push(conflict);
+      summary.conflicts++;
     }
   }
 
-  // Sort conflicts by key for consistent output
-  conflicts.sort((a, b) => a.key.localeCompare(b.key));
-
   return {
     hasConflicts: conflicts.length > 0,
     conflicts,
-    totalChecked: checkedKeys.size,
+    totalChecked: keys.length,
+    byType,
   };
 }
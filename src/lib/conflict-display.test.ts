@@ -8,8 +8,12 @@ import {
   formatConflictSummary,
   displayConflicts,
   displayConflictStatus,
+  displayConflictReview,
+  formatConflictCounts,
+  formatFieldChange,
 } from "./conflict-display";
-import type { ConflictDetectionResult, ConflictItem } from "../types";
+import { getSyncContentType } from "./sync-state";
+import type { ConflictDetectionResult, ConflictItem, ConflictReview } from "../types";
 
 // Helper to create a conflict item
 function createConflict(
@@ -19,6 +23,7 @@ function createConflict(
 ): ConflictItem {
   return {
     key,
+    contentType: getSyncContentType(key),
     platformPath,
     expectedHash: type !== "new_on_platform" ? "oldhash" : undefined,
     currentHash: type !== "deleted" ? "newhash" : undefined,
@@ -28,6 +33,20 @@ function createConflict(
   };
 }
 
+// Helper to create a detection result with per-type counts
+function createResult(conflicts: ConflictItem[], totalChecked: number): ConflictDetectionResult {
+  const byType: ConflictDetectionResult["byType"] = {
+    lesson: { checked: 0, conflicts: 0 },
+    guide: { checked: 0, conflicts: 0 },
+    asset: { checked: 0, conflicts: 0 },
+  };
+  for (const conflict of conflicts) {
+    byType[conflict.contentType].checked++;
+    byType[conflict.contentType].conflicts++;
+  }
+  return { hasConflicts: conflicts.length > 0, conflicts, totalChecked, byType };
+}
+
 describe("formatConflictSummary", () => {
   it("formats modified conflict", () => {
     const conflict = createConflict(
@@ -93,11 +112,7 @@ describe("displayConflicts", () => {
   });
 
   it("displays message when no conflicts", () => {
-    const result: ConflictDetectionResult = {
-      hasConflicts: false,
-      conflicts: [],
-      totalChecked: 5,
-    };
+    const result = createResult([], 5);
 
     displayConflicts(result);
 
@@ -105,11 +120,7 @@ describe("displayConflicts", () => {
   });
 
   it("displays single conflict", () => {
-    const result: ConflictDetectionResult = {
-      hasConflicts: true,
-      conflicts: [createConflict("astro-course/intro", "modified", "/path/file.md")],
-      totalChecked: 5,
-    };
+    const result = createResult([createConflict("astro-course/intro", "modified", "/path/file.md")], 5);
 
     displayConflicts(result);
 
@@ -120,14 +131,13 @@ describe("displayConflicts", () => {
   });
 
   it("displays multiple conflicts", () => {
-    const result: ConflictDetectionResult = {
-      hasConflicts: true,
-      conflicts: [
+    const result = createResult(
+      [
         createConflict("astro-course/intro", "modified", "/path/file1.md"),
         createConflict("astro-course/setup", "deleted"),
       ],
-      totalChecked: 5,
-    };
+      5
+    );
 
     displayConflicts(result);
 
@@ -138,15 +148,14 @@ describe("displayConflicts", () => {
   });
 
   it("displays all three conflict types correctly", () => {
-    const result: ConflictDetectionResult = {
-      hasConflicts: true,
-      conflicts: [
+    const result = createResult(
+      [
         createConflict("a/mod", "modified", "/path/mod.md"),
         createConflict("b/del", "deleted"),
         createConflict("c/new", "new_on_platform", "/path/new.md"),
       ],
-      totalChecked: 3,
-    };
+      3
+    );
 
     displayConflicts(result);
 
@@ -173,11 +182,7 @@ describe("displayConflictStatus", () => {
   });
 
   it("displays nothing when no conflicts", () => {
-    const result: ConflictDetectionResult = {
-      hasConflicts: false,
-      conflicts: [],
-      totalChecked: 5,
-    };
+    const result = createResult([], 5);
 
     displayConflictStatus(result);
 
@@ -185,14 +190,13 @@ describe("displayConflictStatus", () => {
   });
 
   it("displays conflicts in compact format", () => {
-    const result: ConflictDetectionResult = {
-      hasConflicts: true,
-      conflicts: [
+    const result = createResult(
+      [
         createConflict("astro-course/intro", "modified"),
         createConflict("astro-course/setup", "deleted"),
       ],
-      totalChecked: 5,
-    };
+      5
+    );
 
     displayConflictStatus(result);
 
@@ -202,4 +206,73 @@ describe("displayConflictStatus", () => {
     expect(fullOutput).toContain("astro-course/setup [deleted from platform]");
     expect(fullOutput).toContain("coursekit push --force");
   });
+
+  it("counts conflicts per content type", () => {
+    const result = createResult(
+      [
+        createConflict("astro-course/intro", "modified"),
+        createConflict("guides/setup", "modified"),
+        createConflict("assets/astro-course/hero.png", "deleted"),
+        createConflict("assets/astro-course/logo.png", "new_on_platform"),
+      ],
+      6
+    );
+
+    displayConflictStatus(result);
+
+    expect(output.join("\n")).toContain("Conflicts (4): 1 lesson, 1 guide, 2 assets");
+  });
+});
+
+describe("formatConflictCounts", () => {
+  it("leaves out content types without conflicts", () => {
+    const result = createResult([createConflict("guides/setup", "deleted")], 3);
+
+    expect(formatConflictCounts(result.byType)).toBe("1 guide");
+  });
+});
+
+describe("formatFieldChange", () => {
+  it("shows source and platform values", () => {
+    expect(
+      formatFieldChange({ field: "title", sourceValue: "Intro", platformValue: undefined, changeType: "added" })
+    ).toBe('title: "Intro" → (none)');
+  });
+});
+
+describe("displayConflictReview", () => {
+  let logSpy: ReturnType<typeof spyOn>;
+  let output: string[];
+
+  beforeEach(() => {
+    output = [];
+    logSpy = spyOn(console, "log").mockImplementation((msg?: unknown) => {
+      if (msg !== undefined) output.push(String(msg));
+    });
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  it("shows position, field changes and the diff", () => {
+    const review: ConflictReview = {
+      conflict: createConflict("astro-course/intro", "modified", "/platform/01-intro.md"),
+      courseId: "astro-course",
+      sourcePath: "/source/01-intro.md",
+      targetPath: "/platform/01-intro.md",
+      platformExists: true,
+      changes: [{ field: "title", sourceValue: "A", platformValue: "B", changeType: "modified" }],
+      diff: "--- source/01-intro.md\n+++ platform/01-intro.md",
+      choices: ["take-source", "keep-platform"],
+      mergeDraft: null,
+    };
+
+    displayConflictReview(review, 2, 3);
+
+    const fullOutput = output.join("\n");
+    expect(fullOutput).toContain("[2/3] astro-course/intro (modified on platform)");
+    expect(fullOutput).toContain('title: "A" → "B"');
+    expect(fullOutput).toContain("+++ platform/01-intro.md");
+  });
 });
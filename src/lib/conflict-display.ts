@@ -4,7 +4,16 @@
  * Format and display conflict information in the terminal.
  */
 
-import type { ConflictDetectionResult, ConflictItem } from "../types";
+import type {
+  ConflictDetectionResult,
+  ConflictItem,
+  ConflictResolution,
+  ConflictReview,
+  ConflictTypeSummary,
+  FieldChange,
+  ResolutionResult,
+  SyncContentType,
+} from "../types";
 
 // =============================================================================
 // Formatting Functions
@@ -34,6 +43,38 @@ export function formatConflictSummary(conflict: ConflictItem): string {
   return lines.join("\n");
 }
 
+/**
+ * Format conflict counts per content type, e.g. "2 lessons, 1 asset".
+ *
+ * @param byType - Conflict counts per content type
+ * @returns Comma-separated counts, leaving out types without conflicts
+ */
+export function formatConflictCounts(byType: Record<SyncContentType, ConflictTypeSummary>): string {
+  return Object.entries(byType)
+    .filter(([, summary]) => summary.conflicts > 0)
+    .map(([type, summary]) => `${summary.conflicts} ${type}${summary.conflicts === 1 ? "" : "s"}`)
+    .join(", ");
+}
+
+/**
+ * Format a frontmatter change as "field: source → platform".
+ *
+ * @param change - Field change between source and platform
+ * @returns Formatted line
+ */
+export function formatFieldChange(change: FieldChange): string {
+  const value = (v: unknown) => (v === undefined ? "(none)" : JSON.stringify(v));
+  return `${change.field}: ${value(change.sourceValue)} → ${value(change.platformValue)}`;
+}
+
+/** Prompt labels for conflict resolutions; the bracketed letter selects one */
+export const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  "take-source": "[t]ake source",
+  "keep-platform": "[k]eep platform",
+  edit: "[e]dit merge",
+  "adopt-platform": "[a]dopt platform as synced",
+};
+
 /**
  * Format conflict type for human-readable display.
  */
@@ -107,12 +148,70 @@ export function displayConflictStatus(result: ConflictDetectionResult): void {
   }
 
   const count = result.conflicts.length;
-  console.log(`\nConflicts (${count}):`);
+  console.log(`\nConflicts (${count}): ${formatConflictCounts(result.byType)}`);
 
   for (const conflict of result.conflicts) {
     const status = formatConflictType(conflict.conflictType);
     console.log(`  ${conflict.key} [${status}]`);
   }
 
-  console.log("\nRun 'coursekit push --force' to overwrite platform changes.");
+  console.log("\nRun 'coursekit push --interactive' to review them, or 'coursekit push --force' to overwrite platform changes.");
+}
+
+/**
+ * Display one conflict for interactive review.
+ *
+ * @param review - Conflict review
+ * @param position - 1-based position in the session
+ * @param total - Number of conflicts in the session
+ */
+export function displayConflictReview(review: ConflictReview, position: number, total: number): void {
+  console.log("");
+  console.log(`[${position}/${total}] ${review.conflict.key} (${formatConflictType(review.conflict.conflictType)})`);
+  console.log("─".repeat(60));
+
+  if (review.changes.length > 0) {
+    console.log("Frontmatter (source → platform):");
+    for (const change of review.changes) {
+      console.log(`  ${formatFieldChange(change)}`);
+    }
+    console.log("");
+  }
+
+  if (review.diff) {
+    console.log(review.diff);
+  } else {
+    console.log("Bodies are identical.");
+  }
+  console.log("");
+}
+
+/**
+ * Display the outcome of applying conflict resolutions.
+ *
+ * @param result - Resolution result
+ */
+export function displayResolutionResult(result: ResolutionResult): void {
+  const groups: [string, string[]][] = [
+    [result.dryRun ? "Would take source" : "Took source", result.tookSource],
+    [result.dryRun ? "Would write edited merge" : "Wrote edited merge", result.edited],
+    [result.dryRun ? "Would adopt platform" : "Adopted platform", result.adopted],
+    ["Kept for later", result.kept],
+  ];
+
+  console.log("");
+  for (const [label, keys] of groups) {
+    if (keys.length === 0) continue;
+    console.log(`${label}:`);
+    for (const key of keys) {
+      console.log(`  ${key}`);
+    }
+  }
+
+  if (result.errors.length > 0) {
+    console.log("Errors:");
+    for (const error of result.errors) {
+      console.log(`  ✗ ${error.key}: ${error.message}`);
+    }
+  }
 }
@@ -0,0 +1,144 @@
+/**
+ * Conflict Resolution Tests
+ * Tests for reviewing push conflicts and applying chosen resolutions.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { applyConflictResolutions, collectConflictReviews } from "./conflict-resolution";
+import { buildConflictPath, buildTargetPath, executeLessonSync } from "./lesson-sync";
+import { loadSyncState, saveSyncState } from "./sync-state";
+import type { CourseKitConfig } from "../types";
+
+// Test fixture directory
+const TEST_ROOT = path.join(process.cwd(), "test-fixtures/conflict-resolution");
+
+const original = `---
+title: Introduction
+---
+
+# Introduction
+
+Teh first paragraph.
+
+The second paragraph.
+`;
+
+describe("conflict resolution", () => {
+  let sourceDir: string;
+  let platformDir: string;
+  let config: CourseKitConfig;
+  let sourcePath: string;
+  let platformPath: string;
+
+  beforeEach(async () => {
+    await fs.promises.rm(TEST_ROOT, { recursive: true, force: true });
+    sourceDir = path.join(TEST_ROOT, "source");
+    platformDir = path.join(TEST_ROOT, "platform");
+    await fs.promises.mkdir(path.join(sourceDir, "courses/test-course/lessons"), { recursive: true });
+    await fs.promises.mkdir(platformDir, { recursive: true });
+    config = {
+      platform: { path: platformDir },
+      courses: {
+        "test-course": { slug: "test-course", sourceDir: path.join(sourceDir, "courses/test-course") },
+      },
+    };
+
+    sourcePath = path.join(sourceDir, "courses/test-course/lessons/01-intro.md");
+    platformPath = buildTargetPath(platformDir, "test-course", "01-intro.md");
+    await Bun.write(sourcePath, original);
+    await executeLessonSync(config, {});
+
+    // Both sides fix the same typo differently
+    await Bun.write(sourcePath, original.replace("Teh", "A better").replace("Introduction\n---", "Welcome\n---"));
+    await Bun.write(platformPath, original.replace("Teh", "The"));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  it("reviews conflicts with a body diff, field changes and a merge draft", async () => {
+    const [review, ...rest] = await collectConflictReviews(config);
+
+    expect(rest).toEqual([]);
+    expect(review.conflict.key).toBe("test-course/intro");
+    expect(review.choices).toEqual(["take-source", "keep-platform", "edit", "adopt-platform"]);
+    expect(review.changes).toEqual([
+      { field: "title", sourceValue: "Welcome", platformValue: "Introduction", changeType: "modified" },
+    ]);
+    expect(review.diff).toContain("-A better first paragraph.\n+The first paragraph.");
+    expect(review.mergeDraft).toContain("<<<<<<< source\nA better first paragraph.\n=======");
+  });
+
+  it("leaves out conflicts push can merge on its own", async () => {
+    await Bun.write(sourcePath, original.replace("second", "final"));
+
+    expect(await collectConflictReviews(config)).toEqual([]);
+  });
+
+  it("marks all differences when there is no merge base", async () => {
+    const state = await loadSyncState(platformDir);
+    delete state.records["test-course/intro"].baseContent;
+    await saveSyncState(platformDir, state);
+
+    const [review] = await collectConflictReviews(config);
+
+    expect(review.mergeDraft).toContain("<<<<<<< source\ntitle: Welcome\n=======\ntitle: Introduction\n>>>>>>> platform");
+  });
+
+  it("takes source and clears the conflict", async () => {
+    await executeLessonSync(config, {});
+    expect(fs.existsSync(buildConflictPath(platformPath))).toBe(true);
+    const [review] = await collectConflictReviews(config);
+
+    const result = await applyConflictResolutions(config, [{ review, resolution: "take-source" }]);
+
+    expect(result.tookSource).toEqual(["test-course/intro"]);
+    expect(await Bun.file(platformPath).text()).toBe(await Bun.file(sourcePath).text());
+    expect(fs.existsSync(buildConflictPath(platformPath))).toBe(false);
+    expect((await executeLessonSync(config, {})).success).toBe(true);
+  });
+
+  it("adopts the platform file so later pushes keep it", async () => {
+    const platform = await Bun.file(platformPath).text();
+    const [review] = await collectConflictReviews(config);
+
+    const result = await applyConflictResolutions(config, [{ review, resolution: "adopt-platform" }]);
+    const sync = await executeLessonSync(config, {});
+
+    expect(result.adopted).toEqual(["test-course/intro"]);
+    expect(sync.success).toBe(true);
+    expect(sync.unchanged).toEqual(["test-course/intro"]);
+    expect(await Bun.file(platformPath).text()).toBe(platform);
+  });
+
+  it("writes an edited merge and rejects leftover markers", async () => {
+    const [review] = await collectConflictReviews(config);
+
+    const rejected = await applyConflictResolutions(config, [
+      { review, resolution: "edit", content: review.mergeDraft! },
+    ]);
+    expect(rejected.errors.map((e) => e.message)).toEqual(["Edited file still has conflict markers"]);
+
+    const edited = original.replace("Teh", "The better");
+    const result = await applyConflictResolutions(config, [{ review, resolution: "edit", content: edited }]);
+
+    expect(result.edited).toEqual(["test-course/intro"]);
+    expect(await Bun.file(platformPath).text()).toBe(edited);
+  });
+
+  it("writes nothing in dry-run mode", async () => {
+    const platform = await Bun.file(platformPath).text();
+    const [review] = await collectConflictReviews(config);
+
+    const result = await applyConflictResolutions(config, [{ review, resolution: "take-source" }], {
+      dryRun: true,
+    });
+
+    expect(result.tookSource).toEqual(["test-course/intro"]);
+    expect(await Bun.file(platformPath).text()).toBe(platform);
+    expect(await collectConflictReviews(config)).toHaveLength(1);
+  });
+});
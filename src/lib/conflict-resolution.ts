@@ -0,0 +1,221 @@
+/**
+ * Conflict Resolution
+ *
+ * Build reviews of push conflicts (diff plus frontmatter changes) and apply
+ * the chosen resolutions in one batch. Lessons that push can merge on its
+ * own are left out of the review.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+  ConflictDecision,
+  ConflictResolution,
+  ConflictReview,
+  CourseKitConfig,
+  ResolutionResult,
+  SyncError,
+} from "../types";
+import { DEFAULT_PROTECTED_FIELDS } from "../types";
+import { detectConflicts } from "./conflict-detection";
+import { calculateLessonDiff } from "./diff";
+import { buildConflictPath, buildTargetPath, hashLessonBody } from "./lesson-sync";
+import { getSyncRecord, loadSyncState, saveSyncState, updateSyncRecord } from "./sync-state";
+import { formatUnifiedDiff, hasConflictMarkers, markDifferences } from "./text-diff";
+import { mergeLessonContent } from "./three-way-merge";
+
+/** Resolutions for a platform file that exists */
+const EXISTING_FILE_CHOICES: ConflictResolution[] = ["take-source", "keep-platform", "edit", "adopt-platform"];
+
+/** Resolutions for a platform file that was deleted */
+const DELETED_FILE_CHOICES: ConflictResolution[] = ["take-source", "keep-platform"];
+
+/**
+ * Get the body of a lesson file (frontmatter excluded).
+ */
+function lessonBody(content: string): string {
+  const bodyMatch = content.match(/^---[\s\S]*?---\s*([\s\S]*)$/);
+  return bodyMatch ? bodyMatch[1] : content;
+}
+
+// =============================================================================
+// Review
+// =============================================================================
+
+/**
+ * Collect reviews for lesson conflicts that would block a push.
+ *
+ * Skips conflicts without a source lesson, lessons whose source already
+ * matches the platform, and lessons a three-way merge resolves cleanly.
+ *
+ * @param config - CourseKit configuration
+ * @param options - Course filter
+ * @returns Reviews sorted by key
+ */
+export async function collectConflictReviews(
+  config: CourseKitConfig,
+  options: { courseId?: string } = {}
+): Promise<ConflictReview[]> {
+  const platformRoot = config.platform.path;
+  const detection = await detectConflicts(config, {
+    courseId: options.courseId,
+    contentTypes: ["lesson"],
+  });
+  if (!detection.hasConflicts) return [];
+
+  const diff = await calculateLessonDiff(config, {
+    courseId: options.courseId,
+    includeUnchanged: true,
+  });
+  const items = new Map(diff.items.map((item) => [item.key, item]));
+  const syncState = await loadSyncState(platformRoot);
+  const reviews: ConflictReview[] = [];
+
+  for (const conflict of detection.conflicts) {
+    const item = items.get(conflict.key);
+    if (!item?.sourcePath || item.status === "unchanged") continue;
+
+    const source = await Bun.file(item.sourcePath).text();
+    const filename = path.basename(item.sourcePath);
+    const targetPath = item.platformPath ?? buildTargetPath(platformRoot, item.courseId, filename);
+    const base = getSyncRecord(syncState, conflict.key)?.baseContent;
+    const labels = { fromLabel: `source/${filename}`, toLabel: `platform/${path.basename(targetPath)}` };
+
+    if (!item.platformPath) {
+      reviews.push({
+        conflict,
+        courseId: item.courseId,
+        sourcePath: item.sourcePath,
+        targetPath,
+        platformExists: false,
+        changes: [],
+        diff: formatUnifiedDiff(lessonBody(source), "", labels),
+        choices: DELETED_FILE_CHOICES,
+        mergeDraft: null,
+      });
+      continue;
+    }
+
+    const platform = await Bun.file(item.platformPath).text();
+    let mergeDraft: string;
+    if (base !== undefined) {
+      const merge = mergeLessonContent(base, source, platform, DEFAULT_PROTECTED_FIELDS);
+      if (merge.clean) continue;
+      mergeDraft = merge.content;
+    } else {
+      mergeDraft = markDifferences(source, platform);
+    }
+
+    reviews.push({
+      conflict,
+      courseId: item.courseId,
+      sourcePath: item.sourcePath,
+      targetPath,
+      platformExists: true,
+      changes: item.changes,
+      diff: formatUnifiedDiff(lessonBody(source), lessonBody(platform), labels),
+      choices: EXISTING_FILE_CHOICES,
+      mergeDraft,
+    });
+  }
+
+  return reviews;
+}
+
+// =============================================================================
+// Apply
+// =============================================================================
+
+/**
+ * Apply resolutions and record the results in sync state.
+ *
+ * Every written or adopted lesson keeps the current source as merge base, so
+ * later pushes merge source edits into the platform version instead of
+ * overwriting it.
+ *
+ * @param config - CourseKit configuration
+ * @param decisions - Chosen resolutions
+ * @param options - Dry-run flag
+ * @returns ResolutionResult listing keys per resolution
+ */
+export async function applyConflictResolutions(
+  config: CourseKitConfig,
+  decisions: ConflictDecision[],
+  options: { dryRun?: boolean } = {}
+): Promise<ResolutionResult> {
+  const platformRoot = config.platform.path;
+  const dryRun = options.dryRun ?? false;
+
+  const result: ResolutionResult = {
+    tookSource: [],
+    edited: [],
+    adopted: [],
+    kept: [],
+    errors: [],
+    dryRun,
+  };
+  const syncState = await loadSyncState(platformRoot);
+  let changed = false;
+
+  for (const { review, resolution, content } of decisions) {
+    const key = review.conflict.key;
+
+    if (!review.choices.includes(resolution)) {
+      result.errors.push(resolutionError(key, `"${resolution}" does not apply to this conflict`));
+      continue;
+    }
+    if (resolution === "keep-platform") {
+      result.kept.push(key);
+      continue;
+    }
+    if (resolution === "edit" && (content === undefined || hasConflictMarkers(content))) {
+      result.errors.push(resolutionError(key, "Edited file still has conflict markers"));
+      continue;
+    }
+
+    try {
+      const source = await Bun.file(review.sourcePath).text();
+      let platformContent: string;
+
+      if (resolution === "adopt-platform") {
+        platformContent = await Bun.file(review.targetPath).text();
+      } else {
+        platformContent = resolution === "edit" ? content! : source;
+        if (!dryRun) {
+          await fs.promises.mkdir(path.dirname(review.targetPath), { recursive: true });
+          await Bun.write(review.targetPath, platformContent);
+        }
+      }
+
+      if (!dryRun) {
+        await fs.promises.rm(buildConflictPath(review.targetPath), { force: true });
+        updateSyncRecord(syncState, key, {
+          filePath: path.relative(platformRoot, review.targetPath),
+          contentHash: hashLessonBody(platformContent),
+          syncedAt: new Date().toISOString(),
+          sourceRepo: review.courseId,
+          baseContent: source,
+        });
+        changed = true;
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      result.errors.push({ key, error: err, message: `Failed to resolve ${key}: ${err.message}` });
+      continue;
+    }
+
+    if (resolution === "take-source") result.tookSource.push(key);
+    else if (resolution === "edit") result.edited.push(key);
+    else result.adopted.push(key);
+  }
+
+  if (changed) {
+    await saveSyncState(platformRoot, syncState);
+  }
+
+  return result;
+}
+
+function resolutionError(key: string, message: string): SyncError {
+  return { key, error: new Error(message), message };
+}
@@ -0,0 +1,161 @@
+/**
+ * Course Bundle Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { gzipSync } from "zlib";
+import {
+  BundleError,
+  createBundle,
+  decodeBundle,
+  encodeBundle,
+  importBundle,
+  remapCourseId,
+} from "./course-bundle";
+import { runMigrations } from "./migrations";
+
+function seedCourse(database: Database, courseDir: string): void {
+  database.exec(`
+    INSERT INTO courses (id, name, context, phase, language, course_path)
+      VALUES ('C-001', 'Auth', 'online', 'design', 'de', '${courseDir}');
+    INSERT INTO modules (course_id, id, name, sort_order) VALUES ('C-001', 'M1', 'Basics', 1);
+    INSERT INTO lessons (course_id, module_id, id, title, status, sort_order)
+      VALUES ('C-001', 'M1', 'L1', 'Intro', 'drafted', 1);
+    INSERT INTO objectives (course_id, id, text, sort_order) VALUES ('C-001', 'O1', 'List things', 1);
+    INSERT INTO production (course_id, lesson_path, recorded) VALUES ('C-001', 'M1/L1', 1);
+  `);
+
+  mkdirSync(join(courseDir, "materials", "M1"), { recursive: true });
+  writeFileSync(join(courseDir, "design.md"), "# Course Design: Auth\n\nRun `coursekit design C-001`.\n");
+  writeFileSync(join(courseDir, "materials", "M1", "guide-c-001-m1-quiz.md"), 'courseId: "C-001"\n');
+  writeFileSync(join(courseDir, "materials", "M1", "diagram.png"), Buffer.from([0x89, 0x50, 0x00, 0xff]));
+}
+
+function migratedDatabase(): Database {
+  const database = new Database(":memory:");
+  runMigrations(database);
+  return database;
+}
+
+describe("course bundles", () => {
+  let tempDir: string;
+  let source: Database;
+  let sourceDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "coursekit-test-"));
+    sourceDir = join(tempDir, "source", "courses", "c-001-auth");
+    source = migratedDatabase();
+    seedCourse(source, sourceDir);
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("collects rows and files into a manifest-described bundle", () => {
+    const bundle = createBundle(source, "C-001", sourceDir);
+
+    expect(bundle.manifest.course).toEqual({ id: "C-001", name: "Auth", context: "online", language: "de" });
+    expect(bundle.manifest.rowCounts).toMatchObject({ modules: 1, lessons: 1, objectives: 1, production: 1, tasks: 0 });
+    expect(bundle.files.map((f) => f.path)).toEqual([
+      "design.md",
+      "materials/M1/diagram.png",
+      "materials/M1/guide-c-001-m1-quiz.md",
+    ]);
+  });
+
+  it("round-trips through encode and decode", () => {
+    const bundle = createBundle(source, "C-001", sourceDir);
+    expect(decodeBundle(encodeBundle(bundle))).toEqual(bundle);
+  });
+
+  it("imports under the same ID into an empty project", () => {
+    const target = migratedDatabase();
+    const targetDir = join(tempDir, "target", "courses", "c-001-auth");
+    const bundle = decodeBundle(encodeBundle(createBundle(source, "C-001", sourceDir)));
+
+    const result = importBundle(target, bundle, { courseId: "C-001", courseDir: targetDir });
+
+    expect(result.remapped).toBe(false);
+    expect(target.query(`SELECT phase, language, course_path FROM courses`).get()).toEqual({
+      phase: "design",
+      language: "de",
+      course_path: targetDir,
+    });
+    expect(target.query(`SELECT status FROM lessons`).get()).toEqual({ status: "drafted" });
+    expect(readFileSync(join(targetDir, "materials", "M1", "diagram.png"))).toEqual(
+      Buffer.from([0x89, 0x50, 0x00, 0xff])
+    );
+  });
+
+  it("remaps the course ID in rows, markdown and file names", () => {
+    const target = migratedDatabase();
+    target.exec(`INSERT INTO courses (id, name) VALUES ('C-001', 'Existing')`);
+    target.exec(`INSERT INTO production (course_id, lesson_path) VALUES ('C-001', 'M1/L1')`);
+    const targetDir = join(tempDir, "target", "courses", "c-002-auth");
+
+    const result = importBundle(target, createBundle(source, "C-001", sourceDir), {
+      courseId: "C-002",
+      courseDir: targetDir,
+    });
+
+    expect(result.remapped).toBe(true);
+    expect(target.query(`SELECT COUNT(*) AS n FROM modules WHERE course_id = 'C-002'`).get()).toEqual({ n: 1 });
+    expect(target.query(`SELECT COUNT(*) AS n FROM production`).get()).toEqual({ n: 2 });
+    expect(readFileSync(join(targetDir, "design.md"), "utf-8")).toContain("coursekit design C-002");
+    expect(readFileSync(join(targetDir, "materials", "M1", "guide-c-002-m1-quiz.md"), "utf-8")).toBe(
+      'courseId: "C-002"\n'
+    );
+  });
+
+  it("refuses an ID that is taken", () => {
+    expect(() =>
+      importBundle(source, createBundle(source, "C-001", sourceDir), {
+        courseId: "C-001",
+        courseDir: join(tempDir, "other"),
+      })
+    ).toThrow("Course C-001 already exists");
+  });
+
+  it("rejects unsafe file paths before writing anything", () => {
+    const target = migratedDatabase();
+    const bundle = createBundle(source, "C-001", sourceDir);
+    bundle.files.push({ path: "../../escape.md", data: "" });
+
+    expect(() =>
+      importBundle(target, bundle, { courseId: "C-001", courseDir: join(tempDir, "target") })
+    ).toThrow(BundleError);
+    expect(target.query(`SELECT COUNT(*) AS n FROM courses`).get()).toEqual({ n: 0 });
+    expect(existsSync(join(tempDir, "target"))).toBe(false);
+  });
+});
+
+describe("decodeBundle", () => {
+  it("rejects data that is not a bundle", () => {
+    expect(() => decodeBundle(Buffer.from("plain text"))).toThrow(BundleError);
+    expect(() => decodeBundle(gzipSync(JSON.stringify({ hello: "world" })))).toThrow(/Not a CourseKit bundle/);
+  });
+
+  it("rejects bundles from a newer format version", () => {
+    const data = gzipSync(
+      JSON.stringify({
+        manifest: { format: "coursekit-bundle", version: 99, course: { id: "C-001", name: "Auth" } },
+        course: {},
+        tables: {},
+        files: [],
+      })
+    );
+    expect(() => decodeBundle(data)).toThrow(/newer than this CourseKit supports/);
+  });
+});
+
+describe("remapCourseId", () => {
+  it("replaces whole IDs only", () => {
+    expect(remapCourseId("C-001 and C-0010", "C-001", "C-007")).toBe("C-007 and C-0010");
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Course Bundles
+ *
+ * Package one course - its database rows, phase documents and materials -
+ * into a single .ckpkg file, and unpack it into another project. A bundle
+ * is gzipped JSON: a manifest, the rows of every course table, and the
+ * files of the course directory (base64).
+ *
+ * On import the course can get a new ID; references to the old ID in
+ * markdown files and file names are rewritten to match.
+ */
+
+import type { Database } from "bun:sqlite";
+import { mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import { dirname, isAbsolute, join, normalize, relative, sep } from "path";
+import { gunzipSync, gzipSync } from "zlib";
+import { z } from "zod";
+import { getSchemaVersion } from "./migrations";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const BUNDLE_FORMAT = "coursekit-bundle";
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = ".ckpkg";
+
+/** Course tables exported with the course row, all keyed by course_id */
+export const BUNDLE_TABLES = [
+  "modules",
+  "lessons",
+  "objectives",
+  "quiz_questions",
+  "tasks",
+  "production",
+  "lesson_status_history",
+] as const;
+
+export type BundleTable = (typeof BUNDLE_TABLES)[number];
+
+type Row = Record<string, unknown>;
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  createdAt: string;
+  /** Schema version of the exporting database */
+  schemaVersion: number;
+  course: { id: string; name: string; context: string; language: string };
+  rowCounts: Record<BundleTable, number>;
+  fileCount: number;
+}
+
+/** A file of the course directory, path relative to it with "/" separators */
+export interface BundleFile {
+  path: string;
+  /** Base64-encoded content */
+  data: string;
+}
+
+export interface CourseBundle {
+  manifest: BundleManifest;
+  course: Row;
+  tables: Record<BundleTable, Row[]>;
+  files: BundleFile[];
+}
+
+export interface ImportBundleResult {
+  courseId: string;
+  /** True if the course got a different ID than in the bundle */
+  remapped: boolean;
+  rowCounts: Record<BundleTable, number>;
+  fileCount: number;
+}
+
+/**
+ * Thrown for files that are not valid bundles or cannot be imported.
+ */
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Collect a course's rows and files into a bundle.
+ *
+ * @param database - Open database
+ * @param courseId - Course to export
+ * @param courseDir - Course directory (null to export rows only)
+ * @returns Bundle
+ * @throws BundleError if the course does not exist
+ */
+export function createBundle(
+  database: Database,
+  courseId: string,
+  courseDir: string | null
+): CourseBundle {
+  const course = database.query(`SELECT * FROM courses WHERE id = ?`).get(courseId) as Row | null;
+  if (!course) {
+    throw new BundleError(`Course not found: ${courseId}`);
+  }
+
+  const tables = {} as Record<BundleTable, Row[]>;
+  for (const table of BUNDLE_TABLES) {
+    tables[table] = database
+      .query(`SELECT * FROM ${table} WHERE course_id = ? ORDER BY rowid`)
+      .all(courseId) as Row[];
+  }
+
+  const files = courseDir ? readCourseFiles(courseDir) : [];
+
+  return {
+    manifest: {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      createdAt: new Date().toISOString(),
+      schemaVersion: getSchemaVersion(database),
+      course: {
+        id: courseId,
+        name: String(course.name),
+        context: String(course.context),
+        language: String(course.language ?? "en"),
+      },
+      rowCounts: countRows(tables),
+      fileCount: files.length,
+    },
+    course,
+    tables,
+    files,
+  };
+}
+
+function readCourseFiles(courseDir: string): BundleFile[] {
+  const files: BundleFile[] = [];
+
+  const walk = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(path);
+      } else if (entry.isFile()) {
+        files.push({
+          path: relative(courseDir, path).split(sep).join("/"),
+          data: readFileSync(path).toString("base64"),
+        });
+      }
+    }
+  };
+
+  if (statSync(courseDir, { throwIfNoEntry: false })?.isDirectory()) {
+    walk(courseDir);
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+/**
+ * Serialize a bundle to .ckpkg bytes (gzipped JSON).
+ */
+export function encodeBundle(bundle: CourseBundle): Buffer {
+  return gzipSync(JSON.stringify(bundle));
+}
+
+const RowSchema = z.record(z.string(), z.unknown());
+
+const BundleSchema = z.object({
+  manifest: z
+    .object({
+      format: z.literal(BUNDLE_FORMAT),
+      version: z.number().int().positive(),
+      course: z.object({ id: z.string(), name: z.string() }).passthrough(),
+    })
+    .passthrough(),
+  course: RowSchema,
+  tables: z.record(z.string(), z.array(RowSchema)),
+  files: z.array(z.object({ path: z.string(), data: z.string() })),
+});
+
+/**
+ * Read .ckpkg bytes.
+ *
+ * @throws BundleError if the data is not a bundle or needs a newer CourseKit
+ */
+export function decodeBundle(data: Buffer): CourseBundle {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(gunzipSync(data).toString("utf-8"));
+  } catch {
+    throw new BundleError("Not a CourseKit bundle (expected gzipped JSON)");
+  }
+
+  const result = BundleSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new BundleError(`Not a CourseKit bundle: ${issue.path.join(".") || "bundle"}: ${issue.message}`);
+  }
+  if (result.data.manifest.version > BUNDLE_VERSION) {
+    throw new BundleError(
+      `Bundle format version ${result.data.manifest.version} is newer than this CourseKit supports (${BUNDLE_VERSION})`
+    );
+  }
+
+  const bundle = result.data as unknown as CourseBundle;
+  for (const table of BUNDLE_TABLES) {
+    bundle.tables[table] ??= [];
+  }
+  return bundle;
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Write a bundle's rows and files as a course with the given ID.
+ *
+ * Rows are inserted in one transaction; columns the database does not
+ * have (from a newer CourseKit) are dropped. Files are written to
+ * courseDir, which should not exist yet.
+ *
+ * @param database - Open, migrated database
+ * @param bundle - Decoded bundle
+ * @param target - ID and directory for the imported course
+ * @returns What was imported
+ * @throws BundleError if the ID is taken or a file path is unsafe
+ */
+export function importBundle(
+  database: Database,
+  bundle: CourseBundle,
+  target: { courseId: string; courseDir: string }
+): ImportBundleResult {
+  const sourceId = bundle.manifest.course.id;
+  const { courseId, courseDir } = target;
+  const remapped = sourceId !== courseId;
+
+  if (database.query(`SELECT id FROM courses WHERE id = ?`).get(courseId)) {
+    throw new BundleError(`Course ${courseId} already exists`);
+  }
+
+  const files = bundle.files.map((file) => ({
+    path: remapped ? remapCourseId(file.path, sourceId.toLowerCase(), courseId.toLowerCase()) : file.path,
+    content: decodeFile(file, remapped ? { from: sourceId, to: courseId } : null),
+  }));
+  for (const file of files) {
+    assertSafePath(file.path);
+  }
+
+  database.transaction(() => {
+    insertRow(database, "courses", { ...bundle.course, id: courseId, course_path: courseDir });
+    for (const table of BUNDLE_TABLES) {
+      for (const row of bundle.tables[table]) {
+        insertRow(database, table, { ...row, course_id: courseId });
+      }
+    }
+  })();
+
+  for (const file of files) {
+    const path = join(courseDir, ...file.path.split("/"));
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, file.content);
+  }
+  mkdirSync(join(courseDir, "materials"), { recursive: true });
+
+  return { courseId, remapped, rowCounts: countRows(bundle.tables), fileCount: files.length };
+}
+
+function insertRow(database: Database, table: string, row: Row): void {
+  const existing = new Set(
+    (database.query(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name)
+  );
+  const columns = Object.keys(row).filter((column) => existing.has(column));
+
+  database
+    .query(
+      `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`
+    )
+    .run(...columns.map((column) => row[column] as string | number | null));
+}
+
+function decodeFile(file: BundleFile, rename: { from: string; to: string } | null): Buffer {
+  const data = Buffer.from(file.data, "base64");
+  if (!rename || !file.path.endsWith(".md")) {
+    return data;
+  }
+  return Buffer.from(remapCourseId(data.toString("utf-8"), rename.from, rename.to));
+}
+
+/**
+ * Replace whole-word occurrences of a course ID ("C-001" but not "C-0012").
+ */
+export function remapCourseId(text: string, from: string, to: string): string {
+  const pattern = new RegExp(`\\b${from.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "g");
+  return text.replace(pattern, to);
+}
+
+function assertSafePath(path: string): void {
+  const normalized = normalize(path);
+  if (!path || isAbsolute(path) || normalized.startsWith("..") || normalized.split(sep).includes("..")) {
+    throw new BundleError(`Unsafe file path in bundle: ${path}`);
+  }
+}
+
+function countRows(tables: Record<BundleTable, Row[]>): Record<BundleTable, number> {
+  return Object.fromEntries(
+    BUNDLE_TABLES.map((table) => [table, tables[table]?.length ?? 0])
+  ) as Record<BundleTable, number>;
+}
@@ -0,0 +1,90 @@
+/**
+ * Course Scaffold Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  courseDirectory,
+  retargetContent,
+  scaffoldCourse,
+  scaffoldCourseFrom,
+} from "./course-scaffold";
+
+const SOURCE = { id: "C-001", name: "Auth Fundamentals", context: "online" as const };
+const TARGET = { id: "C-002", name: "Auth for Teams", context: "online" as const };
+
+describe("courseDirectory", () => {
+  it("combines the lowercased ID and a slug of the name", () => {
+    expect(courseDirectory("/work", "C-002", "Auth & OAuth 2.0!")).toBe(
+      join("/work", "courses", "c-002-auth-oauth-2-0")
+    );
+  });
+});
+
+describe("retargetContent", () => {
+  it("renames the heading and rewrites course ID references", () => {
+    const content = [
+      "# Course Design: Auth Fundamentals",
+      "",
+      "> Run `coursekit design C-001` to complete it.",
+      "See C-0012 for the old version.",
+    ].join("\n");
+
+    const result = retargetContent(content, SOURCE, TARGET);
+
+    expect(result).toContain("# Course Design: Auth for Teams");
+    expect(result).toContain("`coursekit design C-002`");
+    expect(result).toContain("C-0012");
+  });
+});
+
+describe("scaffolding", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "coursekit-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("writes the define.md and design.md templates", () => {
+    const courseDir = join(tempDir, "c-001-auth");
+    scaffoldCourse(courseDir, SOURCE);
+
+    expect(existsSync(join(courseDir, "materials"))).toBe(true);
+    const define = readFileSync(join(courseDir, "define.md"), "utf-8");
+    expect(define).toStartWith("# Course Definition: Auth Fundamentals");
+    expect(define).toContain("coursekit define C-001");
+    expect(readFileSync(join(courseDir, "design.md"), "utf-8")).toContain("coursekit design C-001");
+  });
+
+  it("adds week ranges to the design template for university courses", () => {
+    const courseDir = join(tempDir, "c-001-auth");
+    scaffoldCourse(courseDir, { ...SOURCE, context: "university" });
+
+    expect(readFileSync(join(courseDir, "design.md"), "utf-8")).toContain("(Week 1-2)");
+  });
+
+  it("copies files from another course without its materials", () => {
+    const sourceDir = join(tempDir, "c-001-auth-fundamentals");
+    mkdirSync(join(sourceDir, "materials", "M1"), { recursive: true });
+    writeFileSync(join(sourceDir, "materials", "M1", "script.md"), "script");
+    writeFileSync(join(sourceDir, "define.md"), "# Course Definition: Auth Fundamentals\n\nReal content\n");
+    writeFileSync(join(sourceDir, "bloom-verbs.json"), `{"apply":["wire up"]}`);
+    const courseDir = join(tempDir, "c-002-auth-for-teams");
+
+    const copied = scaffoldCourseFrom(sourceDir, courseDir, SOURCE, TARGET);
+
+    expect(copied).toEqual(["define.md", "bloom-verbs.json"]);
+    expect(readFileSync(join(courseDir, "define.md"), "utf-8")).toBe(
+      "# Course Definition: Auth for Teams\n\nReal content\n"
+    );
+    expect(readFileSync(join(courseDir, "design.md"), "utf-8")).toContain("coursekit design C-002");
+    expect(existsSync(join(courseDir, "materials", "M1"))).toBe(false);
+  });
+});
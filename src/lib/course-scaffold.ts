@@ -0,0 +1,235 @@
+/**
+ * Course Scaffold
+ *
+ * Directory layout and starting files for a course: the courses/<id>-<slug>
+ * directory with materials/, and the define.md and design.md templates.
+ * Used by `init` and `new-course`, including copying the files of an
+ * existing course with `new-course --from`.
+ */
+
+import { copyFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { CourseContext } from "../types";
+import { COURSE_VERBS_FILENAME } from "./bloom-vocabularies";
+
+/** Opening of the note in untouched define.md and design.md templates */
+export const TEMPLATE_MARKER = "> This file is created during the";
+
+/**
+ * Identity of a course for scaffolding purposes.
+ */
+export interface ScaffoldCourse {
+  id: string;
+  name: string;
+  context: CourseContext;
+}
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)/g, "");
+}
+
+/**
+ * Directory for a course, e.g. courses/c-002-auth-fundamentals
+ *
+ * @param root - Project root
+ * @param courseId - Course ID
+ * @param name - Course name
+ */
+export function courseDirectory(root: string, courseId: string, name: string): string {
+  return join(root, "courses", `${courseId.toLowerCase()}-${slugify(name)}`);
+}
+
+// =============================================================================
+// Scaffolding
+// =============================================================================
+
+/**
+ * Create the course directory with materials/, define.md and design.md.
+ *
+ * @param courseDir - Course directory (created if missing)
+ * @param course - Course to scaffold
+ * @param files - Pre-filled define.md / design.md content (defaults to the templates)
+ */
+export function scaffoldCourse(
+  courseDir: string,
+  course: ScaffoldCourse,
+  files: { define?: string; design?: string } = {}
+): void {
+  mkdirSync(join(courseDir, "materials"), { recursive: true });
+  writeFileSync(join(courseDir, "define.md"), files.define ?? defineTemplate(course));
+  writeFileSync(join(courseDir, "design.md"), files.design ?? designTemplate(course));
+}
+
+/**
+ * Create the course directory from an existing course: define.md and
+ * design.md are copied with the title and course ID references rewritten,
+ * along with the course's bloom-verbs.json. Materials are not copied.
+ * Files missing from the source fall back to the templates.
+ *
+ * @param sourceDir - Directory of the course to copy from
+ * @param courseDir - Directory of the new course
+ * @param source - Course being copied
+ * @param target - New course
+ * @returns Names of the files copied from the source
+ */
+export function scaffoldCourseFrom(
+  sourceDir: string,
+  courseDir: string,
+  source: ScaffoldCourse,
+  target: ScaffoldCourse
+): string[] {
+  scaffoldCourse(courseDir, target);
+  const copied: string[] = [];
+
+  for (const file of ["define.md", "design.md"]) {
+    const sourcePath = join(sourceDir, file);
+    if (existsSync(sourcePath)) {
+      const content = readFileSync(sourcePath, "utf-8");
+      writeFileSync(join(courseDir, file), retargetContent(content, source, target));
+      copied.push(file);
+    }
+  }
+
+  const verbsPath = join(sourceDir, COURSE_VERBS_FILENAME);
+  if (existsSync(verbsPath)) {
+    copyFileSync(verbsPath, join(courseDir, COURSE_VERBS_FILENAME));
+    copied.push(COURSE_VERBS_FILENAME);
+  }
+
+  return copied;
+}
+
+/**
+ * Rewrite a copied define.md or design.md for the new course: the name in
+ * the top-level heading and every reference to the source course ID.
+ */
+export function retargetContent(
+  content: string,
+  source: Pick<ScaffoldCourse, "id" | "name">,
+  target: Pick<ScaffoldCourse, "id" | "name">
+): string {
+  const idPattern = new RegExp(`\\b${escapeRegExp(source.id)}\\b`, "g");
+
+  return content
+    .replace(/^(# Course (?:Definition|Design):\s*).*$/m, `$1${target.name}`)
+    .replace(idPattern, target.id);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// =============================================================================
+// Templates
+// =============================================================================
+
+/**
+ * define.md template for a new course
+ */
+export function defineTemplate({ id, name, context }: ScaffoldCourse): string {
+  return `# Course Definition: ${name}
+
+${TEMPLATE_MARKER} DEFINE phase.
+> Run \`coursekit define ${id}\` to complete it through an interview.
+
+## Audience
+
+### Who are they?
+[To be defined]
+
+### Prior knowledge required
+- [Prerequisite 1]
+- [Prerequisite 2]
+
+### Constraints
+- Time available: [X hours/week]
+- Technical level: [Beginner/Intermediate/Advanced]
+
+## Learning Objectives
+
+By the end of this course, learners will be able to:
+
+1. **[Bloom Verb]** [specific, measurable outcome]
+2. **[Bloom Verb]** [specific, measurable outcome]
+3. **[Bloom Verb]** [specific, measurable outcome]
+
+## Assessment Strategy
+
+| Objective | Assessment Method | When |
+|-----------|-------------------|------|
+| 1 | [Quiz/Project/Demo] | [Module X] |
+| 2 | [Quiz/Project/Demo] | [Module Y] |
+
+## Context
+
+- **Format**: ${context === "online" ? "Online (self-paced)" : "University (semester)"}
+- **Duration**: [X weeks / Self-paced]
+- **Session length**: ${context === "online" ? "[5-15 minutes per video]" : "[90 minutes per lecture]"}
+
+## Scope
+
+### In Scope
+- [Topic 1]
+- [Topic 2]
+
+### Out of Scope
+- [Explicitly excluded topic]
+`;
+}
+
+/**
+ * design.md template for a new course
+ */
+export function designTemplate({ id, name, context }: ScaffoldCourse): string {
+  return `# Course Design: ${name}
+
+${TEMPLATE_MARKER} DESIGN phase.
+> Run \`coursekit design ${id}\` to complete it.
+
+## Module Structure
+
+### M1: [Module Name]${context === "university" ? " (Week 1-2)" : ""}
+**Objective**: [What learners achieve]
+
+| Lesson | Title | Duration | Objective |
+|--------|-------|----------|-----------|
+| L1 | [Title] | 10 min | [Bloom verb + outcome] |
+| L2 | [Title] | 8 min | [Bloom verb + outcome] |
+
+**Assessment**: [Quiz/Project for this module]
+
+### M2: [Module Name]${context === "university" ? " (Week 3-4)" : ""}
+...
+
+## Learning Path
+
+\`\`\`
+M1 (Foundation)
+  └─→ M2 (Core Skills)
+        └─→ M3 (Application)
+              └─→ M4 (Advanced) [Optional]
+\`\`\`
+
+## Engagement Strategy
+
+- **Practice**: [Exercises per module]
+- **Community**: [Discord/Forum activities]
+- **Projects**: [Hands-on projects]
+
+## Time Budget
+
+| Component | Hours |
+|-----------|-------|
+| Videos/Lectures | X |
+| Exercises | X |
+| Projects | X |
+| **Total** | X |
+`;
+}
@@ -0,0 +1,191 @@
+/**
+ * Database Tests
+ * Module and lesson IDs, removal cascades and ordering.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  addLesson,
+  addModule,
+  addTasks,
+  closeDatabase,
+  createCourse,
+  deleteLesson,
+  deleteModule,
+  getLessonStatusHistory,
+  getLessons,
+  getModules,
+  getProduction,
+  getQuizQuestions,
+  getTasks,
+  initDatabase,
+  moveLesson,
+  moveModule,
+  nextLessonId,
+  nextModuleId,
+  replaceQuizQuestions,
+  saveProduction,
+  updateLessonStatus,
+} from "./database";
+import type { QuizQuestion } from "../types";
+
+const originalCwd = process.cwd();
+let dir: string;
+let courseId: string;
+
+function question(id: string, moduleId: string, objectiveId: string): QuizQuestion {
+  return {
+    id,
+    moduleId,
+    objectiveId,
+    bloomLevel: "remember",
+    stem: "Which one?",
+    choices: [],
+    answer: "This one",
+    rationale: "",
+  };
+}
+
+/** Attach a task, production record, status change and quiz question */
+function addWork(moduleId: string, lessonId: string): void {
+  const path = `${moduleId}/${lessonId}`;
+  addTasks(courseId, [
+    { id: `T-${path}`, lessonPath: path, type: "script", description: "", status: "pending", blockedReason: null },
+  ]);
+  saveProduction(courseId, {
+    lessonPath: path,
+    recorded: true,
+    edited: false,
+    uploaded: false,
+    accessTested: false,
+    notes: null,
+  });
+  updateLessonStatus(courseId, moduleId, lessonId, "drafted");
+  replaceQuizQuestions(courseId, moduleId, [question("Q1", moduleId, path)]);
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "coursekit-db-"));
+  process.chdir(dir);
+  initDatabase();
+  courseId = createCourse("Auth", "", "online").id;
+  addModule(courseId, "M1", "Foundations");
+  addModule(courseId, "M2", "Tokens");
+  for (const id of ["L1", "L2", "L3"]) {
+    addLesson(courseId, "M1", id, `Lesson ${id}`);
+  }
+  addLesson(courseId, "M2", "L1", "Sessions");
+});
+
+afterEach(() => {
+  closeDatabase();
+  process.chdir(originalCwd);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("ID allocation", () => {
+  it("hands out the number after the highest in use", () => {
+    expect(nextModuleId(courseId)).toBe("M3");
+    expect(nextLessonId(courseId, "M1")).toBe("L4");
+    expect(nextLessonId(courseId, "M2")).toBe("L2");
+  });
+
+  it("never reuses the ID of a removed module", () => {
+    deleteModule(courseId, "M2");
+    expect(nextModuleId(courseId)).toBe("M3");
+
+    addModule(courseId, "M3", "Advanced");
+    deleteModule(courseId, "M3");
+    expect(nextModuleId(courseId)).toBe("M4");
+  });
+
+  it("never reuses the ID of a removed lesson", () => {
+    deleteLesson(courseId, "M1", "L3");
+    expect(nextLessonId(courseId, "M1")).toBe("L4");
+
+    deleteLesson(courseId, "M1", "L2");
+    expect(nextLessonId(courseId, "M1")).toBe("L4");
+  });
+
+  it("retires the ID of a lesson moved out of its module", () => {
+    expect(moveLesson(courseId, "M1", "L3", { moduleId: "M2" })).toBe("L3");
+    expect(nextLessonId(courseId, "M1")).toBe("L4");
+  });
+
+  it("does not bring back a retired ID when moving a lesson in", () => {
+    addLesson(courseId, "M2", "L2", "Tokens");
+    addLesson(courseId, "M2", "L3", "Refresh");
+    deleteLesson(courseId, "M2", "L3");
+
+    // M2 used L3 before, so M1/L3 gets a fresh ID
+    expect(moveLesson(courseId, "M1", "L3", { moduleId: "M2" })).toBe("L4");
+    // L2 is in use in M2
+    expect(moveLesson(courseId, "M1", "L2", { moduleId: "M2" })).toBe("L5");
+    expect(getLessons(courseId, "M2").map((l) => l.id)).toEqual(["L1", "L2", "L4", "L5"]);
+  });
+});
+
+describe("removal", () => {
+  it("deletes a lesson's tasks, production record, history and quiz questions", () => {
+    addWork("M1", "L2");
+    addWork("M2", "L1");
+
+    deleteLesson(courseId, "M1", "L2");
+
+    expect(getTasks(courseId).map((t) => t.lessonPath)).toEqual(["M2/L1"]);
+    expect(getProduction(courseId).map((p) => p.lessonPath)).toEqual(["M2/L1"]);
+    expect(getLessonStatusHistory(courseId, "M1/L2")).toEqual([]);
+    expect(getQuizQuestions(courseId, "M1")).toEqual([]);
+    expect(getQuizQuestions(courseId, "M2")).toHaveLength(1);
+  });
+
+  it("deletes a module with its lessons and their records", () => {
+    addWork("M1", "L1");
+    addWork("M2", "L1");
+
+    deleteModule(courseId, "M1");
+
+    expect(getModules(courseId).map((m) => m.id)).toEqual(["M2"]);
+    expect(getLessons(courseId, "M1")).toEqual([]);
+    expect(getTasks(courseId).map((t) => t.lessonPath)).toEqual(["M2/L1"]);
+    expect(getProduction(courseId).map((p) => p.lessonPath)).toEqual(["M2/L1"]);
+    expect(getQuizQuestions(courseId, "M1")).toEqual([]);
+  });
+});
+
+describe("ordering", () => {
+  it("moves a module to a position and renumbers the rest", () => {
+    addModule(courseId, "M3", "Advanced");
+
+    moveModule(courseId, "M3", 1);
+    expect(getModules(courseId).map((m) => m.id)).toEqual(["M3", "M1", "M2"]);
+
+    moveModule(courseId, "M3", 99);
+    expect(getModules(courseId).map((m) => m.id)).toEqual(["M1", "M2", "M3"]);
+  });
+
+  it("reorders lessons within a module", () => {
+    moveLesson(courseId, "M1", "L3", { moduleId: "M1", position: 1 });
+    expect(getLessons(courseId, "M1").map((l) => l.id)).toEqual(["L3", "L1", "L2"]);
+  });
+
+  it("moves a lesson with its records and closes the gap it leaves", () => {
+    addWork("M1", "L2");
+
+    expect(moveLesson(courseId, "M1", "L2", { moduleId: "M2", position: 1 })).toBe("L2");
+
+    expect(getLessons(courseId, "M1").map((l) => l.id)).toEqual(["L1", "L3"]);
+    expect(getLessons(courseId, "M2").map((l) => l.id)).toEqual(["L2", "L1"]);
+    expect(getTasks(courseId).map((t) => t.lessonPath)).toEqual(["M2/L2"]);
+    expect(getProduction(courseId).map((p) => p.lessonPath)).toEqual(["M2/L2"]);
+    expect(getLessonStatusHistory(courseId, "M2/L2")).toHaveLength(1);
+    expect(getQuizQuestions(courseId, "M1")).toEqual([]);
+
+    // A later lesson in M1 lands after the remaining ones
+    addLesson(courseId, "M1", nextLessonId(courseId, "M1"), "Wrap-up");
+    expect(getLessons(courseId, "M1").map((l) => l.id)).toEqual(["L1", "L3", "L4"]);
+  });
+});
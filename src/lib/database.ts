@@ -6,12 +6,23 @@
 import { Database } from "bun:sqlite";
 import { existsSync, mkdirSync } from "fs";
 import { dirname, join } from "path";
+import { runMigrations } from "./migrations";
 import type {
   Course,
   CourseStatus,
   CoursePhase,
   CourseContext,
   CourseStats,
+  SingleCourseStats,
+  BloomLevel,
+  DevelopmentTask,
+  LearningObjective,
+  LessonStatus,
+  LessonStatusChange,
+  ProductionStatus,
+  QuizQuestion,
+  TaskStatus,
+  TaskType,
 } from "../types";
 
 // =============================================================================
@@ -57,9 +68,10 @@ export function getDatabasePath(): string {
 let db: Database | null = null;
 
 /**
- * Get database connection (creates if needed)
+ * Get database connection (creates if needed).
+ * Pending schema migrations are applied on open unless migrate is false.
  */
-export function getDatabase(create = false): Database {
+export function getDatabase(create = false, migrate = true): Database {
   if (db) return db;
 
   const dbPath = create ? getDatabasePath() : findDatabase();
@@ -71,6 +83,9 @@ export function getDatabase(create = false): Database {
 
   db = new Database(dbPath);
   db.exec("PRAGMA journal_mode = WAL");
+  if (migrate) {
+    runMigrations(db, { dbPath });
+  }
 
   return db;
 }
@@ -79,78 +94,8 @@ export function getDatabase(create = false): Database {
  * Initialize database schema
  */
 export function initDatabase(): void {
-  const database = getDatabase(true);
-
-  database.exec(`
-    CREATE TABLE IF NOT EXISTS courses (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      description TEXT,
-      context TEXT NOT NULL DEFAULT 'online',
-      status TEXT NOT NULL DEFAULT 'draft',
-      phase TEXT NOT NULL DEFAULT 'none',
-      course_path TEXT,
-      created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      started_at TEXT,
-      launched_at TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS modules (
-      id TEXT NOT NULL,
-      course_id TEXT NOT NULL,
-      name TEXT NOT NULL,
-      objective TEXT,
-      assessment_type TEXT,
-      week_range TEXT,
-      sort_order INTEGER NOT NULL DEFAULT 0,
-      PRIMARY KEY (course_id, id),
-      FOREIGN KEY (course_id) REFERENCES courses(id)
-    );
-
-    CREATE TABLE IF NOT EXISTS lessons (
-      id TEXT NOT NULL,
-      module_id TEXT NOT NULL,
-      course_id TEXT NOT NULL,
-      title TEXT NOT NULL,
-      objective TEXT,
-      bloom_level TEXT,
-      duration INTEGER DEFAULT 10,
-      status TEXT NOT NULL DEFAULT 'planned',
-      materials_path TEXT,
-      has_practice INTEGER DEFAULT 0,
-      has_assessment INTEGER DEFAULT 0,
-      sort_order INTEGER NOT NULL DEFAULT 0,
-      PRIMARY KEY (course_id, module_id, id),
-      FOREIGN KEY (course_id, module_id) REFERENCES modules(course_id, id)
-    );
-
-    CREATE TABLE IF NOT EXISTS tasks (
-      id TEXT PRIMARY KEY,
-      course_id TEXT NOT NULL,
-      lesson_path TEXT NOT NULL,
-      type TEXT NOT NULL,
-      description TEXT,
-      status TEXT NOT NULL DEFAULT 'pending',
-      blocked_reason TEXT,
-      FOREIGN KEY (course_id) REFERENCES courses(id)
-    );
-
-    CREATE TABLE IF NOT EXISTS production (
-      lesson_path TEXT PRIMARY KEY,
-      course_id TEXT NOT NULL,
-      recorded INTEGER DEFAULT 0,
-      edited INTEGER DEFAULT 0,
-      uploaded INTEGER DEFAULT 0,
-      access_tested INTEGER DEFAULT 0,
-      notes TEXT,
-      FOREIGN KEY (course_id) REFERENCES courses(id)
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_courses_status ON courses(status);
-    CREATE INDEX IF NOT EXISTS idx_courses_phase ON courses(phase);
-    CREATE INDEX IF NOT EXISTS idx_lessons_status ON lessons(status);
-    CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
-  `);
+  // getDatabase applies every migration to a new database
+  getDatabase(true);
 }
 
 // =============================================================================
@@ -178,17 +123,18 @@ export function generateCourseId(): string {
 export function createCourse(
   name: string,
   description: string,
-  context: CourseContext
+  context: CourseContext,
+  language = "en"
 ): Course {
   const database = getDatabase();
   const id = generateCourseId();
 
   database
     .query(
-      `INSERT INTO courses (id, name, description, context)
-       VALUES (?, ?, ?, ?)`
+      `INSERT INTO courses (id, name, description, context, language)
+       VALUES (?, ?, ?, ?, ?)`
     )
-    .run(id, name, description, context);
+    .run(id, name, description, context, language);
 
   return getCourse(id)!;
 }
@@ -207,13 +153,17 @@ export function getCourse(id: string): Course | null {
 }
 
 /**
- * Get all courses
+ * Get all courses, optionally only those with a given status
  */
-export function getAllCourses(): Course[] {
+export function getAllCourses(status?: CourseStatus): Course[] {
   const database = getDatabase();
-  const rows = database
-    .query(`SELECT * FROM courses ORDER BY created_at DESC`)
-    .all() as CourseRow[];
+  const rows = (
+    status
+      ? database
+          .query(`SELECT * FROM courses WHERE status = ? ORDER BY created_at DESC`)
+          .all(status)
+      : database.query(`SELECT * FROM courses ORDER BY created_at DESC`).all()
+  ) as CourseRow[];
 
   return rows.map(rowToCourse);
 }
@@ -229,21 +179,25 @@ export function updateCourseStatus(id: string, status: CourseStatus): void {
 }
 
 /**
- * Update course phase
+ * Update course phase. Leaving DEFINE records when development started;
+ * reaching LAUNCH records when the course first shipped.
  */
 export function updateCoursePhase(id: string, phase: CoursePhase): void {
   const database = getDatabase();
 
-  if (phase !== "none" && phase !== "define") {
+  if (phase === "launch") {
     database
       .query(
-        `UPDATE courses SET phase = ?, started_at = COALESCE(started_at, datetime('now')) WHERE id = ?`
+        `UPDATE courses SET phase = ?,
+           started_at = COALESCE(started_at, datetime('now')),
+           launched_at = COALESCE(launched_at, datetime('now'))
+         WHERE id = ?`
       )
       .run(phase, id);
-  } else if (phase === "launch") {
+  } else if (phase !== "none" && phase !== "define") {
     database
       .query(
-        `UPDATE courses SET phase = ?, launched_at = datetime('now') WHERE id = ?`
+        `UPDATE courses SET phase = ?, started_at = COALESCE(started_at, datetime('now')) WHERE id = ?`
       )
       .run(phase, id);
   } else {
@@ -253,6 +207,42 @@ export function updateCoursePhase(id: string, phase: CoursePhase): void {
   }
 }
 
+/**
+ * Archive a course, remembering its status for unarchiveCourse
+ */
+export function archiveCourse(id: string): void {
+  const database = getDatabase();
+  database
+    .query(
+      `UPDATE courses SET archived_from = status, status = 'archived', archived_at = datetime('now')
+       WHERE id = ? AND status != 'archived'`
+    )
+    .run(id);
+}
+
+/**
+ * Restore an archived course to the status it had before archiving
+ *
+ * @returns The restored status
+ */
+export function unarchiveCourse(id: string): CourseStatus {
+  const database = getDatabase();
+  const row = database
+    .query(`SELECT phase, archived_from FROM courses WHERE id = ?`)
+    .get(id) as { phase: CoursePhase; archived_from: CourseStatus | null } | null;
+
+  // Courses archived before the previous status was kept fall back to the phase
+  let status: CourseStatus = row?.archived_from ?? "in_progress";
+  if (!row?.archived_from && row?.phase === "launch") status = "launched";
+  if (!row?.archived_from && row?.phase === "none") status = "draft";
+
+  database
+    .query(`UPDATE courses SET status = ?, archived_at = NULL, archived_from = NULL WHERE id = ?`)
+    .run(status, id);
+
+  return status;
+}
+
 /**
  * Update course path
  */
@@ -263,6 +253,60 @@ export function updateCoursePath(id: string, path: string): void {
     .run(path, id);
 }
 
+/**
+ * Update course language
+ */
+export function updateCourseLanguage(id: string, language: string): void {
+  const database = getDatabase();
+  database
+    .query(`UPDATE courses SET language = ? WHERE id = ?`)
+    .run(language, id);
+}
+
+/**
+ * Copy a course's modules, lessons and objectives to another course.
+ * Lessons start over as planned with no materials; tasks, production
+ * records and quiz questions are not copied.
+ */
+export function cloneCourseStructure(
+  sourceId: string,
+  targetId: string
+): { modules: number; lessons: number; objectives: number } {
+  const database = getDatabase();
+
+  return database.transaction(() => {
+    const modules = database
+      .query(
+        `INSERT INTO modules (course_id, id, name, objective, assessment_type, week_range, sort_order)
+         SELECT ?, id, name, objective, assessment_type, week_range, sort_order
+         FROM modules WHERE course_id = ?`
+      )
+      .run(targetId, sourceId).changes;
+
+    const lessons = database
+      .query(
+        `INSERT INTO lessons
+           (course_id, module_id, id, title, objective, bloom_level, duration,
+            has_practice, has_assessment, sort_order)
+         SELECT ?, module_id, id, title, objective, bloom_level, duration,
+            has_practice, has_assessment, sort_order
+         FROM lessons WHERE course_id = ?`
+      )
+      .run(targetId, sourceId).changes;
+
+    const objectives = database
+      .query(
+        `INSERT INTO objectives
+           (course_id, id, text, bloom_level, verb, assessment_method, covered_by, sort_order)
+         SELECT ?, id, text, bloom_level, verb, assessment_method, covered_by, sort_order
+         FROM objectives WHERE course_id = ?`
+      )
+      .run(targetId, sourceId).changes;
+
+    return { modules, lessons, objectives };
+  })();
+}
+
 /**
  * Get course statistics
  */
@@ -340,19 +384,177 @@ export function addModule(
     .run(courseId, id, name, objective || null, (maxOrder?.max_order || 0) + 1);
 }
 
+/**
+ * Insert or update a module from design.md, keeping its ID.
+ * Returns true if the module was created.
+ */
+export function upsertModule(
+  courseId: string,
+  module: {
+    id: string;
+    name: string;
+    objective: string | null;
+    assessmentType: string | null;
+    weekRange: string | null;
+  },
+  sortOrder: number
+): boolean {
+  const database = getDatabase();
+
+  const existing = database
+    .query(`SELECT id FROM modules WHERE course_id = ? AND id = ?`)
+    .get(courseId, module.id);
+
+  if (existing) {
+    database
+      .query(
+        `UPDATE modules SET name = ?, objective = ?, assessment_type = ?, week_range = ?, sort_order = ?
+         WHERE course_id = ? AND id = ?`
+      )
+      .run(
+        module.name,
+        module.objective || null,
+        module.assessmentType,
+        module.weekRange,
+        sortOrder,
+        courseId,
+        module.id
+      );
+    return false;
+  }
+
+  database
+    .query(
+      `INSERT INTO modules (course_id, id, name, objective, assessment_type, week_range, sort_order)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      courseId,
+      module.id,
+      module.name,
+      module.objective || null,
+      module.assessmentType,
+      module.weekRange,
+      sortOrder
+    );
+  return true;
+}
+
 /**
  * Get modules for a course
  */
 export function getModules(
   courseId: string
-): { id: string; name: string; objective: string | null }[] {
+): {
+  id: string;
+  name: string;
+  objective: string | null;
+  assessmentType: string | null;
+  weekRange: string | null;
+}[] {
   const database = getDatabase();
   return database
     .query(
-      `SELECT id, name, objective FROM modules
-       WHERE course_id = ? ORDER BY sort_order`
+      `SELECT id, name, objective, assessment_type AS assessmentType, week_range AS weekRange
+       FROM modules WHERE course_id = ? ORDER BY sort_order`
     )
-    .all(courseId) as { id: string; name: string; objective: string | null }[];
+    .all(courseId) as {
+    id: string;
+    name: string;
+    objective: string | null;
+    assessmentType: string | null;
+    weekRange: string | null;
+  }[];
+}
+
+/**
+ * Delete a module with its lessons and everything attached to them
+ */
+export function deleteModule(courseId: string, moduleId: string): void {
+  const database = getDatabase();
+
+  database.transaction(() => {
+    const lessons = database
+      .query(`SELECT id FROM lessons WHERE course_id = ? AND module_id = ?`)
+      .all(courseId, moduleId) as { id: string }[];
+    for (const lesson of lessons) {
+      deleteLesson(courseId, moduleId, lesson.id);
+    }
+
+    database
+      .query(`DELETE FROM quiz_questions WHERE course_id = ? AND module_id = ?`)
+      .run(courseId, moduleId);
+    database
+      .query(`DELETE FROM modules WHERE course_id = ? AND id = ?`)
+      .run(courseId, moduleId);
+    database
+      .query(`UPDATE courses SET last_module_number = MAX(last_module_number, ?) WHERE id = ?`)
+      .run(idNumber(moduleId), courseId);
+  })();
+}
+
+/**
+ * Next free module ID: one past the highest number in use or ever
+ * removed, so a deleted module's ID is never handed out again
+ */
+export function nextModuleId(courseId: string): string {
+  const database = getDatabase();
+  const result = database
+    .query(
+      `SELECT MAX(
+         COALESCE((SELECT MAX(CAST(SUBSTR(id, 2) AS INTEGER)) FROM modules WHERE course_id = ?), 0),
+         COALESCE((SELECT last_module_number FROM courses WHERE id = ?), 0)
+       ) as max_id`
+    )
+    .get(courseId, courseId) as { max_id: number } | null;
+
+  return `M${(result?.max_id || 0) + 1}`;
+}
+
+/**
+ * Update a module's name, objective, assessment or week range.
+ * Fields left undefined are unchanged.
+ */
+export function updateModule(
+  courseId: string,
+  moduleId: string,
+  fields: {
+    name?: string;
+    objective?: string | null;
+    assessmentType?: string | null;
+    weekRange?: string | null;
+  }
+): void {
+  const database = getDatabase();
+  const columns: Record<string, string | null | undefined> = {
+    name: fields.name,
+    objective: fields.objective,
+    assessment_type: fields.assessmentType,
+    week_range: fields.weekRange,
+  };
+  const updates = Object.entries(columns).filter(([, value]) => value !== undefined);
+  if (updates.length === 0) return;
+
+  database
+    .query(
+      `UPDATE modules SET ${updates.map(([column]) => `${column} = ?`).join(", ")}
+       WHERE course_id = ? AND id = ?`
+    )
+    .run(...updates.map(([, value]) => value ?? null), courseId, moduleId);
+}
+
+/**
+ * Move a module to a 1-based position and renumber the course's modules
+ */
+export function moveModule(courseId: string, moduleId: string, position: number): void {
+  const database = getDatabase();
+  const ids = getModules(courseId).map((m) => m.id).filter((id) => id !== moduleId);
+  ids.splice(Math.max(0, Math.min(position - 1, ids.length)), 0, moduleId);
+
+  const update = database.query(`UPDATE modules SET sort_order = ? WHERE course_id = ? AND id = ?`);
+  database.transaction(() => {
+    ids.forEach((id, index) => update.run(index + 1, courseId, id));
+  })();
 }
 
 // =============================================================================
@@ -395,6 +597,65 @@ export function addLesson(
     );
 }
 
+/**
+ * Insert or update a lesson from design.md. Status and materials are
+ * left untouched on update. Returns true if the lesson was created.
+ */
+export function upsertLesson(
+  courseId: string,
+  moduleId: string,
+  lesson: {
+    id: string;
+    title: string;
+    objective: string | null;
+    bloomLevel: BloomLevel | null;
+    duration: number;
+  },
+  sortOrder: number
+): boolean {
+  const database = getDatabase();
+
+  const existing = database
+    .query(`SELECT id FROM lessons WHERE course_id = ? AND module_id = ? AND id = ?`)
+    .get(courseId, moduleId, lesson.id);
+
+  if (existing) {
+    database
+      .query(
+        `UPDATE lessons SET title = ?, objective = ?, bloom_level = ?, duration = ?, sort_order = ?
+         WHERE course_id = ? AND module_id = ? AND id = ?`
+      )
+      .run(
+        lesson.title,
+        lesson.objective || null,
+        lesson.bloomLevel,
+        lesson.duration,
+        sortOrder,
+        courseId,
+        moduleId,
+        lesson.id
+      );
+    return false;
+  }
+
+  database
+    .query(
+      `INSERT INTO lessons (course_id, module_id, id, title, objective, bloom_level, duration, sort_order)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      courseId,
+      moduleId,
+      lesson.id,
+      lesson.title,
+      lesson.objective || null,
+      lesson.bloomLevel,
+      lesson.duration,
+      sortOrder
+    );
+  return true;
+}
+
 /**
  * Get lessons for a module
  */
@@ -407,11 +668,12 @@ export function getLessons(
   objective: string | null;
   duration: number;
   status: string;
+  bloomLevel: BloomLevel | null;
 }[] {
   const database = getDatabase();
   return database
     .query(
-      `SELECT id, title, objective, duration, status FROM lessons
+      `SELECT id, title, objective, duration, status, bloom_level AS bloomLevel FROM lessons
        WHERE course_id = ? AND module_id = ? ORDER BY sort_order`
     )
     .all(courseId, moduleId) as {
@@ -420,25 +682,543 @@ export function getLessons(
     objective: string | null;
     duration: number;
     status: string;
+    bloomLevel: BloomLevel | null;
   }[];
 }
 
 /**
- * Update lesson status
+ * Delete a lesson with its development tasks, production record, status
+ * history and quiz questions
+ */
+export function deleteLesson(
+  courseId: string,
+  moduleId: string,
+  lessonId: string
+): void {
+  const database = getDatabase();
+  const lessonPath = `${moduleId}/${lessonId}`;
+
+  database.transaction(() => {
+    database
+      .query(`DELETE FROM tasks WHERE course_id = ? AND lesson_path = ?`)
+      .run(courseId, lessonPath);
+    database
+      .query(`DELETE FROM production WHERE course_id = ? AND lesson_path = ?`)
+      .run(courseId, lessonPath);
+    database
+      .query(`DELETE FROM lesson_status_history WHERE course_id = ? AND lesson_path = ?`)
+      .run(courseId, lessonPath);
+    database
+      .query(`DELETE FROM quiz_questions WHERE course_id = ? AND objective_id = ?`)
+      .run(courseId, lessonPath);
+    database
+      .query(`DELETE FROM lessons WHERE course_id = ? AND module_id = ? AND id = ?`)
+      .run(courseId, moduleId, lessonId);
+    retireLessonNumber(courseId, moduleId, lessonId);
+  })();
+}
+
+/**
+ * Update lesson status and record the change in the lesson's history.
+ * Setting the current status again records nothing.
  */
 export function updateLessonStatus(
   courseId: string,
   moduleId: string,
   lessonId: string,
-  status: string
+  status: LessonStatus,
+  change: { note?: string | null; forced?: boolean } = {}
+): void {
+  const database = getDatabase();
+
+  database.transaction(() => {
+    const row = database
+      .query(`SELECT status FROM lessons WHERE course_id = ? AND module_id = ? AND id = ?`)
+      .get(courseId, moduleId, lessonId) as { status: LessonStatus } | null;
+    if (!row || row.status === status) return;
+
+    database
+      .query(
+        `UPDATE lessons SET status = ?
+         WHERE course_id = ? AND module_id = ? AND id = ?`
+      )
+      .run(status, courseId, moduleId, lessonId);
+    database
+      .query(
+        `INSERT INTO lesson_status_history
+           (course_id, lesson_path, from_status, to_status, note, forced, changed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        courseId,
+        `${moduleId}/${lessonId}`,
+        row.status,
+        status,
+        change.note ?? null,
+        change.forced ? 1 : 0,
+        new Date().toISOString()
+      );
+  })();
+}
+
+/**
+ * Get a lesson's status changes, oldest first
+ */
+export function getLessonStatusHistory(
+  courseId: string,
+  lessonPath: string
+): LessonStatusChange[] {
+  const database = getDatabase();
+  const rows = database
+    .query(
+      `SELECT * FROM lesson_status_history
+       WHERE course_id = ? AND lesson_path = ? ORDER BY changed_at, rowid`
+    )
+    .all(courseId, lessonPath) as LessonStatusHistoryRow[];
+
+  return rows.map(rowToLessonStatusChange);
+}
+
+/**
+ * Next free lesson ID in a module: one past the highest number in use or
+ * ever removed or moved out of the module
+ */
+export function nextLessonId(courseId: string, moduleId: string): string {
+  const database = getDatabase();
+  const result = database
+    .query(
+      `SELECT MAX(
+         COALESCE((SELECT MAX(CAST(SUBSTR(id, 2) AS INTEGER)) FROM lessons
+                   WHERE course_id = ? AND module_id = ?), 0),
+         COALESCE((SELECT last_lesson_number FROM modules WHERE course_id = ? AND id = ?), 0)
+       ) as max_id`
+    )
+    .get(courseId, moduleId, courseId, moduleId) as { max_id: number } | null;
+
+  return `L${(result?.max_id || 0) + 1}`;
+}
+
+/**
+ * Highest lesson number removed or moved out of a module
+ */
+function lastLessonNumber(courseId: string, moduleId: string): number {
+  const row = getDatabase()
+    .query(`SELECT last_lesson_number FROM modules WHERE course_id = ? AND id = ?`)
+    .get(courseId, moduleId) as { last_lesson_number: number } | null;
+  return row?.last_lesson_number ?? 0;
+}
+
+/**
+ * Remember a lesson number that left its module so it is not reused
+ */
+function retireLessonNumber(courseId: string, moduleId: string, lessonId: string): void {
+  getDatabase()
+    .query(
+      `UPDATE modules SET last_lesson_number = MAX(last_lesson_number, ?)
+       WHERE course_id = ? AND id = ?`
+    )
+    .run(idNumber(lessonId), courseId, moduleId);
+}
+
+/**
+ * Update a lesson's title, objective, Bloom level or duration.
+ * Fields left undefined are unchanged.
+ */
+export function updateLesson(
+  courseId: string,
+  moduleId: string,
+  lessonId: string,
+  fields: {
+    title?: string;
+    objective?: string | null;
+    bloomLevel?: BloomLevel | null;
+    duration?: number;
+  }
 ): void {
   const database = getDatabase();
+  const columns: Record<string, string | number | null | undefined> = {
+    title: fields.title,
+    objective: fields.objective,
+    bloom_level: fields.bloomLevel,
+    duration: fields.duration,
+  };
+  const updates = Object.entries(columns).filter(([, value]) => value !== undefined);
+  if (updates.length === 0) return;
+
   database
     .query(
-      `UPDATE lessons SET status = ?
+      `UPDATE lessons SET ${updates.map(([column]) => `${column} = ?`).join(", ")}
        WHERE course_id = ? AND module_id = ? AND id = ?`
     )
-    .run(status, courseId, moduleId, lessonId);
+    .run(...updates.map(([, value]) => value ?? null), courseId, moduleId, lessonId);
+}
+
+/**
+ * Move a lesson within its module or to another module, at a 1-based
+ * position (default: last). A lesson moving to another module keeps its
+ * ID unless the target module uses it or used it before. Tasks, the
+ * production record and status history follow the lesson; its quiz
+ * questions are dropped from the old module's bank.
+ *
+ * @returns The lesson's ID in the target module
+ */
+export function moveLesson(
+  courseId: string,
+  moduleId: string,
+  lessonId: string,
+  target: { moduleId: string; position?: number }
+): string {
+  const database = getDatabase();
+  const sameModule = target.moduleId === moduleId;
+  const targetIds = getLessons(courseId, target.moduleId).map((l) => l.id);
+
+  const idFree =
+    !targetIds.includes(lessonId) && idNumber(lessonId) > lastLessonNumber(courseId, target.moduleId);
+  const newId = sameModule || idFree ? lessonId : nextLessonId(courseId, target.moduleId);
+  const oldPath = `${moduleId}/${lessonId}`;
+  const newPath = `${target.moduleId}/${newId}`;
+
+  const ids = targetIds.filter((id) => !(sameModule && id === lessonId));
+  const position = target.position ?? ids.length + 1;
+  ids.splice(Math.max(0, Math.min(position - 1, ids.length)), 0, newId);
+
+  const reorder = database.query(
+    `UPDATE lessons SET sort_order = ? WHERE course_id = ? AND module_id = ? AND id = ?`
+  );
+
+  database.transaction(() => {
+    if (!sameModule) {
+      database
+        .query(
+          `UPDATE lessons SET module_id = ?, id = ?
+           WHERE course_id = ? AND module_id = ? AND id = ?`
+        )
+        .run(target.moduleId, newId, courseId, moduleId, lessonId);
+      database
+        .query(`UPDATE tasks SET lesson_path = ? WHERE course_id = ? AND lesson_path = ?`)
+        .run(newPath, courseId, oldPath);
+      database
+        .query(`DELETE FROM production WHERE course_id = ? AND lesson_path = ?`)
+        .run(courseId, newPath);
+      database
+        .query(`UPDATE production SET lesson_path = ? WHERE course_id = ? AND lesson_path = ?`)
+        .run(newPath, courseId, oldPath);
+      database
+        .query(`DELETE FROM lesson_status_history WHERE course_id = ? AND lesson_path = ?`)
+        .run(courseId, newPath);
+      database
+        .query(`UPDATE lesson_status_history SET lesson_path = ? WHERE course_id = ? AND lesson_path = ?`)
+        .run(newPath, courseId, oldPath);
+      database
+        .query(`DELETE FROM quiz_questions WHERE course_id = ? AND objective_id = ?`)
+        .run(courseId, oldPath);
+      retireLessonNumber(courseId, moduleId, lessonId);
+    }
+
+    ids.forEach((id, index) => reorder.run(index + 1, courseId, target.moduleId, id));
+
+    if (!sameModule) {
+      getLessons(courseId, moduleId).forEach((l, index) =>
+        reorder.run(index + 1, courseId, moduleId, l.id)
+      );
+    }
+  })();
+
+  return newId;
+}
+
+// =============================================================================
+// Task Operations
+// =============================================================================
+
+/**
+ * Insert development tasks for a course
+ */
+export function addTasks(courseId: string, tasks: DevelopmentTask[]): void {
+  const database = getDatabase();
+
+  const insert = database.query(
+    `INSERT INTO tasks (id, course_id, lesson_path, type, description, status, blocked_reason)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+
+  database.transaction(() => {
+    for (const task of tasks) {
+      insert.run(
+        task.id,
+        courseId,
+        task.lessonPath,
+        task.type,
+        task.description,
+        task.status,
+        task.blockedReason
+      );
+    }
+  })();
+}
+
+/**
+ * Get a course's development tasks in ID order, optionally filtered
+ */
+export function getTasks(
+  courseId: string,
+  filter: { lessonPath?: string; status?: TaskStatus } = {}
+): DevelopmentTask[] {
+  const database = getDatabase();
+  const conditions = ["course_id = ?"];
+  const params: string[] = [courseId];
+
+  if (filter.lessonPath) {
+    conditions.push("lesson_path = ?");
+    params.push(filter.lessonPath);
+  }
+  if (filter.status) {
+    conditions.push("status = ?");
+    params.push(filter.status);
+  }
+
+  const rows = database
+    .query(
+      `SELECT * FROM tasks WHERE ${conditions.join(" AND ")}
+       ORDER BY CAST(SUBSTR(id, 2) AS INTEGER), id`
+    )
+    .all(...params) as TaskRow[];
+
+  return rows.map(rowToTask);
+}
+
+/**
+ * Get a single development task
+ */
+export function getTask(courseId: string, taskId: string): DevelopmentTask | null {
+  const database = getDatabase();
+  const row = database
+    .query(`SELECT * FROM tasks WHERE course_id = ? AND id = ?`)
+    .get(courseId, taskId) as TaskRow | null;
+
+  return row ? rowToTask(row) : null;
+}
+
+/**
+ * Update task status. The blocked reason is kept only for blocked tasks.
+ */
+export function updateTaskStatus(
+  courseId: string,
+  taskId: string,
+  status: TaskStatus,
+  blockedReason: string | null = null
+): void {
+  const database = getDatabase();
+  database
+    .query(`UPDATE tasks SET status = ?, blocked_reason = ? WHERE course_id = ? AND id = ?`)
+    .run(status, status === "blocked" ? blockedReason : null, courseId, taskId);
+}
+
+/**
+ * Get module, lesson and task counts for one course
+ */
+export function getSingleCourseStats(courseId: string): SingleCourseStats {
+  const database = getDatabase();
+
+  const count = (sql: string): number =>
+    (database.query(sql).get(courseId) as { count: number }).count;
+
+  const lessonsByStatus: Record<LessonStatus, number> = {
+    planned: 0,
+    drafted: 0,
+    recorded: 0,
+    edited: 0,
+    published: 0,
+  };
+  const statusRows = database
+    .query(`SELECT status, COUNT(*) as count FROM lessons WHERE course_id = ? GROUP BY status`)
+    .all(courseId) as { status: LessonStatus; count: number }[];
+  for (const row of statusRows) {
+    lessonsByStatus[row.status] = row.count;
+  }
+
+  const tasksTotal = count(`SELECT COUNT(*) as count FROM tasks WHERE course_id = ?`);
+  const tasksCompleted = count(
+    `SELECT COUNT(*) as count FROM tasks WHERE course_id = ? AND status = 'completed'`
+  );
+
+  return {
+    courseId,
+    totalModules: count(`SELECT COUNT(*) as count FROM modules WHERE course_id = ?`),
+    totalLessons: count(`SELECT COUNT(*) as count FROM lessons WHERE course_id = ?`),
+    lessonsByStatus,
+    tasksTotal,
+    tasksCompleted,
+    percentComplete: tasksTotal > 0 ? Math.round((tasksCompleted / tasksTotal) * 100) : 0,
+  };
+}
+
+// =============================================================================
+// Production Operations
+// =============================================================================
+
+/**
+ * Get a course's production records
+ */
+export function getProduction(courseId: string): ProductionStatus[] {
+  const database = getDatabase();
+  const rows = database
+    .query(`SELECT * FROM production WHERE course_id = ? ORDER BY lesson_path`)
+    .all(courseId) as ProductionRow[];
+
+  return rows.map(rowToProduction);
+}
+
+/**
+ * Get the production record for a lesson ("M1/L2")
+ */
+export function getLessonProduction(
+  courseId: string,
+  lessonPath: string
+): ProductionStatus | null {
+  const database = getDatabase();
+  const row = database
+    .query(`SELECT * FROM production WHERE course_id = ? AND lesson_path = ?`)
+    .get(courseId, lessonPath) as ProductionRow | null;
+
+  return row ? rowToProduction(row) : null;
+}
+
+/**
+ * Insert or replace a lesson's production record
+ */
+export function saveProduction(courseId: string, production: ProductionStatus): void {
+  const database = getDatabase();
+  database
+    .query(
+      `INSERT INTO production
+         (lesson_path, course_id, recorded, edited, uploaded, access_tested, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (course_id, lesson_path) DO UPDATE SET
+         recorded = excluded.recorded,
+         edited = excluded.edited,
+         uploaded = excluded.uploaded,
+         access_tested = excluded.access_tested,
+         notes = excluded.notes`
+    )
+    .run(
+      production.lessonPath,
+      courseId,
+      production.recorded ? 1 : 0,
+      production.edited ? 1 : 0,
+      production.uploaded ? 1 : 0,
+      production.accessTested ? 1 : 0,
+      production.notes
+    );
+}
+
+// =============================================================================
+// Quiz Operations
+// =============================================================================
+
+/**
+ * Replace the question bank for a module
+ */
+export function replaceQuizQuestions(
+  courseId: string,
+  moduleId: string,
+  questions: QuizQuestion[]
+): void {
+  const database = getDatabase();
+
+  const insert = database.query(
+    `INSERT INTO quiz_questions
+       (course_id, module_id, id, objective_id, bloom_level, stem, choices, answer, rationale, sort_order)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+
+  database.transaction(() => {
+    database
+      .query(`DELETE FROM quiz_questions WHERE course_id = ? AND module_id = ?`)
+      .run(courseId, moduleId);
+
+    questions.forEach((q, index) => {
+      insert.run(
+        courseId,
+        moduleId,
+        q.id,
+        q.objectiveId,
+        q.bloomLevel,
+        q.stem,
+        JSON.stringify(q.choices),
+        q.answer,
+        q.rationale,
+        index + 1
+      );
+    });
+  })();
+}
+
+/**
+ * Get the question bank for a module
+ */
+export function getQuizQuestions(
+  courseId: string,
+  moduleId: string
+): QuizQuestion[] {
+  const database = getDatabase();
+  const rows = database
+    .query(
+      `SELECT * FROM quiz_questions
+       WHERE course_id = ? AND module_id = ? ORDER BY sort_order`
+    )
+    .all(courseId, moduleId) as QuizQuestionRow[];
+
+  return rows.map(rowToQuizQuestion);
+}
+
+// =============================================================================
+// Objective Operations
+// =============================================================================
+
+/**
+ * Replace a course's learning objectives (from define.md)
+ */
+export function replaceObjectives(
+  courseId: string,
+  objectives: LearningObjective[]
+): void {
+  const database = getDatabase();
+
+  const insert = database.query(
+    `INSERT INTO objectives
+       (course_id, id, text, bloom_level, verb, assessment_method, covered_by, sort_order)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+
+  database.transaction(() => {
+    database.query(`DELETE FROM objectives WHERE course_id = ?`).run(courseId);
+
+    objectives.forEach((o, index) => {
+      insert.run(
+        courseId,
+        o.id,
+        o.text,
+        o.bloomLevel,
+        o.verb || null,
+        o.assessmentMethod,
+        o.coveredBy,
+        index + 1
+      );
+    });
+  })();
+}
+
+/**
+ * Get a course's learning objectives
+ */
+export function getObjectives(courseId: string): LearningObjective[] {
+  const database = getDatabase();
+  const rows = database
+    .query(`SELECT * FROM objectives WHERE course_id = ? ORDER BY sort_order`)
+    .all(courseId) as ObjectiveRow[];
+
+  return rows.map(rowToObjective);
 }
 
 // =============================================================================
@@ -452,10 +1232,12 @@ interface CourseRow {
   context: string;
   status: string;
   phase: string;
+  language: string | null;
   course_path: string | null;
   created_at: string;
   started_at: string | null;
   launched_at: string | null;
+  archived_at: string | null;
 }
 
 function rowToCourse(row: CourseRow): Course {
@@ -466,13 +1248,134 @@ function rowToCourse(row: CourseRow): Course {
     context: row.context as CourseContext,
     status: row.status as CourseStatus,
     phase: row.phase as CoursePhase,
+    language: row.language || "en",
     coursePath: row.course_path,
     createdAt: new Date(row.created_at),
     startedAt: row.started_at ? new Date(row.started_at) : null,
     launchedAt: row.launched_at ? new Date(row.launched_at) : null,
+    archivedAt: row.archived_at ? new Date(row.archived_at) : null,
+  };
+}
+
+interface QuizQuestionRow {
+  id: string;
+  course_id: string;
+  module_id: string;
+  objective_id: string;
+  bloom_level: string;
+  stem: string;
+  choices: string;
+  answer: string;
+  rationale: string | null;
+  sort_order: number;
+  created_at: string;
+}
+
+function rowToQuizQuestion(row: QuizQuestionRow): QuizQuestion {
+  return {
+    id: row.id,
+    moduleId: row.module_id,
+    objectiveId: row.objective_id,
+    bloomLevel: row.bloom_level as BloomLevel,
+    stem: row.stem,
+    choices: JSON.parse(row.choices) as string[],
+    answer: row.answer,
+    rationale: row.rationale || "",
+  };
+}
+
+interface TaskRow {
+  id: string;
+  course_id: string;
+  lesson_path: string;
+  type: string;
+  description: string | null;
+  status: string;
+  blocked_reason: string | null;
+}
+
+function rowToTask(row: TaskRow): DevelopmentTask {
+  return {
+    id: row.id,
+    lessonPath: row.lesson_path,
+    type: row.type as TaskType,
+    description: row.description || "",
+    status: row.status as TaskStatus,
+    blockedReason: row.blocked_reason,
+  };
+}
+
+interface ProductionRow {
+  lesson_path: string;
+  course_id: string;
+  recorded: number;
+  edited: number;
+  uploaded: number;
+  access_tested: number;
+  notes: string | null;
+}
+
+function rowToProduction(row: ProductionRow): ProductionStatus {
+  return {
+    lessonPath: row.lesson_path,
+    recorded: row.recorded === 1,
+    edited: row.edited === 1,
+    uploaded: row.uploaded === 1,
+    accessTested: row.access_tested === 1,
+    notes: row.notes,
+  };
+}
+
+interface LessonStatusHistoryRow {
+  course_id: string;
+  lesson_path: string;
+  from_status: string;
+  to_status: string;
+  note: string | null;
+  forced: number;
+  changed_at: string;
+}
+
+function rowToLessonStatusChange(row: LessonStatusHistoryRow): LessonStatusChange {
+  return {
+    lessonPath: row.lesson_path,
+    fromStatus: row.from_status as LessonStatus,
+    toStatus: row.to_status as LessonStatus,
+    note: row.note,
+    forced: row.forced === 1,
+    changedAt: new Date(row.changed_at),
   };
 }
 
+interface ObjectiveRow {
+  id: string;
+  course_id: string;
+  text: string;
+  bloom_level: string | null;
+  verb: string | null;
+  assessment_method: string | null;
+  covered_by: string | null;
+  sort_order: number;
+}
+
+function rowToObjective(row: ObjectiveRow): LearningObjective {
+  return {
+    id: row.id,
+    text: row.text,
+    bloomLevel: row.bloom_level as BloomLevel | null,
+    verb: row.verb || "",
+    assessmentMethod: row.assessment_method,
+    coveredBy: row.covered_by,
+  };
+}
+
+/**
+ * Number part of a module or lesson ID ("M4" -> 4)
+ */
+function idNumber(id: string): number {
+  return parseInt(id.slice(1), 10) || 0;
+}
+
 // =============================================================================
 // Close
 // =============================================================================
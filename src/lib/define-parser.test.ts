@@ -0,0 +1,164 @@
+/**
+ * define.md Parser Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { parseDefine } from "./define-parser";
+
+const DEFINE_MD = `# Course Definition: Auth Fundamentals
+
+## Audience
+
+### Who are they?
+Backend developers new to authentication.
+
+### Prior knowledge required
+- HTTP basics
+- One server-side language
+
+### Constraints
+- Time available: 3 hours/week
+- Technical level: Intermediate
+
+## Learning Objectives
+
+By the end of this course, learners will be able to:
+
+1. **List** the three types of authentication
+2. **Implement** JWT authentication in an API
+3. **Evaluate** which auth method fits a given scenario
+
+## Assessment Strategy
+
+| Objective | Assessment Method | When |
+|-----------|-------------------|------|
+| 1 | Quiz | Module 1 |
+| O2 | Project | Module 2 |
+| 3 | Case study | Module 3 |
+
+## Context
+
+- **Format**: University (semester)
+- **Duration**: 12 weeks
+- **Session length**: 90 minutes per lecture
+
+## Scope
+
+### In Scope
+- Sessions and tokens
+- OAuth flows
+
+### Out of Scope
+- Hardware tokens
+`;
+
+describe("parseDefine", () => {
+  it("parses a complete define.md without errors", () => {
+    const { definition, errors } = parseDefine(DEFINE_MD, "C-001");
+
+    expect(errors).toEqual([]);
+    expect(definition.courseId).toBe("C-001");
+    expect(definition.audience.description).toBe("Backend developers new to authentication.");
+    expect(definition.audience.priorKnowledge).toEqual(["HTTP basics", "One server-side language"]);
+    expect(definition.audience.constraints).toHaveLength(2);
+    expect(definition.context).toEqual({
+      format: "university",
+      duration: "12 weeks",
+      sessionLength: "90 minutes per lecture",
+    });
+    expect(definition.scope).toEqual({
+      inScope: ["Sessions and tokens", "OAuth flows"],
+      outOfScope: ["Hardware tokens"],
+    });
+  });
+
+  it("numbers objectives and detects Bloom levels", () => {
+    const { definition } = parseDefine(DEFINE_MD, "C-001");
+
+    expect(definition.objectives.map((o) => [o.id, o.bloomLevel, o.verb])).toEqual([
+      ["O1", "remember", "list"],
+      ["O2", "apply", "implement"],
+      ["O3", "evaluate", "evaluate"],
+    ]);
+    expect(definition.objectives[1].text).toBe("Implement JWT authentication in an API");
+  });
+
+  it("links assessment rows to objectives", () => {
+    const { definition } = parseDefine(DEFINE_MD, "C-001");
+
+    expect(definition.assessmentStrategy[1]).toEqual({
+      objectiveId: "O2",
+      method: "Project",
+      timing: "Module 2",
+    });
+    expect(definition.objectives[0].assessmentMethod).toBe("Quiz");
+  });
+
+  it("honors explicit objective IDs", () => {
+    const content = DEFINE_MD.replace(
+      "1. **List** the three",
+      "1. **O7**: **List** the three"
+    );
+    const { definition } = parseDefine(content, "C-001");
+    expect(definition.objectives[0].id).toBe("O7");
+  });
+
+  it("reports missing sections", () => {
+    const content = DEFINE_MD.replace("## Scope", "## Boundaries");
+    const { errors } = parseDefine(content, "C-001");
+
+    expect(errors.map((e) => e.message)).toContain('Missing "## Scope" section');
+  });
+
+  it("warns about objectives without a Bloom verb with line numbers", () => {
+    const content = DEFINE_MD.replace("**Implement** JWT", "Get comfortable with JWT");
+    const { definition, errors, warnings } = parseDefine(content, "C-001");
+
+    expect(errors).toEqual([]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].line).toBe(21);
+    expect(warnings[0].message).toContain("O2 has no recognizable Bloom verb");
+    expect(definition.objectives[1].bloomLevel).toBeNull();
+  });
+
+  it("reports vague verbs as non-measurable", () => {
+    const content = DEFINE_MD.replace("**Implement** JWT", "Understand JWT");
+    const { definition, errors } = parseDefine(content, "C-001");
+
+    expect(definition.objectives[1].bloomLevel).toBeNull();
+    expect(errors.map((e) => e.message)).toEqual([
+      'O2 uses the non-measurable verb "understand": "Understand JWT authentication in an API"',
+    ]);
+  });
+
+  it("reports assessment rows for unknown objectives", () => {
+    const content = DEFINE_MD.replace("| 3 | Case study", "| 9 | Case study");
+    const { errors } = parseDefine(content, "C-001");
+
+    expect(errors[0]).toEqual({
+      line: 30,
+      message: "Assessment refers to O9, which is not defined",
+    });
+  });
+
+  it("flags template placeholders", () => {
+    const content = DEFINE_MD.replace(
+      "Backend developers new to authentication.",
+      "[To be defined]"
+    );
+    const { errors } = parseDefine(content, "C-001");
+
+    expect(errors).toContainEqual({ line: 6, message: 'Placeholder text "[To be defined]"' });
+  });
+
+  it("ignores headings inside code fences", () => {
+    const content = DEFINE_MD.replace(
+      "### Out of Scope",
+      "```\n## Scope\n```\n\n### Out of Scope"
+    );
+    const { definition, errors } = parseDefine(content, "C-001");
+
+    expect(errors).toEqual([]);
+    expect(definition.scope.inScope).toHaveLength(2);
+  });
+});
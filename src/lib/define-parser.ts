@@ -0,0 +1,252 @@
+/**
+ * define.md Parser
+ *
+ * Turns a DEFINE phase document into a CourseDefinition. Problems are
+ * reported as line-numbered errors instead of exceptions so callers can
+ * show all of them at once.
+ */
+
+import type {
+  CourseContext,
+  CourseDefinition,
+  LearningObjective,
+} from "../types";
+import { analyzeBloomVerb, ENGLISH_VOCABULARY, type BloomVocabulary } from "./bloom";
+import {
+  bullets,
+  findPlaceholders,
+  findSubsection,
+  isTableSeparator,
+  labeledFields,
+  paragraph,
+  sortParseErrors,
+  splitSections,
+  splitSubsections,
+  tableCells,
+  type MarkdownSection,
+  type ParseError,
+} from "./markdown-sections";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Result of parsing define.md.
+ */
+export interface DefineParseResult {
+  definition: CourseDefinition;
+  errors: ParseError[];
+  /** Problems that do not block an import, such as an unrecognized Bloom verb */
+  warnings: ParseError[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Sections every define.md must contain */
+export const REQUIRED_DEFINE_SECTIONS = [
+  "Audience",
+  "Learning Objectives",
+  "Assessment Strategy",
+  "Scope",
+] as const;
+
+/** Template placeholders such as [To be defined] or [Bloom Verb] */
+const PLACEHOLDER_PATTERN = /\[(?:To be defined|Bloom Verb|specific, measurable outcome|Prerequisite \d+|Topic \d+|Explicitly excluded topic|Quiz\/Project\/Demo|Module [A-Z]|X [^\]]*|TODO[^\]]*)\]/i;
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/**
+ * Parse define.md into a CourseDefinition.
+ *
+ * Objectives are numbered O1, O2, ... in document order unless the list
+ * item names its ID ("**O2**: ..." or "O2: ..."). The assessment table's
+ * Objective column may use either "1" or "O1".
+ *
+ * @param content - define.md content
+ * @param courseId - Course the document belongs to
+ * @param vocabulary - Bloom verbs for the course language (defaults to English)
+ * @returns Parsed definition, errors and warnings
+ */
+export function parseDefine(
+  content: string,
+  courseId: string,
+  vocabulary: BloomVocabulary = ENGLISH_VOCABULARY
+): DefineParseResult {
+  const errors: ParseError[] = [];
+  const warnings: ParseError[] = [];
+  const sections = splitSections(content);
+
+  const definition: CourseDefinition = {
+    courseId,
+    audience: { description: "", priorKnowledge: [], constraints: [] },
+    objectives: [],
+    assessmentStrategy: [],
+    context: { format: "online", duration: "", sessionLength: "" },
+    scope: { inScope: [], outOfScope: [] },
+  };
+
+  for (const name of REQUIRED_DEFINE_SECTIONS) {
+    if (!sections.has(name.toLowerCase())) {
+      errors.push({ message: `Missing "## ${name}" section` });
+    }
+  }
+
+  errors.push(...findPlaceholders(content, PLACEHOLDER_PATTERN));
+
+  const audience = sections.get("audience");
+  if (audience) {
+    parseAudience(audience, definition, errors);
+  }
+
+  const objectives = sections.get("learning objectives");
+  if (objectives) {
+    definition.objectives = parseObjectives(objectives, errors, warnings, vocabulary);
+  }
+
+  const assessment = sections.get("assessment strategy");
+  if (assessment) {
+    definition.assessmentStrategy = parseAssessmentTable(
+      assessment,
+      definition.objectives,
+      errors
+    );
+  }
+
+  const context = sections.get("context");
+  if (context) {
+    definition.context = parseContext(context);
+  }
+
+  const scope = sections.get("scope");
+  if (scope) {
+    const sub = splitSubsections(scope);
+    definition.scope.inScope = bullets(sub.get("in scope") ?? []);
+    definition.scope.outOfScope = bullets(sub.get("out of scope") ?? []);
+    if (definition.scope.inScope.length === 0) {
+      errors.push({ line: scope.line, message: "Scope lists nothing under \"### In Scope\"" });
+    }
+  }
+
+  return { definition, errors: sortParseErrors(errors), warnings: sortParseErrors(warnings) };
+}
+
+// =============================================================================
+// Sections
+// =============================================================================
+
+function parseAudience(
+  section: MarkdownSection,
+  definition: CourseDefinition,
+  errors: ParseError[]
+): void {
+  const sub = splitSubsections(section);
+
+  definition.audience.description = paragraph(
+    sub.get("who are they?") ?? sub.get("who are they") ?? sub.get("") ?? []
+  );
+  definition.audience.priorKnowledge = bullets(
+    findSubsection(sub, "prior knowledge") ?? []
+  );
+  definition.audience.constraints = bullets(sub.get("constraints") ?? []);
+
+  if (!definition.audience.description) {
+    errors.push({ line: section.line, message: "Audience has no description" });
+  }
+}
+
+function parseObjectives(
+  section: MarkdownSection,
+  errors: ParseError[],
+  warnings: ParseError[],
+  vocabulary: BloomVocabulary
+): LearningObjective[] {
+  const objectives: LearningObjective[] = [];
+
+  for (const { text, line } of section.lines) {
+    const match = text.match(/^\s*(?:\d+[.)]|[-*])\s+(?:\*\*(O\d+)\*\*:?|(O\d+):)?\s*(.+)$/);
+    if (!match) continue;
+
+    const objectiveText = match[3].replace(/\*\*/g, "").trim();
+    const id = match[1] ?? match[2] ?? `O${objectives.length + 1}`;
+    if (objectives.some((o) => o.id === id)) {
+      errors.push({ line, message: `Duplicate objective ID ${id}` });
+      continue;
+    }
+    const bloom = analyzeBloomVerb(objectiveText, vocabulary);
+
+    if (bloom.vague) {
+      errors.push({ line, message: `${id} uses the non-measurable verb "${bloom.verb}": "${objectiveText}"` });
+    } else if (!bloom.level) {
+      warnings.push({ line, message: `${id} has no recognizable Bloom verb: "${objectiveText}"` });
+    }
+
+    objectives.push({
+      id,
+      text: objectiveText,
+      bloomLevel: bloom.level,
+      verb: bloom.verb ?? "",
+      assessmentMethod: null,
+      coveredBy: null,
+    });
+  }
+
+  if (objectives.length === 0) {
+    errors.push({ line: section.line, message: "No learning objectives listed" });
+  }
+
+  return objectives;
+}
+
+function parseAssessmentTable(
+  section: MarkdownSection,
+  objectives: LearningObjective[],
+  errors: ParseError[]
+): CourseDefinition["assessmentStrategy"] {
+  const strategy: CourseDefinition["assessmentStrategy"] = [];
+
+  for (const { text, line } of section.lines) {
+    const cells = tableCells(text);
+    if (!cells || cells.length < 2) continue;
+    if (/^objective$/i.test(cells[0]) || isTableSeparator(cells)) continue;
+
+    const ref = cells[0].match(/^O?(\d+)\b/i);
+    if (!ref) {
+      errors.push({ line, message: `Unknown objective reference "${cells[0]}"` });
+      continue;
+    }
+
+    const objectiveId = `O${ref[1]}`;
+    const objective = objectives.find((o) => o.id === objectiveId);
+    if (!objective) {
+      errors.push({ line, message: `Assessment refers to ${objectiveId}, which is not defined` });
+    }
+
+    const entry = { objectiveId, method: cells[1], timing: cells[2] ?? "" };
+    strategy.push(entry);
+    if (objective && !objective.assessmentMethod) {
+      objective.assessmentMethod = entry.method;
+    }
+  }
+
+  if (strategy.length === 0) {
+    errors.push({ line: section.line, message: "Assessment Strategy table has no rows" });
+  }
+
+  return strategy;
+}
+
+function parseContext(section: MarkdownSection): CourseDefinition["context"] {
+  const fields = labeledFields(section.lines);
+  const format = fields.get("format")?.text ?? "";
+
+  return {
+    format: (/university/i.test(format) ? "university" : "online") as CourseContext,
+    duration: fields.get("duration")?.text ?? "",
+    sessionLength: fields.get("session length")?.text ?? "",
+  };
+}
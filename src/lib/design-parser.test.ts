@@ -0,0 +1,167 @@
+/**
+ * design.md Parser Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { parseDesign } from "./design-parser";
+
+const DESIGN_MD = `# Course Design: Auth Fundamentals
+
+## Module Structure
+
+### M1: Foundations (Week 1-2)
+**Objective**: Explain how authentication works
+
+| Lesson | Title | Duration | Objective |
+|--------|-------|----------|-----------|
+| L1 | Auth Basics | 10 min | List the three types of authentication |
+| L2 | Sessions | 8 min | Explain how session cookies work |
+
+**Assessment**: Quiz
+
+### M2: Tokens
+**Objective**: Implement token-based auth
+
+| Lesson | Title | Duration | Objective |
+|--------|-------|----------|-----------|
+| L1 | JWT in Practice | 15 | Implement JWT authentication in an API |
+
+**Assessment**: Project
+
+### M3: Advanced
+**Objective**: Evaluate auth architectures
+
+| Lesson | Title | Duration | Objective |
+|--------|-------|----------|-----------|
+| L1 | Choosing Auth | 12 min | Evaluate which auth method fits a scenario |
+
+## Learning Path
+
+\`\`\`
+M1 (Foundation)
+  └─→ M2 (Core Skills)
+        └─→ M3 (Advanced) [Optional]
+\`\`\`
+
+## Engagement Strategy
+
+- **Practice**: 2 exercises per module
+- **Community**: Discord Q&A, peer review
+- **Projects**: Auth server
+
+## Time Budget
+
+| Component | Hours |
+|-----------|-------|
+| Videos/Lectures | 1.5 |
+| Exercises | 2 |
+| Projects | 3 |
+| **Total** | **6.5** |
+`;
+
+describe("parseDesign", () => {
+  it("parses a complete design.md without errors", () => {
+    const { design, errors } = parseDesign(DESIGN_MD, "C-001");
+
+    expect(errors).toEqual([]);
+    expect(design.courseId).toBe("C-001");
+    expect(design.modules.map((m) => m.id)).toEqual(["M1", "M2", "M3"]);
+  });
+
+  it("reads module metadata and week ranges", () => {
+    const [m1, m2] = parseDesign(DESIGN_MD, "C-001").design.modules;
+
+    expect(m1.name).toBe("Foundations");
+    expect(m1.weekRange).toBe("Week 1-2");
+    expect(m1.objective).toBe("Explain how authentication works");
+    expect(m1.assessmentType).toBe("Quiz");
+    expect(m2.weekRange).toBeNull();
+  });
+
+  it("reads lesson tables with durations and Bloom levels", () => {
+    const [m1, m2] = parseDesign(DESIGN_MD, "C-001").design.modules;
+
+    expect(m1.lessons).toHaveLength(2);
+    expect(m1.lessons[1]).toMatchObject({
+      id: "L2",
+      title: "Sessions",
+      duration: 8,
+      objective: "Explain how session cookies work",
+      bloomLevel: "understand",
+      status: "planned",
+    });
+    expect(m2.lessons[0].duration).toBe(15);
+  });
+
+  it("builds the learning path from an indented tree", () => {
+    expect(parseDesign(DESIGN_MD, "C-001").design.learningPath).toEqual([
+      { from: "M1", to: "M2", optional: false },
+      { from: "M2", to: "M3", optional: true },
+    ]);
+  });
+
+  it("accepts arrow chains in the learning path", () => {
+    const content = DESIGN_MD.replace(
+      /```\nM1[\s\S]*?```/,
+      "M1 → M2 → M3"
+    );
+    expect(parseDesign(content, "C-001").design.learningPath).toEqual([
+      { from: "M1", to: "M2", optional: false },
+      { from: "M2", to: "M3", optional: false },
+    ]);
+  });
+
+  it("parses engagement and time budget", () => {
+    const { design } = parseDesign(DESIGN_MD, "C-001");
+
+    expect(design.engagement).toEqual({
+      practicePerModule: 2,
+      communityActivities: ["Discord Q&A", "peer review"],
+      projects: ["Auth server"],
+    });
+    expect(design.timeBudget).toEqual({ videos: 1.5, exercises: 2, projects: 3, total: 6.5 });
+  });
+
+  it("reports an empty design instead of inventing modules", () => {
+    const { design, errors } = parseDesign("# Course Design\n", "C-001");
+
+    expect(design.modules).toEqual([]);
+    expect(errors[0].message).toContain("No modules found");
+  });
+
+  it("reports bad lesson rows with line numbers", () => {
+    const content = DESIGN_MD.replace("| L2 | Sessions | 8 min |", "| L2 | Sessions | soon |");
+    const { errors } = parseDesign(content, "C-001");
+
+    expect(errors).toEqual([
+      { line: 11, message: 'M1/L2: duration "soon" is not a number of minutes' },
+    ]);
+  });
+
+  it("warns about lesson objectives without a Bloom verb", () => {
+    const content = DESIGN_MD.replace("Explain how session cookies work", "Cookies and sessions");
+    const { design, errors, warnings } = parseDesign(content, "C-001");
+
+    expect(errors).toEqual([]);
+    expect(warnings.map((w) => w.line)).toEqual([11]);
+    expect(design.modules[0].lessons[1].bloomLevel).toBeNull();
+  });
+
+  it("reports modules without lessons and unknown path modules", () => {
+    const content = DESIGN_MD.replace(
+      "## Learning Path",
+      "### M4: Empty\n\n## Learning Path\n\nM3 → M9"
+    );
+    const messages = parseDesign(content, "C-001").errors.map((e) => e.message);
+
+    expect(messages).toContain("M4 has no lessons");
+    expect(messages).toContain("Learning path refers to unknown module M9");
+  });
+
+  it("flags the init template placeholders", () => {
+    const content = DESIGN_MD.replace("| L1 | Auth Basics |", "| L1 | [Title] |");
+    const { errors } = parseDesign(content, "C-001");
+
+    expect(errors).toContainEqual({ line: 10, message: 'Placeholder text "[Title]"' });
+  });
+});
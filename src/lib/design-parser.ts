@@ -0,0 +1,363 @@
+/**
+ * design.md Parser
+ *
+ * Turns a DESIGN phase document into a CourseDesign: modules with their
+ * lesson tables, the learning path, engagement strategy and time budget.
+ * Problems are reported as line-numbered errors.
+ */
+
+import type { CourseDesign, Lesson, Module } from "../types";
+import { analyzeBloomVerb, ENGLISH_VOCABULARY, type BloomVocabulary } from "./bloom";
+import {
+  findPlaceholders,
+  isTableSeparator,
+  labeledFields,
+  sortParseErrors,
+  splitSections,
+  tableCells,
+  type MarkdownSection,
+  type ParseError,
+  type SourceLine,
+} from "./markdown-sections";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Result of parsing design.md.
+ */
+export interface DesignParseResult {
+  design: CourseDesign;
+  errors: ParseError[];
+  /** Problems that do not block an import, such as an unrecognized Bloom verb */
+  warnings: ParseError[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Template placeholders written by `coursekit init` */
+const PLACEHOLDER_PATTERN = /\[(?:Module Name|What learners achieve|Title|Bloom verb \+ outcome|Quiz\/Project for this module|Exercises per module|Discord\/Forum activities|Hands-on projects|TODO[^\]]*)\]/i;
+
+const MODULE_HEADING = /^###\s+(M\d+):\s*(.+?)\s*$/;
+
+/**
+ * Marks an objective that is still to be written. design-writer puts it
+ * where the database has none; it reads back as an empty objective with a
+ * warning.
+ */
+export const PENDING_OBJECTIVE = "(objective to be written)";
+
+/** Stands in for the lesson table of a module without lessons */
+export const PENDING_LESSONS = "_No lessons yet._";
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/**
+ * Parse design.md into a CourseDesign.
+ *
+ * Modules are "### M1: Name (Week 1-2)" headings followed by an optional
+ * "**Objective**:" line, a lesson table (| L1 | Title | 10 min | Objective |)
+ * and an optional "**Assessment**:" line.
+ *
+ * @param content - design.md content
+ * @param courseId - Course the document belongs to
+ * @param vocabulary - Bloom verbs for the course language (defaults to English)
+ * @returns Parsed design, errors and warnings
+ */
+export function parseDesign(
+  content: string,
+  courseId: string,
+  vocabulary: BloomVocabulary = ENGLISH_VOCABULARY
+): DesignParseResult {
+  const errors: ParseError[] = [...findPlaceholders(content, PLACEHOLDER_PATTERN)];
+  const warnings: ParseError[] = [];
+  const sections = splitSections(content);
+
+  const modules = parseModules(content, errors, warnings, vocabulary);
+  if (modules.length === 0) {
+    errors.push({ message: 'No modules found (expected "### M1: Name" headings)' });
+  }
+
+  const design: CourseDesign = {
+    courseId,
+    modules,
+    learningPath: [],
+    engagement: { practicePerModule: 0, communityActivities: [], projects: [] },
+    timeBudget: { videos: 0, exercises: 0, projects: 0, total: 0 },
+  };
+
+  const path = sections.get("learning path");
+  if (path) {
+    design.learningPath = parseLearningPath(path, modules, errors);
+  }
+
+  const engagement = sections.get("engagement strategy");
+  if (engagement) {
+    design.engagement = parseEngagement(engagement);
+  }
+
+  const budget = sections.get("time budget");
+  if (budget) {
+    design.timeBudget = parseTimeBudget(budget, errors);
+  }
+
+  return { design, errors: sortParseErrors(errors), warnings: sortParseErrors(warnings) };
+}
+
+// =============================================================================
+// Modules
+// =============================================================================
+
+function parseModules(
+  content: string,
+  errors: ParseError[],
+  warnings: ParseError[],
+  vocabulary: BloomVocabulary
+): Module[] {
+  const modules: Module[] = [];
+  let current: { module: Module; line: number; body: SourceLine[] } | null = null;
+  let inFence = false;
+
+  const finish = () => {
+    if (!current) return;
+    parseModuleBody(current.module, current.body, errors, warnings, vocabulary);
+    if (current.module.lessons.length === 0) {
+      const pending = current.body.some(({ text }) => text.trim() === PENDING_LESSONS);
+      (pending ? warnings : errors).push({
+        line: current.line,
+        message: `${current.module.id} has no lessons${pending ? " yet" : ""}`,
+      });
+    }
+    modules.push(current.module);
+    current = null;
+  };
+
+  content.split("\n").forEach((text, index) => {
+    const line = index + 1;
+    if (/^\s*```/.test(text)) inFence = !inFence;
+    if (inFence) {
+      current?.body.push({ text, line });
+      return;
+    }
+
+    const heading = text.match(MODULE_HEADING);
+    if (heading) {
+      finish();
+      if (modules.some((m) => m.id === heading[1])) {
+        errors.push({ line, message: `Duplicate module ID ${heading[1]}` });
+      }
+      const week = heading[2].match(/^(.*?)\s*\((Weeks?\s+[^)]+)\)$/i);
+      current = {
+        module: {
+          id: heading[1],
+          name: week ? week[1] : heading[2],
+          objective: "",
+          lessons: [],
+          assessmentType: null,
+          weekRange: week ? week[2] : null,
+        },
+        line,
+        body: [],
+      };
+      return;
+    }
+
+    if (/^#{1,3}\s/.test(text)) {
+      finish();
+      return;
+    }
+
+    current?.body.push({ text, line });
+  });
+  finish();
+
+  return modules;
+}
+
+function parseModuleBody(
+  module: Module,
+  body: SourceLine[],
+  errors: ParseError[],
+  warnings: ParseError[],
+  vocabulary: BloomVocabulary
+): void {
+  const fields = labeledFields(body);
+  const objectiveField = fields.get("objective");
+  if (objectiveField?.text === PENDING_OBJECTIVE) {
+    warnings.push({ line: objectiveField.line, message: `${module.id} objective is still to be written` });
+    module.objective = "";
+  } else {
+    module.objective = objectiveField?.text ?? "";
+  }
+  module.assessmentType = fields.get("assessment")?.text || null;
+
+  for (const { text, line } of body) {
+    const cells = tableCells(text);
+    if (!cells || isTableSeparator(cells) || /^lesson$/i.test(cells[0])) continue;
+
+    const id = cells[0].match(/^L\d+$/)?.[0];
+    if (!id) {
+      errors.push({ line, message: `${module.id}: expected a lesson ID like "L1", got "${cells[0]}"` });
+      continue;
+    }
+    if (module.lessons.some((l) => l.id === id)) {
+      errors.push({ line, message: `${module.id}: duplicate lesson ID ${id}` });
+      continue;
+    }
+
+    const [, title = "", durationCell = "", cell = ""] = cells;
+    const pending = cell === PENDING_OBJECTIVE;
+    const objective = pending ? "" : cell;
+    const duration = durationCell.match(/^(\d+)\s*(?:min(?:utes)?)?$/i);
+    if (!title) {
+      errors.push({ line, message: `${module.id}/${id} has no title` });
+    }
+    if (!duration) {
+      errors.push({ line, message: `${module.id}/${id}: duration "${durationCell}" is not a number of minutes` });
+    }
+
+    const bloom = analyzeBloomVerb(objective, vocabulary);
+    const bloomLevel = bloom.level;
+    if (pending) {
+      warnings.push({ line, message: `${module.id}/${id} objective is still to be written` });
+    } else if (!objective) {
+      errors.push({ line, message: `${module.id}/${id} has no objective` });
+    } else if (bloom.vague) {
+      errors.push({ line, message: `${module.id}/${id} objective uses the non-measurable verb "${bloom.verb}": "${objective}"` });
+    } else if (!bloomLevel) {
+      warnings.push({ line, message: `${module.id}/${id} objective has no recognizable Bloom verb: "${objective}"` });
+    }
+
+    const lesson: Lesson = {
+      id,
+      title,
+      objective,
+      bloomLevel,
+      duration: duration ? parseInt(duration[1], 10) : 0,
+      status: "planned",
+      materialsPath: null,
+      hasPractice: false,
+      hasAssessment: false,
+    };
+    module.lessons.push(lesson);
+  }
+}
+
+// =============================================================================
+// Learning Path
+// =============================================================================
+
+/**
+ * Read dependencies from either an indented tree
+ * (M1 / └─→ M2) or arrow chains (M1 → M2 → M3). Lines marked
+ * "optional" make their incoming edge optional.
+ */
+function parseLearningPath(
+  section: MarkdownSection,
+  modules: Module[],
+  errors: ParseError[]
+): CourseDesign["learningPath"] {
+  const edges: CourseDesign["learningPath"] = [];
+  const known = new Set(modules.map((m) => m.id));
+  const stack: { id: string; indent: number }[] = [];
+
+  for (const { text, line } of section.lines) {
+    const ids = text.match(/\bM\d+\b/g);
+    if (!ids) continue;
+
+    for (const id of ids) {
+      if (!known.has(id)) {
+        errors.push({ line, message: `Learning path refers to unknown module ${id}` });
+      }
+    }
+
+    const optional = /optional/i.test(text);
+
+    // Arrow chain on a single line
+    if (ids.length > 1) {
+      for (let i = 1; i < ids.length; i++) {
+        edges.push({ from: ids[i - 1], to: ids[i], optional });
+      }
+      continue;
+    }
+
+    // Indented tree: parent is the closest line with a smaller indent
+    const indent = text.search(/M\d+/);
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    if (stack.length > 0) {
+      edges.push({ from: stack[stack.length - 1].id, to: ids[0], optional });
+    }
+    stack.push({ id: ids[0], indent });
+  }
+
+  return edges;
+}
+
+// =============================================================================
+// Engagement & Time Budget
+// =============================================================================
+
+function parseEngagement(section: MarkdownSection): CourseDesign["engagement"] {
+  const fields = labeledFields(section.lines);
+  const list = (value?: string) =>
+    (value ?? "")
+      .split(/[,;]/)
+      .map((item) => item.trim())
+      .filter(Boolean);
+
+  const practice = fields.get("practice")?.text.match(/\d+/);
+
+  return {
+    practicePerModule: practice ? parseInt(practice[0], 10) : 0,
+    communityActivities: list(fields.get("community")?.text),
+    projects: list(fields.get("projects")?.text),
+  };
+}
+
+function parseTimeBudget(
+  section: MarkdownSection,
+  errors: ParseError[]
+): CourseDesign["timeBudget"] {
+  const budget = { videos: 0, exercises: 0, projects: 0, total: 0 };
+  let hasTotal = false;
+
+  for (const { text, line } of section.lines) {
+    const cells = tableCells(text);
+    if (!cells || cells.length < 2 || isTableSeparator(cells) || /^component$/i.test(cells[0])) {
+      continue;
+    }
+
+    const label = cells[0].replace(/\*\*/g, "").toLowerCase();
+    const raw = cells[1].replace(/\*\*/g, "").trim();
+    const hours = raw.match(/^(\d+(?:\.\d+)?)\s*(?:h|hours?)?$/i);
+    if (!hours) {
+      errors.push({ line, message: `Time budget for "${cells[0].replace(/\*\*/g, "")}" is not a number of hours: "${raw}"` });
+      continue;
+    }
+
+    const value = parseFloat(hours[1]);
+    if (/total/.test(label)) {
+      budget.total = value;
+      hasTotal = true;
+    } else if (/video|lecture/.test(label)) {
+      budget.videos += value;
+    } else if (/exercise|practice/.test(label)) {
+      budget.exercises += value;
+    } else if (/project/.test(label)) {
+      budget.projects += value;
+    }
+  }
+
+  if (!hasTotal) {
+    budget.total = budget.videos + budget.exercises + budget.projects;
+  }
+
+  return budget;
+}
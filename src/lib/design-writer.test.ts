@@ -0,0 +1,113 @@
+/**
+ * design.md Writer Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { parseDesign, PENDING_LESSONS } from "./design-parser";
+import {
+  formatWeekRange,
+  renderModuleBlock,
+  replaceModuleStructure,
+  type DesignModuleBlock,
+} from "./design-writer";
+
+const MODULES: DesignModuleBlock[] = [
+  {
+    id: "M1",
+    name: "Foundations",
+    objective: "Explain how authentication works",
+    assessmentType: "Quiz",
+    weekRange: "Week 1-2",
+    lessons: [
+      { id: "L1", title: "Auth Basics", objective: "List the types of authentication", duration: 10 },
+      { id: "L2", title: "Cookies | Sessions", objective: "Explain session cookies", duration: 8 },
+    ],
+  },
+];
+
+describe("renderModuleBlock", () => {
+  it("renders a block design-parser reads back", () => {
+    const { design, errors } = parseDesign(renderModuleBlock(MODULES[0]), "C-001");
+
+    expect(errors).toEqual([]);
+    expect(design.modules[0]).toMatchObject({
+      id: "M1",
+      name: "Foundations",
+      weekRange: "Week 1-2",
+      objective: "Explain how authentication works",
+      assessmentType: "Quiz",
+    });
+    expect(design.modules[0].lessons.map((l) => [l.id, l.title, l.duration])).toEqual([
+      ["L1", "Auth Basics", 10],
+      ["L2", "Cookies | Sessions", 8],
+    ]);
+  });
+
+  it("marks missing objectives and lessons so the block still parses", () => {
+    const block = renderModuleBlock({
+      id: "M2",
+      name: "Tokens",
+      objective: null,
+      assessmentType: null,
+      weekRange: null,
+      lessons: [],
+    });
+    const withLesson = renderModuleBlock({
+      ...MODULES[0],
+      lessons: [{ id: "L1", title: "Auth Basics", objective: null, duration: 10 }],
+    });
+    const { design, errors, warnings } = parseDesign(`${withLesson}\n${block}`, "C-001");
+
+    expect(block).toContain(PENDING_LESSONS);
+    expect(errors).toEqual([]);
+    expect(warnings.map((w) => w.message)).toEqual([
+      "M1/L1 objective is still to be written",
+      "M2 has no lessons yet",
+      "M2 objective is still to be written",
+    ]);
+    expect(design.modules[0].lessons[0].objective).toBe("");
+    expect(design.modules[1]).toMatchObject({ objective: "", lessons: [] });
+  });
+});
+
+describe("replaceModuleStructure", () => {
+  it("replaces existing module blocks and keeps other sections", () => {
+    const content = [
+      "# Course Design: Auth",
+      "",
+      "## Module Structure",
+      "",
+      "### M1: Old",
+      "**Objective**: Old objective",
+      "",
+      "### M2: Gone",
+      "",
+      "## Learning Path",
+      "",
+      "M1 → M2",
+      "",
+    ].join("\n");
+
+    const updated = replaceModuleStructure(content, MODULES);
+
+    expect(updated).not.toContain("### M2: Gone");
+    expect(updated).toContain("### M1: Foundations (Week 1-2)");
+    expect(updated).toContain("## Module Structure\n\n### M1");
+    expect(updated).toContain("**Assessment**: Quiz\n\n## Learning Path\n\nM1 → M2");
+  });
+
+  it("adds a Module Structure section when missing", () => {
+    const updated = replaceModuleStructure("# Course Design: Auth\n\n## Time Budget\n", MODULES);
+
+    expect(updated.indexOf("## Module Structure")).toBeLessThan(updated.indexOf("## Time Budget"));
+    expect(parseDesign(updated, "C-001").design.modules).toHaveLength(1);
+  });
+});
+
+describe("formatWeekRange", () => {
+  it("prefixes a bare range and keeps an existing prefix", () => {
+    expect(formatWeekRange("1-2")).toBe("Week 1-2");
+    expect(formatWeekRange("Weeks 3-4")).toBe("Week 3-4");
+    expect(formatWeekRange("  ")).toBeNull();
+  });
+});
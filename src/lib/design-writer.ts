@@ -0,0 +1,133 @@
+/**
+ * design.md Writer
+ *
+ * Render module blocks in the format design-parser reads, and splice them
+ * into an existing design.md without touching the other sections
+ * (learning path, engagement, time budget). Missing objectives and lessons
+ * are written as the parser's pending markers, so the file still parses.
+ */
+
+import { PENDING_LESSONS, PENDING_OBJECTIVE } from "./design-parser";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Module data needed to render a "### M1: Name" block */
+export interface DesignModuleBlock {
+  id: string;
+  name: string;
+  objective: string | null;
+  assessmentType: string | null;
+  weekRange: string | null;
+  lessons: {
+    id: string;
+    title: string;
+    objective: string | null;
+    duration: number;
+  }[];
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Render one module block with its lesson table.
+ *
+ * @param module - Module with lessons
+ * @returns Markdown block ending in a blank line
+ */
+export function renderModuleBlock(module: DesignModuleBlock): string {
+  const lines = [
+    `### ${module.id}: ${module.name}${module.weekRange ? ` (${module.weekRange})` : ""}`,
+    `**Objective**: ${module.objective || PENDING_OBJECTIVE}`,
+    "",
+    ...(module.lessons.length > 0
+      ? [
+          "| Lesson | Title | Duration | Objective |",
+          "|--------|-------|----------|-----------|",
+          ...module.lessons.map(
+            (l) => `| ${l.id} | ${cell(l.title)} | ${l.duration} min | ${cell(l.objective || PENDING_OBJECTIVE)} |`
+          ),
+        ]
+      : [PENDING_LESSONS]),
+    "",
+  ];
+
+  if (module.assessmentType) {
+    lines.push(`**Assessment**: ${module.assessmentType}`, "");
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Normalize a week range to the "(Week 1-2)" form design.md uses:
+ * "1-2" and "Weeks 1-2" both become "Week 1-2".
+ *
+ * @returns Week range, or null for an empty value
+ */
+export function formatWeekRange(weeks: string | undefined): string | null {
+  const value = weeks?.trim();
+  if (!value) return null;
+  return `Week ${value.replace(/^weeks?\s*/i, "")}`;
+}
+
+/**
+ * Replace the module blocks in design.md.
+ *
+ * Everything from the first "### M1:" heading up to the next "## "
+ * heading is replaced. Without module blocks, they are inserted after
+ * "## Module Structure", or a new section is added before the second
+ * "## " heading (or at the end).
+ *
+ * @param content - Existing design.md content
+ * @param modules - Modules to write, in order
+ * @returns Updated design.md content
+ */
+export function replaceModuleStructure(
+  content: string,
+  modules: DesignModuleBlock[]
+): string {
+  const lines = content.split("\n");
+  const rendered = modules.map(renderModuleBlock).join("").replace(/\n+$/, "");
+  const isH2 = (text: string) => /^##\s/.test(text);
+
+  let start = lines.findIndex((text) => /^###\s+M\d+:/.test(text));
+  let end: number;
+
+  if (start !== -1) {
+    end = lines.findIndex((text, i) => i > start && isH2(text));
+    if (end === -1) end = lines.length;
+  } else {
+    const heading = lines.findIndex((text) => /^##\s+Module Structure\s*$/i.test(text));
+    if (heading !== -1) {
+      start = heading + 1;
+      end = lines.findIndex((text, i) => i > heading && isH2(text));
+      if (end === -1) end = lines.length;
+    } else {
+      const firstH2 = lines.findIndex(isH2);
+      start = end = firstH2 === -1 ? lines.length : firstH2;
+      return [
+        ...lines.slice(0, start),
+        "## Module Structure",
+        "",
+        rendered,
+        "",
+        ...lines.slice(end),
+      ].join("\n");
+    }
+  }
+
+  // Keep non-module text between "## Module Structure" and the blocks
+  const before = lines.slice(0, start);
+  const after = lines.slice(end);
+  const blank = start > 0 && before[before.length - 1].trim() !== "" ? [""] : [];
+
+  return [...before, ...blank, rendered, ...(after.length > 0 ? ["", ...after] : [""])].join("\n");
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
@@ -0,0 +1,135 @@
+/**
+ * Development Task Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  applyTaskStatuses,
+  diffTaskChecklist,
+  nextTaskNumber,
+  parseTaskChecklist,
+  planTasks,
+  renderTaskCheckboxes,
+} from "./develop-tasks";
+import type { DevelopmentTask, TaskStatus, TaskType } from "../types";
+
+function task(id: string, lessonPath: string, type: TaskType, status: TaskStatus = "pending"): DevelopmentTask {
+  return { id, lessonPath, type, description: "", status, blockedReason: null };
+}
+
+const DEVELOP_MD = `# Development Tasks: C-001
+
+## Task Legend
+
+- [x] Script: not a task, outside any lesson
+
+## M1: Basics
+
+### M1/L1: Intro
+
+- [x] Script
+- [ ] Slides
+- [ ] Exercise (pair work)
+- [X] Assessment
+- [ ] Support materials
+- [ ] Ask Sam about the demo
+
+## Notes
+
+- [x] Slides template agreed
+`;
+
+describe("planTasks", () => {
+  it("creates one task per type for each lesson", () => {
+    const tasks = planTasks([{ path: "M1/L1", title: "Intro" }], []);
+
+    expect(tasks.map((t) => `${t.id}:${t.type}`)).toEqual([
+      "T1:script",
+      "T2:slides",
+      "T3:exercise",
+      "T4:assessment",
+      "T5:support",
+    ]);
+    expect(tasks[0].description).toBe("Script for M1/L1: Intro");
+    expect(tasks.every((t) => t.status === "pending")).toBe(true);
+  });
+
+  it("skips existing tasks and numbers after the highest ID", () => {
+    const existing = planTasks([{ path: "M1/L1", title: "Intro" }], []);
+    existing.pop();
+    existing.push(task("T9", "M1/L1", "support", "completed"));
+
+    const tasks = planTasks(
+      [
+        { path: "M1/L1", title: "Intro" },
+        { path: "M1/L2", title: "Next" },
+      ],
+      existing
+    );
+
+    expect(tasks).toHaveLength(5);
+    expect(tasks.every((t) => t.lessonPath === "M1/L2")).toBe(true);
+    expect(tasks[0].id).toBe("T10");
+  });
+});
+
+describe("task IDs", () => {
+  it("finds the next number, ignoring IDs in other formats", () => {
+    expect(nextTaskNumber([])).toBe(1);
+    expect(nextTaskNumber(["T2", "T10", "legacy"])).toBe(11);
+  });
+});
+
+describe("parseTaskChecklist", () => {
+  it("reads checkboxes under lesson headings only", () => {
+    const items = parseTaskChecklist(DEVELOP_MD);
+
+    expect(items.map((i) => `${i.lessonPath}:${i.type}:${i.checked}`)).toEqual([
+      "M1/L1:script:true",
+      "M1/L1:slides:false",
+      "M1/L1:exercise:false",
+      "M1/L1:assessment:true",
+      "M1/L1:support:false",
+    ]);
+    expect(items[0].line).toBe(11);
+  });
+});
+
+describe("diffTaskChecklist", () => {
+  it("completes ticked tasks and reopens unticked completed ones", () => {
+    const tasks = [
+      task("T1", "M1/L1", "script", "in_progress"),
+      task("T2", "M1/L1", "slides", "completed"),
+      task("T3", "M1/L1", "exercise", "blocked"),
+      task("T4", "M1/L1", "assessment", "completed"),
+    ];
+
+    const changes = diffTaskChecklist(parseTaskChecklist(DEVELOP_MD), tasks);
+
+    expect(changes.map((c) => `${c.task.id}:${c.status}`)).toEqual(["T1:completed", "T2:pending"]);
+  });
+});
+
+describe("applyTaskStatuses", () => {
+  it("sets boxes from task status and keeps the rest of the line", () => {
+    const tasks = [
+      task("T1", "M1/L1", "script", "pending"),
+      task("T3", "M1/L1", "exercise", "completed"),
+    ];
+
+    const updated = applyTaskStatuses(DEVELOP_MD, tasks);
+
+    expect(updated).toContain("- [ ] Script\n");
+    expect(updated).toContain("- [x] Exercise (pair work)\n");
+    expect(updated).toContain("- [X] Assessment\n");
+    expect(updated).toContain("- [x] Script: not a task, outside any lesson");
+    expect(diffTaskChecklist(parseTaskChecklist(updated), tasks)).toEqual([]);
+  });
+});
+
+describe("renderTaskCheckboxes", () => {
+  it("ticks completed tasks", () => {
+    const rendered = renderTaskCheckboxes("M1/L1", [task("T2", "M1/L1", "slides", "completed")]);
+    expect(rendered.split("\n").slice(0, 2)).toEqual(["- [ ] Script", "- [x] Slides"]);
+  });
+});
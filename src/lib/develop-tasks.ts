@@ -0,0 +1,205 @@
+/**
+ * Development Tasks
+ *
+ * Plan the per-lesson task rows created by `develop` and keep them in step
+ * with the checkboxes in develop.md. Tasks are numbered T1, T2, ... per
+ * course; develop.md lists them under "### M1/L2: Title" headings as
+ * "- [ ] Script", "- [x] Slides", ...
+ */
+
+import type { DevelopmentTask, TaskStatus, TaskType } from "../types";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Task types in the order they appear for each lesson */
+export const TASK_TYPES: TaskType[] = ["script", "slides", "exercise", "assessment", "support"];
+
+/** Checkbox labels in develop.md */
+export const TASK_LABELS: Record<TaskType, string> = {
+  script: "Script",
+  slides: "Slides",
+  exercise: "Exercise",
+  assessment: "Assessment",
+  support: "Support materials",
+};
+
+export const TASK_STATUSES: TaskStatus[] = ["pending", "in_progress", "completed", "blocked"];
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+/** A lesson that needs development tasks */
+export interface TaskLesson {
+  /** "M1/L2" */
+  path: string;
+  title: string;
+}
+
+/**
+ * Tasks to create so every lesson has one task of each type.
+ *
+ * Existing tasks are matched by lesson path and type and left alone; new
+ * ones are numbered after the highest existing ID.
+ *
+ * @param lessons - Lessons in course order
+ * @param existing - Tasks already stored for the course
+ * @returns New pending tasks, in lesson and type order
+ */
+export function planTasks(lessons: TaskLesson[], existing: DevelopmentTask[]): DevelopmentTask[] {
+  const present = new Set(existing.map((task) => `${task.lessonPath}#${task.type}`));
+  let next = nextTaskNumber(existing.map((task) => task.id));
+
+  const tasks: DevelopmentTask[] = [];
+  for (const lesson of lessons) {
+    for (const type of TASK_TYPES) {
+      if (present.has(`${lesson.path}#${type}`)) continue;
+      tasks.push({
+        id: `T${next++}`,
+        lessonPath: lesson.path,
+        type,
+        description: `${TASK_LABELS[type]} for ${lesson.path}: ${lesson.title}`,
+        status: "pending",
+        blockedReason: null,
+      });
+    }
+  }
+  return tasks;
+}
+
+/**
+ * Number for the next task ID (1 when there are none).
+ */
+export function nextTaskNumber(ids: string[]): number {
+  const numbers = ids
+    .map((id) => /^T(\d+)$/.exec(id))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => parseInt(match[1], 10));
+  return numbers.length > 0 ? Math.max(...numbers) + 1 : 1;
+}
+
+// =============================================================================
+// develop.md Checkboxes
+// =============================================================================
+
+/** A task checkbox found in develop.md */
+export interface ChecklistItem {
+  /** 1-based line number */
+  line: number;
+  lessonPath: string;
+  type: TaskType;
+  checked: boolean;
+}
+
+/** A status change implied by develop.md */
+export interface ChecklistChange {
+  task: DevelopmentTask;
+  status: TaskStatus;
+}
+
+const LESSON_HEADING = /^###\s+(M\d+\/L\d+)\b/;
+const CHECKBOX = /^(\s*[-*]\s+\[)([ xX])(\]\s+)(.*)$/;
+
+/**
+ * Read the task checkboxes from develop.md.
+ *
+ * Checkboxes outside a lesson heading or with an unknown label are
+ * skipped.
+ */
+export function parseTaskChecklist(content: string): ChecklistItem[] {
+  const items: ChecklistItem[] = [];
+  let lessonPath: string | null = null;
+
+  content.split("\n").forEach((text, index) => {
+    const heading = LESSON_HEADING.exec(text);
+    if (heading) {
+      lessonPath = heading[1];
+      return;
+    }
+    if (/^#{1,2}\s/.test(text)) {
+      lessonPath = null;
+      return;
+    }
+
+    const checkbox = CHECKBOX.exec(text);
+    if (!checkbox || !lessonPath) return;
+
+    const type = labelToType(checkbox[4]);
+    if (type) {
+      items.push({ line: index + 1, lessonPath, type, checked: checkbox[2] !== " " });
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Status changes that bring tasks in line with develop.md.
+ *
+ * A ticked box completes its task; an unticked box reopens a completed
+ * task as pending. In-progress and blocked tasks with an unticked box
+ * keep their status.
+ *
+ * @param items - Checkboxes from parseTaskChecklist
+ * @param tasks - Tasks stored for the course
+ */
+export function diffTaskChecklist(items: ChecklistItem[], tasks: DevelopmentTask[]): ChecklistChange[] {
+  const byKey = new Map(tasks.map((task) => [`${task.lessonPath}#${task.type}`, task]));
+  const changes: ChecklistChange[] = [];
+
+  for (const item of items) {
+    const task = byKey.get(`${item.lessonPath}#${item.type}`);
+    if (!task) continue;
+
+    if (item.checked && task.status !== "completed") {
+      changes.push({ task, status: "completed" });
+    } else if (!item.checked && task.status === "completed") {
+      changes.push({ task, status: "pending" });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Tick or untick the checkboxes in develop.md to match task statuses.
+ *
+ * Only the box itself changes; the rest of each line is kept.
+ */
+export function applyTaskStatuses(content: string, tasks: DevelopmentTask[]): string {
+  const byKey = new Map(tasks.map((task) => [`${task.lessonPath}#${task.type}`, task]));
+  const items = new Map(parseTaskChecklist(content).map((item) => [item.line, item]));
+
+  return content
+    .split("\n")
+    .map((text, index) => {
+      const item = items.get(index + 1);
+      const task = item && byKey.get(`${item.lessonPath}#${item.type}`);
+      if (!task) return text;
+      const mark = task.status === "completed" ? "x" : " ";
+      return text.replace(CHECKBOX, (_, open, _mark, close, rest) => `${open}${mark}${close}${rest}`);
+    })
+    .join("\n");
+}
+
+/**
+ * Render the checkbox lines for one lesson.
+ */
+export function renderTaskCheckboxes(lessonPath: string, tasks: DevelopmentTask[]): string {
+  return TASK_TYPES.map((type) => {
+    const task = tasks.find((t) => t.lessonPath === lessonPath && t.type === type);
+    return `- [${task?.status === "completed" ? "x" : " "}] ${TASK_LABELS[type]}\n`;
+  }).join("");
+}
+
+function labelToType(label: string): TaskType | null {
+  const normalized = label.trim().toLowerCase();
+  for (const type of TASK_TYPES) {
+    const expected = TASK_LABELS[type].toLowerCase();
+    if (normalized === type || normalized.startsWith(expected) || normalized.startsWith(`${type} `)) {
+      return type;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,122 @@
+/**
+ * Lesson Drafting Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  buildDraftPrompt,
+  buildScriptScaffold,
+  countTodoMarkers,
+  isScriptDrafted,
+  scriptPath,
+  splitLessonTime,
+  type DraftContext,
+} from "./draft";
+
+function createContext(overrides: Partial<DraftContext["lesson"]> = {}): DraftContext {
+  return {
+    course: { id: "C-001", name: "Auth Fundamentals", context: "online" },
+    module: { id: "M1", name: "Foundations", objective: "Understand auth basics" },
+    lesson: {
+      id: "L2",
+      title: "JWT in Practice",
+      objective: "Implement JWT authentication in an API",
+      duration: 20,
+      bloomLevel: "apply",
+      ...overrides,
+    },
+  };
+}
+
+describe("splitLessonTime", () => {
+  it("splits 10/70/15/5", () => {
+    expect(splitLessonTime(20)).toEqual({ hook: 2, core: 14, practice: 3, wrapUp: 1 });
+  });
+
+  it("rounds to half minutes and keeps the total", () => {
+    const split = splitLessonTime(7);
+    expect(split.hook).toBe(0.5);
+    expect(split.practice).toBe(1);
+    expect(split.wrapUp).toBe(0.5);
+    expect(split.hook + split.core + split.practice + split.wrapUp).toBe(7);
+  });
+});
+
+describe("scriptPath", () => {
+  it("places scripts under materials/<module>/<lesson>", () => {
+    expect(scriptPath("/courses/c-001", "M1", "L2")).toBe(
+      "/courses/c-001/materials/M1/L2/script.md"
+    );
+  });
+});
+
+describe("buildDraftPrompt", () => {
+  it("includes lesson details and time budget", () => {
+    const prompt = buildDraftPrompt(createContext());
+
+    expect(prompt).toContain("Lesson: L2 - JWT in Practice");
+    expect(prompt).toContain("Implement JWT authentication in an API");
+    expect(prompt).toContain("Bloom level: apply");
+    expect(prompt).toContain("**Hook** (2 min)");
+    expect(prompt).toContain("**Core Content** (14 min): demonstrations");
+  });
+
+  it("embeds define.md and design.md when present", () => {
+    const prompt = buildDraftPrompt({
+      ...createContext(),
+      defineContent: "# Course Definition\nAudience: developers",
+      designContent: "# Course Design\n### M1: Foundations",
+    });
+
+    expect(prompt).toContain("## Course Definition (define.md)");
+    expect(prompt).toContain("Audience: developers");
+    expect(prompt).toContain("## Course Design (design.md)");
+  });
+
+  it("omits phase documents when empty", () => {
+    const prompt = buildDraftPrompt({ ...createContext(), defineContent: "  " });
+    expect(prompt).not.toContain("define.md)");
+  });
+});
+
+describe("buildScriptScaffold", () => {
+  it("creates the four timed sections", () => {
+    const scaffold = buildScriptScaffold(createContext());
+
+    expect(scaffold).toContain("# M1/L2: JWT in Practice");
+    expect(scaffold).toContain("## Hook (2 min)");
+    expect(scaffold).toContain("## Core Content (14 min)");
+    expect(scaffold).toContain("## Practice (3 min)");
+    expect(scaffold).toContain("## Wrap-up (1 min)");
+    expect(countTodoMarkers(scaffold)).toBe(4);
+  });
+
+  it("adds markers for a missing objective and Bloom level", () => {
+    const scaffold = buildScriptScaffold(createContext({ objective: null, bloomLevel: null }));
+    expect(countTodoMarkers(scaffold)).toBe(6);
+  });
+});
+
+describe("isScriptDrafted", () => {
+  it("is false for a fresh scaffold", () => {
+    expect(isScriptDrafted(buildScriptScaffold(createContext()))).toBe(false);
+  });
+
+  it("is true once every section is filled in", () => {
+    const content = buildScriptScaffold(createContext()).replace(
+      /\[TODO:[^\]]*\]/g,
+      "Written content."
+    );
+    expect(isScriptDrafted(content)).toBe(true);
+  });
+
+  it("is false when a section is empty", () => {
+    const content = "# Lesson\n\n## Hook (1 min)\n\nHello\n\n## Practice (2 min)\n\n";
+    expect(isScriptDrafted(content)).toBe(false);
+  });
+
+  it("accepts free-form scripts without sections", () => {
+    expect(isScriptDrafted("Just a script.")).toBe(true);
+    expect(isScriptDrafted("   ")).toBe(false);
+  });
+});
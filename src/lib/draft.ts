@@ -0,0 +1,228 @@
+/**
+ * Lesson Drafting
+ *
+ * Build drafting prompts and script.md scaffolds for a lesson, and
+ * detect when a scaffold has been filled in.
+ */
+
+import { join } from "path";
+import type { BloomLevel, CourseContext } from "../types";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Everything needed to draft a single lesson.
+ */
+export interface DraftContext {
+  course: { id: string; name: string; context: CourseContext };
+  module: { id: string; name: string; objective: string | null };
+  lesson: {
+    id: string;
+    title: string;
+    objective: string | null;
+    duration: number;
+    bloomLevel: BloomLevel | null;
+  };
+  /** Contents of define.md (empty if missing) */
+  defineContent?: string;
+  /** Contents of design.md (empty if missing) */
+  designContent?: string;
+}
+
+/**
+ * Minutes allotted to each part of a lesson.
+ */
+export interface LessonTimeSplit {
+  hook: number;
+  core: number;
+  practice: number;
+  wrapUp: number;
+}
+
+// =============================================================================
+// Time Budget
+// =============================================================================
+
+/** Lesson time split from the README: hook 10%, core 70%, practice 15%, wrap-up 5% */
+export const TIME_SPLIT: LessonTimeSplit = {
+  hook: 0.1,
+  core: 0.7,
+  practice: 0.15,
+  wrapUp: 0.05,
+};
+
+/**
+ * Split a lesson duration into hook/core/practice/wrap-up minutes.
+ * Parts are rounded to half minutes; rounding drift goes to core content
+ * so the parts always add up to the full duration.
+ *
+ * @param duration - Lesson duration in minutes
+ * @returns Minutes per section
+ */
+export function splitLessonTime(duration: number): LessonTimeSplit {
+  const roundHalf = (n: number) => Math.round(n * 2) / 2;
+  const hook = roundHalf(duration * TIME_SPLIT.hook);
+  const practice = roundHalf(duration * TIME_SPLIT.practice);
+  const wrapUp = roundHalf(duration * TIME_SPLIT.wrapUp);
+  const core = duration - hook - practice - wrapUp;
+
+  return { hook, core, practice, wrapUp };
+}
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+/**
+ * Path to a lesson's script file: <course>/materials/M1/L2/script.md
+ */
+export function scriptPath(coursePath: string, moduleId: string, lessonId: string): string {
+  return join(coursePath, "materials", moduleId, lessonId, "script.md");
+}
+
+// =============================================================================
+// Prompt
+// =============================================================================
+
+/** Core-content guidance per Bloom level (see prompts/draft-lesson.md) */
+const CORE_GUIDANCE: Record<BloomLevel, string> = {
+  remember: "definitions with examples, comparisons, and visual aids",
+  understand: "definitions with examples, comparisons, and visual aids",
+  apply: "demonstrations, step-by-step walkthroughs, and real-world scenarios",
+  analyze: "demonstrations, step-by-step walkthroughs, and real-world scenarios",
+  evaluate: "case studies, decision frameworks, and design exercises",
+  create: "case studies, decision frameworks, and design exercises",
+};
+
+/**
+ * Build the full drafting prompt for a lesson.
+ *
+ * @param ctx - Course, module, lesson and phase documents
+ * @returns Prompt text
+ */
+export function buildDraftPrompt(ctx: DraftContext): string {
+  const { course, module, lesson } = ctx;
+  const time = splitLessonTime(lesson.duration);
+  const level = lesson.bloomLevel;
+  const format = course.context === "online"
+    ? "self-paced online video"
+    : "university lecture";
+
+  const sections: string[] = [
+    `# CourseKit: Draft Lesson Content`,
+    "",
+    `Course: ${course.name} (${course.id}), ${format}`,
+    `Module: ${module.id} - ${module.name}`,
+    ...(module.objective ? [`Module objective: ${module.objective}`] : []),
+    `Lesson: ${lesson.id} - ${lesson.title}`,
+    "",
+    `## Learning Objective`,
+    lesson.objective || "[Please specify the learning objective]",
+    ...(level ? ["", `Bloom level: ${level}`] : []),
+    "",
+    `## Duration Target`,
+    `${lesson.duration} minutes`,
+  ];
+
+  if (ctx.defineContent?.trim()) {
+    sections.push("", "## Course Definition (define.md)", "", ctx.defineContent.trim());
+  }
+  if (ctx.designContent?.trim()) {
+    sections.push("", "## Course Design (design.md)", "", ctx.designContent.trim());
+  }
+
+  sections.push(
+    "",
+    "---",
+    "",
+    "Please draft the lesson script with these sections:",
+    "",
+    `1. **Hook** (${time.hook} min): problem statement, why this matters, what learners will be able to do`,
+    `2. **Core Content** (${time.core} min): ${level ? CORE_GUIDANCE[level] : "content matched to the objective's Bloom level"}`,
+    `3. **Practice** (${time.practice} min): hands-on exercise with clear success criteria`,
+    `4. **Wrap-up** (${time.wrapUp} min): up to 3 key takeaways, link to the next lesson, call to action`,
+    "",
+    "Format the output as a complete script.md using the same section headings.",
+    ""
+  );
+
+  return sections.join("\n");
+}
+
+// =============================================================================
+// Scaffold
+// =============================================================================
+
+/** Marker prefix for unfilled scaffold sections */
+export const TODO_MARKER = "[TODO:";
+
+/**
+ * Build a script.md scaffold with sections sized to the lesson time split.
+ *
+ * @param ctx - Course, module and lesson details
+ * @returns Markdown scaffold
+ */
+export function buildScriptScaffold(ctx: DraftContext): string {
+  const { module, lesson } = ctx;
+  const time = splitLessonTime(lesson.duration);
+
+  return `# ${module.id}/${lesson.id}: ${lesson.title}
+
+**Objective**: ${lesson.objective || "[TODO: learning objective with Bloom verb]"}
+**Duration**: ${lesson.duration} minutes
+**Bloom Level**: ${lesson.bloomLevel || "[TODO: Bloom level]"}
+
+---
+
+## Hook (${time.hook} min)
+
+[TODO: Hook or problem statement. Why does this matter to learners?]
+
+## Core Content (${time.core} min)
+
+[TODO: Core content${lesson.bloomLevel ? ` - ${CORE_GUIDANCE[lesson.bloomLevel]}` : ""}]
+
+## Practice (${time.practice} min)
+
+[TODO: Hands-on exercise with clear success criteria]
+
+## Wrap-up (${time.wrapUp} min)
+
+[TODO: Up to 3 key takeaways and a link to the next lesson]
+`;
+}
+
+/**
+ * Count unfilled scaffold markers in a script.
+ *
+ * @param content - script.md content
+ * @returns Number of remaining [TODO: ...] markers
+ */
+export function countTodoMarkers(content: string): number {
+  return content.split(TODO_MARKER).length - 1;
+}
+
+/**
+ * Check whether a script has been filled in: no scaffold markers remain
+ * and every section has content.
+ *
+ * @param content - script.md content
+ * @returns True if the script counts as drafted
+ */
+export function isScriptDrafted(content: string): boolean {
+  if (countTodoMarkers(content) > 0) {
+    return false;
+  }
+
+  const sections = content.split(/^## /m).slice(1);
+  if (sections.length === 0) {
+    return content.trim().length > 0;
+  }
+
+  return sections.every((section) => {
+    const body = section.split("\n").slice(1).join("\n").trim();
+    return body.length > 0;
+  });
+}
@@ -329,6 +329,27 @@ title: Setup Guide
     expect(current).toBe(sourceContent);
   });
 
+  it("skips guides deleted from the platform unless force flag is set", async () => {
+    const content = `---
+title: Setup Guide
+---
+
+# Setup`;
+
+    await createMaterialsGuide(platformDir, "module-01", "guide-setup.md", content);
+    await executeGuideSync(config, {});
+    const targetPath = buildGuideTargetPath(platformDir, "setup");
+    await fs.promises.rm(targetPath);
+
+    const result = await executeGuideSync(config, {});
+    expect(result.skipped).toEqual(["guides/setup"]);
+    expect(fs.existsSync(targetPath)).toBe(false);
+
+    const forced = await executeGuideSync(config, { force: true });
+    expect(forced.created).toEqual(["guides/setup"]);
+    expect(fs.existsSync(targetPath)).toBe(true);
+  });
+
   it("does not write files in dry-run mode", async () => {
     await createMaterialsGuide(
       platformDir,
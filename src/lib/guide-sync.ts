@@ -20,6 +20,7 @@ import {
   updateSyncRecord,
   getSyncRecord,
 } from "./sync-state";
+import { detectConflicts } from "./conflict-detection";
 import { hashContent } from "./platform-utils";
 import { normalizeContent } from "./diff-utils";
 
@@ -100,17 +101,6 @@ function calculateGuideHash(content: string): string {
   return hashContent(normalizeContent(body));
 }
 
-/**
- * Read content and calculate hash from a file path.
- *
- * @param filePath - Path to file
- * @returns Content hash
- */
-async function getFileHash(filePath: string): Promise<string> {
-  const content = await Bun.file(filePath).text();
-  return calculateGuideHash(content);
-}
-
 // =============================================================================
 // Core Sync Execution
 // =============================================================================
@@ -164,6 +154,10 @@ export async function executeGuideSync(
   // Load sync state
   const syncState = await loadSyncState(platformRoot);
 
+  // Check for conflicts; guides are not tied to a course
+  const detection = await detectConflicts(config, { contentTypes: ["guide"] });
+  const conflictKeys = new Set(detection.conflicts.map((c) => c.key));
+
   // Process each guide
   for (const guide of manifest.guides) {
     const key = `guides/${guide.slug}`;
@@ -182,34 +176,22 @@ export async function executeGuideSync(
     // Determine action
     let action: "create" | "update" | "unchanged" | "skip";
 
-    if (!targetExists) {
-      // New file - create
-      action = "create";
-    } else if (!syncRecord) {
-      // File exists but no sync record - treat as conflict
+    if (conflictKeys.has(key)) {
+      // Edited, deleted or never synced on the platform
       if (force) {
-        action = "update";
+        action = targetExists ? "update" : "create";
       } else {
         action = "skip";
       }
+    } else if (!targetExists) {
+      // New file - create
+      action = "create";
+    } else if (sourceHash === syncRecord?.contentHash) {
+      // Source unchanged since last sync
+      action = "unchanged";
     } else {
-      // Check if platform was modified
-      const currentPlatformHash = await getFileHash(targetPath);
-
-      if (currentPlatformHash !== syncRecord.contentHash) {
-        // Platform was modified - conflict
-        if (force) {
-          action = "update";
-        } else {
-          action = "skip";
-        }
-      } else if (sourceHash === syncRecord.contentHash) {
-        // Source unchanged since last sync
-        action = "unchanged";
-      } else {
-        // Source changed, platform unchanged - safe to update
-        action = "update";
-      }
+      // Source changed, platform unchanged - safe to update
+      action = "update";
     }
 
     // Execute action
@@ -0,0 +1,65 @@
+/**
+ * Lesson Status Transition Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { checkTransition, formatDuration, summarizeCycleTime } from "./lesson-status";
+import type { LessonStatus, LessonStatusChange } from "../types";
+
+function change(fromStatus: LessonStatus, toStatus: LessonStatus, changedAt: string): LessonStatusChange {
+  return { lessonPath: "M1/L1", fromStatus, toStatus, note: null, forced: false, changedAt: new Date(changedAt) };
+}
+
+describe("checkTransition", () => {
+  it("allows one step forward", () => {
+    expect(checkTransition("planned", "drafted")).toEqual({ kind: "advance", allowed: true });
+    expect(checkTransition("edited", "published")).toEqual({ kind: "advance", allowed: true });
+  });
+
+  it("allows one step back as a rollback", () => {
+    expect(checkTransition("published", "edited")).toEqual({ kind: "rollback", allowed: true });
+    expect(checkTransition("drafted", "planned")).toEqual({ kind: "rollback", allowed: true });
+  });
+
+  it("rejects jumps in either direction", () => {
+    expect(checkTransition("planned", "published")).toEqual({ kind: "jump", allowed: false });
+    expect(checkTransition("edited", "drafted")).toEqual({ kind: "jump", allowed: false });
+  });
+
+  it("reports an unchanged status", () => {
+    expect(checkTransition("recorded", "recorded").kind).toBe("unchanged");
+  });
+});
+
+describe("summarizeCycleTime", () => {
+  const history = [
+    change("planned", "drafted", "2026-03-01T09:00:00Z"),
+    change("drafted", "recorded", "2026-03-03T09:00:00Z"),
+    change("recorded", "edited", "2026-03-03T12:00:00Z"),
+    change("edited", "published", "2026-03-05T09:00:00Z"),
+  ];
+
+  it("measures time in each status and from start to publication", () => {
+    const cycle = summarizeCycleTime(history, new Date("2026-03-10T09:00:00Z"));
+
+    expect(cycle.periods.map((p) => [p.status, formatDuration(p.durationMs)])).toEqual([
+      ["drafted", "2d 0h"],
+      ["recorded", "3h 0m"],
+      ["edited", "1d 21h"],
+      ["published", "5d 0h"],
+    ]);
+    expect(cycle.periods[3].leftAt).toBeNull();
+    expect(formatDuration(cycle.durationMs!)).toBe("4d 0h");
+  });
+
+  it("runs to now for unpublished lessons", () => {
+    const cycle = summarizeCycleTime(history.slice(0, 2), new Date("2026-03-04T09:00:00Z"));
+
+    expect(cycle.publishedAt).toBeNull();
+    expect(formatDuration(cycle.durationMs!)).toBe("3d 0h");
+  });
+
+  it("has no cycle time without a change out of planned", () => {
+    expect(summarizeCycleTime([]).durationMs).toBeNull();
+  });
+});
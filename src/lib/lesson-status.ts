@@ -0,0 +1,124 @@
+/**
+ * Lesson Status Transitions
+ *
+ * Lessons move planned → drafted → recorded → edited → published one step
+ * at a time. Each status can also roll back one step (a script needs
+ * rework, a recording is redone). Anything else is a jump that needs to be
+ * forced.
+ */
+
+import type { LessonStatus, LessonStatusChange } from "../types";
+
+// =============================================================================
+// Transitions
+// =============================================================================
+
+/** Lesson statuses in workflow order */
+export const LESSON_STATUSES: LessonStatus[] = ["planned", "drafted", "recorded", "edited", "published"];
+
+/** Allowed next statuses: the following step, then the rollback */
+export const LESSON_TRANSITIONS: Record<LessonStatus, LessonStatus[]> = {
+  planned: ["drafted"],
+  drafted: ["recorded", "planned"],
+  recorded: ["edited", "drafted"],
+  edited: ["published", "recorded"],
+  published: ["edited"],
+};
+
+export type TransitionKind = "advance" | "rollback" | "jump" | "unchanged";
+
+/** How a status change relates to the allowed transitions */
+export interface TransitionCheck {
+  kind: TransitionKind;
+  /** True for advance and rollback */
+  allowed: boolean;
+}
+
+/**
+ * Check whether a lesson may move from one status to another.
+ */
+export function checkTransition(from: LessonStatus, to: LessonStatus): TransitionCheck {
+  if (from === to) {
+    return { kind: "unchanged", allowed: false };
+  }
+  if (LESSON_TRANSITIONS[from].includes(to)) {
+    const rollback = LESSON_STATUSES.indexOf(to) < LESSON_STATUSES.indexOf(from);
+    return { kind: rollback ? "rollback" : "advance", allowed: true };
+  }
+  return { kind: "jump", allowed: false };
+}
+
+export function isLessonStatus(value: string): value is LessonStatus {
+  return (LESSON_STATUSES as string[]).includes(value);
+}
+
+// =============================================================================
+// Cycle Time
+// =============================================================================
+
+/** A stretch of time a lesson spent in one status */
+export interface StatusPeriod {
+  status: LessonStatus;
+  enteredAt: Date;
+  /** Null while the lesson is still in this status */
+  leftAt: Date | null;
+  /** Milliseconds in the status (up to now for the current one) */
+  durationMs: number;
+}
+
+/** Time from the first change out of planned to publication */
+export interface CycleTime {
+  periods: StatusPeriod[];
+  startedAt: Date | null;
+  publishedAt: Date | null;
+  /** Milliseconds from start to publication (or to now if unpublished) */
+  durationMs: number | null;
+}
+
+/**
+ * Turn a lesson's status history into periods per status and an overall
+ * cycle time.
+ *
+ * The period before the first recorded change has no known start and is
+ * left out. Publication is the last change to published.
+ *
+ * @param history - Changes, oldest first
+ * @param now - End of the current period
+ */
+export function summarizeCycleTime(history: LessonStatusChange[], now: Date = new Date()): CycleTime {
+  const periods: StatusPeriod[] = history.map((change, index) => {
+    const next = history[index + 1];
+    const leftAt = next ? next.changedAt : null;
+    return {
+      status: change.toStatus,
+      enteredAt: change.changedAt,
+      leftAt,
+      durationMs: (leftAt ?? now).getTime() - change.changedAt.getTime(),
+    };
+  });
+
+  const startedAt = history.find((change) => change.fromStatus === "planned")?.changedAt ?? null;
+  const last = history[history.length - 1];
+  const publishedAt = last?.toStatus === "published" ? last.changedAt : null;
+
+  return {
+    periods,
+    startedAt,
+    publishedAt,
+    durationMs: startedAt ? (publishedAt ?? now).getTime() - startedAt.getTime() : null,
+  };
+}
+
+/**
+ * Format milliseconds as "3d 4h", "2h 15m" or "5m".
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const rest = minutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${rest}m`;
+  return `${rest}m`;
+}
@@ -6,7 +6,12 @@
 import { describe, expect, it, beforeEach, afterEach } from "bun:test";
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { executeLessonSync, writeLessonFile, buildTargetPath } from "./lesson-sync";
+import {
+  executeLessonSync,
+  writeLessonFile,
+  buildTargetPath,
+  buildConflictPath,
+} from "./lesson-sync";
 import { loadSyncState, saveSyncState, initializeSyncState } from "./sync-state";
 import type { CourseKitConfig, SyncOptions } from "../types";
 
@@ -504,3 +509,92 @@ title: Other Course Intro
     expect(result.summary.created).toBe(1);
   });
 });
+
+describe("executeLessonSync three-way merge", () => {
+  const testDir = path.join(TEST_ROOT, "merge-test");
+  let sourceDir: string;
+  let platformDir: string;
+  let config: CourseKitConfig;
+  let sourcePath: string;
+  let platformPath: string;
+
+  const original = `---
+title: Introduction
+---
+
+# Introduction
+
+Teh first paragraph.
+
+The second paragraph.
+`;
+
+  beforeEach(async () => {
+    await cleanTestDir(testDir);
+    sourceDir = path.join(testDir, "source");
+    platformDir = path.join(testDir, "platform");
+    await fs.promises.mkdir(platformDir, { recursive: true });
+    config = createTestConfig(sourceDir, platformDir);
+
+    sourcePath = await createSourceLesson(sourceDir, "test-course", "01-intro.md", original);
+    platformPath = buildTargetPath(platformDir, "test-course", "01-intro.md");
+    await executeLessonSync(config, {});
+  });
+
+  afterEach(async () => {
+    await cleanTestDir(testDir);
+  });
+
+  it("stores the synced content as merge base", async () => {
+    const state = await loadSyncState(platformDir);
+    expect(state.records["test-course/intro"].baseContent).toBe(original);
+  });
+
+  it("merges source edits into a platform hotfix", async () => {
+    await Bun.write(platformPath, original.replace("Teh", "The"));
+    await Bun.write(sourcePath, original.replace("second paragraph.", "second paragraph, expanded."));
+
+    const result = await executeLessonSync(config, {});
+
+    expect(result.success).toBe(true);
+    expect(result.merged).toEqual(["test-course/intro"]);
+    expect(await Bun.file(platformPath).text()).toContain("The first paragraph.\n\nThe second paragraph, expanded.");
+
+    // A second push has nothing left to do and keeps the hotfix
+    const again = await executeLessonSync(config, {});
+    expect(again.unchanged).toEqual(["test-course/intro"]);
+    expect(await Bun.file(platformPath).text()).toContain("The first paragraph.");
+  });
+
+  it("writes a conflict file and leaves the platform alone on real conflicts", async () => {
+    const hotfix = original.replace("Teh", "The");
+    await Bun.write(platformPath, hotfix);
+    await Bun.write(sourcePath, original.replace("Teh", "A better"));
+
+    const result = await executeLessonSync(config, {});
+
+    expect(result.success).toBe(false);
+    expect(result.conflicted).toEqual(["test-course/intro"]);
+    expect(result.skipped).toEqual(["test-course/intro"]);
+    expect(await Bun.file(platformPath).text()).toBe(hotfix);
+    expect(await Bun.file(buildConflictPath(platformPath)).text()).toContain(
+      "<<<<<<< source\nA better first paragraph.\n=======\nThe first paragraph.\n>>>>>>> platform"
+    );
+
+    // Forcing takes the source and clears the conflict file
+    await executeLessonSync(config, { force: true });
+    expect(await Bun.file(platformPath).text()).toContain("A better first paragraph.");
+    expect(fs.existsSync(buildConflictPath(platformPath))).toBe(false);
+  });
+
+  it("does not write merges in dry-run mode", async () => {
+    const hotfix = original.replace("Teh", "The");
+    await Bun.write(platformPath, hotfix);
+    await Bun.write(sourcePath, original.replace("Teh", "A better"));
+
+    const result = await executeLessonSync(config, { dryRun: true });
+
+    expect(result.conflicted).toEqual(["test-course/intro"]);
+    expect(fs.existsSync(buildConflictPath(platformPath))).toBe(false);
+  });
+});
@@ -13,15 +13,21 @@ import type {
   SyncSummary,
   SyncError,
 } from "../types";
+import { DEFAULT_PROTECTED_FIELDS } from "../types";
 import { calculateLessonDiff } from "./diff";
 import { detectConflicts } from "./conflict-detection";
 import {
   loadSyncState,
   saveSyncState,
   updateSyncRecord,
+  getSyncRecord,
 } from "./sync-state";
 import { hashContent } from "./platform-utils";
 import { normalizeContent } from "./diff-utils";
+import { mergeLessonContent } from "./three-way-merge";
+
+/** Suffix of the file holding an unresolved merge next to a platform lesson */
+export const CONFLICT_SUFFIX = ".conflict";
 
 // =============================================================================
 // Path Utilities
@@ -43,6 +49,28 @@ export function buildTargetPath(
   return path.join(platformRoot, "src/content/lessons", courseId, filename);
 }
 
+/**
+ * Build the path of the conflict file for a platform lesson.
+ *
+ * @param targetPath - Platform lesson path
+ * @returns Path like ".../01-intro.md.conflict"
+ */
+export function buildConflictPath(targetPath: string): string {
+  return `${targetPath}${CONFLICT_SUFFIX}`;
+}
+
+/**
+ * Hash a lesson body (frontmatter excluded) as stored in sync records.
+ *
+ * @param content - Full file content
+ * @returns Content hash
+ */
+export function hashLessonBody(content: string): string {
+  const bodyMatch = content.match(/^---[\s\S]*?---\s*([\s\S]*)$/);
+  const body = bodyMatch ? bodyMatch[1] : content;
+  return hashContent(normalizeContent(body));
+}
+
 // =============================================================================
 // File Writing
 // =============================================================================
@@ -113,7 +141,10 @@ export async function executeLessonSync(
   const updated: string[] = [];
   const unchanged: string[] = [];
   const skipped: string[] = [];
+  const merged: string[] = [];
+  const conflicted: string[] = [];
   const errors: SyncError[] = [];
+  let recordsChanged = false;
 
   // Calculate diff to know what needs syncing
   const diff = await calculateLessonDiff(config, {
@@ -126,6 +157,7 @@ export async function executeLessonSync(
   if (!force) {
     const conflicts = await detectConflicts(config, {
       courseId: options.courseId,
+      contentTypes: ["lesson"],
     });
     conflictKeys = new Set(conflicts.conflicts.map((c) => c.key));
   }
@@ -151,6 +183,66 @@ export async function executeLessonSync(
       continue;
     }
 
+    // Merge platform edits instead of overwriting them, once a merge base exists
+    const record = getSyncRecord(syncState, item.key);
+    if (
+      !force &&
+      item.status === "modified" &&
+      record?.baseContent !== undefined &&
+      item.sourcePath &&
+      item.platformPath
+    ) {
+      const sourceContent = await Bun.file(item.sourcePath).text();
+      const platformContent = await Bun.file(item.platformPath).text();
+
+      if (normalizeContent(platformContent) !== normalizeContent(record.baseContent)) {
+        const merge = mergeLessonContent(
+          record.baseContent,
+          sourceContent,
+          platformContent,
+          DEFAULT_PROTECTED_FIELDS
+        );
+
+        if (!merge.clean) {
+          // Leave the platform file alone; write the marked-up merge next to it
+          if (!dryRun) {
+            await Bun.write(buildConflictPath(item.platformPath), merge.content);
+          }
+          skipped.push(item.key);
+          conflicted.push(item.key);
+          continue;
+        }
+
+        const changed = merge.content !== platformContent;
+        if (!dryRun) {
+          if (changed) {
+            await Bun.write(item.platformPath, merge.content);
+          }
+          await fs.promises.rm(buildConflictPath(item.platformPath), { force: true });
+
+          const contentHash = hashLessonBody(merge.content);
+          if (changed || record.contentHash !== contentHash || record.baseContent !== sourceContent) {
+            updateSyncRecord(syncState, item.key, {
+              ...record,
+              contentHash,
+              syncedAt: new Date().toISOString(),
+              baseContent: sourceContent,
+            });
+            recordsChanged = true;
+          }
+        }
+
+        if (changed) {
+          updated.push(item.key);
+          merged.push(item.key);
+        } else {
+          // Source has nothing the platform lacks
+          unchanged.push(item.key);
+        }
+        continue;
+      }
+    }
+
     // Check for conflicts
     if (conflictKeys.has(item.key)) {
       skipped.push(item.key);
@@ -194,17 +286,17 @@ export async function executeLessonSync(
       continue;
     }
 
-    // Update sync state with new hash
+    await fs.promises.rm(buildConflictPath(targetPath), { force: true });
+
+    // Update sync state with new hash, keeping the content as merge base
     const content = await Bun.file(item.sourcePath).text();
-    const bodyMatch = content.match(/^---[\s\S]*?---\s*([\s\S]*)$/);
-    const body = bodyMatch ? bodyMatch[1] : content;
-    const contentHash = hashContent(normalizeContent(body));
 
     updateSyncRecord(syncState, item.key, {
       filePath: path.relative(platformRoot, targetPath),
-      contentHash,
+      contentHash: hashLessonBody(content),
       syncedAt: new Date().toISOString(),
       sourceRepo: item.courseId,
+      baseContent: content,
     });
 
     if (isCreate) {
@@ -215,7 +307,7 @@ export async function executeLessonSync(
   }
 
   // Save sync state (unless dry-run)
-  if (!dryRun && (created.length > 0 || updated.length > 0)) {
+  if (!dryRun && (created.length > 0 || updated.length > 0 || recordsChanged)) {
     syncState.lastSync = new Date().toISOString();
     await saveSyncState(platformRoot, syncState);
   }
@@ -239,6 +331,8 @@ export async function executeLessonSync(
     updated,
     unchanged,
     skipped,
+    merged,
+    conflicted,
     errors,
     summary,
     dryRun,
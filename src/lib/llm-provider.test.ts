@@ -0,0 +1,233 @@
+/**
+ * LLM Provider Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  createLLMProvider,
+  documentSystemPrompt,
+  extractDocument,
+  LLMProviderError,
+  runDocument,
+  type LLMProvider,
+  type LLMProviderDeps,
+  type LLMRequest,
+} from "./llm-provider";
+
+interface CapturedRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+function fakeFetch(
+  responseBody: unknown,
+  status = 200
+): { deps: LLMProviderDeps; requests: CapturedRequest[] } {
+  const requests: CapturedRequest[] = [];
+  const fetchFn = (async (url: string, init: RequestInit) => {
+    requests.push({
+      url,
+      headers: init.headers as Record<string, string>,
+      body: JSON.parse(init.body as string),
+    });
+    return new Response(JSON.stringify(responseBody), { status });
+  }) as unknown as typeof fetch;
+
+  return { deps: { fetch: fetchFn, env: { OPENAI_API_KEY: "sk-test", ANTHROPIC_API_KEY: "ak-test" } }, requests };
+}
+
+describe("openai provider", () => {
+  it("posts chat completions and returns the message content", async () => {
+    const { deps, requests } = fakeFetch({
+      choices: [{ message: { content: "# Course Definition" } }],
+    });
+    const provider = createLLMProvider({ provider: "openai", model: "gpt-test" }, deps);
+
+    const result = await provider.complete({ task: "define", system: "Be brief", prompt: "Hi" });
+
+    expect(result).toBe("# Course Definition");
+    expect(requests[0].url).toBe("https://api.openai.com/v1/chat/completions");
+    expect(requests[0].headers.authorization).toBe("Bearer sk-test");
+    expect(requests[0].body.model).toBe("gpt-test");
+    expect(requests[0].body.messages).toEqual([
+      { role: "system", content: "Be brief" },
+      { role: "user", content: "Hi" },
+    ]);
+  });
+
+  it("uses baseUrl and apiKeyEnv overrides", async () => {
+    const { deps, requests } = fakeFetch({ choices: [{ message: { content: "ok" } }] });
+    deps.env = { LOCAL_KEY: "local" };
+    const provider = createLLMProvider(
+      { provider: "openai", model: "llama", baseUrl: "http://localhost:8080/v1/", apiKeyEnv: "LOCAL_KEY" },
+      deps
+    );
+
+    await provider.complete({ task: "design", prompt: "Hi" });
+
+    expect(requests[0].url).toBe("http://localhost:8080/v1/chat/completions");
+    expect(requests[0].headers.authorization).toBe("Bearer local");
+  });
+
+  it("throws LLMProviderError on HTTP errors", async () => {
+    const { deps } = fakeFetch({ error: "rate limited" }, 429);
+    const provider = createLLMProvider({ provider: "openai", model: "gpt-test" }, deps);
+
+    await expect(provider.complete({ task: "define", prompt: "Hi" })).rejects.toThrow("HTTP 429");
+  });
+
+  it("throws when the API key is missing", async () => {
+    const { deps } = fakeFetch({});
+    deps.env = {};
+    const provider = createLLMProvider({ provider: "openai", model: "gpt-test" }, deps);
+
+    await expect(provider.complete({ task: "define", prompt: "Hi" })).rejects.toThrow("$OPENAI_API_KEY");
+  });
+
+  it("requires a model", () => {
+    expect(() => createLLMProvider({ provider: "openai" })).toThrow(LLMProviderError);
+  });
+});
+
+describe("anthropic provider", () => {
+  it("posts messages and joins text blocks", async () => {
+    const { deps, requests } = fakeFetch({
+      content: [
+        { type: "text", text: "# Course " },
+        { type: "text", text: "Design" },
+      ],
+    });
+    const provider = createLLMProvider({ provider: "anthropic", model: "claude-test", maxTokens: 1000 }, deps);
+
+    const result = await provider.complete({ task: "design", system: "System", prompt: "Hi" });
+
+    expect(result).toBe("# Course Design");
+    expect(requests[0].url).toBe("https://api.anthropic.com/v1/messages");
+    expect(requests[0].headers["x-api-key"]).toBe("ak-test");
+    expect(requests[0].body.system).toBe("System");
+    expect(requests[0].body.max_tokens).toBe(1000);
+    expect(requests[0].body.messages).toEqual([{ role: "user", content: "Hi" }]);
+  });
+
+  it("throws when the response has no text", async () => {
+    const { deps } = fakeFetch({ content: [] });
+    const provider = createLLMProvider({ provider: "anthropic", model: "claude-test" }, deps);
+
+    await expect(provider.complete({ task: "draft", prompt: "Hi" })).rejects.toBeInstanceOf(LLMProviderError);
+  });
+});
+
+describe("fixture provider", () => {
+  let fixtureDir: string;
+
+  beforeEach(() => {
+    fixtureDir = mkdtempSync(join(tmpdir(), "coursekit-llm-"));
+  });
+
+  afterEach(() => {
+    rmSync(fixtureDir, { recursive: true, force: true });
+  });
+
+  it("prefers keyed fixtures, then task, then default", async () => {
+    writeFileSync(join(fixtureDir, "draft-M1-L2.md"), "lesson script");
+    writeFileSync(join(fixtureDir, "draft.md"), "generic script");
+    writeFileSync(join(fixtureDir, "default.md"), "fallback");
+    const provider = createLLMProvider({ provider: "fixture", fixtureDir });
+
+    expect(await provider.complete({ task: "draft", key: "M1-L2", prompt: "" })).toBe("lesson script");
+    expect(await provider.complete({ task: "draft", key: "M2-L1", prompt: "" })).toBe("generic script");
+    expect(await provider.complete({ task: "define", prompt: "" })).toBe("fallback");
+  });
+
+  it("throws when no fixture matches", async () => {
+    const provider = createLLMProvider({ provider: "fixture", fixtureDir });
+    await expect(provider.complete({ task: "design", prompt: "" })).rejects.toThrow("design.md");
+  });
+
+  it("requires fixtureDir", () => {
+    expect(() => createLLMProvider({ provider: "fixture" })).toThrow("fixtureDir");
+  });
+});
+
+describe("extractDocument", () => {
+  it("unwraps a fenced markdown answer", () => {
+    expect(extractDocument("```markdown\n# Title\n\nBody\n```\n")).toBe("# Title\n\nBody\n");
+  });
+
+  it("leaves unfenced answers and inner code blocks alone", () => {
+    const doc = "# Title\n\n```ts\nconst x = 1;\n```";
+    expect(extractDocument(doc)).toBe(`${doc}\n`);
+  });
+});
+
+describe("documentSystemPrompt", () => {
+  it("names the output file", () => {
+    expect(documentSystemPrompt("design.md")).toContain("complete design.md file");
+  });
+});
+
+describe("runDocument", () => {
+  let dir: string;
+  let requests: LLMRequest[];
+  let provider: LLMProvider;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "coursekit-run-"));
+    requests = [];
+    provider = {
+      name: "fake",
+      complete: async (request) => {
+        requests.push(request);
+        return "```markdown\n# Generated\n```";
+      },
+    };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("writes the extracted document, creating directories", async () => {
+    const target = join(dir, "materials/M1/L1/script.md");
+    const result = await runDocument(
+      { task: "draft", prompt: "Draft it" },
+      { target, keepExisting: () => true, provider }
+    );
+
+    expect(result).toEqual({ status: "written", document: "# Generated\n" });
+    expect(readFileSync(target, "utf-8")).toBe("# Generated\n");
+    expect(requests[0].system).toContain("complete script.md file");
+  });
+
+  it("keeps a guarded file unless forced", async () => {
+    const target = join(dir, "define.md");
+    writeFileSync(target, "# My definition\n");
+    const options = { target, keepExisting: (content: string) => content.includes("My"), provider };
+
+    expect(await runDocument({ task: "define", prompt: "" }, options)).toEqual({ status: "kept" });
+    expect(requests).toHaveLength(0);
+    expect(readFileSync(target, "utf-8")).toBe("# My definition\n");
+
+    await runDocument({ task: "define", prompt: "" }, { ...options, force: true });
+    expect(readFileSync(target, "utf-8")).toBe("# Generated\n");
+  });
+
+  it("writes nothing when the provider fails", async () => {
+    const target = join(dir, "design.md");
+    const failing: LLMProvider = {
+      name: "failing",
+      complete: async () => {
+        throw new LLMProviderError("failing", "HTTP 500");
+      },
+    };
+
+    await expect(
+      runDocument({ task: "design", prompt: "" }, { target, keepExisting: () => true, provider: failing })
+    ).rejects.toThrow("HTTP 500");
+    expect(existsSync(target)).toBe(false);
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * LLM Provider
+ *
+ * Pluggable completion backends for the prompt-driven phases (define,
+ * design, draft): OpenAI-compatible HTTP, Anthropic Messages HTTP, and a
+ * deterministic fixture provider that reads canned responses from disk.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { basename, dirname, join } from "path";
+import { loadLLMConfig } from "../config";
+import type { LLMConfig } from "../types";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Which phase a completion request belongs to */
+export type LLMTask = "define" | "design" | "draft";
+
+/**
+ * A single prompt/response exchange.
+ */
+export interface LLMRequest {
+  task: LLMTask;
+  prompt: string;
+  system?: string;
+  /** Extra fixture lookup key, e.g. "M1-L2" for a lesson draft */
+  key?: string;
+}
+
+/**
+ * A completion backend.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<string>;
+}
+
+/** Injectable dependencies (tests pass a fake fetch and env) */
+export interface LLMProviderDeps {
+  fetch?: typeof fetch;
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Options for generating a document with runDocument.
+ */
+export interface DocumentRunOptions {
+  /** File the document is written to; its name goes into the system prompt */
+  target: string;
+  /** Whether an existing target must be kept; ignored with force */
+  keepExisting: (content: string) => boolean;
+  force?: boolean;
+  /** Called once the provider is loaded, before the request is sent */
+  onStart?: (provider: LLMProvider) => void;
+  /** Provider to use instead of the one in coursekit.json */
+  provider?: LLMProvider;
+}
+
+/** Outcome of runDocument: "kept" means the target was left alone */
+export type DocumentRunResult =
+  | { status: "written"; document: string }
+  | { status: "kept" };
+
+export class LLMProviderError extends Error {
+  constructor(public provider: string, message: string) {
+    super(`${provider}: ${message}`);
+    this.name = "LLMProviderError";
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Create a provider from the coursekit.json "llm" section.
+ *
+ * @param config - Validated LLM configuration
+ * @param deps - Optional fetch/env overrides
+ * @returns Provider instance
+ */
+export function createLLMProvider(
+  config: LLMConfig,
+  deps: LLMProviderDeps = {}
+): LLMProvider {
+  switch (config.provider) {
+    case "openai":
+      return createOpenAIProvider(config, deps);
+    case "anthropic":
+      return createAnthropicProvider(config, deps);
+    case "fixture":
+      return createFixtureProvider(config);
+  }
+}
+
+/**
+ * Load the provider configured in coursekit.json.
+ *
+ * @param cwd - Directory containing coursekit.json (defaults to cwd)
+ * @returns Provider instance
+ */
+export async function loadLLMProvider(cwd?: string): Promise<LLMProvider> {
+  return createLLMProvider(await loadLLMConfig(cwd));
+}
+
+// =============================================================================
+// OpenAI-compatible
+// =============================================================================
+
+/**
+ * Provider for the OpenAI chat completions API and compatible servers
+ * (set baseUrl for local or proxied endpoints).
+ */
+export function createOpenAIProvider(
+  config: LLMConfig,
+  deps: LLMProviderDeps = {}
+): LLMProvider {
+  const name = "openai";
+  const baseUrl = (config.baseUrl ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+  const model = requireModel(name, config);
+
+  return {
+    name,
+    async complete(request) {
+      const apiKey = readApiKey(name, config.apiKeyEnv ?? "OPENAI_API_KEY", deps);
+      const messages = [
+        ...(request.system ? [{ role: "system", content: request.system }] : []),
+        { role: "user", content: request.prompt },
+      ];
+
+      const data = await postJson(name, `${baseUrl}/chat/completions`, deps, {
+        "content-type": "application/json",
+        authorization: `Bearer ${apiKey}`,
+      }, {
+        model,
+        messages,
+        max_tokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+      }) as { choices?: Array<{ message?: { content?: string | null } }> };
+
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new LLMProviderError(name, "Response contained no message content");
+      }
+      return content;
+    },
+  };
+}
+
+// =============================================================================
+// Anthropic
+// =============================================================================
+
+/**
+ * Provider for the Anthropic Messages API.
+ */
+export function createAnthropicProvider(
+  config: LLMConfig,
+  deps: LLMProviderDeps = {}
+): LLMProvider {
+  const name = "anthropic";
+  const baseUrl = (config.baseUrl ?? "https://api.anthropic.com").replace(/\/+$/, "");
+  const model = requireModel(name, config);
+
+  return {
+    name,
+    async complete(request) {
+      const apiKey = readApiKey(name, config.apiKeyEnv ?? "ANTHROPIC_API_KEY", deps);
+
+      const data = await postJson(name, `${baseUrl}/v1/messages`, deps, {
+        "content-type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+      }, {
+        model,
+        max_tokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.system ? { system: request.system } : {}),
+        messages: [{ role: "user", content: request.prompt }],
+        ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+      }) as { content?: Array<{ type: string; text?: string }> };
+
+      const text = (data.content ?? [])
+        .filter((block) => block.type === "text" && block.text)
+        .map((block) => block.text)
+        .join("");
+      if (!text) {
+        throw new LLMProviderError(name, "Response contained no text content");
+      }
+      return text;
+    },
+  };
+}
+
+// =============================================================================
+// Fixture
+// =============================================================================
+
+/**
+ * Offline provider that returns canned responses from fixtureDir.
+ * Looks up `<task>-<key>.md`, then `<task>.md`, then `default.md`.
+ */
+export function createFixtureProvider(config: LLMConfig): LLMProvider {
+  const name = "fixture";
+  if (!config.fixtureDir) {
+    throw new LLMProviderError(name, "llm.fixtureDir is required");
+  }
+  const dir = config.fixtureDir;
+
+  return {
+    name,
+    async complete(request) {
+      const candidates = [
+        ...(request.key ? [`${request.task}-${request.key}.md`] : []),
+        `${request.task}.md`,
+        "default.md",
+      ];
+
+      for (const filename of candidates) {
+        const filePath = join(dir, filename);
+        if (existsSync(filePath)) {
+          return readFileSync(filePath, "utf-8");
+        }
+      }
+
+      throw new LLMProviderError(
+        name,
+        `No fixture found in ${dir} (tried ${candidates.join(", ")})`
+      );
+    },
+  };
+}
+
+// =============================================================================
+// Response Handling
+// =============================================================================
+
+/**
+ * System prompt for non-interactive runs: the phase prompts are written for
+ * an interview, so tell the model to answer with the finished file instead.
+ *
+ * @param filename - Output document, e.g. "define.md"
+ * @returns System prompt text
+ */
+export function documentSystemPrompt(filename: string): string {
+  return [
+    "You are an instructional designer using Backward Design and Bloom's Taxonomy.",
+    "Do not interview the user. Work from the information provided and make reasonable, clearly stated assumptions where details are missing.",
+    `Respond with only the complete ${filename} file in Markdown, without commentary.`,
+  ].join(" ");
+}
+
+/**
+ * Extract the document from a model response: if the whole answer is
+ * wrapped in a ```markdown fence, return the fenced content.
+ *
+ * @param response - Raw model output
+ * @returns Markdown document with a trailing newline
+ */
+export function extractDocument(response: string): string {
+  const trimmed = response.trim();
+  const fenced = trimmed.match(/^```(?:markdown|md)?[ \t]*\n([\s\S]*?)\n```$/);
+  const body = fenced ? fenced[1] : trimmed;
+  return `${body.trim()}\n`;
+}
+
+// =============================================================================
+// Document Runs
+// =============================================================================
+
+/**
+ * Generate a document non-interactively and write it to disk (the --run
+ * mode of define, design and draft). Provider errors are thrown.
+ *
+ * @param request - Phase prompt; the system prompt is filled in here
+ * @param options - Target file, overwrite guard and provider
+ * @returns The written document, or "kept" when the guard refused
+ */
+export async function runDocument(
+  request: LLMRequest,
+  options: DocumentRunOptions
+): Promise<DocumentRunResult> {
+  const { target } = options;
+  if (
+    existsSync(target) &&
+    !options.force &&
+    options.keepExisting(readFileSync(target, "utf-8"))
+  ) {
+    return { status: "kept" };
+  }
+
+  const provider = options.provider ?? (await loadLLMProvider());
+  options.onStart?.(provider);
+  const document = extractDocument(
+    await provider.complete({ ...request, system: documentSystemPrompt(basename(target)) })
+  );
+
+  mkdirSync(dirname(target), { recursive: true });
+  writeFileSync(target, document);
+  return { status: "written", document };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function requireModel(provider: string, config: LLMConfig): string {
+  if (!config.model) {
+    throw new LLMProviderError(provider, "llm.model is required");
+  }
+  return config.model;
+}
+
+function readApiKey(
+  provider: string,
+  envVar: string,
+  deps: LLMProviderDeps
+): string {
+  const env = deps.env ?? process.env;
+  const key = env[envVar];
+  if (!key) {
+    throw new LLMProviderError(provider, `API key not set (expected $${envVar})`);
+  }
+  return key;
+}
+
+async function postJson(
+  provider: string,
+  url: string,
+  deps: LLMProviderDeps,
+  headers: Record<string, string>,
+  body: unknown
+): Promise<unknown> {
+  const doFetch = deps.fetch ?? fetch;
+
+  let response: Response;
+  try {
+    response = await doFetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+    });
+  } catch (err) {
+    throw new LLMProviderError(provider, `Request failed: ${(err as Error).message}`);
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text()).slice(0, 500);
+    throw new LLMProviderError(
+      provider,
+      `HTTP ${response.status}${detail ? `: ${detail}` : ""}`
+    );
+  }
+
+  return response.json();
+}
@@ -0,0 +1,82 @@
+/**
+ * Markdown Section Helper Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  bullets,
+  findPlaceholders,
+  formatParseError,
+  isTableSeparator,
+  labeledFields,
+  sortParseErrors,
+  splitSections,
+  splitSubsections,
+  tableCells,
+} from "./markdown-sections";
+
+const DOC = `# Title
+
+## First
+- one
+- two
+
+### Sub
+**Label**: value
+
+## Second
+\`\`\`
+## Not a heading
+\`\`\`
+`;
+
+describe("splitSections", () => {
+  it("keys sections by lowercase title with line numbers", () => {
+    const sections = splitSections(DOC);
+
+    expect([...sections.keys()]).toEqual(["first", "second"]);
+    expect(sections.get("first")?.line).toBe(3);
+    expect(sections.get("first")?.lines[0]).toEqual({ text: "- one", line: 4 });
+  });
+
+  it("ignores headings inside code fences", () => {
+    expect(splitSections(DOC).get("second")?.lines).toHaveLength(4);
+  });
+});
+
+describe("splitSubsections", () => {
+  it("stores lines before the first subsection under an empty key", () => {
+    const sub = splitSubsections(splitSections(DOC).get("first")!);
+
+    expect(bullets(sub.get("")!)).toEqual(["one", "two"]);
+    expect(labeledFields(sub.get("sub")!).get("label")).toEqual({ text: "value", line: 8 });
+  });
+});
+
+describe("tableCells", () => {
+  it("splits rows and detects separators", () => {
+    expect(tableCells("| L1 | Intro | 10 min |")).toEqual(["L1", "Intro", "10 min"]);
+    expect(tableCells("not a row")).toBeNull();
+    expect(tableCells("| L1 | A \\| B |")).toEqual(["L1", "A | B"]);
+    expect(isTableSeparator(tableCells("|---|:---:|")!)).toBe(true);
+  });
+});
+
+describe("parse errors", () => {
+  it("formats with file and optional line", () => {
+    expect(formatParseError({ line: 4, message: "Oops" }, "define.md")).toBe("define.md:4: Oops");
+    expect(formatParseError({ message: "Oops" }, "design.md")).toBe("design.md: Oops");
+  });
+
+  it("sorts document-level errors first", () => {
+    expect(
+      sortParseErrors([{ line: 9, message: "b" }, { message: "a" }, { line: 2, message: "c" }])
+    ).toEqual([{ message: "a" }, { line: 2, message: "c" }, { line: 9, message: "b" }]);
+  });
+
+  it("finds placeholder lines", () => {
+    expect(findPlaceholders("ok\n[Title] here", /\[Title\]/)).toEqual([
+      { line: 2, message: 'Placeholder text "[Title]"' },
+    ]);
+  });
+});
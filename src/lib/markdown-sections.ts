@@ -0,0 +1,189 @@
+/**
+ * Markdown Section Helpers
+ *
+ * Line-oriented helpers shared by the phase document parsers
+ * (define.md, design.md). Every line keeps its 1-based line number so
+ * parsers can report precise errors.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A problem found while parsing a phase document.
+ */
+export interface ParseError {
+  /** 1-based line number (absent for document-level problems) */
+  line?: number;
+  message: string;
+}
+
+/** A source line with its 1-based line number */
+export interface SourceLine {
+  text: string;
+  line: number;
+}
+
+/** A "## " section with its body lines */
+export interface MarkdownSection {
+  title: string;
+  line: number;
+  lines: SourceLine[];
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Format a parse error as "define.md:12: message".
+ */
+export function formatParseError(error: ParseError, file: string): string {
+  return error.line ? `${file}:${error.line}: ${error.message}` : `${file}: ${error.message}`;
+}
+
+/**
+ * Sort errors: document-level problems first, then in line order.
+ */
+export function sortParseErrors(errors: ParseError[]): ParseError[] {
+  return errors.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+}
+
+/**
+ * Report every line matching a placeholder pattern.
+ */
+export function findPlaceholders(content: string, pattern: RegExp): ParseError[] {
+  const errors: ParseError[] = [];
+  content.split("\n").forEach((text, index) => {
+    const match = text.match(pattern);
+    if (match) {
+      errors.push({ line: index + 1, message: `Placeholder text "${match[0]}"` });
+    }
+  });
+  return errors;
+}
+
+// =============================================================================
+// Sections
+// =============================================================================
+
+/**
+ * Split a document into "## " sections keyed by lowercase title.
+ * Headings inside code fences are ignored.
+ */
+export function splitSections(content: string): Map<string, MarkdownSection> {
+  const sections = new Map<string, MarkdownSection>();
+  let current: MarkdownSection | null = null;
+  let inFence = false;
+
+  content.split("\n").forEach((text, index) => {
+    if (/^\s*```/.test(text)) inFence = !inFence;
+    const heading = !inFence && text.match(/^##\s+(.+?)\s*$/);
+    if (heading) {
+      current = { title: heading[1], line: index + 1, lines: [] };
+      sections.set(heading[1].toLowerCase(), current);
+      return;
+    }
+    if (/^#\s/.test(text) && !inFence) {
+      current = null;
+      return;
+    }
+    current?.lines.push({ text, line: index + 1 });
+  });
+
+  return sections;
+}
+
+/**
+ * Split a section into "### " subsections keyed by lowercase title.
+ * Lines before the first subsection are stored under "".
+ */
+export function splitSubsections(section: MarkdownSection): Map<string, SourceLine[]> {
+  const sub = new Map<string, SourceLine[]>();
+  let key = "";
+  sub.set(key, []);
+
+  for (const entry of section.lines) {
+    const heading = entry.text.match(/^###\s+(.+?)\s*$/);
+    if (heading) {
+      key = heading[1].toLowerCase();
+      sub.set(key, []);
+      continue;
+    }
+    sub.get(key)!.push(entry);
+  }
+
+  return sub;
+}
+
+/**
+ * Find the first subsection whose title starts with a prefix.
+ */
+export function findSubsection(
+  sub: Map<string, SourceLine[]>,
+  prefix: string
+): SourceLine[] | undefined {
+  for (const [key, lines] of sub) {
+    if (key.startsWith(prefix)) return lines;
+  }
+  return undefined;
+}
+
+// =============================================================================
+// Content
+// =============================================================================
+
+/**
+ * Collect "- item" / "* item" bullet texts.
+ */
+export function bullets(lines: SourceLine[]): string[] {
+  return lines
+    .map(({ text }) => text.match(/^\s*[-*]\s+(.+)$/)?.[1].trim())
+    .filter((item): item is string => !!item);
+}
+
+/**
+ * Join non-empty, non-quote lines into a single paragraph.
+ */
+export function paragraph(lines: SourceLine[]): string {
+  return lines
+    .map(({ text }) => text.trim())
+    .filter((text) => text && !text.startsWith(">"))
+    .join(" ");
+}
+
+/**
+ * Collect "- **Label**: value" fields keyed by lowercase label.
+ */
+export function labeledFields(lines: SourceLine[]): Map<string, SourceLine> {
+  const fields = new Map<string, SourceLine>();
+  for (const { text, line } of lines) {
+    const match = text.match(/^\s*(?:[-*]\s+)?\*\*(.+?)\*\*:?\s*(.*)$/);
+    if (match) {
+      fields.set(match[1].replace(/:$/, "").toLowerCase(), { text: match[2].trim(), line });
+    }
+  }
+  return fields;
+}
+
+/**
+ * Split a markdown table row into trimmed cells (null if not a row).
+ * Escaped pipes ("\|") stay inside their cell.
+ */
+export function tableCells(text: string): string[] | null {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("|")) return null;
+  return trimmed
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+/**
+ * Check whether table cells are a |---|---| separator row.
+ */
+export function isTableSeparator(cells: string[]): boolean {
+  return cells.every((cell) => /^:?-+:?$/.test(cell));
+}
@@ -0,0 +1,179 @@
+/**
+ * Schema Migration Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { Database } from "bun:sqlite";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  addColumn,
+  getMigrationStatus,
+  getSchemaVersion,
+  MIGRATIONS,
+  MigrationError,
+  runMigrations,
+  type Migration,
+} from "./migrations";
+
+function columns(database: Database, table: string): string[] {
+  return (database.query(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+}
+
+const LATEST = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+describe("runMigrations", () => {
+  it("builds the full schema on an empty database", () => {
+    const database = new Database(":memory:");
+    const result = runMigrations(database);
+
+    expect(result.applied.map((m) => m.version)).toEqual(MIGRATIONS.map((m) => m.version));
+    expect(result.backupPath).toBeNull();
+    expect(getSchemaVersion(database)).toBe(LATEST);
+    expect(columns(database, "courses")).toContain("language");
+  });
+
+  it("does nothing when up to date", () => {
+    const database = new Database(":memory:");
+    runMigrations(database);
+
+    expect(runMigrations(database).applied).toEqual([]);
+  });
+
+  it("upgrades a database created before migrations existed", () => {
+    const database = new Database(":memory:");
+    database.exec(`
+      CREATE TABLE courses (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        context TEXT NOT NULL DEFAULT 'online',
+        status TEXT NOT NULL DEFAULT 'draft',
+        phase TEXT NOT NULL DEFAULT 'none',
+        course_path TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        started_at TEXT,
+        launched_at TEXT
+      )
+    `);
+    database.exec(`INSERT INTO courses (id, name) VALUES ('C-001', 'Auth')`);
+
+    runMigrations(database);
+
+    expect(columns(database, "courses")).toContain("language");
+    expect(database.query(`SELECT language FROM courses`).get()).toEqual({ language: "en" });
+    expect(columns(database, "courses")).toContain("archived_at");
+  });
+
+  it("keys tasks and production by course, keeping existing rows", () => {
+    const database = new Database(":memory:");
+    runMigrations(database, { migrations: MIGRATIONS.slice(0, 4) });
+    database.exec(`
+      INSERT INTO tasks (id, course_id, lesson_path, type) VALUES ('T-1', 'C-001', 'M1/L1', 'script');
+      INSERT INTO production (lesson_path, course_id, recorded) VALUES ('M1/L1', 'C-001', 1);
+    `);
+
+    runMigrations(database);
+    database.exec(`
+      INSERT INTO tasks (id, course_id, lesson_path, type) VALUES ('T-1', 'C-002', 'M1/L1', 'script');
+      INSERT INTO production (lesson_path, course_id) VALUES ('M1/L1', 'C-002');
+    `);
+
+    expect(database.query(`SELECT course_id FROM tasks ORDER BY course_id`).all()).toHaveLength(2);
+    expect(database.query(`SELECT recorded FROM production WHERE course_id = 'C-001'`).get()).toEqual({
+      recorded: 1,
+    });
+  });
+
+  it("rolls back a failing migration and keeps earlier ones", () => {
+    const database = new Database(":memory:");
+    const migrations: Migration[] = [
+      { version: 1, name: "create", up: (d) => d.exec(`CREATE TABLE a (id TEXT)`) },
+      {
+        version: 2,
+        name: "broken",
+        up: (d) => {
+          d.exec(`CREATE TABLE b (id TEXT)`);
+          d.exec(`NOT SQL`);
+        },
+      },
+    ];
+
+    expect(() => runMigrations(database, { migrations })).toThrow(MigrationError);
+    expect(getSchemaVersion(database)).toBe(1);
+    expect(
+      database.query(`SELECT name FROM sqlite_master WHERE name = 'b'`).get()
+    ).toBeNull();
+  });
+});
+
+describe("backups", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "coursekit-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("backs up an existing database before migrating", () => {
+    const dbPath = join(tempDir, "courses.db");
+    const database = new Database(dbPath);
+    runMigrations(database, { dbPath, migrations: MIGRATIONS.slice(0, 1) });
+
+    const result = runMigrations(database, { dbPath });
+
+    expect(result.backupPath).toMatch(/courses\.db\.v1-\d{8}T\d{6}\.bak$/);
+    expect(existsSync(result.backupPath!)).toBe(true);
+    const backup = new Database(result.backupPath!);
+    expect(getSchemaVersion(backup)).toBe(1);
+    backup.close();
+    database.close();
+  });
+
+  it("skips the backup for a brand-new database", () => {
+    const dbPath = join(tempDir, "courses.db");
+    const database = new Database(dbPath);
+
+    expect(runMigrations(database, { dbPath }).backupPath).toBeNull();
+    database.close();
+  });
+});
+
+describe("getMigrationStatus", () => {
+  it("lists applied, pending and unknown versions", () => {
+    const database = new Database(":memory:");
+    runMigrations(database, { migrations: MIGRATIONS.slice(0, 2) });
+    database.exec(`INSERT INTO schema_migrations (version, name) VALUES (99, 'from the future')`);
+
+    const status = getMigrationStatus(database);
+
+    expect(status.applied.map((m) => m.version)).toEqual([1, 2, 99]);
+    expect(status.pending.map((m) => m.version)).toEqual(
+      MIGRATIONS.slice(2).map((m) => m.version)
+    );
+    expect(status.unknown).toEqual([99]);
+    expect(status.latestVersion).toBe(LATEST);
+  });
+
+  it("reports version 0 for a database without a migrations table", () => {
+    const status = getMigrationStatus(new Database(":memory:"));
+    expect(status.currentVersion).toBe(0);
+    expect(status.pending).toHaveLength(MIGRATIONS.length);
+  });
+});
+
+describe("addColumn", () => {
+  it("is a no-op when the column exists", () => {
+    const database = new Database(":memory:");
+    database.exec(`CREATE TABLE t (id TEXT)`);
+
+    addColumn(database, "t", "note", "TEXT");
+    addColumn(database, "t", "note", "TEXT");
+
+    expect(columns(database, "t")).toEqual(["id", "note"]);
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * Schema Migrations
+ *
+ * Numbered, forward-only schema changes recorded in a schema_migrations
+ * table. getDatabase() applies pending migrations on open, so older
+ * .coursekit/courses.db files pick up new tables and columns. An existing
+ * database is copied to a backup file before anything is changed.
+ *
+ * Migrations must tolerate databases created before this runner existed
+ * (which already have some of the tables): use IF NOT EXISTS and addColumn.
+ */
+
+import type { Database } from "bun:sqlite";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A single schema change.
+ */
+export interface Migration {
+  /** Sequential version, starting at 1 */
+  version: number;
+  /** Short description shown by `coursekit db migrate --status` */
+  name: string;
+  up: (database: Database) => void;
+}
+
+/**
+ * A migration recorded in schema_migrations.
+ */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+/**
+ * Schema version overview for a database.
+ */
+export interface MigrationStatus {
+  /** Highest applied version (0 for an empty database) */
+  currentVersion: number;
+  /** Highest version this CourseKit knows */
+  latestVersion: number;
+  applied: AppliedMigration[];
+  pending: { version: number; name: string }[];
+  /** Applied versions this CourseKit does not know (database is newer) */
+  unknown: number[];
+}
+
+export interface RunMigrationsOptions {
+  /** Database file; enables the backup step (omit for in-memory databases) */
+  dbPath?: string | null;
+  /** Migrations to apply (defaults to MIGRATIONS) */
+  migrations?: Migration[];
+}
+
+export interface RunMigrationsResult {
+  applied: Migration[];
+  /** Backup written before migrating, or null if none was needed */
+  backupPath: string | null;
+}
+
+/**
+ * Thrown when a migration fails. The failing migration is rolled back;
+ * earlier ones in the same run stay applied.
+ */
+export class MigrationError extends Error {
+  constructor(
+    public migration: Migration,
+    public originalError: Error,
+    public backupPath: string | null
+  ) {
+    super(
+      `Migration ${migration.version} (${migration.name}) failed: ${originalError.message}` +
+        (backupPath ? `\nBackup of the previous database: ${backupPath}` : "")
+    );
+    this.name = "MigrationError";
+  }
+}
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+/**
+ * All migrations, in version order. Append new ones; never edit or
+ * renumber a migration that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS courses (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          context TEXT NOT NULL DEFAULT 'online',
+          status TEXT NOT NULL DEFAULT 'draft',
+          phase TEXT NOT NULL DEFAULT 'none',
+          course_path TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          started_at TEXT,
+          launched_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS modules (
+          id TEXT NOT NULL,
+          course_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          objective TEXT,
+          assessment_type TEXT,
+          week_range TEXT,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (course_id, id),
+          FOREIGN KEY (course_id) REFERENCES courses(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS lessons (
+          id TEXT NOT NULL,
+          module_id TEXT NOT NULL,
+          course_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          objective TEXT,
+          bloom_level TEXT,
+          duration INTEGER DEFAULT 10,
+          status TEXT NOT NULL DEFAULT 'planned',
+          materials_path TEXT,
+          has_practice INTEGER DEFAULT 0,
+          has_assessment INTEGER DEFAULT 0,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (course_id, module_id, id),
+          FOREIGN KEY (course_id, module_id) REFERENCES modules(course_id, id)
+        );
+
+        CREATE TABLE IF NOT EXISTS tasks (
+          id TEXT PRIMARY KEY,
+          course_id TEXT NOT NULL,
+          lesson_path TEXT NOT NULL,
+          type TEXT NOT NULL,
+          description TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          blocked_reason TEXT,
+          FOREIGN KEY (course_id) REFERENCES courses(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS production (
+          lesson_path TEXT PRIMARY KEY,
+          course_id TEXT NOT NULL,
+          recorded INTEGER DEFAULT 0,
+          edited INTEGER DEFAULT 0,
+          uploaded INTEGER DEFAULT 0,
+          access_tested INTEGER DEFAULT 0,
+          notes TEXT,
+          FOREIGN KEY (course_id) REFERENCES courses(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_courses_status ON courses(status);
+        CREATE INDEX IF NOT EXISTS idx_courses_phase ON courses(phase);
+        CREATE INDEX IF NOT EXISTS idx_lessons_status ON lessons(status);
+        CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "quiz questions",
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS quiz_questions (
+          id TEXT NOT NULL,
+          course_id TEXT NOT NULL,
+          module_id TEXT NOT NULL,
+          objective_id TEXT NOT NULL,
+          bloom_level TEXT NOT NULL,
+          stem TEXT NOT NULL,
+          choices TEXT NOT NULL DEFAULT '[]',
+          answer TEXT NOT NULL,
+          rationale TEXT,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          PRIMARY KEY (course_id, module_id, id),
+          FOREIGN KEY (course_id, module_id) REFERENCES modules(course_id, id)
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "course objectives",
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS objectives (
+          id TEXT NOT NULL,
+          course_id TEXT NOT NULL,
+          text TEXT NOT NULL,
+          bloom_level TEXT,
+          verb TEXT,
+          assessment_method TEXT,
+          covered_by TEXT,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (course_id, id),
+          FOREIGN KEY (course_id) REFERENCES courses(id)
+        );
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "course language",
+    up: (database) => {
+      addColumn(database, "courses", "language", "TEXT NOT NULL DEFAULT 'en'");
+    },
+  },
+  {
+    version: 5,
+    name: "per-course task and production keys",
+    up: (database) => {
+      // Task IDs and lesson paths ("M1/L1") repeat across courses, so key
+      // both tables by course as modules and lessons are
+      database.exec(`
+        CREATE TABLE tasks_new (
+          id TEXT NOT NULL,
+          course_id TEXT NOT NULL,
+          lesson_path TEXT NOT NULL,
+          type TEXT NOT NULL,
+          description TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          blocked_reason TEXT,
+          PRIMARY KEY (course_id, id),
+          FOREIGN KEY (course_id) REFERENCES courses(id)
+        );
+        INSERT INTO tasks_new (id, course_id, lesson_path, type, description, status, blocked_reason)
+          SELECT id, course_id, lesson_path, type, description, status, blocked_reason FROM tasks;
+        DROP TABLE tasks;
+        ALTER TABLE tasks_new RENAME TO tasks;
+        CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
+
+        CREATE TABLE production_new (
+          lesson_path TEXT NOT NULL,
+          course_id TEXT NOT NULL,
+          recorded INTEGER DEFAULT 0,
+          edited INTEGER DEFAULT 0,
+          uploaded INTEGER DEFAULT 0,
+          access_tested INTEGER DEFAULT 0,
+          notes TEXT,
+          PRIMARY KEY (course_id, lesson_path),
+          FOREIGN KEY (course_id) REFERENCES courses(id)
+        );
+        INSERT INTO production_new (lesson_path, course_id, recorded, edited, uploaded, access_tested, notes)
+          SELECT lesson_path, course_id, recorded, edited, uploaded, access_tested, notes FROM production;
+        DROP TABLE production;
+        ALTER TABLE production_new RENAME TO production;
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "lesson status history",
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS lesson_status_history (
+          course_id TEXT NOT NULL,
+          lesson_path TEXT NOT NULL,
+          from_status TEXT NOT NULL,
+          to_status TEXT NOT NULL,
+          note TEXT,
+          forced INTEGER NOT NULL DEFAULT 0,
+          changed_at TEXT NOT NULL DEFAULT (datetime('now')),
+          FOREIGN KEY (course_id) REFERENCES courses(id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_lesson_status_history_lesson
+          ON lesson_status_history(course_id, lesson_path);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "course archiving",
+    up: (database) => {
+      addColumn(database, "courses", "archived_at", "TEXT");
+      // Status to restore on unarchive
+      addColumn(database, "courses", "archived_from", "TEXT");
+    },
+  },
+  {
+    version: 8,
+    name: "retired module and lesson numbers",
+    up: (database) => {
+      // Highest number a removed or moved-away module or lesson had, so
+      // its ID (and its materials directory) is never handed out again
+      addColumn(database, "courses", "last_module_number", "INTEGER NOT NULL DEFAULT 0");
+      addColumn(database, "modules", "last_lesson_number", "INTEGER NOT NULL DEFAULT 0");
+    },
+  },
+];
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+/**
+ * Apply pending migrations in version order, each in its own transaction.
+ * Before the first change to a database that already has tables, the
+ * database is backed up next to its file.
+ *
+ * @param database - Open database
+ * @param options - Database file (for backups) and migrations to apply
+ * @returns Applied migrations and the backup path
+ * @throws MigrationError if a migration fails
+ */
+export function runMigrations(
+  database: Database,
+  options: RunMigrationsOptions = {}
+): RunMigrationsResult {
+  const migrations = options.migrations ?? MIGRATIONS;
+  ensureMigrationsTable(database);
+
+  const pending = pendingMigrations(database, migrations);
+  if (pending.length === 0) {
+    return { applied: [], backupPath: null };
+  }
+
+  const backupPath =
+    options.dbPath && hasUserTables(database)
+      ? backupDatabase(database, options.dbPath, getSchemaVersion(database))
+      : null;
+
+  const applied: Migration[] = [];
+  for (const migration of pending) {
+    try {
+      database.transaction(() => {
+        migration.up(database);
+        database
+          .query(`INSERT INTO schema_migrations (version, name) VALUES (?, ?)`)
+          .run(migration.version, migration.name);
+      })();
+    } catch (error) {
+      throw new MigrationError(migration, error as Error, backupPath);
+    }
+    applied.push(migration);
+  }
+
+  return { applied, backupPath };
+}
+
+/**
+ * Report applied, pending and unknown migrations without changing anything.
+ */
+export function getMigrationStatus(
+  database: Database,
+  migrations: Migration[] = MIGRATIONS
+): MigrationStatus {
+  const applied = getAppliedMigrations(database);
+  const known = new Set(migrations.map((m) => m.version));
+
+  return {
+    currentVersion: applied.reduce((max, m) => Math.max(max, m.version), 0),
+    latestVersion: migrations.reduce((max, m) => Math.max(max, m.version), 0),
+    applied,
+    pending: pendingMigrations(database, migrations).map(({ version, name }) => ({ version, name })),
+    unknown: applied.map((m) => m.version).filter((version) => !known.has(version)),
+  };
+}
+
+/**
+ * Highest applied migration version (0 if none).
+ */
+export function getSchemaVersion(database: Database): number {
+  return getAppliedMigrations(database).reduce((max, m) => Math.max(max, m.version), 0);
+}
+
+/**
+ * Copy the database to "<file>.v<version>-<timestamp>.bak" next to it.
+ * VACUUM INTO produces a consistent copy even with a WAL file present.
+ *
+ * @returns Path of the backup file
+ */
+export function backupDatabase(database: Database, dbPath: string, version: number): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\..*$/, "");
+  const backupPath = `${dbPath}.v${version}-${stamp}.bak`;
+  database.query(`VACUUM INTO ?`).run(backupPath);
+  return backupPath;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Add a column unless it already exists (SQLite has no ADD COLUMN IF NOT EXISTS).
+ */
+export function addColumn(
+  database: Database,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  const columns = database.query(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+function ensureMigrationsTable(database: Database): void {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+}
+
+function getAppliedMigrations(database: Database): AppliedMigration[] {
+  const exists = database
+    .query(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'`)
+    .get();
+  if (!exists) return [];
+
+  const rows = database
+    .query(`SELECT version, name, applied_at FROM schema_migrations ORDER BY version`)
+    .all() as { version: number; name: string; applied_at: string }[];
+
+  return rows.map((row) => ({ version: row.version, name: row.name, appliedAt: row.applied_at }));
+}
+
+function pendingMigrations(database: Database, migrations: Migration[]): Migration[] {
+  const applied = new Set(getAppliedMigrations(database).map((m) => m.version));
+  return migrations
+    .filter((m) => !applied.has(m.version))
+    .sort((a, b) => a.version - b.version);
+}
+
+function hasUserTables(database: Database): boolean {
+  const row = database
+    .query(
+      `SELECT COUNT(*) as count FROM sqlite_master
+       WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'schema_migrations'`
+    )
+    .get() as { count: number };
+  return row.count > 0;
+}
@@ -0,0 +1,204 @@
+/**
+ * Phase Validation Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ENGLISH_VOCABULARY } from "./bloom";
+import { defineTemplate, designTemplate } from "./course-scaffold";
+import { PENDING_LESSONS, PENDING_OBJECTIVE } from "./design-parser";
+import { checkCount, validatePhase, type PhaseValidationInput } from "./phase-validation";
+import type { DevelopmentTask, TaskStatus } from "../types";
+
+function defineDoc(objectives: string[]): string {
+  return `# Course Definition: Auth
+
+## Audience
+
+### Who are they?
+Backend developers new to authentication.
+
+## Learning Objectives
+
+${objectives.map((o, i) => `${i + 1}. ${o}`).join("\n")}
+
+## Assessment Strategy
+
+| Objective | Assessment Method | When |
+|-----------|-------------------|------|
+| 1 | Quiz | Module 1 |
+
+## Scope
+
+### In Scope
+- Sessions and tokens
+`;
+}
+
+function designDoc(lessonCounts: number[]): string {
+  return lessonCounts
+    .map((count, m) => {
+      const rows = Array.from(
+        { length: count },
+        (_, l) => `| L${l + 1} | Lesson ${l + 1} | 10 min | Explain topic ${l + 1} |`
+      );
+      return `### M${m + 1}: Module ${m + 1}
+
+| Lesson | Title | Duration | Objective |
+|--------|-------|----------|-----------|
+${rows.join("\n")}
+`;
+    })
+    .join("\n");
+}
+
+function task(id: string, status: TaskStatus): DevelopmentTask {
+  return { id, lessonPath: "M1/L1", type: "script", description: "", status, blockedReason: null };
+}
+
+describe("validatePhase", () => {
+  let coursePath: string;
+  let input: PhaseValidationInput;
+
+  beforeEach(() => {
+    coursePath = mkdtempSync(join(tmpdir(), "coursekit-test-"));
+    input = {
+      courseId: "C-001",
+      coursePath,
+      vocabulary: ENGLISH_VOCABULARY,
+      tasks: [],
+      lessonPaths: [],
+      production: [],
+    };
+  });
+
+  afterEach(() => {
+    rmSync(coursePath, { recursive: true, force: true });
+  });
+
+  it("fails untouched templates on their placeholders", () => {
+    const course = { id: "C-001", name: "Auth", context: "online" as const };
+    writeFileSync(join(coursePath, "define.md"), defineTemplate(course));
+    writeFileSync(join(coursePath, "design.md"), designTemplate(course));
+
+    const define = validatePhase("define", input);
+    const design = validatePhase("design", input);
+
+    expect(define.valid).toBe(false);
+    expect(define.issues.some((i) => i.includes('"[To be defined]"'))).toBe(true);
+    expect(define.issues.some((i) => i.includes('"[Bloom Verb]"'))).toBe(true);
+    expect(design.issues.some((i) => i.includes('"[Module Name]"'))).toBe(true);
+  });
+
+  it("passes a define.md with three to five objectives", () => {
+    writeFileSync(
+      join(coursePath, "define.md"),
+      defineDoc(["List auth types", "Implement JWT auth", "Evaluate auth methods"])
+    );
+    expect(validatePhase("define", input)).toEqual({ phase: "define", valid: true, issues: [], warnings: [] });
+  });
+
+  it("warns about objectives without a Bloom verb without failing the phase", () => {
+    writeFileSync(
+      join(coursePath, "define.md"),
+      defineDoc(["List auth types", "Implement JWT auth", "Auth methods in depth"])
+    );
+    const result = validatePhase("define", input);
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toContain("no recognizable Bloom verb");
+  });
+
+  it("reports an objective count outside 3-5", () => {
+    writeFileSync(join(coursePath, "define.md"), defineDoc(["List auth types", "Implement JWT auth"]));
+    expect(validatePhase("define", input).issues).toEqual([
+      "define.md: Learning Objectives has 2 objectives (expected 3-5)",
+    ]);
+  });
+
+  it("reports module and lesson counts outside the chunking rules", () => {
+    writeFileSync(join(coursePath, "design.md"), designDoc([1, 6]));
+
+    expect(validatePhase("design", input).issues).toEqual([
+      "design.md: Course has 2 modules (expected 3-8)",
+      "design.md: M1 has 1 lesson (expected 2-5)",
+      "design.md: M2 has 6 lessons (expected 2-5)",
+    ]);
+
+    writeFileSync(join(coursePath, "design.md"), designDoc([2, 3, 5]));
+    expect(validatePhase("design", input).valid).toBe(true);
+  });
+
+  it("fails the pending markers reconcile writes", () => {
+    const content = designDoc([2, 2, 2]).replace(
+      "| L2 | Lesson 2 | 10 min | Explain topic 2 |",
+      `| L2 | Lesson 2 | 10 min | ${PENDING_OBJECTIVE} |`
+    );
+    writeFileSync(join(coursePath, "design.md"), content);
+    const result = validatePhase("design", input);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([`design.md:6: Placeholder text "${PENDING_OBJECTIVE}"`]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("counts a module with no lessons yet against the chunking rules", () => {
+    writeFileSync(
+      join(coursePath, "design.md"),
+      `${designDoc([2, 2])}\n### M3: Module 3\n\n${PENDING_LESSONS}\n`
+    );
+    const result = validatePhase("design", input);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toContain("design.md: M3 has 0 lessons (expected 2-5)");
+    expect(result.issues).toContain(`design.md:17: Placeholder text "${PENDING_LESSONS}"`);
+  });
+
+  it("reports an unmarked empty module once", () => {
+    writeFileSync(join(coursePath, "design.md"), `${designDoc([2, 2])}\n### M3: Module 3\n`);
+
+    expect(validatePhase("design", input).issues).toEqual(["design.md:15: M3 has no lessons"]);
+  });
+
+  it("checks development tasks before develop.md checkboxes", () => {
+    writeFileSync(join(coursePath, "develop.md"), "- [ ] Script\n- [ ] Slides\n");
+    expect(validatePhase("develop", input).issues).toEqual(["Only 0% of tasks completed (0/2)"]);
+
+    input.tasks = [
+      ...["T1", "T2", "T3", "T4"].map((id) => task(id, "completed")),
+      task("T5", "blocked"),
+    ];
+    expect(validatePhase("develop", input).issues).toEqual(["1 task blocked (T5)"]);
+  });
+
+  it("needs every lesson fully produced and the platform set up", () => {
+    writeFileSync(
+      join(coursePath, "produce.md"),
+      "## Lessons\n\n## Platform Setup\n\n- [x] Course created on platform\n- [ ] Pricing configured\n"
+    );
+    input.lessonPaths = ["M1/L1", "M1/L2"];
+    input.production = [
+      { lessonPath: "M1/L1", recorded: true, edited: true, uploaded: true, accessTested: true, notes: null },
+      { lessonPath: "M1/L2", recorded: true, edited: true, uploaded: false, accessTested: false, notes: null },
+    ];
+
+    expect(validatePhase("produce", input).issues).toEqual([
+      "Production 50% complete (1/2 lessons; unfinished: M1/L2)",
+      "1 platform setup tasks incomplete",
+    ]);
+  });
+
+  it("fails without a course path", () => {
+    expect(validatePhase("define", { ...input, coursePath: null }).issues).toEqual(["Course path not set"]);
+  });
+});
+
+describe("checkCount", () => {
+  it("accepts counts in range and describes the rest", () => {
+    expect(checkCount(3, { min: 3, max: 5 }, "objectives")).toBeNull();
+    expect(checkCount(1, { min: 2, max: 5 }, "lessons")).toBe("1 lesson (expected 2-5)");
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Phase Validation
+ *
+ * The checks a phase has to pass before it counts as complete. `validate`
+ * reports them and `complete` refuses to advance until they pass.
+ *
+ * DEFINE and DESIGN are checked by parsing their documents (which also
+ * catches template placeholders) and against the chunking rules: 3-5
+ * objectives, 3-8 modules and 2-5 lessons per module. DEVELOP and PRODUCE
+ * are checked against the task and production records, falling back to
+ * the checkboxes in develop.md and produce.md for courses without them.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import type { BloomVocabulary } from "./bloom";
+import { loadBloomVocabulary } from "./bloom-vocabularies";
+import { getLessons, getModules, getProduction, getTasks } from "./database";
+import { parseDefine } from "./define-parser";
+import { parseDesign, PENDING_LESSONS, PENDING_OBJECTIVE } from "./design-parser";
+import {
+  findPlaceholders,
+  formatParseError,
+  sortParseErrors,
+  type ParseError,
+} from "./markdown-sections";
+import { PRODUCTION_STEPS } from "./production";
+import type { Course, CoursePhase, DevelopmentTask, ProductionStatus } from "../types";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Phases with completion checks, in order */
+export const VALIDATED_PHASES: CoursePhase[] = ["define", "design", "develop", "produce"];
+
+/** Inclusive count range */
+export interface CountRange {
+  min: number;
+  max: number;
+}
+
+/** Chunking rules from the README's core principles */
+export const CHUNKING_LIMITS = {
+  objectives: { min: 3, max: 5 },
+  modules: { min: 3, max: 8 },
+  lessonsPerModule: { min: 2, max: 5 },
+} satisfies Record<string, CountRange>;
+
+/**
+ * Markers `reconcile --to design` writes for missing objectives and
+ * lessons. design.md still parses with them, but the phase is not done.
+ */
+const PENDING_PATTERN = new RegExp(
+  [PENDING_OBJECTIVE, PENDING_LESSONS]
+    .map((marker) => marker.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("|")
+);
+
+/** Share of development tasks that must be completed */
+export const DEVELOP_COMPLETION_THRESHOLD = 80;
+
+/**
+ * Everything the checks look at, loaded by the caller.
+ */
+export interface PhaseValidationInput {
+  courseId: string;
+  coursePath: string | null;
+  vocabulary: BloomVocabulary;
+  /** Development tasks stored for the course */
+  tasks: DevelopmentTask[];
+  /** Lesson paths ("M1/L2") stored for the course */
+  lessonPaths: string[];
+  /** Production records stored for the course */
+  production: ProductionStatus[];
+}
+
+export interface PhaseValidationResult {
+  phase: CoursePhase;
+  valid: boolean;
+  issues: string[];
+  /** Problems worth fixing that do not block the phase */
+  warnings: string[];
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Load what the phase checks need for a course.
+ */
+export async function loadPhaseValidationInput(course: Course): Promise<PhaseValidationInput> {
+  return {
+    courseId: course.id,
+    coursePath: course.coursePath,
+    vocabulary: await loadBloomVocabulary(course),
+    tasks: getTasks(course.id),
+    lessonPaths: getModules(course.id).flatMap((module) =>
+      getLessons(course.id, module.id).map((lesson) => `${module.id}/${lesson.id}`)
+    ),
+    production: getProduction(course.id),
+  };
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Run the checks for one phase.
+ */
+export function validatePhase(phase: CoursePhase, input: PhaseValidationInput): PhaseValidationResult {
+  if (!input.coursePath) {
+    return { phase, valid: false, issues: ["Course path not set"], warnings: [] };
+  }
+
+  let issues: string[];
+  const warnings: string[] = [];
+  switch (phase) {
+    case "define":
+      issues = validateDefine(input.coursePath, input, warnings);
+      break;
+    case "design":
+      issues = validateDesign(input.coursePath, input, warnings);
+      break;
+    case "develop":
+      issues = validateDevelop(input.coursePath, input);
+      break;
+    case "produce":
+      issues = validateProduce(input.coursePath, input);
+      break;
+    default:
+      issues = [];
+  }
+
+  return { phase, valid: issues.length === 0, issues, warnings };
+}
+
+/**
+ * Describe a count outside its range, or return null when it fits.
+ *
+ * @param what - Counted thing in the plural ("objectives")
+ */
+export function checkCount(count: number, range: CountRange, what: string): string | null {
+  if (count >= range.min && count <= range.max) return null;
+  return `${count} ${count === 1 ? what.replace(/s$/, "") : what} (expected ${range.min}-${range.max})`;
+}
+
+function validateDefine(coursePath: string, input: PhaseValidationInput, warnings: string[]): string[] {
+  const definePath = join(coursePath, "define.md");
+  if (!existsSync(definePath)) {
+    return ["define.md not found"];
+  }
+
+  const { definition, errors, warnings: parseWarnings } = parseDefine(
+    readFileSync(definePath, "utf-8"),
+    input.courseId,
+    input.vocabulary
+  );
+
+  const objectives = checkCount(definition.objectives.length, CHUNKING_LIMITS.objectives, "objectives");
+  if (objectives) {
+    errors.push({ message: `Learning Objectives has ${objectives}` });
+  }
+
+  warnings.push(...format(parseWarnings, "define.md"));
+  return format(errors, "define.md");
+}
+
+function validateDesign(coursePath: string, input: PhaseValidationInput, warnings: string[]): string[] {
+  const designPath = join(coursePath, "design.md");
+  if (!existsSync(designPath)) {
+    return ["design.md not found"];
+  }
+
+  const content = readFileSync(designPath, "utf-8");
+  const { design, errors, warnings: parseWarnings } = parseDesign(
+    content,
+    input.courseId,
+    input.vocabulary
+  );
+
+  // The parser only warns about pending markers; here they block
+  const pending = findPlaceholders(content, PENDING_PATTERN);
+  errors.push(...pending);
+  const pendingLines = new Set(pending.map((error) => error.line));
+
+  if (design.modules.length > 0) {
+    const modules = checkCount(design.modules.length, CHUNKING_LIMITS.modules, "modules");
+    if (modules) {
+      errors.push({ message: `Course has ${modules}` });
+    }
+  }
+
+  for (const module of design.modules) {
+    // An unmarked empty module is already a parse error; "_No lessons yet._" is not
+    if (errors.some((e) => e.message === `${module.id} has no lessons`)) continue;
+    const lessons = checkCount(module.lessons.length, CHUNKING_LIMITS.lessonsPerModule, "lessons");
+    if (lessons) {
+      errors.push({ message: `${module.id} has ${lessons}` });
+    }
+  }
+
+  warnings.push(...format(parseWarnings.filter((w) => !pendingLines.has(w.line)), "design.md"));
+  return format(errors, "design.md");
+}
+
+function validateDevelop(coursePath: string, input: PhaseValidationInput): string[] {
+  let completed: number;
+  let total: number;
+
+  if (input.tasks.length > 0) {
+    total = input.tasks.length;
+    completed = input.tasks.filter((task) => task.status === "completed").length;
+  } else {
+    const developPath = join(coursePath, "develop.md");
+    if (!existsSync(developPath)) {
+      return ["develop.md not found"];
+    }
+    ({ checked: completed, total } = countCheckboxes(readFileSync(developPath, "utf-8")));
+  }
+
+  const issues: string[] = [];
+  if (total > 0) {
+    const percent = Math.round((completed / total) * 100);
+    if (percent < DEVELOP_COMPLETION_THRESHOLD) {
+      issues.push(`Only ${percent}% of tasks completed (${completed}/${total})`);
+    }
+  }
+
+  const blocked = input.tasks.filter((task) => task.status === "blocked");
+  if (blocked.length > 0) {
+    issues.push(`${blocked.length} task${blocked.length === 1 ? "" : "s"} blocked (${blocked.map((t) => t.id).join(", ")})`);
+  }
+
+  return issues;
+}
+
+function validateProduce(coursePath: string, input: PhaseValidationInput): string[] {
+  const producePath = join(coursePath, "produce.md");
+  if (!existsSync(producePath)) {
+    return ["produce.md not found"];
+  }
+
+  const content = readFileSync(producePath, "utf-8");
+  const issues: string[] = [];
+
+  if (input.lessonPaths.length > 0) {
+    const records = new Map(input.production.map((p) => [p.lessonPath, p]));
+    const unfinished = input.lessonPaths.filter((path) => {
+      const record = records.get(path);
+      return !record || PRODUCTION_STEPS.some((step) => !record[step]);
+    });
+    if (unfinished.length > 0) {
+      const done = input.lessonPaths.length - unfinished.length;
+      issues.push(
+        `Production ${Math.round((done / input.lessonPaths.length) * 100)}% complete ` +
+          `(${done}/${input.lessonPaths.length} lessons; unfinished: ${unfinished.join(", ")})`
+      );
+    }
+  } else {
+    const lessonsSection = content.split("## Platform Setup")[0];
+    const { checked, total } = countCheckboxes(lessonsSection);
+    if (total > 0 && checked < total) {
+      const percent = Math.round((checked / total) * 100);
+      issues.push(`Production ${percent}% complete (${checked}/${total} tasks)`);
+    }
+  }
+
+  // Platform setup and pre-launch checklists live only in produce.md
+  if (content.includes("## Platform Setup")) {
+    const platformSection = content.split("## Platform Setup")[1]?.split("##")[0] || "";
+    const platformUnchecked = (platformSection.match(/- \[ \]/g) || []).length;
+    if (platformUnchecked > 0) {
+      issues.push(`${platformUnchecked} platform setup tasks incomplete`);
+    }
+  }
+
+  return issues;
+}
+
+function countCheckboxes(content: string): { checked: number; total: number } {
+  const unchecked = (content.match(/- \[ \]/g) || []).length;
+  const checked = (content.match(/- \[x\]/gi) || []).length;
+  return { checked, total: unchecked + checked };
+}
+
+function format(errors: ParseError[], file: string): string[] {
+  return sortParseErrors(errors).map((error) => formatParseError(error, file));
+}
@@ -0,0 +1,218 @@
+/**
+ * Course Plan Import Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { parseDefine } from "./define-parser";
+import { parseDesign } from "./design-parser";
+import {
+  detectPlanFormat,
+  parseCsv,
+  parsePlan,
+  renderDefineFromPlan,
+  renderDesignFromPlan,
+} from "./plan-import";
+
+const COURSE = { id: "C-001", name: "Auth Fundamentals", context: "online" as const };
+
+const OUTLINE = `# Auth Fundamentals
+
+Authentication for backend developers.
+
+## Audience
+Backend developers new to authentication.
+
+## Objectives
+- List the three types of authentication
+- Implement JWT authentication in an API
+
+## Module 1: Foundations
+Objective: Explain how sessions and tokens differ
+Assessment: Quiz
+- What is authentication (8 min): Define authentication and authorization
+- L3: Sessions vs tokens — Compare sessions and tokens
+
+## Tokens in Practice (Week 3-4)
+- Signing JWTs (12 minutes)
+`;
+
+describe("detectPlanFormat", () => {
+  it("maps extensions to formats", () => {
+    expect(detectPlanFormat("plan.MD")).toBe("markdown");
+    expect(detectPlanFormat("plan.yml")).toBe("yaml");
+    expect(detectPlanFormat("plan.json")).toBe("json");
+    expect(detectPlanFormat("plan.csv")).toBe("csv");
+    expect(detectPlanFormat("plan.xlsx")).toBeNull();
+  });
+});
+
+describe("markdown outline", () => {
+  it("reads description, audience, objectives, modules and lessons", () => {
+    const { plan, errors } = parsePlan(OUTLINE, "markdown");
+
+    expect(errors).toEqual([]);
+    expect(plan.description).toBe("Authentication for backend developers.");
+    expect(plan.audience).toBe("Backend developers new to authentication.");
+    expect(plan.objectives.map((o) => [o.id, o.bloomLevel])).toEqual([
+      ["O1", "remember"],
+      ["O2", "apply"],
+    ]);
+
+    const [m1, m2] = plan.modules;
+    expect(m1).toMatchObject({ id: "M1", name: "Foundations", assessmentType: "Quiz" });
+    expect(m1.lessons).toEqual([
+      {
+        id: "L1",
+        title: "What is authentication",
+        duration: 8,
+        objective: "Define authentication and authorization",
+        bloomLevel: "remember",
+      },
+      {
+        id: "L3",
+        title: "Sessions vs tokens",
+        duration: 10,
+        objective: "Compare sessions and tokens",
+        bloomLevel: "understand",
+      },
+    ]);
+    expect(m2).toMatchObject({ id: "M2", name: "Tokens in Practice", weekRange: "Week 3-4" });
+    expect(m2.lessons[0]).toMatchObject({ title: "Signing JWTs", duration: 12, objective: null });
+  });
+
+  it("reports an outline without modules", () => {
+    const { errors } = parsePlan("# Title\n\n## Objectives\n- List things\n", "markdown");
+    expect(errors).toEqual([{ message: "Plan has no modules" }]);
+  });
+});
+
+describe("YAML and JSON plans", () => {
+  it("accepts lessons and objectives as strings or objects", () => {
+    const yaml = `
+objectives:
+  - Explain token expiry
+  - id: O4
+    text: Design a login flow
+    assessment: Project
+    when: Module 2
+modules:
+  - name: Basics
+    weeks: 1-2
+    lessons:
+      - Intro
+      - title: Token expiry
+        duration: 15 min
+        objective: Explain token expiry
+  - id: M4
+    name: Project
+    lessons: []
+`;
+    const { plan, errors } = parsePlan(yaml, "yaml");
+
+    expect(errors).toEqual([]);
+    expect(plan.objectives.map((o) => o.id)).toEqual(["O1", "O4"]);
+    expect(plan.assessmentStrategy).toEqual([{ objectiveId: "O4", method: "Project", timing: "Module 2" }]);
+    expect(plan.modules.map((m) => m.id)).toEqual(["M1", "M4"]);
+    expect(plan.modules[0].weekRange).toBe("Week 1-2");
+    expect(plan.modules[0].lessons.map((l) => [l.id, l.duration])).toEqual([
+      ["L1", 10],
+      ["L2", 15],
+    ]);
+  });
+
+  it("reports schema problems with their path", () => {
+    const { errors } = parsePlan(JSON.stringify({ modules: [{ lessons: [] }] }), "json");
+    expect(errors[0].message).toStartWith("modules.0.name:");
+  });
+
+  it("reports invalid syntax", () => {
+    const { errors } = parsePlan("{ not json", "json");
+    expect(errors[0].message).toStartWith("Invalid JSON:");
+  });
+
+  it("reports duplicate IDs and bad durations", () => {
+    const { errors } = parsePlan(
+      JSON.stringify({
+        modules: [
+          { id: "M1", name: "A", lessons: [{ title: "x", duration: "an hour" }] },
+          { id: "M1", name: "B" },
+        ],
+      }),
+      "json"
+    );
+    expect(errors.map((e) => e.message)).toEqual([
+      "Duplicate module ID M1",
+      'Invalid duration "an hour" for "x" (expected minutes)',
+    ]);
+  });
+});
+
+describe("CSV plans", () => {
+  it("groups rows by module and continues blank module cells", () => {
+    const csv = [
+      "Module,Module Objective,Lesson,Duration (min),Objective",
+      'Foundations,Explain auth,"Sessions, cookies and you",8,Describe session cookies',
+      ",,Tokens,12,Explain bearer tokens",
+      "Practice,,Build a login,20,Implement a login endpoint",
+    ].join("\r\n");
+
+    const { plan, errors } = parsePlan(csv, "csv");
+
+    expect(errors).toEqual([]);
+    expect(plan.modules.map((m) => [m.id, m.name, m.lessons.length])).toEqual([
+      ["M1", "Foundations", 2],
+      ["M2", "Practice", 1],
+    ]);
+    expect(plan.modules[0].objective).toBe("Explain auth");
+    expect(plan.modules[0].lessons[0]).toMatchObject({ title: "Sessions, cookies and you", duration: 8 });
+    expect(plan.modules[1].lessons[0].bloomLevel).toBe("apply");
+  });
+
+  it("requires module and lesson columns", () => {
+    const { errors } = parsePlan("Name,Minutes\nIntro,5\n", "csv");
+    expect(errors.map((e) => e.message)).toEqual([
+      'CSV has no "module" column',
+      'CSV has no "lesson" column',
+    ]);
+  });
+
+  it("handles quoted newlines and escaped quotes", () => {
+    expect(parseCsv('a,"b ""quoted""\nline",c\n\nd\n')).toEqual([
+      { cells: ["a", 'b "quoted"\nline', "c"], line: 1 },
+      { cells: ["d"], line: 4 },
+    ]);
+  });
+});
+
+describe("rendering", () => {
+  it("renders documents the phase parsers read back", () => {
+    const { plan } = parsePlan(OUTLINE, "markdown");
+
+    const define = parseDefine(renderDefineFromPlan(plan, COURSE), "C-001");
+    expect(define.definition.audience.description).toBe("Backend developers new to authentication.");
+    expect(define.definition.objectives.map((o) => o.text)).toEqual(plan.objectives.map((o) => o.text));
+
+    const design = parseDesign(renderDesignFromPlan(plan, COURSE), "C-001");
+    // Only the template sections the plan does not cover are left to fill in
+    expect(design.errors.filter((e) => /^M\d|unknown module/.test(e.message))).toEqual([]);
+    expect(design.warnings.map((w) => w.message)).toEqual([
+      "M2 objective is still to be written",
+      "M2/L1 objective is still to be written",
+    ]);
+    expect(design.design.modules.map((m) => [m.id, m.lessons.map((l) => l.id)])).toEqual([
+      ["M1", ["L1", "L3"]],
+      ["M2", ["L1"]],
+    ]);
+  });
+
+  it("keeps explicit objective IDs in define.md", () => {
+    const { plan } = parsePlan(
+      JSON.stringify({ objectives: [{ id: "O2", text: "Explain tokens", assessment: "Quiz" }], modules: [{ name: "A" }] }),
+      "json"
+    );
+    const content = renderDefineFromPlan(plan, COURSE);
+
+    expect(content).toContain("1. **O2**: Explain tokens");
+    expect(content).toContain("| O2 | Quiz |  |");
+  });
+});
@@ -0,0 +1,700 @@
+/**
+ * Course Plan Import
+ *
+ * Read an existing course plan - a markdown outline, a YAML or JSON plan,
+ * or a CSV of modules and lessons - into modules, lessons and objectives,
+ * and render define.md and design.md pre-filled from it. Used by
+ * `coursekit init --from-plan`.
+ */
+
+import { extname } from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import type { BloomLevel, LearningObjective } from "../types";
+import { analyzeBloomVerb, ENGLISH_VOCABULARY, type BloomVocabulary } from "./bloom";
+import { defineTemplate, designTemplate, type ScaffoldCourse } from "./course-scaffold";
+import { formatWeekRange, replaceModuleStructure } from "./design-writer";
+import { sortParseErrors, type ParseError } from "./markdown-sections";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PlanFormat = "markdown" | "yaml" | "json" | "csv";
+
+export interface PlanLesson {
+  id: string;
+  title: string;
+  duration: number;
+  objective: string | null;
+  bloomLevel: BloomLevel | null;
+}
+
+export interface PlanModule {
+  id: string;
+  name: string;
+  objective: string | null;
+  assessmentType: string | null;
+  weekRange: string | null;
+  lessons: PlanLesson[];
+}
+
+/**
+ * A course plan, normalized: every module and lesson has an ID and a
+ * duration, every objective an ID and Bloom level (if recognized).
+ */
+export interface CoursePlan {
+  description: string | null;
+  audience: string | null;
+  objectives: LearningObjective[];
+  assessmentStrategy: { objectiveId: string; method: string; timing: string }[];
+  modules: PlanModule[];
+}
+
+export interface PlanParseResult {
+  plan: CoursePlan;
+  errors: ParseError[];
+}
+
+/** Plan as read from the file, before IDs and durations are filled in */
+interface RawPlan {
+  description?: string;
+  audience?: string;
+  objectives: RawObjective[];
+  modules: RawModule[];
+}
+
+interface RawObjective {
+  id?: string;
+  text: string;
+  assessment?: string;
+  when?: string;
+  line?: number;
+}
+
+interface RawModule {
+  id?: string;
+  name: string;
+  objective?: string;
+  assessment?: string;
+  weeks?: string;
+  line?: number;
+  lessons: RawLesson[];
+}
+
+interface RawLesson {
+  id?: string;
+  title: string;
+  duration?: string | number;
+  objective?: string;
+  line?: number;
+}
+
+/** Lesson duration when the plan gives none */
+export const DEFAULT_LESSON_DURATION = 10;
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Detect the plan format from the file extension.
+ *
+ * @returns Format, or null for unsupported extensions
+ */
+export function detectPlanFormat(path: string): PlanFormat | null {
+  switch (extname(path).toLowerCase()) {
+    case ".md":
+    case ".markdown":
+      return "markdown";
+    case ".yaml":
+    case ".yml":
+      return "yaml";
+    case ".json":
+      return "json";
+    case ".csv":
+      return "csv";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a course plan.
+ *
+ * Modules and lessons without IDs are numbered M1, M2, ... and L1, L2, ...
+ * in plan order; lessons without a duration get 10 minutes.
+ *
+ * @param content - Plan file content
+ * @param format - Plan format
+ * @param vocabulary - Bloom verbs for the course language (defaults to English)
+ * @returns Normalized plan and any errors
+ */
+export function parsePlan(
+  content: string,
+  format: PlanFormat,
+  vocabulary: BloomVocabulary = ENGLISH_VOCABULARY
+): PlanParseResult {
+  const errors: ParseError[] = [];
+  let raw: RawPlan;
+
+  switch (format) {
+    case "markdown":
+      raw = readMarkdownPlan(content);
+      break;
+    case "csv":
+      raw = readCsvPlan(content, errors);
+      break;
+    case "yaml":
+    case "json":
+      raw = readStructuredPlan(content, format, errors);
+      break;
+  }
+
+  const plan = normalizePlan(raw, vocabulary, errors);
+  return { plan, errors: sortParseErrors(errors) };
+}
+
+// -----------------------------------------------------------------------------
+// Markdown outline
+// -----------------------------------------------------------------------------
+
+/**
+ * Markdown outline:
+ *
+ *   # Course title (ignored; the paragraph below becomes the description)
+ *   ## Audience          - paragraph
+ *   ## Objectives        - list of objectives
+ *   ## M1: Module name   - any other "## " heading is a module, with
+ *                          "Objective:", "Assessment:" and "Weeks:" lines
+ *                          and one list item per lesson:
+ *                          "- L1: Title (8 min): Objective"
+ */
+function readMarkdownPlan(content: string): RawPlan {
+  const plan: RawPlan = { objectives: [], modules: [] };
+  type Section = "intro" | "audience" | "objectives" | "module" | null;
+  let section: Section = null;
+  let module: RawModule | null = null;
+  const description: string[] = [];
+  const audience: string[] = [];
+
+  content.split("\n").forEach((text, index) => {
+    const line = index + 1;
+    const trimmed = text.trim();
+
+    if (/^#\s/.test(trimmed)) {
+      section = "intro";
+      return;
+    }
+
+    const heading = trimmed.match(/^##\s+(.+)$/);
+    if (heading) {
+      const title = heading[1].trim();
+      if (/^audience$/i.test(title)) {
+        section = "audience";
+      } else if (/^(?:learning\s+)?objectives$/i.test(title)) {
+        section = "objectives";
+      } else {
+        section = "module";
+        module = { ...parseModuleHeading(title), line, lessons: [] };
+        plan.modules.push(module);
+      }
+      return;
+    }
+
+    if (!trimmed || /^#{3,}\s/.test(trimmed)) return;
+
+    const item = trimmed.match(/^(?:[-*+]|\d+[.)])\s+(.+)$/);
+
+    switch (section) {
+      case "intro":
+        if (!item) description.push(trimmed);
+        break;
+      case "audience":
+        audience.push(item ? item[1] : trimmed);
+        break;
+      case "objectives":
+        if (item) {
+          const match = item[1].replace(/\*\*/g, "").match(/^(?:(O\d+):\s*)?(.+)$/);
+          plan.objectives.push({ id: match?.[1], text: match?.[2].trim() ?? item[1], line });
+        }
+        break;
+      case "module": {
+        const field = trimmed.match(/^\*{0,2}(objective|assessment|weeks?)\*{0,2}\s*:\s*\*{0,2}\s*(.+)$/i);
+        if (field) {
+          const value = field[2].trim();
+          const key = field[1].toLowerCase();
+          if (key === "objective") module!.objective = value;
+          else if (key === "assessment") module!.assessment = value;
+          else module!.weeks = value;
+        } else if (item) {
+          module!.lessons.push({ ...parseLessonItem(item[1]), line });
+        }
+        break;
+      }
+    }
+  });
+
+  if (description.length > 0) plan.description = description.join(" ");
+  if (audience.length > 0) plan.audience = audience.join(" ");
+  return plan;
+}
+
+/**
+ * "M1: Name", "Module 1: Name", "Name (Week 1-2)" or just "Name"
+ */
+function parseModuleHeading(title: string): Omit<RawModule, "lessons"> {
+  let name = title;
+  let weeks: string | undefined;
+
+  const weekMatch = name.match(/\s*\((weeks?\s+[\d\s\-–]+)\)\s*$/i);
+  if (weekMatch) {
+    weeks = weekMatch[1];
+    name = name.slice(0, weekMatch.index).trim();
+  }
+
+  const idMatch = name.match(/^(?:(M\d+)|module\s+(\d+))\s*[:.\-–—]\s*(.+)$/i);
+  if (idMatch) {
+    const id = idMatch[1] ? idMatch[1].toUpperCase() : `M${idMatch[2]}`;
+    return { id, name: idMatch[3].trim(), weeks };
+  }
+  return { name, weeks };
+}
+
+/**
+ * "L1: Title (8 min): Objective", "Title (8 min)", "Title — Objective"
+ */
+function parseLessonItem(text: string): Omit<RawLesson, "line"> {
+  let rest = text.replace(/\*\*/g, "").trim();
+  let id: string | undefined;
+
+  const idMatch = rest.match(/^(L\d+)\s*[:.\-–—]\s*/i);
+  if (idMatch) {
+    id = idMatch[1].toUpperCase();
+    rest = rest.slice(idMatch[0].length);
+  }
+
+  const duration = rest.match(/\s*\((\d+)\s*(?:min(?:utes?)?|m)\)\s*/i);
+  if (duration) {
+    const objective = rest
+      .slice(duration.index! + duration[0].length)
+      .replace(/^[:\-–—]\s*/, "")
+      .trim();
+    return {
+      id,
+      title: rest.slice(0, duration.index).trim(),
+      duration: Number(duration[1]),
+      objective: objective || undefined,
+    };
+  }
+
+  const split = rest.match(/^(.+?)\s+[—–]\s+(.+)$/) ?? rest.match(/^(.+?):\s+(.+)$/);
+  if (split) {
+    return { id, title: split[1].trim(), objective: split[2].trim() };
+  }
+  return { id, title: rest };
+}
+
+// -----------------------------------------------------------------------------
+// YAML / JSON
+// -----------------------------------------------------------------------------
+
+const DurationSchema = z.union([z.number(), z.string()]);
+
+const PlanLessonSchema = z.union([
+  z.string().min(1),
+  z.object({
+    id: z.string().optional(),
+    title: z.string().min(1),
+    duration: DurationSchema.optional(),
+    objective: z.string().optional(),
+  }),
+]);
+
+const PlanModuleSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  objective: z.string().optional(),
+  assessment: z.string().optional(),
+  weeks: z.union([z.string(), z.number()]).optional(),
+  lessons: z.array(PlanLessonSchema).default([]),
+});
+
+const PlanObjectiveSchema = z.union([
+  z.string().min(1),
+  z.object({
+    id: z.string().optional(),
+    text: z.string().min(1),
+    assessment: z.string().optional(),
+    when: z.string().optional(),
+  }),
+]);
+
+const PlanFileSchema = z.object({
+  description: z.string().optional(),
+  audience: z.string().optional(),
+  objectives: z.array(PlanObjectiveSchema).default([]),
+  modules: z.array(PlanModuleSchema),
+});
+
+function readStructuredPlan(
+  content: string,
+  format: "yaml" | "json",
+  errors: ParseError[]
+): RawPlan {
+  let data: unknown;
+  try {
+    data = format === "json" ? JSON.parse(content) : parseYaml(content);
+  } catch (err) {
+    errors.push({ message: `Invalid ${format.toUpperCase()}: ${(err as Error).message}` });
+    return { objectives: [], modules: [] };
+  }
+
+  const result = PlanFileSchema.safeParse(data);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      errors.push({ message: `${issue.path.join(".") || "plan"}: ${issue.message}` });
+    }
+    return { objectives: [], modules: [] };
+  }
+
+  const file = result.data;
+  return {
+    description: file.description,
+    audience: file.audience,
+    objectives: file.objectives.map((o) => (typeof o === "string" ? { text: o } : o)),
+    modules: file.modules.map((m) => ({
+      ...m,
+      weeks: m.weeks === undefined ? undefined : String(m.weeks),
+      lessons: m.lessons.map((l) => (typeof l === "string" ? { title: l } : l)),
+    })),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// CSV
+// -----------------------------------------------------------------------------
+
+/** Accepted CSV headers (lowercased, letters only) for each field */
+const CSV_COLUMNS = {
+  module: ["module", "modulename", "moduletitle"],
+  moduleId: ["moduleid"],
+  moduleObjective: ["moduleobjective"],
+  assessment: ["assessment", "moduleassessment"],
+  weeks: ["weeks", "week"],
+  lesson: ["lesson", "lessontitle", "title"],
+  lessonId: ["lessonid"],
+  duration: ["duration", "durationmin", "minutes"],
+  objective: ["objective", "lessonobjective"],
+} as const;
+
+type CsvField = keyof typeof CSV_COLUMNS;
+
+/**
+ * One row per lesson with at least "Module" and "Lesson" columns. A blank
+ * Module cell continues the module above, as in spreadsheets with merged
+ * cells.
+ */
+function readCsvPlan(content: string, errors: ParseError[]): RawPlan {
+  const plan: RawPlan = { objectives: [], modules: [] };
+  const rows = parseCsv(content);
+  if (rows.length === 0) return plan;
+
+  const header = rows[0].cells.map((cell) => cell.toLowerCase().replace(/[^a-z]/g, ""));
+  const columns = new Map<CsvField, number>();
+  for (const [field, names] of Object.entries(CSV_COLUMNS) as [CsvField, readonly string[]][]) {
+    const index = header.findIndex((h) => names.includes(h));
+    if (index >= 0) columns.set(field, index);
+  }
+
+  for (const required of ["module", "lesson"] as const) {
+    if (!columns.has(required)) {
+      errors.push({ line: rows[0].line, message: `CSV has no "${required}" column` });
+    }
+  }
+  if (errors.length > 0) return plan;
+
+  let module: RawModule | null = null;
+  for (const { cells, line } of rows.slice(1)) {
+    const cell = (field: CsvField) => {
+      const index = columns.get(field);
+      return index === undefined ? undefined : cells[index]?.trim() || undefined;
+    };
+
+    const moduleName = cell("module");
+    const moduleId = cell("moduleId");
+    if (moduleName || moduleId) {
+      const existing = plan.modules.find(
+        (m) => (moduleId && m.id === moduleId) || (!moduleId && m.name === moduleName)
+      );
+      if (existing) {
+        module = existing;
+      } else {
+        module = { id: moduleId, name: moduleName ?? "", line, lessons: [] };
+        plan.modules.push(module);
+      }
+    }
+    if (!module) {
+      errors.push({ line, message: "Row has no module" });
+      continue;
+    }
+
+    module.objective ??= cell("moduleObjective");
+    module.assessment ??= cell("assessment");
+    module.weeks ??= cell("weeks");
+
+    const title = cell("lesson");
+    if (title) {
+      module.lessons.push({
+        id: cell("lessonId"),
+        title,
+        duration: cell("duration"),
+        objective: cell("objective"),
+        line,
+      });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Split CSV into rows of cells (RFC 4180 quoting), skipping blank rows.
+ * Each row keeps the line number it starts on.
+ */
+export function parseCsv(content: string): { cells: string[]; line: number }[] {
+  const rows: { cells: string[]; line: number }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((c) => c.trim() !== "")) {
+      rows.push({ cells, line: rowLine });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  const text = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || cells.length > 0) endRow();
+
+  return rows;
+}
+
+// -----------------------------------------------------------------------------
+// Normalizing
+// -----------------------------------------------------------------------------
+
+function normalizePlan(
+  raw: RawPlan,
+  vocabulary: BloomVocabulary,
+  errors: ParseError[]
+): CoursePlan {
+  const plan: CoursePlan = {
+    description: raw.description?.trim() || null,
+    audience: raw.audience?.trim() || null,
+    objectives: [],
+    assessmentStrategy: [],
+    modules: [],
+  };
+
+  const objectiveIds = assignIds(raw.objectives, "O", errors, "objective");
+  raw.objectives.forEach((objective, index) => {
+    const bloom = analyzeBloomVerb(objective.text, vocabulary);
+    const id = objectiveIds[index];
+    plan.objectives.push({
+      id,
+      text: objective.text.trim(),
+      bloomLevel: bloom.level,
+      verb: bloom.verb ?? "",
+      assessmentMethod: objective.assessment?.trim() || null,
+      coveredBy: null,
+    });
+    if (objective.assessment?.trim()) {
+      plan.assessmentStrategy.push({
+        objectiveId: id,
+        method: objective.assessment.trim(),
+        timing: objective.when?.trim() ?? "",
+      });
+    }
+  });
+
+  if (raw.modules.length === 0 && errors.length === 0) {
+    errors.push({ message: "Plan has no modules" });
+  }
+
+  const moduleIds = assignIds(raw.modules, "M", errors, "module");
+  raw.modules.forEach((module, index) => {
+    if (!module.name.trim()) {
+      errors.push({ line: module.line, message: `${moduleIds[index]} has no name` });
+    }
+
+    const lessonIds = assignIds(module.lessons, "L", errors, `lesson in ${moduleIds[index]}`);
+    plan.modules.push({
+      id: moduleIds[index],
+      name: module.name.trim(),
+      objective: module.objective?.trim() || null,
+      assessmentType: module.assessment?.trim() || null,
+      weekRange: formatWeekRange(module.weeks),
+      lessons: module.lessons.map((lesson, lessonIndex) => {
+        const objective = lesson.objective?.trim() || null;
+        return {
+          id: lessonIds[lessonIndex],
+          title: lesson.title.trim(),
+          duration: parseDuration(lesson, errors),
+          objective,
+          bloomLevel: objective ? analyzeBloomVerb(objective, vocabulary).level : null,
+        };
+      }),
+    });
+  });
+
+  return plan;
+}
+
+/**
+ * Keep explicit IDs (which must look like "<prefix><n>" and be unique) and
+ * number the rest after the highest ID used so far.
+ */
+function assignIds(
+  items: { id?: string; line?: number }[],
+  prefix: string,
+  errors: ParseError[],
+  label: string
+): string[] {
+  const pattern = new RegExp(`^${prefix}(\\d+)$`, "i");
+  const used = new Set<string>();
+  let next = 1;
+
+  return items.map((item) => {
+    if (item.id) {
+      const match = item.id.trim().match(pattern);
+      if (!match) {
+        errors.push({ line: item.line, message: `Invalid ${label} ID "${item.id}" (expected ${prefix}1, ${prefix}2, ...)` });
+      } else {
+        const id = `${prefix}${Number(match[1])}`;
+        if (used.has(id)) {
+          errors.push({ line: item.line, message: `Duplicate ${label} ID ${id}` });
+        }
+        used.add(id);
+        next = Math.max(next, Number(match[1]) + 1);
+        return id;
+      }
+    }
+
+    while (used.has(`${prefix}${next}`)) next++;
+    const id = `${prefix}${next++}`;
+    used.add(id);
+    return id;
+  });
+}
+
+function parseDuration(lesson: RawLesson, errors: ParseError[]): number {
+  if (lesson.duration === undefined || lesson.duration === "") {
+    return DEFAULT_LESSON_DURATION;
+  }
+
+  const match = String(lesson.duration).trim().match(/^(\d+)\s*(?:min(?:utes?)?|m)?$/i);
+  if (!match || Number(match[1]) <= 0) {
+    errors.push({
+      line: lesson.line,
+      message: `Invalid duration "${lesson.duration}" for "${lesson.title}" (expected minutes)`,
+    });
+    return DEFAULT_LESSON_DURATION;
+  }
+  return Number(match[1]);
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Render define.md from the template with the plan's audience, objectives
+ * and assessment strategy filled in.
+ */
+export function renderDefineFromPlan(plan: CoursePlan, course: ScaffoldCourse): string {
+  let content = defineTemplate(course);
+
+  if (plan.audience) {
+    content = content.replace("[To be defined]", plan.audience);
+  }
+
+  if (plan.objectives.length > 0) {
+    const items = plan.objectives.map((o, index) =>
+      o.id === `O${index + 1}` ? `${index + 1}. ${o.text}` : `${index + 1}. **${o.id}**: ${o.text}`
+    );
+    content = replaceSectionBody(content, "Learning Objectives", [
+      "By the end of this course, learners will be able to:",
+      "",
+      ...items,
+    ]);
+  }
+
+  if (plan.assessmentStrategy.length > 0) {
+    content = replaceSectionBody(content, "Assessment Strategy", [
+      "| Objective | Assessment Method | When |",
+      "|-----------|-------------------|------|",
+      ...plan.assessmentStrategy.map((a) => `| ${a.objectiveId} | ${a.method} | ${a.timing} |`),
+    ]);
+  }
+
+  return content;
+}
+
+/**
+ * Render design.md from the template with the plan's modules and lessons,
+ * and a learning path through the modules in plan order.
+ */
+export function renderDesignFromPlan(plan: CoursePlan, course: ScaffoldCourse): string {
+  const path = plan.modules.map((m, index) =>
+    index === 0 ? `${m.id} (${m.name})` : `${"  ".repeat(3 * index - 2)}└─→ ${m.id} (${m.name})`
+  );
+
+  return replaceSectionBody(
+    replaceModuleStructure(designTemplate(course), plan.modules),
+    "Learning Path",
+    ["```", ...path, "```"]
+  );
+}
+
+function replaceSectionBody(content: string, title: string, body: string[]): string {
+  const lines = content.split("\n");
+  const start = lines.findIndex((text) => text.trim() === `## ${title}`);
+  if (start < 0) return content;
+
+  let end = lines.findIndex((text, index) => index > start && /^##\s/.test(text));
+  if (end < 0) end = lines.length;
+
+  return [...lines.slice(0, start + 1), "", ...body, "", ...lines.slice(end)].join("\n");
+}
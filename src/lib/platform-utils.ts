@@ -8,8 +8,9 @@ import * as crypto from "node:crypto";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { parse as parseYaml } from "yaml";
-import type { CourseKitConfig, PlatformOwnedFields } from "../types";
+import type { CourseKitConfig, PlatformOwnedFields, SyncContentType } from "../types";
 import { DEFAULT_PROTECTED_FIELDS } from "../types";
+import { normalizeContent } from "./diff-utils";
 
 // =============================================================================
 // Content Hashing
@@ -25,6 +26,37 @@ export function hashContent(content: string): string {
   return crypto.createHash("sha256").update(content, "utf8").digest("hex");
 }
 
+/**
+ * Calculate SHA-256 hash of a binary file.
+ *
+ * @param filePath - Path to file
+ * @returns SHA-256 hash as hex string
+ */
+export async function calculateBinaryHash(filePath: string): Promise<string> {
+  const content = await Bun.file(filePath).arrayBuffer();
+  const hash = crypto.createHash("sha256");
+  hash.update(Buffer.from(content));
+  return hash.digest("hex");
+}
+
+/**
+ * Hash a platform file the way sync records store it: the normalized body
+ * for lessons and guides, the raw bytes for assets.
+ *
+ * @param contentType - Kind of content the file holds
+ * @param filePath - Path to file
+ * @returns Hash comparable to SyncRecord.contentHash
+ */
+export async function hashPlatformFile(contentType: SyncContentType, filePath: string): Promise<string> {
+  if (contentType === "asset") {
+    return calculateBinaryHash(filePath);
+  }
+  const content = await Bun.file(filePath).text();
+  const bodyMatch = content.match(/^---[\s\S]*?---\s*([\s\S]*)$/);
+  const body = bodyMatch ? bodyMatch[1] : content;
+  return hashContent(normalizeContent(body));
+}
+
 // =============================================================================
 // Platform File Scanning
 // =============================================================================
@@ -107,6 +139,33 @@ export async function scanPlatformGuides(
   return files.sort();
 }
 
+/**
+ * Scan platform for asset files published for a course.
+ *
+ * @param platformRoot - Absolute path to platform root
+ * @param courseSlug - Course slug assets are published under
+ * @returns Array of absolute file paths, sorted alphabetically
+ */
+export async function scanPlatformAssets(
+  platformRoot: string,
+  courseSlug: string
+): Promise<string[]> {
+  const assetDir = path.join(platformRoot, "public", "courses", courseSlug);
+
+  if (!fs.existsSync(assetDir)) {
+    return [];
+  }
+
+  const glob = new Bun.Glob("**/*");
+  const files: string[] = [];
+
+  for await (const file of glob.scan({ cwd: assetDir, dot: false, onlyFiles: true })) {
+    files.push(path.join(assetDir, file));
+  }
+
+  return files.sort();
+}
+
 // =============================================================================
 // Platform File Parsing
 // =============================================================================
@@ -0,0 +1,54 @@
+/**
+ * Production Tracking Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  emptyProduction,
+  lessonStatusAfterStep,
+  markProductionStep,
+  productionStage,
+} from "./production";
+
+describe("markProductionStep", () => {
+  it("marks the steps before a step", () => {
+    const production = markProductionStep(emptyProduction("M1/L1"), "uploaded", true);
+
+    expect(production).toMatchObject({ recorded: true, edited: true, uploaded: true, accessTested: false });
+  });
+
+  it("undoes the steps after a step and keeps notes", () => {
+    const done = { ...markProductionStep(emptyProduction("M1/L1"), "accessTested", true), notes: "ok" };
+
+    const production = markProductionStep(done, "edited", false);
+
+    expect(production).toMatchObject({ recorded: true, edited: false, uploaded: false, accessTested: false });
+    expect(production.notes).toBe("ok");
+    expect(done.edited).toBe(true);
+  });
+});
+
+describe("productionStage", () => {
+  it("needs upload and access test for published", () => {
+    const uploaded = markProductionStep(emptyProduction("M1/L1"), "uploaded", true);
+
+    expect(productionStage(emptyProduction("M1/L1"))).toBeNull();
+    expect(productionStage(uploaded)).toBe("edited");
+    expect(productionStage(markProductionStep(uploaded, "accessTested", true))).toBe("published");
+  });
+});
+
+describe("lessonStatusAfterStep", () => {
+  const recorded = markProductionStep(emptyProduction("M1/L1"), "recorded", true);
+
+  it("advances but never lowers when marking", () => {
+    expect(lessonStatusAfterStep("planned", recorded, true)).toBe("recorded");
+    expect(lessonStatusAfterStep("published", recorded, true)).toBe("published");
+  });
+
+  it("drops back when undoing", () => {
+    expect(lessonStatusAfterStep("edited", recorded, false)).toBe("recorded");
+    expect(lessonStatusAfterStep("recorded", emptyProduction("M1/L1"), false)).toBe("drafted");
+    expect(lessonStatusAfterStep("planned", emptyProduction("M1/L1"), false)).toBe("planned");
+  });
+});
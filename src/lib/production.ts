@@ -0,0 +1,109 @@
+/**
+ * Production Tracking
+ *
+ * The four production steps for a lesson (record, edit, upload, test
+ * access) and how they move the lesson's status. Steps happen in order:
+ * marking a step done marks the ones before it, and undoing a step undoes
+ * the ones after it.
+ */
+
+import type { LessonStatus, ProductionStatus } from "../types";
+import { LESSON_STATUSES } from "./lesson-status";
+
+// =============================================================================
+// Steps
+// =============================================================================
+
+/** Production flags in workflow order */
+export type ProductionStep = "recorded" | "edited" | "uploaded" | "accessTested";
+
+export const PRODUCTION_STEPS: ProductionStep[] = ["recorded", "edited", "uploaded", "accessTested"];
+
+/** Labels for boards and messages */
+export const PRODUCTION_STEP_LABELS: Record<ProductionStep, string> = {
+  recorded: "Recorded",
+  edited: "Edited",
+  uploaded: "Uploaded",
+  accessTested: "Access tested",
+};
+
+/**
+ * A production record with no steps done.
+ */
+export function emptyProduction(lessonPath: string): ProductionStatus {
+  return {
+    lessonPath,
+    recorded: false,
+    edited: false,
+    uploaded: false,
+    accessTested: false,
+    notes: null,
+  };
+}
+
+/**
+ * Mark a step done (with the steps before it) or not done (with the steps
+ * after it).
+ *
+ * @returns A new record; the input is not changed
+ */
+export function markProductionStep(
+  production: ProductionStatus,
+  step: ProductionStep,
+  done: boolean
+): ProductionStatus {
+  const index = PRODUCTION_STEPS.indexOf(step);
+  const updated = { ...production };
+
+  PRODUCTION_STEPS.forEach((s, i) => {
+    if (done && i <= index) updated[s] = true;
+    if (!done && i >= index) updated[s] = false;
+  });
+
+  return updated;
+}
+
+// =============================================================================
+// Lesson Status
+// =============================================================================
+
+/**
+ * The lesson status the production steps have reached: recorded, edited,
+ * or published once uploaded and access-tested. Null before recording.
+ */
+export function productionStage(production: ProductionStatus): LessonStatus | null {
+  if (production.uploaded && production.accessTested) return "published";
+  if (production.edited) return "edited";
+  if (production.recorded) return "recorded";
+  return null;
+}
+
+/**
+ * Lesson status after marking or undoing a production step.
+ *
+ * Marking a step advances the status to the stage production has reached
+ * and never lowers it. Undoing a step drops a lesson that is past what
+ * production now supports back to that stage, or to drafted when nothing
+ * is recorded any more.
+ *
+ * @param current - The lesson's current status
+ * @param production - The updated production record
+ * @param done - Whether the step was marked (true) or undone (false)
+ */
+export function lessonStatusAfterStep(
+  current: LessonStatus,
+  production: ProductionStatus,
+  done: boolean
+): LessonStatus {
+  const stage = productionStage(production);
+  const currentRank = LESSON_STATUSES.indexOf(current);
+  const stageRank = stage ? LESSON_STATUSES.indexOf(stage) : -1;
+
+  if (done) {
+    return stageRank > currentRank ? stage! : current;
+  }
+  if (currentRank >= LESSON_STATUSES.indexOf("recorded") && stageRank < currentRank) {
+    return stage ?? "drafted";
+  }
+  return current;
+}
@@ -0,0 +1,150 @@
+/**
+ * Pull Sync Tests
+ * Tests for pulling platform edits back into source files.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { applyPlatformContent, executePull } from "./pull-sync";
+import { buildGuideTargetPath, executeGuideSync } from "./guide-sync";
+import { buildTargetPath, executeLessonSync } from "./lesson-sync";
+import { loadSyncState } from "./sync-state";
+import type { CourseKitConfig } from "../types";
+
+// Test fixture directory
+const TEST_ROOT = path.join(process.cwd(), "test-fixtures/pull-sync");
+
+const original = `---
+title: Introduction
+# Draft notes stay in source
+internalNotes: Rework the example
+---
+
+# Introduction
+
+Teh first paragraph.
+`;
+
+describe("applyPlatformContent", () => {
+  it("takes the platform body and fields but keeps source-only fields", () => {
+    const platform = `---
+title: Welcome
+price: 49
+---
+
+# Welcome
+`;
+
+    expect(applyPlatformContent(original, platform)).toBe(`---
+title: Welcome
+# Draft notes stay in source
+internalNotes: Rework the example
+---
+
+# Welcome
+`);
+  });
+
+  it("leaves the source untouched when nothing differs", () => {
+    expect(applyPlatformContent(original, original)).toBe(original);
+  });
+});
+
+describe("executePull", () => {
+  let sourceDir: string;
+  let platformDir: string;
+  let config: CourseKitConfig;
+  let sourcePath: string;
+  let platformPath: string;
+
+  beforeEach(async () => {
+    await fs.promises.rm(TEST_ROOT, { recursive: true, force: true });
+    sourceDir = path.join(TEST_ROOT, "source");
+    platformDir = path.join(TEST_ROOT, "platform");
+    await fs.promises.mkdir(path.join(sourceDir, "courses/test-course/lessons"), { recursive: true });
+    await fs.promises.mkdir(platformDir, { recursive: true });
+    config = {
+      platform: { path: platformDir },
+      courses: {
+        "test-course": { slug: "test-course", sourceDir: path.join(sourceDir, "courses/test-course") },
+      },
+    };
+
+    sourcePath = path.join(sourceDir, "courses/test-course/lessons/01-intro.md");
+    platformPath = buildTargetPath(platformDir, "test-course", "01-intro.md");
+    await Bun.write(sourcePath, original);
+    await executeLessonSync(config, {});
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  it("pulls a platform hotfix into the source file", async () => {
+    await Bun.write(platformPath, (await Bun.file(platformPath).text()).replace("Teh", "The"));
+
+    const result = await executePull(config);
+
+    expect(result.success).toBe(true);
+    expect(result.updated).toEqual(["test-course/intro"]);
+    expect(await Bun.file(sourcePath).text()).toBe(original.replace("Teh", "The"));
+
+    // The pulled lesson counts as synced
+    const push = await executeLessonSync(config, {});
+    expect(push.success).toBe(true);
+    expect(push.updated).toEqual([]);
+    const state = await loadSyncState(platformDir);
+    expect(state.records["test-course/intro"].baseContent).toBe(original.replace("Teh", "The"));
+  });
+
+  it("reports unchanged when the platform has no new edits", async () => {
+    await Bun.write(sourcePath, original.replace("Teh", "A"));
+
+    const result = await executePull(config);
+
+    expect(result.unchanged).toEqual(["test-course/intro"]);
+    expect(await Bun.file(sourcePath).text()).toBe(original.replace("Teh", "A"));
+  });
+
+  it("skips lessons edited on both sides unless forced", async () => {
+    await Bun.write(platformPath, (await Bun.file(platformPath).text()).replace("Teh", "The"));
+    await Bun.write(sourcePath, original.replace("Teh", "A"));
+
+    const skipped = await executePull(config);
+    expect(skipped.success).toBe(false);
+    expect(skipped.skipped).toEqual(["test-course/intro"]);
+    expect(await Bun.file(sourcePath).text()).toBe(original.replace("Teh", "A"));
+
+    const forced = await executePull(config, { force: true });
+    expect(forced.updated).toEqual(["test-course/intro"]);
+    expect(await Bun.file(sourcePath).text()).toBe(original.replace("Teh", "The"));
+  });
+
+  it("writes nothing in dry-run mode", async () => {
+    await Bun.write(platformPath, (await Bun.file(platformPath).text()).replace("Teh", "The"));
+    const stateBefore = await Bun.file(path.join(platformDir, ".coursekit-sync.json")).text();
+
+    const result = await executePull(config, { dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.updated).toEqual(["test-course/intro"]);
+    expect(await Bun.file(sourcePath).text()).toBe(original);
+    expect(await Bun.file(path.join(platformDir, ".coursekit-sync.json")).text()).toBe(stateBefore);
+  });
+
+  it("pulls guide edits back into materials", async () => {
+    const guidePath = path.join(platformDir, "materials/module-01/guide-setup.md");
+    await fs.promises.mkdir(path.dirname(guidePath), { recursive: true });
+    await Bun.write(guidePath, "---\ntitle: Setup\n---\n\n# Setup\n\nInstal the tools.\n");
+    await executeGuideSync(config, {});
+    const guideTarget = buildGuideTargetPath(platformDir, "setup");
+    await Bun.write(guideTarget, (await Bun.file(guideTarget).text()).replace("Instal", "Install"));
+
+    const result = await executePull(config);
+
+    expect(result.updated).toEqual(["guides/setup"]);
+    expect(await Bun.file(guidePath).text()).toBe("---\ntitle: Setup\n---\n\n# Setup\n\nInstall the tools.\n");
+    expect((await executeGuideSync(config, {})).unchanged).toEqual(["guides/setup"]);
+  });
+});
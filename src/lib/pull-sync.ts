@@ -0,0 +1,236 @@
+/**
+ * Pull Sync Execution
+ *
+ * Bring lesson and guide edits made on the platform back into source files.
+ * Bodies are taken from the platform; non-protected frontmatter fields are
+ * set on the source frontmatter in place, so source-only fields, comments and
+ * file names stay as they are.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parseDocument } from "yaml";
+import type {
+  CourseKitConfig,
+  SyncContentType,
+  SyncError,
+  SyncOptions,
+  SyncRecord,
+  SyncResult,
+  SyncSummary,
+} from "../types";
+import { DEFAULT_PROTECTED_FIELDS } from "../types";
+import { calculateLessonDiff } from "./diff";
+import { discoverGuides } from "./guide-discovery";
+import { buildGuideTargetPath } from "./guide-sync";
+import { hashLessonBody } from "./lesson-sync";
+import { normalizeContent } from "./diff-utils";
+import { getSyncRecord, loadSyncState, saveSyncState, updateSyncRecord } from "./sync-state";
+import { sameValue, splitFrontmatter } from "./three-way-merge";
+
+/**
+ * A source file paired with its platform copy.
+ */
+interface PullTarget {
+  key: string;
+  contentType: SyncContentType;
+  sourcePath: string;
+  platformPath: string;
+  sourceRepo: string;
+}
+
+// =============================================================================
+// Content Merge
+// =============================================================================
+
+/**
+ * Apply a platform file onto a source file.
+ *
+ * The body comes from the platform. Frontmatter fields the platform has are
+ * copied into the source frontmatter unless they are protected; fields only
+ * the source has are kept.
+ *
+ * @param source - Source file content
+ * @param platform - Platform file content
+ * @param protectedFields - Platform-owned fields that never flow back
+ * @returns New source content
+ */
+export function applyPlatformContent(
+  source: string,
+  platform: string,
+  protectedFields: string[] = DEFAULT_PROTECTED_FIELDS
+): string {
+  const sourceFile = splitFrontmatter(source);
+  const platformFile = splitFrontmatter(platform);
+
+  const updates = Object.entries(platformFile.fields).filter(
+    ([key, value]) => !protectedFields.includes(key) && !sameValue(sourceFile.fields[key], value)
+  );
+
+  let frontmatter = sourceFile.raw;
+  if (updates.length > 0) {
+    const doc = parseDocument(sourceFile.raw ?? "");
+    for (const [key, value] of updates) {
+      doc.set(key, value);
+    }
+    frontmatter = String(doc).trimEnd();
+  }
+
+  return frontmatter === null ? platformFile.body : `---\n${frontmatter}\n---\n${platformFile.body}`;
+}
+
+// =============================================================================
+// Change Detection
+// =============================================================================
+
+/**
+ * Check whether a file differs from what was last synced.
+ * Uses the stored merge base when there is one, else the body hash.
+ */
+function changedSinceSync(content: string, record: SyncRecord): boolean {
+  if (record.baseContent !== undefined) {
+    return normalizeContent(content) !== normalizeContent(record.baseContent);
+  }
+  return hashLessonBody(content) !== record.contentHash;
+}
+
+// =============================================================================
+// Target Collection
+// =============================================================================
+
+/**
+ * Pair source lessons and guides with existing platform files.
+ */
+async function collectPullTargets(config: CourseKitConfig, options: SyncOptions): Promise<PullTarget[]> {
+  const targets: PullTarget[] = [];
+
+  const diff = await calculateLessonDiff(config, { courseId: options.courseId });
+  for (const item of diff.items) {
+    if (item.status !== "modified" || !item.sourcePath || !item.platformPath) continue;
+    if (options.slug && item.slug !== options.slug) continue;
+    targets.push({
+      key: item.key,
+      contentType: "lesson",
+      sourcePath: item.sourcePath,
+      platformPath: item.platformPath,
+      sourceRepo: item.courseId,
+    });
+  }
+
+  // Guides are not tied to a course
+  if (!options.courseId) {
+    const manifest = await discoverGuides(config);
+    for (const guide of manifest.guides) {
+      if (options.slug && guide.slug !== options.slug) continue;
+      const platformPath = buildGuideTargetPath(config.platform.path, guide.slug);
+      if (!fs.existsSync(platformPath)) continue;
+      targets.push({
+        key: `guides/${guide.slug}`,
+        contentType: "guide",
+        sourcePath: guide.path,
+        platformPath,
+        sourceRepo: "materials",
+      });
+    }
+  }
+
+  return targets;
+}
+
+// =============================================================================
+// Core Pull Execution
+// =============================================================================
+
+/**
+ * Execute pull from platform to source.
+ *
+ * Only files edited on the platform since the last sync are pulled. If the
+ * source changed as well the file is skipped as a conflict, unless force is
+ * set; files never synced are skipped the same way.
+ *
+ * @param config - CourseKit configuration
+ * @param options - Sync options (dryRun, force, courseId, slug)
+ * @returns SyncResult; "updated" lists source files that were rewritten
+ */
+export async function executePull(
+  config: CourseKitConfig,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  const platformRoot = config.platform.path;
+  const dryRun = options.dryRun ?? false;
+  const force = options.force ?? false;
+
+  const updated: string[] = [];
+  const unchanged: string[] = [];
+  const skipped: string[] = [];
+  const errors: SyncError[] = [];
+
+  const syncState = await loadSyncState(platformRoot);
+  const targets = await collectPullTargets(config, options);
+
+  for (const target of targets) {
+    const record = getSyncRecord(syncState, target.key);
+
+    try {
+      const source = await Bun.file(target.sourcePath).text();
+      const platform = await Bun.file(target.platformPath).text();
+
+      if (record && !changedSinceSync(platform, record)) {
+        // Nothing new on the platform; any difference is for push
+        unchanged.push(target.key);
+        continue;
+      }
+      if (!force && (!record || changedSinceSync(source, record))) {
+        skipped.push(target.key);
+        continue;
+      }
+
+      const pulled = applyPlatformContent(source, platform);
+      if (pulled === source) {
+        unchanged.push(target.key);
+        continue;
+      }
+
+      if (!dryRun) {
+        await Bun.write(target.sourcePath, pulled);
+        updateSyncRecord(syncState, target.key, {
+          filePath: path.relative(platformRoot, target.platformPath),
+          contentHash: hashLessonBody(platform),
+          syncedAt: new Date().toISOString(),
+          sourceRepo: target.sourceRepo,
+          ...(target.contentType === "lesson" ? { baseContent: pulled } : {}),
+        });
+      }
+      updated.push(target.key);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      errors.push({ key: target.key, error: err, message: `Failed to pull ${target.key}: ${err.message}` });
+    }
+  }
+
+  // Save sync state (unless dry-run)
+  if (!dryRun && updated.length > 0) {
+    syncState.lastSync = new Date().toISOString();
+    await saveSyncState(platformRoot, syncState);
+  }
+
+  const summary: SyncSummary = {
+    total: updated.length + unchanged.length + skipped.length + errors.length,
+    created: 0,
+    updated: updated.length,
+    unchanged: unchanged.length,
+    skipped: skipped.length,
+    errors: errors.length,
+  };
+
+  return {
+    success: skipped.length === 0 && errors.length === 0,
+    created: [],
+    updated,
+    unchanged,
+    skipped,
+    errors,
+    summary,
+    dryRun,
+  };
+}
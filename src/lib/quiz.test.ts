@@ -0,0 +1,186 @@
+/**
+ * Quiz Generation Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  generateQuizQuestions,
+  quizFilename,
+  renderQuizMarkdown,
+  splitObjective,
+  type QuizSourceLesson,
+} from "./quiz";
+import { BUILTIN_VOCABULARIES } from "./bloom-vocabularies";
+import { parseGuideFilename, parseGuideFrontmatter } from "./guide-discovery-utils";
+
+function lesson(
+  id: string,
+  title: string,
+  objective: string | null,
+  bloomLevel: QuizSourceLesson["bloomLevel"] = null
+): QuizSourceLesson {
+  return { moduleId: "M1", id, title, objective, bloomLevel };
+}
+
+describe("splitObjective", () => {
+  it("separates a leading Bloom verb from the outcome", () => {
+    expect(splitObjective("Explain why OAuth uses tokens")).toEqual({
+      verb: "explain",
+      outcome: "why OAuth uses tokens",
+    });
+  });
+
+  it("strips 'able to' lead-ins and bold markers", () => {
+    expect(
+      splitObjective("Learners will be able to **implement** JWT authentication.")
+    ).toEqual({ verb: "implement", outcome: "JWT authentication" });
+  });
+
+  it("uses the lead-in and verb position of the course language", () => {
+    expect(
+      splitObjective("Die Teilnehmenden können die Token-Rotation erklären.", BUILTIN_VOCABULARIES.de)
+    ).toEqual({ verb: "erklären", outcome: "die Token-Rotation" });
+    expect(
+      splitObjective("Les apprenants seront capables de concevoir une API sécurisée", BUILTIN_VOCABULARIES.fr)
+    ).toEqual({ verb: "concevoir", outcome: "une API sécurisée" });
+  });
+
+  it("returns the whole text as outcome when no verb is recognized", () => {
+    expect(splitObjective("Get comfortable with the CLI")).toEqual({
+      verb: "",
+      outcome: "Get comfortable with the CLI",
+    });
+  });
+});
+
+describe("generateQuizQuestions", () => {
+  const lessons = [
+    lesson("L1", "Auth Basics", "List the three types of authentication"),
+    lesson("L2", "JWT in Practice", "Implement JWT authentication in an API"),
+  ];
+
+  it("returns an empty list when no lesson has an objective", () => {
+    expect(generateQuizQuestions([lesson("L1", "Intro", null)], 5)).toEqual([]);
+  });
+
+  it("distributes questions round-robin across lessons", () => {
+    const questions = generateQuizQuestions(lessons, 3);
+
+    expect(questions.map((q) => q.id)).toEqual(["Q1", "Q2", "Q3"]);
+    expect(questions.map((q) => q.objectiveId)).toEqual(["M1/L1", "M1/L2", "M1/L1"]);
+  });
+
+  it("builds multiple-choice questions for lower Bloom levels", () => {
+    const pool = ["Compare session and token auth", "Design an auth system"];
+    const [question] = generateQuizQuestions(lessons, 1, pool);
+
+    expect(question.bloomLevel).toBe("remember");
+    expect(question.choices).toHaveLength(3);
+    expect(question.choices).toContain(question.answer);
+    expect(question.answer).toBe("The three types of authentication");
+  });
+
+  it("builds open-response questions for higher Bloom levels", () => {
+    const questions = generateQuizQuestions(lessons, 2);
+    const apply = questions[1];
+
+    expect(apply.bloomLevel).toBe("apply");
+    expect(apply.choices).toEqual([]);
+    expect(apply.stem).toContain("implement JWT authentication in an API");
+    expect(apply.rationale).toContain("M1/L2");
+  });
+
+  it("prefers the stored Bloom level over detection", () => {
+    const [question] = generateQuizQuestions(
+      [lesson("L1", "Auth", "List auth types", "evaluate")],
+      1
+    );
+    expect(question.bloomLevel).toBe("evaluate");
+  });
+
+  it("uses different templates when a lesson is reused", () => {
+    const questions = generateQuizQuestions([lessons[1]], 2);
+    expect(questions[0].stem).not.toBe(questions[1].stem);
+  });
+
+  it("detects levels and outcomes with the course vocabulary", () => {
+    const german = [
+      lesson("L1", "Grundlagen", "Die drei Arten der Authentifizierung nennen"),
+      lesson("L2", "JWT", "JWT-Authentifizierung in einer API implementieren"),
+    ];
+    const [remember, apply] = generateQuizQuestions(german, 2, [], BUILTIN_VOCABULARIES.de);
+
+    expect(remember.bloomLevel).toBe("remember");
+    expect(remember.answer).toBe("Die drei Arten der Authentifizierung");
+    expect(apply.bloomLevel).toBe("apply");
+    expect(apply.stem).toContain("implementieren JWT-Authentifizierung in einer API");
+  });
+
+  it("is deterministic", () => {
+    const pool = ["Compare session and token auth", "Design an auth system"];
+    expect(generateQuizQuestions(lessons, 4, pool)).toEqual(
+      generateQuizQuestions(lessons, 4, pool)
+    );
+  });
+
+  it("does not repeat the correct answer among distractors", () => {
+    const [question] = generateQuizQuestions(lessons, 1, [
+      "the three types of authentication",
+      "Design an auth system",
+    ]);
+    expect(question.choices.filter((c) => c.toLowerCase() === question.answer.toLowerCase())).toHaveLength(1);
+  });
+});
+
+describe("quizFilename", () => {
+  it("follows the guide filename convention", () => {
+    const filename = quizFilename("C-001", "M2");
+    expect(filename).toBe("guide-c-001-m2-quiz.md");
+    expect(parseGuideFilename(filename)?.slug).toBe("c-001-m2-quiz");
+  });
+});
+
+describe("renderQuizMarkdown", () => {
+  const info = {
+    courseId: "C-001",
+    courseName: "Auth Fundamentals",
+    moduleId: "M1",
+    moduleName: "Foundations",
+  };
+
+  it("renders frontmatter that passes guide validation", () => {
+    const questions = generateQuizQuestions(
+      [lesson("L1", "Auth Basics", "List the three types of authentication")],
+      1,
+      ["Design an auth system"]
+    );
+    const markdown = renderQuizMarkdown(info, questions);
+    const parsed = parseGuideFrontmatter(markdown);
+
+    expect(parsed.error).toBeUndefined();
+    expect(parsed.frontmatter?.title).toBe("M1 Quiz: Foundations");
+    expect(parsed.frontmatter?.type).toBe("quiz");
+    expect(parsed.frontmatter?.questionCount).toBe(1);
+  });
+
+  it("labels choices and marks the answer", () => {
+    const markdown = renderQuizMarkdown(info, [
+      {
+        id: "Q1",
+        moduleId: "M1",
+        objectiveId: "M1/L1",
+        bloomLevel: "remember",
+        stem: "Which one?",
+        choices: ["Wrong", "Right"],
+        answer: "Right",
+        rationale: "Because.",
+      },
+    ]);
+
+    expect(markdown).toContain("## Question 1");
+    expect(markdown).toContain("- A) Wrong");
+    expect(markdown).toContain("- B) Right");
+    expect(markdown).toContain("**Answer:** B) Right");
+    expect(markdown).toContain("*Objective M1/L1 · remember*");
+  });
+});
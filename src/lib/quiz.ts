@@ -0,0 +1,328 @@
+/**
+ * Quiz Generation
+ *
+ * Build a module question bank from lesson objectives and their Bloom
+ * levels, and render it as a guide file the sync pipeline can push.
+ */
+
+import type { BloomLevel, QuizQuestion } from "../types";
+import { detectBloomLevel, ENGLISH_VOCABULARY, levelsFor, type BloomVocabulary } from "./bloom";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A lesson used as question source.
+ */
+export interface QuizSourceLesson {
+  /** Module ID (e.g., "M1") */
+  moduleId: string;
+  /** Lesson ID (e.g., "L2") */
+  id: string;
+  /** Lesson title */
+  title: string;
+  /** Lesson objective (with Bloom verb) */
+  objective: string | null;
+  /** Stored Bloom level (detected from objective if missing) */
+  bloomLevel: BloomLevel | null;
+}
+
+/**
+ * Module metadata used for rendering a quiz file.
+ */
+export interface QuizModuleInfo {
+  courseId: string;
+  courseName: string;
+  moduleId: string;
+  moduleName: string;
+}
+
+/** Maximum number of choices for multiple-choice questions */
+const MAX_CHOICES = 4;
+
+/** Levels assessed with multiple-choice questions; higher levels get open prompts */
+const CHOICE_LEVELS: BloomLevel[] = ["remember", "understand"];
+
+// =============================================================================
+// Objective Parsing
+// =============================================================================
+
+/**
+ * Split an objective into its action verb and the outcome that follows it.
+ * Strips the vocabulary's lead-in ("Learners will be able to") and, for
+ * verb-last languages, takes the verb from the end of the objective.
+ *
+ * @param objective - Objective text (e.g., "Explain why OAuth uses tokens")
+ * @param vocabulary - Verb lists to use (defaults to English)
+ * @returns Verb (lowercase, may be empty) and outcome phrase
+ */
+export function splitObjective(
+  objective: string,
+  vocabulary: BloomVocabulary = ENGLISH_VOCABULARY
+): { verb: string; outcome: string } {
+  let cleaned = objective
+    .replace(/\*\*/g, "")
+    .replace(/[.\s]+$/, "")
+    .trim();
+
+  const leadIn = vocabulary.leadIn?.exec(cleaned.toLowerCase());
+  if (leadIn) {
+    cleaned = cleaned.slice(leadIn[0].length).trim();
+  }
+
+  const words = cleaned.split(/\s+/);
+  const isVerb = (word: string | undefined) =>
+    !!word && levelsFor(word.toLowerCase(), vocabulary).length > 0;
+
+  if (vocabulary.verbPosition === "trailing" && words.length > 1 && isVerb(words[words.length - 1])) {
+    return { verb: words[words.length - 1].toLowerCase(), outcome: words.slice(0, -1).join(" ") };
+  }
+
+  if (isVerb(words[0])) {
+    return { verb: words[0].toLowerCase(), outcome: words.slice(1).join(" ") };
+  }
+
+  return { verb: "", outcome: cleaned };
+}
+
+// =============================================================================
+// Question Templates
+// =============================================================================
+
+interface TemplateInput {
+  title: string;
+  verb: string;
+  outcome: string;
+  objective: string;
+}
+
+type OpenTemplate = (input: TemplateInput) => { stem: string; answer: string };
+
+/** Multiple-choice stems, cycled when a lesson gets several questions */
+const CHOICE_STEMS: Record<"remember" | "understand", ((i: TemplateInput) => string)[]> = {
+  remember: [
+    (i) => `Which statement describes what "${i.title}" covers?`,
+    (i) => `Which of the following is the focus of "${i.title}"?`,
+  ],
+  understand: [
+    (i) => `Which explanation matches the goal of "${i.title}"?`,
+    (i) => `After "${i.title}", which of these should you be able to explain in your own words?`,
+  ],
+};
+
+/** Open-response templates for apply and above */
+const OPEN_TEMPLATES: Record<"apply" | "analyze" | "evaluate" | "create", OpenTemplate[]> = {
+  apply: [
+    (i) => ({
+      stem: `Work through a small example of your own: ${i.verb || "apply"} ${i.outcome}. Describe the steps you took.`,
+      answer: `A working example showing the learner can ${i.verb || "apply"} ${i.outcome}.`,
+    }),
+    (i) => ({
+      stem: `You are given a new scenario related to "${i.title}". How would you ${i.verb || "apply"} ${i.outcome}?`,
+      answer: `A correct, step-by-step application of ${i.outcome} to the scenario.`,
+    }),
+  ],
+  analyze: [
+    (i) => ({
+      stem: `Break down ${i.outcome}: what are its parts and how do they relate to each other?`,
+      answer: `Identifies the key components of ${i.outcome} and explains their relationships.`,
+    }),
+    (i) => ({
+      stem: `Compare two approaches covered in "${i.title}". Where do they differ, and why does it matter?`,
+      answer: `Names concrete differences and links each to a consequence.`,
+    }),
+  ],
+  evaluate: [
+    (i) => ({
+      stem: `${capitalize(i.verb || "assess")} ${i.outcome}. Justify your judgement with at least two criteria.`,
+      answer: `A reasoned judgement supported by explicit, relevant criteria.`,
+    }),
+    (i) => ({
+      stem: `A colleague proposes a solution related to "${i.title}". Critique it and recommend improvements.`,
+      answer: `Identifies strengths and weaknesses and proposes justified improvements.`,
+    }),
+  ],
+  create: [
+    (i) => ({
+      stem: `${capitalize(i.verb || "design")} ${i.outcome}. Outline your solution and explain your key decisions.`,
+      answer: `An original, complete solution whose design decisions are explained.`,
+    }),
+    (i) => ({
+      stem: `Plan a small project that shows you can ${i.verb || "create"} ${i.outcome}. What would you build first, and why?`,
+      answer: `A feasible project plan that exercises ${i.outcome}.`,
+    }),
+  ],
+};
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+/**
+ * Generate quiz questions for a module.
+ *
+ * Questions are distributed round-robin over the module's lessons.
+ * Remember/understand objectives become multiple-choice questions whose
+ * distractors are the outcomes of other lessons; higher levels become
+ * open-response prompts. Output is deterministic for the same input.
+ *
+ * @param moduleLessons - Lessons of the module being quizzed (in order)
+ * @param count - Number of questions to generate
+ * @param distractorPool - Outcomes from other lessons (used as wrong choices)
+ * @param vocabulary - Verb lists of the course language (defaults to English)
+ * @returns Generated questions with IDs Q1..Qn
+ */
+export function generateQuizQuestions(
+  moduleLessons: QuizSourceLesson[],
+  count: number,
+  distractorPool: string[] = [],
+  vocabulary: BloomVocabulary = ENGLISH_VOCABULARY
+): QuizQuestion[] {
+  const sources = moduleLessons.filter((l) => l.objective && l.objective.trim());
+  if (sources.length === 0 || count <= 0) {
+    return [];
+  }
+
+  const questions: QuizQuestion[] = [];
+
+  for (let n = 0; n < count; n++) {
+    const lesson = sources[n % sources.length];
+    const variant = Math.floor(n / sources.length);
+    const objective = lesson.objective!.trim();
+    const level = lesson.bloomLevel ?? detectBloomLevel(objective, vocabulary) ?? "remember";
+    const { verb, outcome } = splitObjective(objective, vocabulary);
+    const input: TemplateInput = { title: lesson.title, verb, outcome, objective };
+    const objectiveId = `${lesson.moduleId}/${lesson.id}`;
+    const id = `Q${n + 1}`;
+
+    if (CHOICE_LEVELS.includes(level)) {
+      const stems = CHOICE_STEMS[level as "remember" | "understand"];
+      const correct = capitalize(outcome || objective);
+      const choices = buildChoices(correct, distractorPool, n);
+
+      questions.push({
+        id,
+        moduleId: lesson.moduleId,
+        objectiveId,
+        bloomLevel: level,
+        stem: stems[variant % stems.length](input),
+        choices,
+        answer: correct,
+        rationale: `"${lesson.title}" targets: ${objective}`,
+      });
+    } else {
+      const templates = OPEN_TEMPLATES[level as keyof typeof OPEN_TEMPLATES];
+      const { stem, answer } = templates[variant % templates.length](input);
+
+      questions.push({
+        id,
+        moduleId: lesson.moduleId,
+        objectiveId,
+        bloomLevel: level,
+        stem,
+        choices: [],
+        answer,
+        rationale: `Checks the ${level}-level objective of ${objectiveId}: ${objective}`,
+      });
+    }
+  }
+
+  return questions;
+}
+
+/**
+ * Build a choice list with the correct answer at a deterministic position.
+ */
+function buildChoices(correct: string, pool: string[], seed: number): string[] {
+  const seen = new Set([correct.toLowerCase()]);
+  const distractors: string[] = [];
+
+  for (let i = 0; i < pool.length && distractors.length < MAX_CHOICES - 1; i++) {
+    const candidate = capitalize(pool[(seed + i) % pool.length].trim());
+    if (candidate && !seen.has(candidate.toLowerCase())) {
+      seen.add(candidate.toLowerCase());
+      distractors.push(candidate);
+    }
+  }
+
+  const choices = [...distractors];
+  const position = seed % (distractors.length + 1);
+  choices.splice(position, 0, correct);
+  return choices;
+}
+
+// =============================================================================
+// Markdown Export
+// =============================================================================
+
+/**
+ * Build the quiz guide filename for a module.
+ * Uses the guide-{slug}.md convention so guide sync picks it up.
+ *
+ * @example quizFilename("C-001", "M1") // "guide-c-001-m1-quiz.md"
+ */
+export function quizFilename(courseId: string, moduleId: string): string {
+  return `guide-${courseId.toLowerCase()}-${moduleId.toLowerCase()}-quiz.md`;
+}
+
+/**
+ * Render a question bank as a markdown guide with frontmatter.
+ *
+ * @param info - Course and module metadata
+ * @param questions - Questions to render
+ * @returns Markdown file content
+ */
+export function renderQuizMarkdown(info: QuizModuleInfo, questions: QuizQuestion[]): string {
+  const letters = "ABCDEFGH";
+  const lines: string[] = [
+    "---",
+    `title: ${JSON.stringify(`${info.moduleId} Quiz: ${info.moduleName}`)}`,
+    `description: ${JSON.stringify(`Self-check questions for ${info.courseName}, ${info.moduleId}`)}`,
+    `courseId: ${JSON.stringify(info.courseId)}`,
+    `moduleId: ${JSON.stringify(info.moduleId)}`,
+    `type: quiz`,
+    `questionCount: ${questions.length}`,
+    "---",
+    "",
+    `# ${info.moduleId} Quiz: ${info.moduleName}`,
+    "",
+  ];
+
+  for (const [index, q] of questions.entries()) {
+    lines.push(`## Question ${index + 1}`);
+    lines.push("");
+    lines.push(`*Objective ${q.objectiveId} · ${q.bloomLevel}*`);
+    lines.push("");
+    lines.push(q.stem);
+    lines.push("");
+
+    let answerText = q.answer;
+    if (q.choices.length > 0) {
+      for (const [i, choice] of q.choices.entries()) {
+        lines.push(`- ${letters[i]}) ${choice}`);
+      }
+      lines.push("");
+      const answerIndex = q.choices.indexOf(q.answer);
+      if (answerIndex >= 0) {
+        answerText = `${letters[answerIndex]}) ${q.answer}`;
+      }
+    }
+
+    lines.push("<details>");
+    lines.push("<summary>Answer</summary>");
+    lines.push("");
+    lines.push(`**Answer:** ${answerText}`);
+    lines.push("");
+    lines.push(q.rationale);
+    lines.push("");
+    lines.push("</details>");
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,88 @@
+/**
+ * Structure Reconciliation Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { describeChange, diffStructure, isInSync, type StructureModule } from "./reconcile";
+
+function module(id: string, name: string, lessonIds: string[] = []): StructureModule {
+  return {
+    id,
+    name,
+    objective: null,
+    lessons: lessonIds.map((lessonId) => ({
+      id: lessonId,
+      title: `Lesson ${lessonId}`,
+      objective: null,
+      duration: 10,
+    })),
+  };
+}
+
+describe("diffStructure", () => {
+  it("reports nothing for identical structures", () => {
+    const modules = [module("M1", "Basics", ["L1", "L2"])];
+    expect(diffStructure(modules, modules)).toEqual([]);
+    expect(isInSync(modules, modules)).toBe(true);
+  });
+
+  it("reports modules only on one side", () => {
+    const changes = diffStructure(
+      [module("M1", "Basics"), module("M2", "Old")],
+      [module("M1", "Basics"), module("M3", "New")]
+    );
+
+    expect(changes).toEqual([
+      { kind: "added", level: "module", path: "M3", design: "New" },
+      { kind: "removed", level: "module", path: "M2", database: "Old" },
+    ]);
+  });
+
+  it("reports renamed modules and lessons", () => {
+    const db = [module("M1", "Basics", ["L1"])];
+    const design = [module("M1", "Foundations", ["L1"])];
+    design[0].lessons[0].title = "Welcome";
+
+    expect(diffStructure(db, design)).toEqual([
+      { kind: "renamed", level: "module", path: "M1", database: "Basics", design: "Foundations" },
+      { kind: "renamed", level: "lesson", path: "M1/L1", database: "Lesson L1", design: "Welcome" },
+    ]);
+  });
+
+  it("reports only the items that moved", () => {
+    const changes = diffStructure(
+      [module("M1", "A", ["L1", "L2", "L3", "L4"])],
+      [module("M1", "A", ["L1", "L3", "L4", "L2"])]
+    );
+
+    expect(changes).toEqual([
+      { kind: "reordered", level: "lesson", path: "M1/L2", database: "2", design: "4" },
+    ]);
+  });
+
+  it("reports objective and duration changes", () => {
+    const db = [module("M1", "A", ["L1"])];
+    const design = [module("M1", "A", ["L1"])];
+    design[0].lessons[0] = { ...design[0].lessons[0], objective: "Explain X", duration: 12 };
+
+    const [change] = diffStructure(db, design);
+    expect(change.kind).toBe("changed");
+    expect(change.design).toBe('objective: "" → "Explain X", duration: "10 min" → "12 min"');
+  });
+
+  it("does not diff lessons of modules that exist on one side only", () => {
+    const changes = diffStructure([], [module("M1", "A", ["L1", "L2"])]);
+    expect(changes).toHaveLength(1);
+  });
+});
+
+describe("describeChange", () => {
+  it("names the side an item exists on", () => {
+    expect(
+      describeChange({ kind: "removed", level: "lesson", path: "M1/L3", database: "Intro" })
+    ).toBe('M1/L3 "Intro" only in database');
+    expect(
+      describeChange({ kind: "reordered", level: "module", path: "M2", database: "2", design: "1" })
+    ).toBe("M2 moved: position 2 (database) vs 1 (design.md)");
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Structure Reconciliation
+ *
+ * Compare the module/lesson structure stored in SQLite with the one parsed
+ * from design.md. Items are matched by ID (M1, M1/L2); changes are
+ * described from the database towards design.md, so "added" means the item
+ * exists only in design.md and "removed" means it exists only in the
+ * database.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A lesson as far as structure comparison is concerned */
+export interface StructureLesson {
+  id: string;
+  title: string;
+  objective: string | null;
+  duration: number;
+}
+
+/** A module with its lessons, in display order */
+export interface StructureModule {
+  id: string;
+  name: string;
+  objective: string | null;
+  lessons: StructureLesson[];
+}
+
+export type StructureChangeKind = "added" | "removed" | "renamed" | "reordered" | "changed";
+
+/**
+ * A single difference between database and design.md.
+ */
+export interface StructureChange {
+  kind: StructureChangeKind;
+  level: "module" | "lesson";
+  /** "M1" or "M1/L2" */
+  path: string;
+  /** Value in the database (name/title, position or changed fields) */
+  database?: string;
+  /** Value in design.md */
+  design?: string;
+}
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+/**
+ * Diff database structure against design.md structure.
+ *
+ * @param database - Modules from getModules/getLessons
+ * @param design - Modules parsed from design.md
+ * @returns Changes, modules first, then lessons per module
+ */
+export function diffStructure(
+  database: StructureModule[],
+  design: StructureModule[]
+): StructureChange[] {
+  const changes: StructureChange[] = [];
+
+  changes.push(
+    ...diffLevel(database, design, "module", "", (m) => m.name, (db, ds) =>
+      changedFields([
+        ["objective", db.objective ?? "", ds.objective ?? ""],
+      ])
+    )
+  );
+
+  for (const designModule of design) {
+    const dbModule = database.find((m) => m.id === designModule.id);
+    if (!dbModule) continue;
+
+    changes.push(
+      ...diffLevel(
+        dbModule.lessons,
+        designModule.lessons,
+        "lesson",
+        `${designModule.id}/`,
+        (l) => l.title,
+        (db, ds) =>
+          changedFields([
+            ["objective", db.objective ?? "", ds.objective ?? ""],
+            ["duration", `${db.duration} min`, `${ds.duration} min`],
+          ])
+      )
+    );
+  }
+
+  return changes;
+}
+
+/**
+ * Check whether two structures agree.
+ */
+export function isInSync(database: StructureModule[], design: StructureModule[]): boolean {
+  return diffStructure(database, design).length === 0;
+}
+
+/**
+ * Describe a change for terminal output.
+ *
+ * @param change - Structure change
+ * @returns One-line description
+ */
+export function describeChange(change: StructureChange): string {
+  switch (change.kind) {
+    case "added":
+      return `${change.path} "${change.design}" only in design.md`;
+    case "removed":
+      return `${change.path} "${change.database}" only in database`;
+    case "renamed":
+      return `${change.path} renamed: "${change.database}" (database) vs "${change.design}" (design.md)`;
+    case "reordered":
+      return `${change.path} moved: position ${change.database} (database) vs ${change.design} (design.md)`;
+    case "changed":
+      return `${change.path} ${change.design}`;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function diffLevel<T extends { id: string }>(
+  database: T[],
+  design: T[],
+  level: StructureChange["level"],
+  prefix: string,
+  label: (item: T) => string,
+  fields: (db: T, design: T) => string | null
+): StructureChange[] {
+  const changes: StructureChange[] = [];
+  const dbIds = database.map((item) => item.id);
+  const designIds = design.map((item) => item.id);
+
+  for (const item of design) {
+    if (!dbIds.includes(item.id)) {
+      changes.push({ kind: "added", level, path: prefix + item.id, design: label(item) });
+    }
+  }
+  for (const item of database) {
+    if (!designIds.includes(item.id)) {
+      changes.push({ kind: "removed", level, path: prefix + item.id, database: label(item) });
+    }
+  }
+
+  // Among shared items, anything outside the longest common order moved
+  const sharedDb = dbIds.filter((id) => designIds.includes(id));
+  const sharedDesign = designIds.filter((id) => dbIds.includes(id));
+  const stable = new Set(longestCommonSubsequence(sharedDb, sharedDesign));
+
+  for (const item of design) {
+    const dbItem = database.find((d) => d.id === item.id);
+    if (!dbItem) continue;
+    const path = prefix + item.id;
+
+    if (label(dbItem) !== label(item)) {
+      changes.push({ kind: "renamed", level, path, database: label(dbItem), design: label(item) });
+    }
+    if (!stable.has(item.id)) {
+      changes.push({
+        kind: "reordered",
+        level,
+        path,
+        database: String(dbIds.indexOf(item.id) + 1),
+        design: String(designIds.indexOf(item.id) + 1),
+      });
+    }
+    const changed = fields(dbItem, item);
+    if (changed) {
+      changes.push({ kind: "changed", level, path, design: changed });
+    }
+  }
+
+  return changes;
+}
+
+function changedFields(fields: [string, string, string][]): string | null {
+  const changed = fields
+    .filter(([, db, design]) => db !== design)
+    .map(([name, db, design]) => `${name}: "${db}" → "${design}"`);
+  return changed.length > 0 ? changed.join(", ") : null;
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): string[] {
+  const table: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const result: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push(a[i]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+}
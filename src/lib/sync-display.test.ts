@@ -8,8 +8,10 @@ import {
   formatSyncSummary,
   displaySyncResult,
   displaySyncPreview,
+  displaySyncSummaryByType,
+  displayPruneResult,
 } from "./sync-display";
-import type { SyncResult } from "../types";
+import type { PruneResult, SyncResult } from "../types";
 
 // Helper to create a sync result
 function createSyncResult(overrides: Partial<SyncResult> = {}): SyncResult {
@@ -33,6 +35,20 @@ function createSyncResult(overrides: Partial<SyncResult> = {}): SyncResult {
   };
 }
 
+// Helper to create a prune result
+function createPruneResult(overrides: Partial<PruneResult> = {}): PruneResult {
+  return {
+    success: true,
+    removed: [],
+    forgotten: [],
+    skipped: [],
+    errors: [],
+    trashDir: null,
+    dryRun: false,
+    ...overrides,
+  };
+}
+
 describe("formatSyncSummary", () => {
   it("formats empty summary", () => {
     const result = createSyncResult();
@@ -178,6 +194,23 @@ describe("displaySyncResult", () => {
     expect(fullOutput).toContain("astro-course/intro");
     expect(fullOutput).toContain("Write failed");
   });
+
+  it("lists merged files and points to conflict files", () => {
+    const result = createSyncResult({
+      success: false,
+      updated: ["a/intro"],
+      merged: ["a/intro"],
+      skipped: ["a/setup"],
+      conflicted: ["a/setup"],
+      summary: { total: 2, created: 0, updated: 1, unchanged: 0, skipped: 1, errors: 0 },
+    });
+
+    displaySyncResult(result);
+
+    const fullOutput = output.join("\n");
+    expect(fullOutput).toContain("Merged (platform edits kept):");
+    expect(fullOutput).toContain("Merge conflicts in a/setup were written to .conflict files");
+  });
 });
 
 describe("displaySyncPreview", () => {
@@ -250,3 +283,80 @@ describe("displaySyncPreview", () => {
     expect(fullOutput).toContain("Unchanged:");
   });
 });
+
+describe("displaySyncSummaryByType", () => {
+  let logSpy: ReturnType<typeof spyOn>;
+  let output: string[];
+
+  beforeEach(() => {
+    output = [];
+    logSpy = spyOn(console, "log").mockImplementation((msg?: unknown) => {
+      if (msg !== undefined) output.push(String(msg));
+    });
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  it("shows one line per content type", () => {
+    const skippedGuide = createSyncResult({
+      skipped: ["guides/setup"],
+      summary: { total: 1, created: 0, updated: 0, unchanged: 0, skipped: 1, errors: 0 },
+    });
+
+    displaySyncSummaryByType({
+      lesson: createSyncResult(),
+      guide: skippedGuide,
+      asset: createSyncResult(),
+    });
+
+    expect(output).toEqual([
+      "By type:",
+      "  Lessons: 0 files",
+      "  Guides:  1 files, 1 skipped",
+      "  Assets:  0 files",
+      "",
+    ]);
+  });
+});
+
+describe("displayPruneResult", () => {
+  let logSpy: ReturnType<typeof spyOn>;
+  let output: string[];
+
+  beforeEach(() => {
+    output = [];
+    logSpy = spyOn(console, "log").mockImplementation((msg?: unknown) => {
+      if (msg !== undefined) output.push(String(msg));
+    });
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  it("previews removals in dry-run mode", () => {
+    displayPruneResult(
+      createPruneResult({ dryRun: true, removed: ["astro-course/old"], trashDir: ".coursekit-trash/20260301T120000" })
+    );
+
+    const fullOutput = output.join("\n");
+    expect(fullOutput).toContain("Would move to .coursekit-trash/20260301T120000:");
+    expect(fullOutput).toContain("astro-course/old");
+  });
+
+  it("shows files kept because they changed on the platform", () => {
+    displayPruneResult(createPruneResult({ success: false, skipped: ["astro-course/old"] }));
+
+    const fullOutput = output.join("\n");
+    expect(fullOutput).toContain("Kept (modified on platform since last sync):");
+    expect(fullOutput).toContain("--force");
+  });
+
+  it("says so when nothing needs pruning", () => {
+    displayPruneResult(createPruneResult());
+
+    expect(output.join("\n")).toContain("no removed source files");
+  });
+});
@@ -4,7 +4,14 @@
  * Format and display sync results in the terminal.
  */
 
-import type { SyncResult, SyncSummary } from "../types";
+import type { PruneResult, SyncContentType, SyncResult, SyncSummary } from "../types";
+
+/** Report labels for content types, in display order */
+export const CONTENT_TYPE_LABELS: Record<SyncContentType, string> = {
+  lesson: "Lessons",
+  guide: "Guides",
+  asset: "Assets",
+};
 
 // =============================================================================
 // Formatting Functions
@@ -45,6 +52,19 @@ export function formatSyncSummary(summary: SyncSummary): string {
 // Display Functions
 // =============================================================================
 
+/**
+ * Explain where merge conflicts went, if any.
+ */
+function printConflictFileHint(result: SyncResult): void {
+  if (!result.conflicted || result.conflicted.length === 0) return;
+
+  const verb = result.dryRun ? "would be written" : "were written";
+  console.log(`Merge conflicts in ${result.conflicted.join(", ")} ${verb} to .conflict files`);
+  console.log("next to the platform lessons. Resolve them into the source lesson, then push");
+  console.log("that course with --force.");
+  console.log("");
+}
+
 /**
  * Display sync result in the terminal.
  *
@@ -81,6 +101,15 @@ export function displaySyncResult(result: SyncResult): void {
     console.log("");
   }
 
+  // Show merged files
+  if (result.merged && result.merged.length > 0) {
+    console.log("Merged (platform edits kept):");
+    for (const key of result.merged) {
+      console.log(`  ≈ ${key}`);
+    }
+    console.log("");
+  }
+
   // Show skipped files (conflicts)
   if (result.skipped.length > 0) {
     console.log("Skipped (conflicts):");
@@ -88,6 +117,7 @@ export function displaySyncResult(result: SyncResult): void {
       console.log(`  ! ${key}`);
     }
     console.log("");
+    printConflictFileHint(result);
     console.log("Use --force to overwrite conflicting files.");
     console.log("");
   }
@@ -102,6 +132,19 @@ export function displaySyncResult(result: SyncResult): void {
   }
 }
 
+/**
+ * Display one summary line per content type.
+ *
+ * @param results - Sync result for each content type
+ */
+export function displaySyncSummaryByType(results: Record<SyncContentType, SyncResult>): void {
+  console.log("By type:");
+  for (const [type, label] of Object.entries(CONTENT_TYPE_LABELS) as [SyncContentType, string][]) {
+    console.log(`  ${`${label}:`.padEnd(9)}${formatSyncSummary(results[type].summary)}`);
+  }
+  console.log("");
+}
+
 /**
  * Display sync preview (for dry-run mode).
  *
@@ -131,6 +174,15 @@ export function displaySyncPreview(result: SyncResult): void {
     console.log("");
   }
 
+  // Show what would be merged
+  if (result.merged && result.merged.length > 0) {
+    console.log("Would merge (platform edits kept):");
+    for (const key of result.merged) {
+      console.log(`  ≈ ${key}`);
+    }
+    console.log("");
+  }
+
   // Show unchanged
   if (result.unchanged.length > 0) {
     console.log(`Unchanged: ${result.unchanged.length} files`);
@@ -144,6 +196,7 @@ export function displaySyncPreview(result: SyncResult): void {
       console.log(`  ! ${key}`);
     }
     console.log("");
+    printConflictFileHint(result);
     console.log("Use --force to overwrite conflicting files.");
     console.log("");
   }
@@ -152,3 +205,64 @@ export function displaySyncPreview(result: SyncResult): void {
   console.log(`Summary: ${formatSyncSummary(result.summary)}`);
   console.log("═══════════════════════════════════════════════════════════════");
 }
+
+/**
+ * Display prune result (or preview, for dry-run mode).
+ *
+ * @param result - Prune result to display
+ */
+export function displayPruneResult(result: PruneResult): void {
+  const verb = (done: string, planned: string) => (result.dryRun ? planned : done);
+  const removal = result.trashDir
+    ? verb(`Moved to ${result.trashDir}`, `Would move to ${result.trashDir}`)
+    : verb("Deleted", "Would delete");
+
+  console.log("");
+  if (
+    result.removed.length === 0 &&
+    result.forgotten.length === 0 &&
+    result.skipped.length === 0 &&
+    result.errors.length === 0
+  ) {
+    console.log("Prune: no removed source files");
+    return;
+  }
+
+  // Show removed files
+  if (result.removed.length > 0) {
+    console.log(`${removal}:`);
+    for (const key of result.removed) {
+      console.log(`  - ${key}`);
+    }
+    console.log("");
+  }
+
+  // Show records whose platform file was already gone
+  if (result.forgotten.length > 0) {
+    console.log(`${verb("Forgot", "Would forget")} (already gone from platform):`);
+    for (const key of result.forgotten) {
+      console.log(`  - ${key}`);
+    }
+    console.log("");
+  }
+
+  // Show files kept because they changed on the platform
+  if (result.skipped.length > 0) {
+    console.log(`${verb("Kept", "Would keep")} (modified on platform since last sync):`);
+    for (const key of result.skipped) {
+      console.log(`  ! ${key}`);
+    }
+    console.log("");
+    console.log("Use --force to prune modified files.");
+    console.log("");
+  }
+
+  // Show errors
+  if (result.errors.length > 0) {
+    console.log("Errors:");
+    for (const error of result.errors) {
+      console.log(`  ✗ ${error.key}: ${error.message}`);
+    }
+    console.log("");
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Sync Prune Tests
+ * Tests for removing platform files whose source was deleted.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  buildTrashDir,
+  executePrune,
+  findPruneCandidates,
+  type SourceScope,
+} from "./sync-prune";
+import { executeLessonSync } from "./lesson-sync";
+import { initializeSyncState, loadSyncState, saveSyncState } from "./sync-state";
+import type { CourseKitConfig, SyncRecord } from "../types";
+
+// Test fixture directory
+const TEST_ROOT = path.join(process.cwd(), "test-fixtures/sync-prune");
+
+function createTestConfig(sourceDir: string, platformDir: string): CourseKitConfig {
+  return {
+    platform: { path: platformDir },
+    courses: {
+      "test-course": {
+        slug: "test-course",
+        sourceDir: path.join(sourceDir, "courses/test-course"),
+      },
+    },
+  };
+}
+
+function record(filePath: string): SyncRecord {
+  return { filePath, contentHash: "abc", syncedAt: "2026-01-28T10:00:00Z", sourceRepo: "test-course" };
+}
+
+function scope(overrides: Partial<SourceScope> = {}): SourceScope {
+  return { keys: new Set(), lessonCourses: new Set(), guides: false, assetCourse: null, ...overrides };
+}
+
+describe("findPruneCandidates", () => {
+  const state = initializeSyncState();
+  state.records = {
+    "a/intro": record("src/content/lessons/a/01-intro.md"),
+    "a/old": record("src/content/lessons/a/02-old.md"),
+    "b/old": record("src/content/lessons/b/01-old.md"),
+    "guides/retired": record("src/content/guides/retired.md"),
+    "assets/a/old.png": record("public/courses/a/old.png"),
+    "assets/b/old.png": record("public/courses/b/old.png"),
+  };
+
+  it("returns records missing from scanned source", () => {
+    const candidates = findPruneCandidates(
+      state,
+      scope({ keys: new Set(["a/intro"]), lessonCourses: new Set(["a"]), guides: true, assetCourse: "a" })
+    );
+
+    expect(candidates.map((c) => c.key)).toEqual(["a/old", "assets/a/old.png", "guides/retired"]);
+    expect(candidates[1].contentType).toBe("asset");
+  });
+
+  it("ignores records whose source was not scanned", () => {
+    expect(findPruneCandidates(state, scope())).toEqual([]);
+  });
+});
+
+describe("buildTrashDir", () => {
+  it("uses a compact UTC timestamp", () => {
+    expect(buildTrashDir(new Date("2026-03-01T12:34:56.789Z"))).toBe(
+      path.join(".coursekit-trash", "20260301T123456")
+    );
+  });
+});
+
+describe("executePrune", () => {
+  const testDir = path.join(TEST_ROOT, "prune-test");
+  let sourceDir: string;
+  let platformDir: string;
+  let lessonsDir: string;
+  let config: CourseKitConfig;
+
+  const platformLesson = (filename: string) =>
+    path.join(platformDir, "src/content/lessons/test-course", filename);
+
+  beforeEach(async () => {
+    await fs.promises.rm(testDir, { recursive: true, force: true });
+    sourceDir = path.join(testDir, "source");
+    platformDir = path.join(testDir, "platform");
+    lessonsDir = path.join(sourceDir, "courses/test-course/lessons");
+    await fs.promises.mkdir(lessonsDir, { recursive: true });
+    await fs.promises.mkdir(platformDir, { recursive: true });
+    config = createTestConfig(sourceDir, platformDir);
+
+    await Bun.write(path.join(lessonsDir, "01-intro.md"), "---\ntitle: Intro\n---\n\nWelcome.");
+    await Bun.write(path.join(lessonsDir, "02-old.md"), "---\ntitle: Old\n---\n\nRetired.");
+    await executeLessonSync(config, {});
+    fs.unlinkSync(path.join(lessonsDir, "02-old.md"));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("deletes synced files whose source was removed", async () => {
+    await Bun.write(platformLesson("03-native.md"), "---\ntitle: Native\n---\n\nPlatform only.");
+
+    const result = await executePrune(config);
+
+    expect(result.success).toBe(true);
+    expect(result.removed).toEqual(["test-course/old"]);
+    expect(fs.existsSync(platformLesson("02-old.md"))).toBe(false);
+    expect(fs.existsSync(platformLesson("01-intro.md"))).toBe(true);
+    expect(fs.existsSync(platformLesson("03-native.md"))).toBe(true);
+    expect(Object.keys((await loadSyncState(platformDir)).records)).toEqual(["test-course/intro"]);
+  });
+
+  it("previews without touching files in dry-run mode", async () => {
+    const result = await executePrune(config, { dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.removed).toEqual(["test-course/old"]);
+    expect(fs.existsSync(platformLesson("02-old.md"))).toBe(true);
+    expect((await loadSyncState(platformDir)).records["test-course/old"]).toBeDefined();
+  });
+
+  it("moves files to the trash folder", async () => {
+    const result = await executePrune(config, { trash: true });
+
+    expect(result.trashDir).toMatch(/^\.coursekit-trash[\\/]\d{8}T\d{6}$/);
+    expect(fs.existsSync(platformLesson("02-old.md"))).toBe(false);
+    expect(
+      fs.existsSync(
+        path.join(platformDir, result.trashDir!, "src/content/lessons/test-course/02-old.md")
+      )
+    ).toBe(true);
+  });
+
+  it("keeps files modified on the platform unless forced", async () => {
+    await Bun.write(platformLesson("02-old.md"), "---\ntitle: Old\n---\n\nHotfixed on platform.");
+
+    const result = await executePrune(config);
+    expect(result.success).toBe(false);
+    expect(result.skipped).toEqual(["test-course/old"]);
+    expect(fs.existsSync(platformLesson("02-old.md"))).toBe(true);
+
+    const forced = await executePrune(config, { force: true });
+    expect(forced.removed).toEqual(["test-course/old"]);
+    expect(fs.existsSync(platformLesson("02-old.md"))).toBe(false);
+  });
+
+  it("forgets records whose platform file is already gone", async () => {
+    fs.unlinkSync(platformLesson("02-old.md"));
+
+    const result = await executePrune(config);
+
+    expect(result.removed).toEqual([]);
+    expect(result.forgotten).toEqual(["test-course/old"]);
+    expect((await loadSyncState(platformDir)).records["test-course/old"]).toBeUndefined();
+  });
+
+  it("leaves records alone when the course source is missing", async () => {
+    await fs.promises.rm(lessonsDir, { recursive: true });
+
+    const result = await executePrune(config);
+
+    expect(result.removed).toEqual([]);
+    expect(fs.existsSync(platformLesson("01-intro.md"))).toBe(true);
+  });
+
+  it("refuses records pointing outside the platform", async () => {
+    const state = await loadSyncState(platformDir);
+    state.records["test-course/old"].filePath = "../outside.md";
+    await saveSyncState(platformDir, state);
+
+    const result = await executePrune(config);
+
+    expect(result.errors.map((e) => e.key)).toEqual(["test-course/old"]);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Sync Prune
+ *
+ * Remove platform files that CourseKit synced earlier but whose source was
+ * deleted or renamed. Only files with a record in .coursekit-sync.json are
+ * candidates; platform-native files are never touched.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+  CourseKitConfig,
+  PruneCandidate,
+  PruneOptions,
+  PruneResult,
+  SyncContentType,
+  SyncError,
+  SyncState,
+} from "../types";
+import { discoverLessons } from "./discovery";
+import { discoverGuides } from "./guide-discovery";
+import { discoverAssets } from "./asset-discovery";
+import { buildAssetKey, resolveAssetCourseSlug } from "./asset-sync";
+import { loadSyncState, saveSyncState, deleteSyncRecord, getSyncContentType } from "./sync-state";
+import { hashPlatformFile } from "./platform-utils";
+
+/** Folder in the platform root that receives trashed files */
+export const TRASH_DIRNAME = ".coursekit-trash";
+
+// =============================================================================
+// Source Scope
+// =============================================================================
+
+/**
+ * What the source currently contains, and which parts of it could be read.
+ * Records outside the scope are left alone, so a missing source directory
+ * never looks like "everything was deleted".
+ */
+export interface SourceScope {
+  /** Canonical keys of all content present in source */
+  keys: Set<string>;
+  /** Course IDs whose lessons directory was scanned */
+  lessonCourses: Set<string>;
+  /** Whether guides were scanned */
+  guides: boolean;
+  /** Course slug assets were scanned for (null if not scanned) */
+  assetCourse: string | null;
+}
+
+/**
+ * Scan source lessons, guides and assets to build the prune scope.
+ * Guides are not tied to a course, so they are only in scope without a course filter.
+ *
+ * @param config - CourseKit configuration
+ * @param courseId - Optional course filter
+ * @returns SourceScope describing current source content
+ */
+export async function collectSourceScope(
+  config: CourseKitConfig,
+  courseId?: string
+): Promise<SourceScope> {
+  const keys = new Set<string>();
+  const lessonCourses = new Set<string>();
+
+  const lessonManifest = discoverLessons(config, { courseId });
+  for (const lesson of lessonManifest.lessons) {
+    keys.add(`${lesson.courseId}/${lesson.slug}`);
+    lessonCourses.add(lesson.courseId);
+  }
+  for (const warning of lessonManifest.warnings) {
+    // An empty lessons directory means every lesson was removed
+    if (warning.code === "EMPTY_LESSONS_DIR") {
+      lessonCourses.add(path.basename(path.dirname(warning.path)));
+    }
+  }
+
+  let guides = false;
+  if (!courseId) {
+    const guideManifest = await discoverGuides(config);
+    guides = !guideManifest.warnings.some((w) => w.code === "MISSING_MATERIALS_DIR");
+    for (const guide of guideManifest.guides) {
+      keys.add(`guides/${guide.slug}`);
+    }
+  }
+
+  let assetCourse: string | null = null;
+  const assetManifest = await discoverAssets(config);
+  if (!assetManifest.warnings.some((w) => w.code === "MISSING_MATERIALS_DIR")) {
+    assetCourse = resolveAssetCourseSlug(config, courseId);
+    for (const asset of assetManifest.assets) {
+      keys.add(buildAssetKey(assetCourse, asset.relativePath));
+    }
+  }
+
+  return { keys, lessonCourses, guides, assetCourse };
+}
+
+// =============================================================================
+// Candidate Selection
+// =============================================================================
+
+/**
+ * Find sync records whose source no longer exists.
+ *
+ * @param state - Sync state with records from earlier pushes
+ * @param scope - Current source scope
+ * @returns Candidates sorted by key
+ */
+export function findPruneCandidates(state: SyncState, scope: SourceScope): PruneCandidate[] {
+  const candidates: PruneCandidate[] = [];
+
+  for (const [key, record] of Object.entries(state.records)) {
+    if (scope.keys.has(key)) continue;
+
+    const contentType = getSyncContentType(key);
+    const inScope =
+      contentType === "lesson"
+        ? scope.lessonCourses.has(key.split("/")[0])
+        : contentType === "guide"
+          ? scope.guides
+          : scope.assetCourse !== null && key.startsWith(`assets/${scope.assetCourse}/`);
+
+    if (inScope) {
+      candidates.push({ key, contentType, record });
+    }
+  }
+
+  return candidates.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// =============================================================================
+// File Removal
+// =============================================================================
+
+/**
+ * Build the trash folder path for a prune run.
+ *
+ * @param now - Time of the run
+ * @returns Path relative to the platform root, e.g. ".coursekit-trash/20260301T120000"
+ */
+export function buildTrashDir(now: Date): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\..*$/, "");
+  return path.join(TRASH_DIRNAME, stamp);
+}
+
+/**
+ * Remove platform files whose source was deleted.
+ *
+ * Files modified on the platform since the last sync are skipped unless
+ * force is set. Files that are already gone only lose their sync record.
+ *
+ * @param config - CourseKit configuration
+ * @param options - Prune options (dryRun, force, courseId, trash)
+ * @returns PruneResult with details of what was removed
+ */
+export async function executePrune(
+  config: CourseKitConfig,
+  options: PruneOptions = {}
+): Promise<PruneResult> {
+  const platformRoot = config.platform.path;
+  const dryRun = options.dryRun ?? false;
+  const force = options.force ?? false;
+  const trashDir = options.trash ? buildTrashDir(new Date()) : null;
+
+  const removed: string[] = [];
+  const forgotten: string[] = [];
+  const skipped: string[] = [];
+  const errors: SyncError[] = [];
+
+  const syncState = await loadSyncState(platformRoot);
+  const scope = await collectSourceScope(config, options.courseId);
+  const candidates = findPruneCandidates(syncState, scope);
+
+  for (const { key, contentType, record } of candidates) {
+    const targetPath = path.resolve(platformRoot, record.filePath);
+    const relativePath = path.relative(platformRoot, targetPath);
+
+    if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+      errors.push({
+        key,
+        error: new Error("Path outside platform"),
+        message: `Refusing to remove ${record.filePath}: outside the platform directory`,
+      });
+      continue;
+    }
+
+    if (!fs.existsSync(targetPath)) {
+      forgotten.push(key);
+      if (!dryRun) deleteSyncRecord(syncState, key);
+      continue;
+    }
+
+    if (!force && (await hashPlatformFile(contentType, targetPath)) !== record.contentHash) {
+      skipped.push(key);
+      continue;
+    }
+
+    if (dryRun) {
+      removed.push(key);
+      continue;
+    }
+
+    try {
+      if (trashDir) {
+        const trashPath = path.join(platformRoot, trashDir, relativePath);
+        await fs.promises.mkdir(path.dirname(trashPath), { recursive: true });
+        await fs.promises.rename(targetPath, trashPath);
+      } else {
+        await fs.promises.unlink(targetPath);
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      errors.push({ key, error: err, message: `Failed to remove ${key}: ${err.message}` });
+      continue;
+    }
+
+    deleteSyncRecord(syncState, key);
+    removed.push(key);
+  }
+
+  // Save sync state (unless dry-run)
+  if (!dryRun && (removed.length > 0 || forgotten.length > 0)) {
+    syncState.lastSync = new Date().toISOString();
+    await saveSyncState(platformRoot, syncState);
+  }
+
+  return {
+    success: skipped.length === 0 && errors.length === 0,
+    removed,
+    forgotten,
+    skipped,
+    errors,
+    trashDir,
+    dryRun,
+  };
+}
@@ -14,6 +14,7 @@ import {
   getSyncRecord,
   deleteSyncRecord,
   getAllSyncRecords,
+  getSyncContentType,
   getSyncStateFilePath,
   SYNC_STATE_VERSION,
 } from "./sync-state";
@@ -244,4 +245,12 @@ describe("Sync State Utilities", () => {
       expect(records.map(r => r.contentHash).sort()).toEqual(["abc123", "def456"]);
     });
   });
+
+  describe("getSyncContentType", () => {
+    it("derives the content type from the key", () => {
+      expect(getSyncContentType("astro-course/intro")).toBe("lesson");
+      expect(getSyncContentType("guides/setup")).toBe("guide");
+      expect(getSyncContentType("assets/astro-course/hero.png")).toBe("asset");
+    });
+  });
 });
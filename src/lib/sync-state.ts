@@ -7,7 +7,7 @@
 
 import * as fs from "node:fs";
 import * as path from "node:path";
-import type { SyncState, SyncRecord } from "../types";
+import type { SyncContentType, SyncState, SyncRecord } from "../types";
 
 /** Current schema version for sync state */
 export const SYNC_STATE_VERSION = 1;
@@ -182,3 +182,15 @@ export function deleteSyncRecord(state: SyncState, key: string): void {
 export function getAllSyncRecords(state: SyncState): SyncRecord[] {
   return Object.values(state.records);
 }
+
+/**
+ * Get the content type of a sync record from its canonical key.
+ *
+ * @param key - Canonical key ("courseId/slug", "guides/slug" or "assets/course/path")
+ * @returns Content type
+ */
+export function getSyncContentType(key: string): SyncContentType {
+  if (key.startsWith("guides/")) return "guide";
+  if (key.startsWith("assets/")) return "asset";
+  return "lesson";
+}
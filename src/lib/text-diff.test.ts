@@ -0,0 +1,55 @@
+/**
+ * Text Diff Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { diffLines, formatUnifiedDiff, hasConflictMarkers, markDifferences } from "./text-diff";
+
+describe("diffLines", () => {
+  it("lists removals before additions in a change", () => {
+    expect(diffLines(["a", "b", "c"], ["a", "B", "c", "d"])).toEqual([
+      { type: "equal", line: "a" },
+      { type: "remove", line: "b" },
+      { type: "add", line: "B" },
+      { type: "equal", line: "c" },
+      { type: "add", line: "d" },
+    ]);
+  });
+});
+
+describe("formatUnifiedDiff", () => {
+  it("returns an empty string for equal texts", () => {
+    expect(formatUnifiedDiff("a\nb", "a\nb")).toBe("");
+  });
+
+  it("formats hunks with context", () => {
+    const a = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"].join("\n");
+    const b = ["1", "2", "3", "4", "five", "6", "7", "8", "9", "10"].join("\n");
+
+    expect(formatUnifiedDiff(a, b, { fromLabel: "source", toLabel: "platform", context: 2 })).toBe(
+      ["--- source", "+++ platform", "@@ -3,5 +3,5 @@", " 3", " 4", "-5", "+five", " 6", " 7"].join("\n")
+    );
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const a = Array.from({ length: 20 }, (_, i) => String(i + 1)).join("\n");
+    const b = a.replace(/^2$/m, "two").replace(/^19$/m, "nineteen");
+
+    const diff = formatUnifiedDiff(a, b, { context: 1 });
+
+    expect(diff.split("\n").filter((line) => line.startsWith("@@"))).toEqual([
+      "@@ -1,3 +1,3 @@",
+      "@@ -18,3 +18,3 @@",
+    ]);
+  });
+});
+
+describe("markDifferences", () => {
+  it("marks each differing region", () => {
+    const marked = markDifferences("a\nsource\nc", "a\nplatform\nc");
+
+    expect(marked).toBe("a\n<<<<<<< source\nsource\n=======\nplatform\n>>>>>>> platform\nc");
+    expect(hasConflictMarkers(marked)).toBe(true);
+    expect(hasConflictMarkers("a\n==\nc")).toBe(false);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Text Diff
+ *
+ * Line-level diffing shared by the merge engine and conflict review:
+ * longest-common-subsequence matching, unified diff output and two-way
+ * conflict marking.
+ */
+
+/** Opening conflict marker (source side follows) */
+export const MARKER_SOURCE = "<<<<<<< source";
+
+/** Separator between source and platform sides */
+export const MARKER_SEPARATOR = "=======";
+
+/** Closing conflict marker (platform side precedes) */
+export const MARKER_PLATFORM = ">>>>>>> platform";
+
+/**
+ * A single line in a diff.
+ */
+export interface LineDiffOp {
+  type: "equal" | "remove" | "add";
+  line: string;
+}
+
+/**
+ * Split text into lines, normalizing line endings to LF.
+ *
+ * @param text - Text to split
+ * @returns Lines without terminators
+ */
+export function splitLines(text: string): string[] {
+  return text.replace(/\r\n?/g, "\n").split("\n");
+}
+
+/**
+ * Check whether text contains an unresolved conflict marker line.
+ *
+ * @param text - Text to check
+ * @returns True if any marker line is present
+ */
+export function hasConflictMarkers(text: string): boolean {
+  return splitLines(text).some(
+    (line) => line === MARKER_SOURCE || line === MARKER_SEPARATOR || line === MARKER_PLATFORM
+  );
+}
+
+/**
+ * Match each line of a to a line of b via longest common subsequence.
+ * Common prefix and suffix are matched first to keep the table small.
+ *
+ * @param a - First list of lines
+ * @param b - Second list of lines
+ * @returns For each index in a, the matched index in b, or -1
+ */
+export function matchLines(a: string[], b: string[]): Int32Array {
+  const matches = new Int32Array(a.length).fill(-1);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start;
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    matches[endA] = endB;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[start + i] === b[start + j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      matches[start + i] = start + j;
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Diff two lists of lines. Removals come before additions within a change.
+ *
+ * @param a - Old lines
+ * @param b - New lines
+ * @returns Diff operations in order
+ */
+export function diffLines(a: string[], b: string[]): LineDiffOp[] {
+  const matches = matchLines(a, b);
+  const ops: LineDiffOp[] = [];
+  let j = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    if (matches[i] < 0) {
+      ops.push({ type: "remove", line: a[i] });
+      continue;
+    }
+    while (j < matches[i]) {
+      ops.push({ type: "add", line: b[j++] });
+    }
+    ops.push({ type: "equal", line: a[i] });
+    j++;
+  }
+  while (j < b.length) {
+    ops.push({ type: "add", line: b[j++] });
+  }
+
+  return ops;
+}
+
+/**
+ * Format a unified diff between two texts.
+ *
+ * @param a - Old text
+ * @param b - New text
+ * @param options - Header labels and context lines (default 3)
+ * @returns Unified diff, or an empty string if the texts are equal
+ */
+export function formatUnifiedDiff(
+  a: string,
+  b: string,
+  options: { fromLabel?: string; toLabel?: string; context?: number } = {}
+): string {
+  const context = options.context ?? 3;
+  const ops = diffLines(splitLines(a), splitLines(b));
+  if (ops.every((op) => op.type === "equal")) return "";
+
+  // Line numbers (1-based) of each op in a and b
+  const positions: { a: number; b: number }[] = [];
+  let lineA = 1;
+  let lineB = 1;
+  for (const op of ops) {
+    positions.push({ a: lineA, b: lineB });
+    if (op.type !== "add") lineA++;
+    if (op.type !== "remove") lineB++;
+  }
+
+  const out = [`--- ${options.fromLabel ?? "a"}`, `+++ ${options.toLabel ?? "b"}`];
+  let index = 0;
+
+  while (index < ops.length) {
+    // Find the next change and open a hunk around it
+    while (index < ops.length && ops[index].type === "equal") index++;
+    if (index >= ops.length) break;
+
+    // Extend it over changes separated by at most twice the context
+    const start = Math.max(0, index - context);
+    let lastChange = index;
+    for (let k = index + 1; k < ops.length && k - lastChange <= context * 2 + 1; k++) {
+      if (ops[k].type !== "equal") lastChange = k;
+    }
+    const end = Math.min(ops.length, lastChange + context + 1);
+
+    const hunk = ops.slice(start, end);
+    const countA = hunk.filter((op) => op.type !== "add").length;
+    const countB = hunk.filter((op) => op.type !== "remove").length;
+    const startA = countA === 0 ? positions[start].a - 1 : positions[start].a;
+    const startB = countB === 0 ? positions[start].b - 1 : positions[start].b;
+
+    out.push(`@@ -${startA},${countA} +${startB},${countB} @@`);
+    for (const op of hunk) {
+      const prefix = op.type === "equal" ? " " : op.type === "remove" ? "-" : "+";
+      out.push(`${prefix}${op.line}`);
+    }
+
+    index = end;
+  }
+
+  return out.join("\n");
+}
+
+/**
+ * Mark every difference between two texts with conflict markers.
+ * Used when there is no common base for a three-way merge.
+ *
+ * @param source - Source text
+ * @param platform - Platform text
+ * @returns Text with common lines kept and each differing region marked
+ */
+export function markDifferences(source: string, platform: string): string {
+  const ops = diffLines(splitLines(source), splitLines(platform));
+  const lines: string[] = [];
+  let sourceSide: string[] = [];
+  let platformSide: string[] = [];
+
+  const flush = () => {
+    if (sourceSide.length === 0 && platformSide.length === 0) return;
+    lines.push(MARKER_SOURCE, ...sourceSide, MARKER_SEPARATOR, ...platformSide, MARKER_PLATFORM);
+    sourceSide = [];
+    platformSide = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === "equal") {
+      flush();
+      lines.push(op.line);
+    } else if (op.type === "remove") {
+      sourceSide.push(op.line);
+    } else {
+      platformSide.push(op.line);
+    }
+  }
+  flush();
+
+  return lines.join("\n");
+}
@@ -0,0 +1,119 @@
+/**
+ * Three-Way Merge Tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { mergeFields, mergeLessonContent, mergeLines, mergeText } from "./three-way-merge";
+
+describe("mergeLines", () => {
+  const base = ["a", "b", "c", "d", "e"];
+
+  it("combines edits to different lines", () => {
+    const result = mergeLines(base, ["a", "B", "c", "d", "e"], ["a", "b", "c", "D", "e"]);
+    expect(result).toEqual({ lines: ["a", "B", "c", "D", "e"], conflicts: 0 });
+  });
+
+  it("keeps insertions and deletions from both sides", () => {
+    const result = mergeLines(base, ["start", "a", "b", "c", "d", "e"], ["a", "b", "d", "e", "end"]);
+    expect(result.lines).toEqual(["start", "a", "b", "d", "e", "end"]);
+  });
+
+  it("accepts the same edit made on both sides", () => {
+    expect(mergeLines(base, ["a", "X", "c", "d", "e"], ["a", "X", "c", "d", "e"]).conflicts).toBe(0);
+  });
+
+  it("marks conflicting edits to the same lines", () => {
+    const result = mergeLines(base, ["a", "source", "c", "d", "e"], ["a", "platform", "c", "d", "e"]);
+
+    expect(result.conflicts).toBe(1);
+    expect(result.lines).toEqual([
+      "a",
+      "<<<<<<< source",
+      "source",
+      "=======",
+      "platform",
+      ">>>>>>> platform",
+      "c",
+      "d",
+      "e",
+    ]);
+  });
+
+  it("handles an empty base", () => {
+    expect(mergeLines([], ["x"], []).lines).toEqual(["x"]);
+  });
+});
+
+describe("mergeText", () => {
+  it("normalizes line endings", () => {
+    expect(mergeText("a\r\nb", "a\r\nb", "a\nB").text).toBe("a\nB");
+  });
+});
+
+describe("mergeFields", () => {
+  it("takes each side's own changes", () => {
+    const result = mergeFields(
+      { title: "Intro", duration: 10 },
+      { title: "Introduction", duration: 10 },
+      { title: "Intro", duration: 12, featured: true }
+    );
+
+    expect(result).toEqual({ fields: { title: "Introduction", duration: 12, featured: true }, conflicts: [] });
+  });
+
+  it("drops fields removed on one side", () => {
+    expect(mergeFields({ a: 1, b: 2 }, { a: 1 }, { a: 1, b: 2 }).fields).toEqual({ a: 1 });
+  });
+
+  it("reports fields changed differently on both sides", () => {
+    const result = mergeFields({ title: "A" }, { title: "B" }, { title: "C" });
+    expect(result).toEqual({ fields: { title: "B" }, conflicts: ["title"] });
+  });
+
+  it("lets the platform win protected fields", () => {
+    const result = mergeFields({ price: 10 }, { price: 20 }, { price: 30 }, ["price"]);
+    expect(result).toEqual({ fields: { price: 30 }, conflicts: [] });
+  });
+});
+
+describe("mergeLessonContent", () => {
+  const base = "---\ntitle: Intro\norder: 1\n---\n\n# Intro\n\nTeh first line.\n\nSecond line.\n";
+
+  it("keeps a platform hotfix alongside source edits", () => {
+    const source = "---\ntitle: Intro\norder: 1\n---\n\n# Intro\n\nTeh first line.\n\nSecond line, expanded.\n";
+    const platform = "---\ntitle: Intro\norder: 1\n---\n\n# Intro\n\nThe first line.\n\nSecond line.\n";
+
+    const result = mergeLessonContent(base, source, platform);
+
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe(
+      "---\ntitle: Intro\norder: 1\n---\n\n# Intro\n\nThe first line.\n\nSecond line, expanded.\n"
+    );
+  });
+
+  it("keeps the platform's frontmatter formatting when it wins", () => {
+    const platform = "---\ntitle:   Intro\norder: 1\npublishedAt: 2026-01-01\n---\n\n# Intro\n\nTeh first line.\n\nSecond line.\n";
+
+    const result = mergeLessonContent(base, base, platform);
+
+    expect(result.content).toBe(platform);
+  });
+
+  it("marks frontmatter and body conflicts", () => {
+    const source = "---\ntitle: Welcome\norder: 1\n---\n\n# Intro\n\nSource line.\n\nSecond line.\n";
+    const platform = "---\ntitle: Hello\norder: 1\n---\n\n# Intro\n\nPlatform line.\n\nSecond line.\n";
+
+    const result = mergeLessonContent(base, source, platform);
+
+    expect(result.clean).toBe(false);
+    expect(result.conflicts).toEqual(["title", "body"]);
+    expect(result.content).toContain(
+      "order: 1\n<<<<<<< source\ntitle: Welcome\n=======\ntitle: Hello\n>>>>>>> platform\n---"
+    );
+    expect(result.content).toContain("<<<<<<< source\nSource line.\n=======\nPlatform line.\n>>>>>>> platform");
+  });
+
+  it("merges files without frontmatter", () => {
+    expect(mergeLessonContent("a\n\nb\n", "A\n\nb\n", "a\n\nB\n").content).toBe("A\n\nB\n");
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Three-Way Merge
+ *
+ * Merge source and platform versions of a lesson against the content last
+ * synced. Bodies are merged line by line (diff3), frontmatter field by field.
+ * Real conflicts are marked git-style with "<<<<<<< source" / ">>>>>>> platform".
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import type { LessonMergeResult } from "../types";
+import {
+  MARKER_PLATFORM,
+  MARKER_SEPARATOR,
+  MARKER_SOURCE,
+  matchLines,
+  splitLines,
+} from "./text-diff";
+
+// =============================================================================
+// Line Merge
+// =============================================================================
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Merge two edited versions of a list of lines against their common base.
+ *
+ * @param base - Lines at last sync
+ * @param source - Lines in source
+ * @param platform - Lines on platform
+ * @returns Merged lines and the number of conflict blocks
+ */
+export function mergeLines(
+  base: string[],
+  source: string[],
+  platform: string[]
+): { lines: string[]; conflicts: number } {
+  const toSource = matchLines(base, source);
+  const toPlatform = matchLines(base, platform);
+  const lines: string[] = [];
+  let conflicts = 0;
+
+  let b = 0;
+  let s = 0;
+  let p = 0;
+
+  while (true) {
+    // Lines kept unchanged on both sides
+    if (b < base.length && toSource[b] === s && toPlatform[b] === p) {
+      lines.push(base[b]);
+      b++;
+      s++;
+      p++;
+      continue;
+    }
+
+    // Find the next base line both sides still have
+    let next = b;
+    while (next < base.length && (toSource[next] < 0 || toPlatform[next] < 0)) {
+      next++;
+    }
+    const nextSource = next < base.length ? toSource[next] : source.length;
+    const nextPlatform = next < base.length ? toPlatform[next] : platform.length;
+
+    const baseChunk = base.slice(b, next);
+    const sourceChunk = source.slice(s, nextSource);
+    const platformChunk = platform.slice(p, nextPlatform);
+
+    if (sameLines(sourceChunk, platformChunk) || sameLines(platformChunk, baseChunk)) {
+      lines.push(...sourceChunk);
+    } else if (sameLines(sourceChunk, baseChunk)) {
+      lines.push(...platformChunk);
+    } else {
+      conflicts++;
+      lines.push(MARKER_SOURCE, ...sourceChunk, MARKER_SEPARATOR, ...platformChunk, MARKER_PLATFORM);
+    }
+
+    if (next >= base.length) break;
+    b = next;
+    s = nextSource;
+    p = nextPlatform;
+  }
+
+  return { lines, conflicts };
+}
+
+/**
+ * Merge text line by line. Line endings are normalized to LF.
+ *
+ * @returns Merged text and the number of conflict blocks
+ */
+export function mergeText(
+  base: string,
+  source: string,
+  platform: string
+): { text: string; conflicts: number } {
+  const { lines, conflicts } = mergeLines(splitLines(base), splitLines(source), splitLines(platform));
+  return { text: lines.join("\n"), conflicts };
+}
+
+// =============================================================================
+// Frontmatter Merge
+// =============================================================================
+
+/**
+ * Compare two frontmatter values structurally.
+ */
+export function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Merge frontmatter field by field.
+ * A field changed on one side only takes that side's value. Protected
+ * (platform-owned) fields keep the platform value when both sides changed.
+ *
+ * @param base - Frontmatter at last sync
+ * @param source - Source frontmatter
+ * @param platform - Platform frontmatter
+ * @param protectedFields - Fields owned by the platform
+ * @returns Merged fields (source value for conflicts) and conflicting field names
+ */
+export function mergeFields(
+  base: Record<string, unknown>,
+  source: Record<string, unknown>,
+  platform: Record<string, unknown>,
+  protectedFields: string[] = []
+): { fields: Record<string, unknown>; conflicts: string[] } {
+  const fields: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+  const keys = [...new Set([...Object.keys(source), ...Object.keys(platform), ...Object.keys(base)])];
+
+  for (const key of keys) {
+    const sourceValue = source[key];
+    const platformValue = platform[key];
+    let value: unknown;
+
+    if (sameValue(sourceValue, platformValue) || sameValue(platformValue, base[key])) {
+      value = sourceValue;
+    } else if (sameValue(sourceValue, base[key]) || protectedFields.includes(key)) {
+      value = platformValue;
+    } else {
+      value = sourceValue;
+      conflicts.push(key);
+    }
+
+    if (value !== undefined) {
+      fields[key] = value;
+    }
+  }
+
+  return { fields, conflicts };
+}
+
+// =============================================================================
+// Lesson Merge
+// =============================================================================
+
+/**
+ * A markdown file split into frontmatter and body.
+ */
+export interface SplitFile {
+  /** Raw frontmatter text (null if the file has none) */
+  raw: string | null;
+  /** Parsed frontmatter fields (empty if missing or unparseable) */
+  fields: Record<string, unknown>;
+  /** Everything after the closing "---" line */
+  body: string;
+}
+
+/**
+ * Split a markdown file into frontmatter and body.
+ *
+ * @param content - File content
+ * @returns Raw and parsed frontmatter plus the body
+ */
+export function splitFrontmatter(content: string): SplitFile {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)([\s\S]*)$/);
+  if (!match) {
+    return { raw: null, fields: {}, body: content };
+  }
+
+  let fields: Record<string, unknown> = {};
+  try {
+    const parsed = parseYaml(match[1]);
+    if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+      fields = parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Treat unparseable frontmatter as empty
+  }
+
+  return { raw: match[1], fields, body: match[2] };
+}
+
+function sameFields(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => key in b && sameValue(a[key], b[key]));
+}
+
+function yamlField(key: string, value: unknown): string {
+  return value === undefined ? "" : stringifyYaml({ [key]: value }).trimEnd();
+}
+
+/**
+ * Three-way merge a lesson file.
+ *
+ * Frontmatter formatting is kept from whichever side already has the merged
+ * fields; otherwise it is re-serialized. Conflicting fields are written as
+ * marker blocks inside the frontmatter, keeping the rest parseable by eye.
+ *
+ * @param base - File content at last sync
+ * @param source - Source file content
+ * @param platform - Platform file content
+ * @param protectedFields - Frontmatter fields owned by the platform
+ * @returns Merged content and the list of conflicts
+ */
+export function mergeLessonContent(
+  base: string,
+  source: string,
+  platform: string,
+  protectedFields: string[] = []
+): LessonMergeResult {
+  const baseFile = splitFrontmatter(base);
+  const sourceFile = splitFrontmatter(source);
+  const platformFile = splitFrontmatter(platform);
+
+  const { fields, conflicts } = mergeFields(
+    baseFile.fields,
+    sourceFile.fields,
+    platformFile.fields,
+    protectedFields
+  );
+  const body = mergeText(baseFile.body, sourceFile.body, platformFile.body);
+
+  let frontmatter: string | null;
+  if (conflicts.length > 0) {
+    const resolved = Object.fromEntries(
+      Object.entries(fields).filter(([key]) => !conflicts.includes(key))
+    );
+    const blocks = conflicts.map((key) =>
+      [MARKER_SOURCE, yamlField(key, sourceFile.fields[key]), MARKER_SEPARATOR, yamlField(key, platformFile.fields[key]), MARKER_PLATFORM]
+        .filter((line) => line !== "")
+        .join("\n")
+    );
+    const clean = Object.keys(resolved).length > 0 ? stringifyYaml(resolved).trimEnd() : "";
+    frontmatter = [clean, ...blocks].filter((part) => part !== "").join("\n");
+  } else if (platformFile.raw !== null && sameFields(fields, platformFile.fields)) {
+    frontmatter = platformFile.raw;
+  } else if (sourceFile.raw !== null && sameFields(fields, sourceFile.fields)) {
+    frontmatter = sourceFile.raw;
+  } else if (Object.keys(fields).length > 0) {
+    frontmatter = stringifyYaml(fields).trimEnd();
+  } else {
+    frontmatter = null;
+  }
+
+  if (body.conflicts > 0) {
+    conflicts.push("body");
+  }
+
+  const content = frontmatter === null ? body.text : `---\n${frontmatter}\n---\n${body.text}`;
+
+  return { content, conflicts, clean: conflicts.length === 0 };
+}
@@ -19,10 +19,37 @@ export interface PlatformConfig {
   remote?: string;
 }
 
+/** Supported LLM provider backends */
+export type LLMProviderType = "openai" | "anthropic" | "fixture";
+
+/** LLM provider configuration (coursekit.json "llm" section) */
+export interface LLMConfig {
+  provider: LLMProviderType;
+  /** Model name sent to the HTTP API (required for openai/anthropic) */
+  model?: string;
+  /** API base URL, e.g. for OpenAI-compatible local servers */
+  baseUrl?: string;
+  /** Environment variable holding the API key */
+  apiKeyEnv?: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Directory of canned responses (fixture provider only) */
+  fixtureDir?: string;
+}
+
+/**
+ * Extra Bloom verbs for one language (coursekit.json "bloomVerbs" entry or a
+ * course's bloom-verbs.json). Lists are added to the built-in pack.
+ */
+export type BloomVerbExtension = Partial<Record<BloomLevel | "vague", string[]>>;
+
 /** Top-level coursekit.json configuration */
 export interface CourseKitConfig {
   platform: PlatformConfig;
   courses: Record<string, CourseMapping>;
+  llm?: LLMConfig;
+  /** Bloom verb extensions keyed by language code */
+  bloomVerbs?: Record<string, BloomVerbExtension>;
 }
 
 // =============================================================================
@@ -443,6 +470,8 @@ export interface Course {
   status: CourseStatus;
   /** Current phase */
   phase: CoursePhase;
+  /** Language the course is written in (e.g., "en", "de") */
+  language: string;
   /** Path to course directory */
   coursePath: string | null;
   /** When the course was created */
@@ -451,6 +480,8 @@ export interface Course {
   startedAt: Date | null;
   /** When course was launched */
   launchedAt: Date | null;
+  /** When the course was archived (null unless archived) */
+  archivedAt: Date | null;
 }
 
 // =============================================================================
@@ -462,6 +493,24 @@ export interface Course {
  */
 export type LessonStatus = "planned" | "drafted" | "recorded" | "edited" | "published";
 
+/**
+ * A recorded change of lesson status
+ */
+export interface LessonStatusChange {
+  /** Lesson path (e.g., "M1/L2") */
+  lessonPath: string;
+  /** Status before the change */
+  fromStatus: LessonStatus;
+  /** Status after the change */
+  toStatus: LessonStatus;
+  /** Why the status changed */
+  note: string | null;
+  /** Whether the change skipped the allowed transitions */
+  forced: boolean;
+  /** When the change happened */
+  changedAt: Date;
+}
+
 /**
  * A lesson within a module
  */
@@ -472,8 +521,8 @@ export interface Lesson {
   title: string;
   /** Learning objective (with Bloom verb) */
   objective: string;
-  /** Bloom level */
-  bloomLevel: BloomLevel;
+  /** Bloom level (null if the objective has no Bloom verb) */
+  bloomLevel: BloomLevel | null;
   /** Estimated duration in minutes */
   duration: number;
   /** Current status */
@@ -516,8 +565,8 @@ export interface LearningObjective {
   id: string;
   /** The objective text */
   text: string;
-  /** Bloom's taxonomy level */
-  bloomLevel: BloomLevel;
+  /** Bloom's taxonomy level (null if no Bloom verb was recognized) */
+  bloomLevel: BloomLevel | null;
   /** The action verb used */
   verb: string;
   /** Assessment method */
@@ -605,6 +654,11 @@ export interface CourseDesign {
  */
 export type TaskStatus = "pending" | "in_progress" | "completed" | "blocked";
 
+/**
+ * Kind of content a development task produces
+ */
+export type TaskType = "script" | "slides" | "exercise" | "assessment" | "support";
+
 /**
  * A development task for a lesson
  */
@@ -614,7 +668,7 @@ export interface DevelopmentTask {
   /** Lesson path (e.g., "M1/L2") */
   lessonPath: string;
   /** Task type */
-  type: "script" | "slides" | "exercise" | "assessment" | "support";
+  type: TaskType;
   /** Task description */
   description: string;
   /** Current status */
@@ -645,6 +699,32 @@ export interface ProductionStatus {
   notes: string | null;
 }
 
+// =============================================================================
+// Quiz Questions
+// =============================================================================
+
+/**
+ * A generated quiz question for a module's question bank
+ */
+export interface QuizQuestion {
+  /** Question ID within module (e.g., "Q1", "Q2") */
+  id: string;
+  /** Module the question belongs to */
+  moduleId: string;
+  /** Objective being assessed (lesson path, e.g., "M1/L2") */
+  objectiveId: string;
+  /** Bloom level of the assessed objective */
+  bloomLevel: BloomLevel;
+  /** Question text */
+  stem: string;
+  /** Answer choices (empty for open-response questions) */
+  choices: string[];
+  /** Correct choice text, or expected response for open questions */
+  answer: string;
+  /** Why the answer is correct / what the question checks */
+  rationale: string;
+}
+
 // =============================================================================
 // Course Stats
 // =============================================================================
@@ -685,32 +765,8 @@ export interface SingleCourseStats {
 // Bloom's Taxonomy Helpers
 // =============================================================================
 
-/**
- * Bloom's taxonomy action verbs by level
- */
-export const BLOOM_VERBS: Record<BloomLevel, string[]> = {
-  remember: ["list", "define", "recall", "identify", "name", "state", "describe"],
-  understand: ["explain", "summarize", "paraphrase", "classify", "compare", "interpret"],
-  apply: ["use", "demonstrate", "implement", "execute", "solve", "apply", "show"],
-  analyze: ["differentiate", "organize", "attribute", "compare", "contrast", "examine"],
-  evaluate: ["assess", "critique", "judge", "justify", "evaluate", "argue", "defend"],
-  create: ["design", "construct", "produce", "develop", "formulate", "build", "compose"],
-};
-
-/**
- * Detect Bloom level from an objective text
- */
-export function detectBloomLevel(objective: string): BloomLevel | null {
-  const lowerObjective = objective.toLowerCase();
-  for (const [level, verbs] of Object.entries(BLOOM_VERBS)) {
-    for (const verb of verbs) {
-      if (lowerObjective.includes(verb)) {
-        return level as BloomLevel;
-      }
-    }
-  }
-  return null;
-}
+// Defined in src/lib/bloom.ts
+export { BLOOM_LEVELS, BLOOM_VERBS, detectBloomLevel } from "./lib/bloom";
 
 // =============================================================================
 // Diff Calculation (F-7)
@@ -813,6 +869,8 @@ export interface SyncRecord {
   syncedAt: string;
   /** Which source repository the file came from */
   sourceRepo: string;
+  /** Source file content at last sync, used as the three-way merge base */
+  baseContent?: string;
 }
 
 /**
@@ -836,8 +894,10 @@ export type ConflictType = "modified" | "deleted" | "new_on_platform";
  * A single conflict item detected during push.
  */
 export interface ConflictItem {
-  /** Canonical key (courseId/slug) */
+  /** Canonical key (courseId/slug, guides/slug or assets/course/path) */
   key: string;
+  /** Kind of content the file holds */
+  contentType: SyncContentType;
   /** Path to file on platform (if exists) */
   platformPath?: string;
   /** Expected hash from sync state */
@@ -862,14 +922,38 @@ export interface ConflictDetectionResult {
   conflicts: ConflictItem[];
   /** Total number of files checked */
   totalChecked: number;
+  /** Checked files and conflicts per content type */
+  byType: Record<SyncContentType, ConflictTypeSummary>;
+}
+
+/**
+ * Conflict counts for one content type.
+ */
+export interface ConflictTypeSummary {
+  /** Number of files checked */
+  checked: number;
+  /** Number of conflicts found */
+  conflicts: number;
 }
 
 /**
  * Options for conflict detection.
  */
 export interface ConflictDetectionOptions {
-  /** Filter to a specific course ID */
+  /** Filter to a specific course ID (guides are skipped) */
   courseId?: string;
+  /** Content types to check (default: all) */
+  contentTypes?: SyncContentType[];
+}
+
+/**
+ * A platform file with the hash conflict detection compares.
+ */
+export interface PlatformFileHash {
+  /** Absolute path to the platform file */
+  path: string;
+  /** Hash comparable to SyncRecord.contentHash */
+  contentHash: string;
 }
 
 /**
@@ -946,6 +1030,10 @@ export interface SyncResult {
   unchanged: string[];
   /** Keys of files skipped due to conflicts */
   skipped: string[];
+  /** Keys updated by a three-way merge that kept platform edits (also in updated) */
+  merged?: string[];
+  /** Keys with merge conflicts written to a .conflict file (also in skipped) */
+  conflicted?: string[];
   /** Errors encountered during sync */
   errors: SyncError[];
   /** Summary counts */
@@ -953,3 +1041,141 @@ export interface SyncResult {
   /** Whether this was a dry run */
   dryRun: boolean;
 }
+
+// =============================================================================
+// Three-Way Merge
+// =============================================================================
+
+/**
+ * Result of merging one lesson file.
+ */
+export interface LessonMergeResult {
+  /** Merged file content; contains conflict markers when not clean */
+  content: string;
+  /** Conflicting frontmatter fields, plus "body" if the body conflicts */
+  conflicts: string[];
+  /** Whether the merge completed without conflicts */
+  clean: boolean;
+}
+
+// =============================================================================
+// Conflict Resolution
+// =============================================================================
+
+/**
+ * How to settle a single push conflict.
+ * - keep-platform: leave the platform file alone for now (push skips it)
+ * - take-source: overwrite the platform file with source
+ * - edit: write a hand-merged file to the platform
+ * - adopt-platform: accept the platform file as synced
+ */
+export type ConflictResolution = "keep-platform" | "take-source" | "edit" | "adopt-platform";
+
+/**
+ * Everything needed to review one conflict.
+ */
+export interface ConflictReview {
+  /** Conflict reported by detection */
+  conflict: ConflictItem;
+  /** Course ID */
+  courseId: string;
+  /** Source lesson path */
+  sourcePath: string;
+  /** Platform lesson path (where source is written if the file was deleted) */
+  targetPath: string;
+  /** Whether the platform file exists */
+  platformExists: boolean;
+  /** Frontmatter differences between source and platform */
+  changes: FieldChange[];
+  /** Unified diff of the source body against the platform body */
+  diff: string;
+  /** Resolutions that apply to this conflict */
+  choices: ConflictResolution[];
+  /** Starting point for the edit resolution, with conflict markers (null if not editable) */
+  mergeDraft: string | null;
+}
+
+/**
+ * A resolution chosen for a reviewed conflict.
+ */
+export interface ConflictDecision {
+  /** Reviewed conflict */
+  review: ConflictReview;
+  /** Chosen resolution */
+  resolution: ConflictResolution;
+  /** Hand-merged content for the edit resolution */
+  content?: string;
+}
+
+/**
+ * Result of applying conflict resolutions.
+ */
+export interface ResolutionResult {
+  /** Keys overwritten with source */
+  tookSource: string[];
+  /** Keys written from a hand-merged file */
+  edited: string[];
+  /** Keys whose platform file was accepted as synced */
+  adopted: string[];
+  /** Keys left for later */
+  kept: string[];
+  /** Errors encountered while applying */
+  errors: SyncError[];
+  /** Whether this was a dry run */
+  dryRun: boolean;
+}
+
+// =============================================================================
+// Sync Prune
+// =============================================================================
+
+/**
+ * Kind of content a sync record belongs to.
+ */
+export type SyncContentType = "lesson" | "guide" | "asset";
+
+/**
+ * Options for pruning platform files whose source was removed.
+ */
+export interface PruneOptions {
+  /** Preview removals without touching files */
+  dryRun?: boolean;
+  /** Remove files even if they were modified on the platform */
+  force?: boolean;
+  /** Filter to specific course ID */
+  courseId?: string;
+  /** Move files into the trash folder instead of deleting them */
+  trash?: boolean;
+}
+
+/**
+ * A synced platform file whose source no longer exists.
+ */
+export interface PruneCandidate {
+  /** Canonical key of the sync record */
+  key: string;
+  /** Content type derived from the key */
+  contentType: SyncContentType;
+  /** Sync record for the file */
+  record: SyncRecord;
+}
+
+/**
+ * Result of a prune operation.
+ */
+export interface PruneResult {
+  /** Whether prune completed without conflicts or errors */
+  success: boolean;
+  /** Keys whose platform files were deleted (or moved to trash) */
+  removed: string[];
+  /** Keys whose platform files were already gone; only the record was dropped */
+  forgotten: string[];
+  /** Keys skipped because the platform file changed since the last sync */
+  skipped: string[];
+  /** Errors encountered while removing files */
+  errors: SyncError[];
+  /** Trash folder used for this run, relative to the platform root (null when deleting) */
+  trashDir: string | null;
+  /** Whether this was a dry run */
+  dryRun: boolean;
+}